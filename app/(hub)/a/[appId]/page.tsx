@@ -1,10 +1,19 @@
-import { APP_REGISTRY, getAppById } from "@/lib/apps/registry"
+import { readFile } from "fs/promises"
+import path from "path"
+import { APP_REGISTRY, getAppById, validateAppRegistry } from "@/lib/apps/registry"
 import { AppPageClient } from "./app-page-client"
 import type { Metadata } from "next"
 
 // Generate static params for all apps in the registry
 // This ensures all app routes are pre-generated at build time
 export async function generateStaticParams() {
+  // Fail the build if the app manifests and firestore.rules have drifted apart
+  const firestoreRules = await readFile(path.join(process.cwd(), "firestore.rules"), "utf8")
+  const { valid, errors } = validateAppRegistry({ firestoreRules })
+  if (!valid) {
+    throw new Error(`Invalid app registry:\n${errors.join("\n")}`)
+  }
+
   try {
     // Map all apps to their appId for static generation
     const params = APP_REGISTRY.map((app) => ({
@@ -4,6 +4,7 @@ import * as React from "react"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/components/auth/auth-provider"
 import { db } from "@/lib/firebase/config"
+import { publishUserProfile } from "@/lib/user-profiles"
 import { 
   updateProfile, 
   updatePassword, 
@@ -17,6 +18,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
 import { Loader2, User as UserIcon, AtSign, Lock, Save } from "lucide-react"
+import { CalendarFeedCard } from "./calendar-feed-card"
 
 interface UserProfile {
   displayName: string
@@ -137,6 +139,7 @@ export function AccountSettings() {
           updatedAt: serverTimestamp(),
         })
       }
+      await publishUserProfile(user.uid, profile.displayName || profile.username || "")
 
       toast.success("Profile updated successfully")
     } catch (error: any) {
@@ -395,6 +398,8 @@ export function AccountSettings() {
         </Card>
       )}
 
+      <CalendarFeedCard uid={user.uid} />
+
       {/* Future: Mini App Settings Section */}
       <Card className="border-dashed">
         <CardHeader>
@@ -0,0 +1,166 @@
+"use client"
+
+import * as React from "react"
+import { db } from "@/lib/firebase/config"
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { toast } from "sonner"
+import { CalendarDays, Copy, Loader2, RefreshCw } from "lucide-react"
+
+interface CalendarFeedCardProps {
+  uid: string
+}
+
+// The feed is served by the calendarFeed function through the /calendar/** hosting rewrite
+function getFeedUrl(feedId: string): string {
+  return `${window.location.origin}/calendar/${feedId}.ics`
+}
+
+export function CalendarFeedCard({ uid }: CalendarFeedCardProps) {
+  const [feedId, setFeedId] = React.useState<string | null>(null)
+  const [loading, setLoading] = React.useState(true)
+  const [saving, setSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    const loadFeed = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, "calendarFeeds"), where("uid", "==", uid), limit(1)))
+        setFeedId(snapshot.empty ? null : snapshot.docs[0].id)
+      } catch (error) {
+        console.error("Failed to load calendar feed:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadFeed()
+  }, [uid])
+
+  // The document ID is the secret part of the URL, so it comes from Firestore's random IDs
+  const createFeed = async () => {
+    try {
+      setSaving(true)
+      const feedRef = doc(collection(db, "calendarFeeds"))
+      await setDoc(feedRef, { uid, createdAt: serverTimestamp() })
+      setFeedId(feedRef.id)
+      toast.success("Calendar link created")
+    } catch (error) {
+      console.error("Failed to create calendar feed:", error)
+      toast.error("Failed to create calendar link")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const resetFeed = async () => {
+    if (!feedId) return
+    if (!confirm("Create a new link? Calendars subscribed to the current link will stop updating.")) {
+      return
+    }
+
+    try {
+      setSaving(true)
+      const batch = writeBatch(db)
+      const feedRef = doc(collection(db, "calendarFeeds"))
+      batch.delete(doc(db, "calendarFeeds", feedId))
+      batch.set(feedRef, { uid, createdAt: serverTimestamp() })
+      await batch.commit()
+      setFeedId(feedRef.id)
+      toast.success("New calendar link created")
+    } catch (error) {
+      console.error("Failed to reset calendar feed:", error)
+      toast.error("Failed to reset calendar link")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteFeed = async () => {
+    if (!feedId) return
+    if (!confirm("Turn off your calendar link? Subscribed calendars will stop updating.")) {
+      return
+    }
+
+    try {
+      setSaving(true)
+      await deleteDoc(doc(db, "calendarFeeds", feedId))
+      setFeedId(null)
+      toast.success("Calendar link turned off")
+    } catch (error) {
+      console.error("Failed to delete calendar feed:", error)
+      toast.error("Failed to turn off calendar link")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copyFeedUrl = () => {
+    if (!feedId) return
+    navigator.clipboard.writeText(getFeedUrl(feedId))
+    toast.success("Calendar link copied to clipboard")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your Pickup Soccer games and Secret Santa exchanges from Google Calendar, Apple Calendar or
+          Outlook. Reminders follow each app&apos;s reminder setting.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : feedId ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={getFeedUrl(feedId)} readOnly className="font-mono text-xs" aria-label="Calendar link" />
+              <Button variant="outline" size="icon" onClick={copyFeedUrl} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your games and exchanges. Reset it if it has been shared by mistake.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild>
+                <a href={getFeedUrl(feedId).replace(/^https?:/, "webcal:")}>
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  Subscribe
+                </a>
+              </Button>
+              <Button variant="outline" onClick={resetFeed} disabled={saving}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset Link
+              </Button>
+              <Button variant="ghost" className="text-destructive" onClick={deleteFeed} disabled={saving}>
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={createFeed} disabled={saving}>
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Create Calendar Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
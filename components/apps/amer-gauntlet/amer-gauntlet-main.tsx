@@ -27,6 +27,7 @@ import {
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
+import { useAppSettings } from "@/components/apps/use-app-settings"
 import { db } from "@/lib/firebase/config"
 import {
   collection,
@@ -44,6 +45,9 @@ import {
 } from "firebase/firestore"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AMER_GAUNTLET_SETTINGS } from "./settings-schema"
+import { DIFFICULTY_SCORING, calculateScore, type Difficulty } from "./scoring"
+import { playSoundEffect, type SoundEffect } from "./sound-effects"
 
 // Word list for daily puzzles (deterministic based on date)
 const WORD_LIST = [
@@ -106,6 +110,8 @@ interface GameResult {
   completed: boolean
   score: number
   hintsUsed: number
+  // Missing on results saved before difficulty levels affected scoring
+  difficulty?: Difficulty
 }
 
 interface LeaderboardEntry {
@@ -154,55 +160,16 @@ export function AmerGauntletMain() {
   const [allTimeLeaderboard, setAllTimeLeaderboard] = React.useState<LeaderboardEntry[]>([])
   const [userStats, setUserStats] = React.useState<UserStats | null>(null)
   const [history, setHistory] = React.useState<GameResult[]>([])
-  const [settings, setSettings] = React.useState({
-    showTimer: true,
-    showHints: true,
-    soundEffects: false,
-    animations: true,
-    difficulty: "normal" as "easy" | "normal" | "hard",
-    autoSubmit: false,
-  })
+  const { settings } = useAppSettings(AMER_GAUNTLET_SETTINGS)
+  const scoring = DIFFICULTY_SCORING[settings.difficulty]
+
+  const playSound = (effect: SoundEffect) => {
+    if (settings.soundEffects) playSoundEffect(effect)
+  }
 
   const today = new Date()
   const todayStr = today.toISOString().split('T')[0]
 
-  // Load settings
-  React.useEffect(() => {
-    if (!user) {
-      setSettings({
-        showTimer: true,
-        showHints: true,
-        soundEffects: false,
-        animations: true,
-        difficulty: "normal",
-        autoSubmit: false,
-      })
-      return
-    }
-
-    const loadSettings = async () => {
-      try {
-        const settingsRef = doc(db, "users", user.uid, "amerGauntletSettings", "default")
-        const settingsDoc = await getDoc(settingsRef)
-        if (settingsDoc.exists()) {
-          const data = settingsDoc.data()
-          setSettings({
-            showTimer: data.showTimer ?? true,
-            showHints: data.showHints ?? true,
-            soundEffects: data.soundEffects ?? false,
-            animations: data.animations ?? true,
-            difficulty: data.difficulty ?? "normal",
-            autoSubmit: data.autoSubmit ?? false,
-          })
-        }
-      } catch (error) {
-        console.error("Failed to load settings:", error)
-      }
-    }
-
-    loadSettings()
-  }, [user])
-
   // Initialize game
   React.useEffect(() => {
     const word = getDailyWord(today)
@@ -423,15 +390,15 @@ export function AmerGauntletMain() {
     setShowHint(false)
   }
 
-  const submitGuess = () => {
+  const submitGuess = (rawGuess: string = currentGuess) => {
     if (!gameStarted || gameCompleted) return
-    if (currentGuess.length !== dailyWord.length) {
+    if (rawGuess.length !== dailyWord.length) {
       toast.error(`Guess must be ${dailyWord.length} letters`)
       return
     }
-    if (currentGuess.length > 0) {
+    if (rawGuess.length > 0) {
       // Convert to uppercase for consistency
-      const guess = currentGuess.toUpperCase()
+      const guess = rawGuess.toUpperCase()
       const result = checkGuess(guess, dailyWord)
       
       const newGuesses = [...guesses, guess]
@@ -443,10 +410,14 @@ export function AmerGauntletMain() {
 
       const newAttempts = newGuesses.length
       if (guess === dailyWord) {
+        playSound("win")
         completeGame(newAttempts, true, newGuesses, newResults)
       } else if (newAttempts >= 6) {
         // Max attempts reached
+        playSound("lose")
         completeGame(newAttempts, false, newGuesses, newResults)
+      } else {
+        playSound("guess")
       }
     }
   }
@@ -463,12 +434,7 @@ export function AmerGauntletMain() {
     setGameCompleted(true)
     setGameStarted(false)
 
-    // Calculate score: base score - time penalty - attempt penalty - hint penalty
-    const baseScore = won ? 1000 : 0
-    const timePenalty = Math.floor(finalTime / 10) // 1 point per 10 seconds
-    const attemptPenalty = (attempts - 1) * 50 // 50 points per attempt
-    const hintPenalty = hintsUsed * 100 // 100 points per hint
-    const score = Math.max(0, baseScore - timePenalty - attemptPenalty - hintPenalty)
+    const score = calculateScore(settings.difficulty, { won, seconds: finalTime, attempts, hintsUsed })
 
     const result: GameResult = {
       date: todayStr,
@@ -478,6 +444,7 @@ export function AmerGauntletMain() {
       completed: won,
       score,
       hintsUsed,
+      difficulty: settings.difficulty,
     }
 
     setTodayResult(result)
@@ -600,6 +567,7 @@ export function AmerGauntletMain() {
     setHintsUsed(hintsUsed + 1)
     setHintRevealed(true)
     setShowHint(true)
+    playSound("hint")
     toast.info("Hint revealed! Check the hint below.")
   }
 
@@ -743,6 +711,9 @@ export function AmerGauntletMain() {
                     <Badge variant="outline">
                       Attempts: {guesses.length}/6
                     </Badge>
+                    <Badge variant="secondary" className="capitalize">
+                      {settings.difficulty}
+                    </Badge>
                     {settings.showHints && !hintRevealed && (
                       <Button
                         variant="outline"
@@ -751,7 +722,7 @@ export function AmerGauntletMain() {
                         className="flex items-center gap-1"
                       >
                         <Lightbulb className="h-3 w-3" />
-                        Use Hint (-100 pts)
+                        Use Hint (-{scoring.hintPenalty} pts)
                       </Button>
                     )}
                   </div>
@@ -829,15 +800,15 @@ export function AmerGauntletMain() {
                         const val = e.target.value.toUpperCase().replace(/[^A-Z]/g, '')
                         if (val.length <= dailyWord.length) {
                           setCurrentGuess(val)
+                          // Auto-submit as soon as the last letter is typed
+                          if (settings.autoSubmit && val.length === dailyWord.length && val !== currentGuess) {
+                            submitGuess(val)
+                          }
                         }
                       }}
                       onKeyDown={(e) => {
                         if (e.key === 'Enter') {
-                          if (settings.autoSubmit && currentGuess.length === dailyWord.length) {
-                            submitGuess()
-                          } else if (!settings.autoSubmit) {
-                            submitGuess()
-                          }
+                          submitGuess()
                         }
                       }}
                       placeholder={`Enter ${dailyWord.length} letters`}
@@ -845,7 +816,7 @@ export function AmerGauntletMain() {
                       className="text-center text-lg font-mono"
                       autoFocus
                     />
-                    <Button onClick={submitGuess} disabled={currentGuess.length !== dailyWord.length}>
+                    <Button onClick={() => submitGuess()} disabled={currentGuess.length !== dailyWord.length}>
                       Submit
                     </Button>
                   </div>
@@ -8,100 +8,32 @@ import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { parseAppSettings } from "@/lib/apps/app-settings"
 import { toast } from "sonner"
 import { Trash2, Download, Upload, RotateCcw } from "lucide-react"
-
-interface AmerGauntletSettings {
-  showTimer: boolean
-  showHints: boolean
-  soundEffects: boolean
-  animations: boolean
-  difficulty: "easy" | "normal" | "hard"
-  autoSubmit: boolean
-}
-
-const DEFAULT_SETTINGS: AmerGauntletSettings = {
-  showTimer: true,
-  showHints: true,
-  soundEffects: false,
-  animations: true,
-  difficulty: "normal",
-  autoSubmit: false,
-}
+import {
+  DEFAULT_AMER_GAUNTLET_SETTINGS,
+  AMER_GAUNTLET_SETTINGS,
+  type AmerGauntletSettingsValues,
+} from "./settings-schema"
 
 export function AmerGauntletSettings() {
   const { user, loading: authLoading } = useAuth()
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
+  const { settings: savedSettings, loading, save } = useAppSettings(AMER_GAUNTLET_SETTINGS)
   const [saving, setSaving] = React.useState(false)
-  const [settings, setSettings] = React.useState<AmerGauntletSettings>(DEFAULT_SETTINGS)
+  const [settings, setSettings] = React.useState<AmerGauntletSettingsValues>(DEFAULT_AMER_GAUNTLET_SETTINGS)
 
+  // Keep the form in sync with the stored settings, including saves made elsewhere
   React.useEffect(() => {
-    if (user && !authLoading) {
-      loadSettings()
-    } else if (!authLoading && !user) {
-      setLoading(false)
-    }
-  }, [user, authLoading])
-
-  const loadSettings = async () => {
-    if (!user) return
-
-    try {
-      setLoading(true)
-      const settingsRef = doc(db, "users", user.uid, "amerGauntletSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      if (settingsDoc.exists()) {
-        const data = settingsDoc.data()
-        setSettings({
-          showTimer: data.showTimer ?? DEFAULT_SETTINGS.showTimer,
-          showHints: data.showHints ?? DEFAULT_SETTINGS.showHints,
-          soundEffects: data.soundEffects ?? DEFAULT_SETTINGS.soundEffects,
-          animations: data.animations ?? DEFAULT_SETTINGS.animations,
-          difficulty: data.difficulty ?? DEFAULT_SETTINGS.difficulty,
-          autoSubmit: data.autoSubmit ?? DEFAULT_SETTINGS.autoSubmit,
-        })
-      } else {
-        setSettings(DEFAULT_SETTINGS)
-      }
-    } catch (error: any) {
-      console.error("Failed to load settings:", error)
-      if (error.code !== "permission-denied") {
-        toast.error("Failed to load settings")
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
+    setSettings(savedSettings)
+  }, [savedSettings])
 
   const saveSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     try {
       setSaving(true)
-      const settingsRef = doc(db, "users", user.uid, "amerGauntletSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      const settingsData = {
-        ...settings,
-        updatedAt: serverTimestamp(),
-      }
-
-      if (settingsDoc.exists()) {
-        await updateDoc(settingsRef, settingsData)
-      } else {
-        await setDoc(settingsRef, {
-          ...settingsData,
-          createdAt: serverTimestamp(),
-        })
-      }
-
+      await save(settings)
       toast.success("Settings saved successfully!")
     } catch (error: any) {
       console.error("Failed to save settings:", error)
@@ -116,25 +48,14 @@ export function AmerGauntletSettings() {
   }
 
   const resetSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     if (!confirm("Are you sure you want to reset all settings to default values?")) {
       return
     }
 
     try {
       setSaving(true)
-      setSettings(DEFAULT_SETTINGS)
-      const settingsRef = doc(db, "users", user.uid, "amerGauntletSettings", "default")
-      await setDoc(settingsRef, {
-        ...DEFAULT_SETTINGS,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      })
-
+      setSettings(DEFAULT_AMER_GAUNTLET_SETTINGS)
+      await save(DEFAULT_AMER_GAUNTLET_SETTINGS)
       toast.success("Settings reset successfully!")
     } catch (error: any) {
       console.error("Failed to reset settings:", error)
@@ -157,11 +78,6 @@ export function AmerGauntletSettings() {
   }
 
   const importSettings = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     const file = event.target.files?.[0]
     if (!file) return
 
@@ -169,7 +85,7 @@ export function AmerGauntletSettings() {
     reader.onload = (e) => {
       try {
         const imported = JSON.parse(e.target?.result as string)
-        setSettings({ ...DEFAULT_SETTINGS, ...imported })
+        setSettings(parseAppSettings(AMER_GAUNTLET_SETTINGS, imported))
         toast.success("Settings imported successfully! Click Save to apply.")
       } catch (error) {
         toast.error("Failed to import settings. Invalid file format.")
@@ -189,18 +105,6 @@ export function AmerGauntletSettings() {
     )
   }
 
-  if (!user) {
-    return (
-      <Card>
-        <CardContent className="py-12 text-center space-y-4">
-          <p className="text-muted-foreground">Please sign in to view and manage your settings</p>
-          <Button onClick={() => setAuthDialogOpen(true)}>Sign In</Button>
-          <AuthDialog open={authDialogOpen} onOpenChange={setAuthDialogOpen} />
-        </CardContent>
-      </Card>
-    )
-  }
-
   return (
     <div className="space-y-6">
       <div>
@@ -208,6 +112,19 @@ export function AmerGauntletSettings() {
         <p className="text-muted-foreground">
           Customize your gauntlet experience
         </p>
+        {!user && (
+          <p className="text-sm text-muted-foreground mt-2">
+            You’re saving settings on this device.{" "}
+            <button
+              type="button"
+              className="text-primary underline underline-offset-4"
+              onClick={() => setAuthDialogOpen(true)}
+            >
+              Sign in
+            </button>{" "}
+            to sync them across devices.
+          </p>
+        )}
       </div>
 
       <Tabs defaultValue="general" className="space-y-4">
@@ -302,7 +219,7 @@ export function AmerGauntletSettings() {
                   <option value="hard">Hard</option>
                 </select>
                 <p className="text-xs text-muted-foreground">
-                  Adjusts scoring and time penalties (currently all use same word list)
+                  Harder levels score more for a win but penalize time, attempts and hints more heavily
                 </p>
               </div>
             </CardContent>
@@ -320,7 +237,7 @@ export function AmerGauntletSettings() {
                 <div className="space-y-0.5">
                   <Label htmlFor="soundEffects">Sound Effects</Label>
                   <p className="text-xs text-muted-foreground">
-                    Play sound effects during gameplay (coming soon)
+                    Play sound effects during gameplay
                   </p>
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
@@ -332,17 +249,16 @@ export function AmerGauntletSettings() {
                       setSettings({ ...settings, soundEffects: e.target.checked })
                     }
                     className="sr-only peer"
-                    disabled
                   />
-                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary opacity-50"></div>
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
                 </label>
               </div>
 
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <Label htmlFor="autoSubmit">Auto-Submit on Enter</Label>
+                  <Label htmlFor="autoSubmit">Auto-Submit</Label>
                   <p className="text-xs text-muted-foreground">
-                    Automatically submit guess when Enter is pressed
+                    Submit your guess as soon as the last letter is typed
                   </p>
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
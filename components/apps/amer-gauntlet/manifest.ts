@@ -0,0 +1,26 @@
+import { Shield } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { AMER_GAUNTLET_SETTINGS } from "./settings-schema"
+import { AmerGauntletMain } from "./amer-gauntlet-main"
+import { AmerGauntletSettings } from "./amer-gauntlet-settings"
+
+export const amerGauntletManifest = defineAppManifest({
+  appId: "amer-gauntlet",
+  name: "Amer Gauntlet",
+  description: "Daily word puzzle challenge with leaderboards and streaks",
+  category: "Games",
+  tags: ["gauntlet", "challenge", "game", "puzzle", "word", "daily", "leaderboard"],
+  status: "live",
+  icon: Shield,
+  accent: "from-red-500 to-orange-500",
+  Main: AmerGauntletMain,
+  Settings: AmerGauntletSettings,
+  settings: AMER_GAUNTLET_SETTINGS,
+  collections: [
+    { name: "amerGauntletSettings", scope: "user", docParam: "settingsId", description: "Amer Gauntlet settings subcollection" },
+    { name: "amerGauntletResults", scope: "user", docParam: "date", description: "Amer Gauntlet results subcollection" },
+    { name: "amerGauntletStats", scope: "user", docParam: "statsId", description: "Amer Gauntlet stats subcollection" },
+    { name: "amerGauntletDailyLeaderboard", scope: "shared", docParam: "entryId", description: "Amer Gauntlet Daily Leaderboard collection" },
+    { name: "amerGauntletAllTimeLeaderboard", scope: "shared", docParam: "userId", description: "Amer Gauntlet All-Time Leaderboard collection" },
+  ],
+})
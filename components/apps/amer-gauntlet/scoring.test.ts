@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { calculateScore } from "./scoring"
+
+describe("calculateScore", () => {
+  const outcome = { won: true, seconds: 100, attempts: 3, hintsUsed: 1 }
+
+  it("scores the same game differently at each difficulty", () => {
+    // 750 - 5 - 50 - 50
+    expect(calculateScore("easy", outcome)).toBe(645)
+    // 1000 - 10 - 100 - 100
+    expect(calculateScore("normal", outcome)).toBe(790)
+    // 1250 - 20 - 200 - 200
+    expect(calculateScore("hard", outcome)).toBe(830)
+  })
+
+  it("rewards a quick first-guess win most on hard", () => {
+    const perfect = { won: true, seconds: 30, attempts: 1, hintsUsed: 0 }
+    expect(calculateScore("easy", perfect)).toBe(749)
+    expect(calculateScore("normal", perfect)).toBe(997)
+    expect(calculateScore("hard", perfect)).toBe(1244)
+  })
+
+  it("never goes below zero", () => {
+    expect(calculateScore("hard", { won: true, seconds: 3600, attempts: 6, hintsUsed: 1 })).toBe(0)
+    expect(calculateScore("easy", { won: false, seconds: 60, attempts: 6, hintsUsed: 0 })).toBe(0)
+  })
+})
@@ -0,0 +1,34 @@
+// Daily puzzle scores, scaled by the difficulty chosen in settings
+
+import type { AmerGauntletSettingsValues } from "./settings-schema"
+
+export type Difficulty = AmerGauntletSettingsValues["difficulty"]
+
+// Harder levels start from a higher base score but penalize time, attempts and hints more
+export const DIFFICULTY_SCORING: Record<Difficulty, {
+  baseScore: number
+  secondsPerPoint: number
+  attemptPenalty: number
+  hintPenalty: number
+}> = {
+  easy: { baseScore: 750, secondsPerPoint: 20, attemptPenalty: 25, hintPenalty: 50 },
+  normal: { baseScore: 1000, secondsPerPoint: 10, attemptPenalty: 50, hintPenalty: 100 },
+  hard: { baseScore: 1250, secondsPerPoint: 5, attemptPenalty: 100, hintPenalty: 200 },
+}
+
+export interface GameOutcome {
+  won: boolean
+  seconds: number
+  attempts: number
+  hintsUsed: number
+}
+
+/** Base score - time penalty - attempt penalty - hint penalty, never below 0. Losing scores 0. */
+export function calculateScore(difficulty: Difficulty, { won, seconds, attempts, hintsUsed }: GameOutcome): number {
+  const scoring = DIFFICULTY_SCORING[difficulty]
+  const baseScore = won ? scoring.baseScore : 0
+  const timePenalty = Math.floor(seconds / scoring.secondsPerPoint)
+  const attemptPenalty = (attempts - 1) * scoring.attemptPenalty
+  const hintPenalty = hintsUsed * scoring.hintPenalty
+  return Math.max(0, baseScore - timePenalty - attemptPenalty - hintPenalty)
+}
@@ -0,0 +1,31 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const amerGauntletSettingsSchema = z.object({
+  showTimer: z.boolean(),
+  showHints: z.boolean(),
+  soundEffects: z.boolean(),
+  animations: z.boolean(),
+  difficulty: z.enum(["easy", "normal", "hard"]),
+  autoSubmit: z.boolean(),
+})
+
+export type AmerGauntletSettingsValues = z.infer<typeof amerGauntletSettingsSchema>
+
+export const DEFAULT_AMER_GAUNTLET_SETTINGS: AmerGauntletSettingsValues = {
+  showTimer: true,
+  showHints: true,
+  soundEffects: false,
+  animations: true,
+  difficulty: "normal",
+  autoSubmit: false,
+}
+
+export const AMER_GAUNTLET_SETTINGS = defineAppSettings({
+  appId: "amer-gauntlet",
+  collection: "amerGauntletSettings",
+  storageKey: "amer-gauntlet-settings",
+  schema: amerGauntletSettingsSchema,
+  defaults: DEFAULT_AMER_GAUNTLET_SETTINGS,
+  version: 1,
+})
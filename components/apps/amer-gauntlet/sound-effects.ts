@@ -0,0 +1,45 @@
+// Short synthesized tones for game feedback (Web Audio API, no audio files to load)
+
+export type SoundEffect = "guess" | "win" | "lose" | "hint"
+
+// [frequency in Hz, duration in seconds] for each note, played in sequence
+const SOUND_NOTES: Record<SoundEffect, Array<[number, number]>> = {
+  guess: [[440, 0.08]],
+  hint: [[660, 0.08], [880, 0.1]],
+  win: [[523, 0.12], [659, 0.12], [784, 0.12], [1047, 0.25]],
+  lose: [[392, 0.18], [330, 0.18], [262, 0.35]],
+}
+
+let audioContext: AudioContext | null = null
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === "undefined" || typeof window.AudioContext === "undefined") return null
+  if (!audioContext) {
+    audioContext = new window.AudioContext()
+  }
+  return audioContext
+}
+
+export function playSoundEffect(effect: SoundEffect) {
+  const ctx = getAudioContext()
+  if (!ctx) return
+
+  try {
+    let start = ctx.currentTime
+    SOUND_NOTES[effect].forEach(([frequency, duration]) => {
+      const oscillator = ctx.createOscillator()
+      const gain = ctx.createGain()
+      oscillator.type = "sine"
+      oscillator.frequency.value = frequency
+      gain.gain.setValueAtTime(0.15, start)
+      gain.gain.exponentialRampToValueAtTime(0.001, start + duration)
+      oscillator.connect(gain)
+      gain.connect(ctx.destination)
+      oscillator.start(start)
+      oscillator.stop(start + duration)
+      start += duration
+    })
+  } catch (error) {
+    console.error("Failed to play sound effect:", error)
+  }
+}
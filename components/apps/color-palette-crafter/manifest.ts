@@ -0,0 +1,24 @@
+import { Palette } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { COLOR_PALETTE_CRAFTER_SETTINGS } from "./settings-schema"
+import { ColorPaletteCrafterMain } from "./color-palette-crafter-main"
+import { ColorPaletteCrafterSettings } from "./color-palette-crafter-settings"
+
+export const colorPaletteCrafterManifest = defineAppManifest({
+  appId: "color-palette-crafter",
+  name: "Color Crafter",
+  description: "Discover, create, and share beautiful color palettes",
+  category: "Visual",
+  tags: ["color", "palette", "design", "craft", "visual", "art"],
+  status: "live",
+  icon: Palette,
+  accent: "from-indigo-500 to-purple-500",
+  Main: ColorPaletteCrafterMain,
+  Settings: ColorPaletteCrafterSettings,
+  settings: COLOR_PALETTE_CRAFTER_SETTINGS,
+  collections: [
+    { name: "colorPaletteCrafterSettings", scope: "user", docParam: "settingsId", description: "Color Palette Crafter settings subcollection" },
+    { name: "colorPaletteCrafterFavorites", scope: "user", docParam: "paletteId", description: "Color Palette Crafter favorites subcollection" },
+    { name: "colorPalettes", scope: "shared", docParam: "paletteId", description: "Color Palettes collection" },
+  ],
+})
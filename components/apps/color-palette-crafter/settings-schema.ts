@@ -0,0 +1,29 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const colorPaletteCrafterSettingsSchema = z.object({
+  defaultColors: z.number().int().min(2).max(8),
+  showColorCodes: z.boolean(),
+  autoCopyOnClick: z.boolean(),
+  defaultExportFormat: z.enum(["hex", "rgb", "json"]),
+  showLikes: z.boolean(),
+})
+
+export type ColorPaletteCrafterSettingsValues = z.infer<typeof colorPaletteCrafterSettingsSchema>
+
+export const DEFAULT_COLOR_PALETTE_CRAFTER_SETTINGS: ColorPaletteCrafterSettingsValues = {
+  defaultColors: 4,
+  showColorCodes: true,
+  autoCopyOnClick: true,
+  defaultExportFormat: "hex",
+  showLikes: true,
+}
+
+export const COLOR_PALETTE_CRAFTER_SETTINGS = defineAppSettings({
+  appId: "color-palette-crafter",
+  collection: "colorPaletteCrafterSettings",
+  storageKey: "color-palette-crafter-settings",
+  schema: colorPaletteCrafterSettingsSchema,
+  defaults: DEFAULT_COLOR_PALETTE_CRAFTER_SETTINGS,
+  version: 1,
+})
@@ -9,96 +9,36 @@ import { Input } from "@/components/ui/input"
 import { Trash2, Download, Upload, RotateCcw } from "lucide-react"
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, deleteDoc, serverTimestamp } from "firebase/firestore"
-
-const STORAGE_KEY = "diff-checker-settings"
-
-interface DiffCheckerSettings {
-  fontSize: number
-  showLineNumbers: boolean
-  ignoreWhitespace: boolean
-  ignoreCase: boolean
-  theme: "light" | "dark" | "auto"
-}
-
-const DEFAULT_SETTINGS: DiffCheckerSettings = {
-  fontSize: 14,
-  showLineNumbers: true,
-  ignoreWhitespace: false,
-  ignoreCase: false,
-  theme: "auto",
-}
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { parseAppSettings } from "@/lib/apps/app-settings"
+import {
+  DEFAULT_DIFF_CHECKER_SETTINGS,
+  DIFF_CHECKER_SETTINGS,
+  type DiffCheckerSettingsValues,
+} from "./settings-schema"
 
 export function DiffCheckerSettings() {
   const { user } = useAuth()
-  const [settings, setSettings] = React.useState<DiffCheckerSettings>(DEFAULT_SETTINGS)
+  const { settings: savedSettings, loading, save, clear } = useAppSettings(DIFF_CHECKER_SETTINGS)
+  const [settings, setSettings] = React.useState<DiffCheckerSettingsValues>(DEFAULT_DIFF_CHECKER_SETTINGS)
   const [hasChanges, setHasChanges] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
 
+  // Follow the stored settings until the user starts editing
   React.useEffect(() => {
-    if (!user) {
-      setLoading(false)
-      return
-    }
-
-    const loadSettings = async () => {
-      try {
-        const settingsRef = doc(db, "users", user.uid, "diffCheckerSettings", "default")
-        const settingsSnap = await getDoc(settingsRef)
-        
-        if (settingsSnap.exists()) {
-          setSettings({ ...DEFAULT_SETTINGS, ...settingsSnap.data() })
-        } else {
-          // Load from localStorage as fallback on first login
-          const localSaved = localStorage.getItem(STORAGE_KEY)
-          if (localSaved) {
-            try {
-              const parsed = JSON.parse(localSaved)
-              setSettings({ ...DEFAULT_SETTINGS, ...parsed })
-              // Migrate to Firestore
-              await setDoc(settingsRef, {
-                ...DEFAULT_SETTINGS,
-                ...parsed,
-                createdAt: serverTimestamp(),
-                updatedAt: serverTimestamp(),
-              })
-            } catch (error) {
-              console.error("Failed to parse localStorage settings:", error)
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Failed to load settings:", error)
-        toast.error("Failed to load settings")
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    loadSettings()
-  }, [user])
+    if (!hasChanges) setSettings(savedSettings)
+  }, [savedSettings, hasChanges])
 
-  const updateSetting = <K extends keyof DiffCheckerSettings>(
+  const updateSetting = <K extends keyof DiffCheckerSettingsValues>(
     key: K,
-    value: DiffCheckerSettings[K]
+    value: DiffCheckerSettingsValues[K]
   ) => {
     setSettings((prev) => ({ ...prev, [key]: value }))
     setHasChanges(true)
   }
 
   const saveSettings = async () => {
-    if (!user) {
-      toast.error("You must be signed in to save settings")
-      return
-    }
-
     try {
-      const settingsRef = doc(db, "users", user.uid, "diffCheckerSettings", "default")
-      await setDoc(settingsRef, {
-        ...settings,
-        updatedAt: serverTimestamp(),
-      })
+      await save(settings)
       setHasChanges(false)
       toast.success("Settings saved successfully")
     } catch (error) {
@@ -108,22 +48,16 @@ export function DiffCheckerSettings() {
   }
 
   const resetSettings = () => {
-    setSettings(DEFAULT_SETTINGS)
+    setSettings(DEFAULT_DIFF_CHECKER_SETTINGS)
     setHasChanges(true)
     toast.info("Settings reset to defaults")
   }
 
   const clearAllData = async () => {
-    if (!user) {
-      toast.error("You must be signed in to clear data")
-      return
-    }
-
     if (confirm("Are you sure you want to clear all data? This cannot be undone.")) {
       try {
-        const settingsRef = doc(db, "users", user.uid, "diffCheckerSettings", "default")
-        await deleteDoc(settingsRef)
-        setSettings(DEFAULT_SETTINGS)
+        await clear()
+        setSettings(DEFAULT_DIFF_CHECKER_SETTINGS)
         setHasChanges(false)
         toast.success("All data cleared")
       } catch (error) {
@@ -153,7 +87,7 @@ export function DiffCheckerSettings() {
     reader.onload = (e) => {
       try {
         const imported = JSON.parse(e.target?.result as string)
-        setSettings({ ...DEFAULT_SETTINGS, ...imported })
+        setSettings(parseAppSettings(DIFF_CHECKER_SETTINGS, imported))
         setHasChanges(true)
         toast.success("Settings imported successfully")
       } catch (error) {
@@ -165,19 +99,6 @@ export function DiffCheckerSettings() {
     event.target.value = ""
   }
 
-  if (!user) {
-    return (
-      <div className="p-12 text-center rounded-lg border border-dashed">
-        <p className="text-muted-foreground mb-4">
-          Please sign in to access settings
-        </p>
-        <Button asChild>
-          <a href="/hub">Sign In</a>
-        </Button>
-      </div>
-    )
-  }
-
   if (loading) {
     return (
       <div className="p-12 text-center rounded-lg border border-dashed">
@@ -193,6 +114,16 @@ export function DiffCheckerSettings() {
       transition={{ duration: 0.5 }}
       className="space-y-6"
     >
+      {!user && (
+        <p className="text-sm text-muted-foreground">
+          You’re saving settings on this device.{" "}
+          <a href="/hub" className="text-primary underline underline-offset-4">
+            Sign in
+          </a>{" "}
+          to sync them across devices.
+        </p>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Display Settings</CardTitle>
@@ -212,6 +143,20 @@ export function DiffCheckerSettings() {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="theme">Result Theme</Label>
+            <select
+              id="theme"
+              value={settings.theme}
+              onChange={(e) => updateSetting("theme", e.target.value as DiffCheckerSettingsValues["theme"])}
+              className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="auto">Match site theme</option>
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+            </select>
+          </div>
+
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label htmlFor="showLineNumbers">Show Line Numbers</Label>
@@ -239,6 +184,39 @@ export function DiffCheckerSettings() {
           <CardDescription>Configure how text is compared.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contextLines">Context Lines</Label>
+            <Input
+              id="contextLines"
+              type="number"
+              min="0"
+              max="20"
+              value={settings.contextLines}
+              onChange={(e) => updateSetting("contextLines", Math.min(20, Math.max(0, parseInt(e.target.value) || 0)))}
+              className="w-32"
+            />
+            <p className="text-sm text-muted-foreground">
+              Unchanged lines shown around each change when viewing changes only
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inlineDiff">Inline Highlighting</Label>
+            <select
+              id="inlineDiff"
+              value={settings.inlineDiff}
+              onChange={(e) => updateSetting("inlineDiff", e.target.value as DiffCheckerSettingsValues["inlineDiff"])}
+              className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="word">Words</option>
+              <option value="char">Characters</option>
+              <option value="off">Off</option>
+            </select>
+            <p className="text-sm text-muted-foreground">
+              Highlight what changed within modified lines
+            </p>
+          </div>
+
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label htmlFor="ignoreWhitespace">Ignore Whitespace</Label>
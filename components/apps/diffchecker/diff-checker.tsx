@@ -6,13 +6,88 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
-import { Copy, Download, Upload, X, Check } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Copy, Download, Upload, X, Check, FileCode, FileText, Braces, GitMerge, Save, Share2 } from "lucide-react"
 import { toast } from "sonner"
+import { useAuth } from "@/components/auth/auth-provider"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import {
+  EXACT_DIFF_OPTIONS,
+  addInlineSegments,
+  groupHunks,
+  type DiffHunk,
+  type DiffLine,
+  type LineDiffOptions,
+} from "./diff-engine"
+import { DiffView, type DiffLayout } from "./diff-view"
+import { formatHtmlReport } from "./html-report"
+import {
+  detectFormat,
+  diffStructured,
+  formatStructuredChange,
+  parseStructured,
+  type StructuredChange,
+  type StructuredFormat,
+} from "./structured-diff"
+import { StructuredDiffView } from "./structured-diff-view"
+import { MergeView } from "./merge-view"
+import {
+  buildMergedText,
+  computeThreeWayMerge,
+  countConflicts,
+  type ConflictResolution,
+  type MergeChunk,
+} from "./three-way-merge"
+import { canExportDiff, formatPatchFiles, formatUnifiedDiff, parseUnifiedDiff, type PatchFile } from "./unified-diff"
+import { useDiffWorker } from "./use-diff-worker"
+import {
+  MAX_FRAGMENT_LENGTH,
+  MAX_SESSION_TEXT_LENGTH,
+  SHARE_FRAGMENT_PREFIX,
+  SHARE_QUERY_PARAM,
+  decodeSnapshot,
+  encodeSnapshot,
+  getSnapshotTextLength,
+  type CompareMode,
+  type DiffSnapshot,
+  type SavedDiffSession,
+  type SessionOptions,
+} from "./diff-session"
+import { loadSharedSession, useDiffSessions } from "./use-diff-sessions"
+import { SavedSessions } from "./saved-sessions"
+import { DIFF_CHECKER_SETTINGS, type DiffCheckerSettingsValues } from "./settings-schema"
 
-interface DiffLine {
-  type: "equal" | "insert" | "delete"
-  content: string
-  lineNumber?: number
+// Colors for the result panel when a fixed theme is chosen in settings ("auto" follows the site theme)
+const DIFF_THEME_CLASSES: Record<DiffCheckerSettingsValues["theme"], string> = {
+  auto: "bg-muted/50",
+  light: "bg-white text-zinc-900",
+  dark: "dark bg-zinc-950 text-zinc-100",
+}
+
+const DEFAULT_FILE_NAMES = { base: "base.txt", original: "original.txt", changed: "changed.txt" }
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Base name for downloads, e.g. "config.json" -> "config"
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^./]+$/, "") || "diff"
 }
 
 export function DiffChecker() {
@@ -20,103 +95,418 @@ export function DiffChecker() {
   const [changedText, setChangedText] = React.useState("")
   const [diffResult, setDiffResult] = React.useState<DiffLine[]>([])
   const [showDiff, setShowDiff] = React.useState(false)
+  const [isComputing, setIsComputing] = React.useState(false)
+  const [showAllLines, setShowAllLines] = React.useState(false)
+  const [layout, setLayout] = React.useState<DiffLayout>("split")
+  const [fileNames, setFileNames] = React.useState(DEFAULT_FILE_NAMES)
+
+  // Imported patch, shown instead of a computed diff
+  const [patchFiles, setPatchFiles] = React.useState<PatchFile[] | null>(null)
+  const [selectedPatchFile, setSelectedPatchFile] = React.useState(0)
+  const [patchDialogOpen, setPatchDialogOpen] = React.useState(false)
+  const [patchText, setPatchText] = React.useState("")
+
+  // Structured (JSON / YAML) comparison
+  const [compareMode, setCompareMode] = React.useState<CompareMode>("text")
+  const [structuredFormat, setStructuredFormat] = React.useState<StructuredFormat | "auto">("auto")
+  const [structuredChanges, setStructuredChanges] = React.useState<StructuredChange[]>([])
+
+  // Three-way merge: the original and changed texts are "ours" and "theirs"
+  const [baseText, setBaseText] = React.useState("")
+  const [mergeChunks, setMergeChunks] = React.useState<MergeChunk[]>([])
+  const [mergeResolutions, setMergeResolutions] = React.useState<Record<number, ConflictResolution>>({})
+
+  // Saved and shared sessions
+  const [activeSession, setActiveSession] = React.useState<{ id: string; name: string } | null>(null)
+  const [isSharedView, setIsSharedView] = React.useState(false)
+  const [saveDialogOpen, setSaveDialogOpen] = React.useState(false)
+  const [sessionName, setSessionName] = React.useState("")
+  const [shareLink, setShareLink] = React.useState("")
+  const [isSharing, setIsSharing] = React.useState(false)
+  // A session brings its own comparison options; they apply until cleared
+  const [optionOverrides, setOptionOverrides] = React.useState<SessionOptions | null>(null)
+  const sharedLinkLoadedRef = React.useRef(false)
+
+  const { user } = useAuth()
+  const { settings } = useAppSettings(DIFF_CHECKER_SETTINGS)
+  const { sessions, loading: sessionsLoading, saveSession, deleteSession, shareSession } = useDiffSessions()
+  const runDiff = useDiffWorker()
+
+  const comparisonOptions = optionOverrides ?? settings
+  const contextLines = comparisonOptions.contextLines
+  const diffOptions = React.useMemo<LineDiffOptions>(
+    () => ({
+      ignoreWhitespace: comparisonOptions.ignoreWhitespace,
+      ignoreCase: comparisonOptions.ignoreCase,
+      inlineDiff: comparisonOptions.inlineDiff,
+    }),
+    [comparisonOptions.ignoreWhitespace, comparisonOptions.ignoreCase, comparisonOptions.inlineDiff]
+  )
 
-  // Improved diff algorithm using Myers' algorithm approach
-  const calculateDiff = React.useCallback((original: string, changed: string) => {
-    const originalLines = original.split("\n")
-    const changedLines = changed.split("\n")
-    const result: DiffLine[] = []
-
-    // Build a map of line positions for faster lookup
-    const originalMap = new Map<string, number[]>()
-    originalLines.forEach((line, index) => {
-      if (!originalMap.has(line)) {
-        originalMap.set(line, [])
+  // Resolves to false if the diff failed or was superseded by a newer one
+  const updateDiff = React.useCallback(
+    async (original: string, changed: string, options: LineDiffOptions) => {
+      setIsComputing(true)
+      try {
+        const lines = await runDiff(original, changed, options)
+        if (!lines) return false
+        setDiffResult(lines)
+        setIsComputing(false)
+        return true
+      } catch (error) {
+        console.error("Failed to calculate diff:", error)
+        toast.error("Failed to calculate difference")
+        setIsComputing(false)
+        return false
       }
-      originalMap.get(line)!.push(index)
-    })
+    },
+    [runDiff]
+  )
+
+  // Parsing and comparing documents is cheap next to a line diff, so it runs on the main thread
+  const updateStructuredDiff = React.useCallback(
+    (original: string, changed: string, options: LineDiffOptions, format: StructuredFormat | "auto") => {
+      try {
+        const originalFormat = format === "auto" ? detectFormat(original) : format
+        const changedFormat = format === "auto" ? detectFormat(changed) : format
+        setStructuredChanges(
+          diffStructured(
+            parseStructured(original, originalFormat, "original"),
+            parseStructured(changed, changedFormat, "changed"),
+            options
+          )
+        )
+        return true
+      } catch (error) {
+        console.error("Failed to parse documents:", error)
+        toast.error(error instanceof Error ? error.message : "Failed to parse documents")
+        return false
+      }
+    },
+    []
+  )
+
+  // Both sides are diffed against the base one after another, since the worker only answers the latest
+  // request. Merging needs exact line matches regardless of the comparison settings.
+  const updateMerge = React.useCallback(
+    async (base: string, ours: string, theirs: string) => {
+      setIsComputing(true)
+      try {
+        const oursDiff = await runDiff(base, ours, EXACT_DIFF_OPTIONS)
+        const theirsDiff = oursDiff && (await runDiff(base, theirs, EXACT_DIFF_OPTIONS))
+        if (!oursDiff || !theirsDiff) return false
+        setMergeChunks(computeThreeWayMerge(base, ours, theirs, oursDiff, theirsDiff))
+        setMergeResolutions({})
+        return true
+      } catch (error) {
+        console.error("Failed to merge:", error)
+        toast.error("Failed to merge texts")
+        return false
+      } finally {
+        setIsComputing(false)
+      }
+    },
+    [runDiff]
+  )
+
+  const mergedText = React.useMemo(
+    () => buildMergedText(mergeChunks, mergeResolutions),
+    [mergeChunks, mergeResolutions]
+  )
+  const conflictCount = countConflicts(mergeChunks)
+  const unresolvedCount = conflictCount - Object.keys(mergeResolutions).length
+
+  // Re-run the comparison when the comparison settings change while a result is shown
+  const lastOptionsRef = React.useRef(diffOptions)
+  React.useEffect(() => {
+    if (lastOptionsRef.current === diffOptions) return
+    lastOptionsRef.current = diffOptions
+    if (!showDiff || compareMode === "merge") return
+    if (compareMode === "structured") {
+      updateStructuredDiff(originalText, changedText, diffOptions, structuredFormat)
+    } else {
+      updateDiff(originalText, changedText, diffOptions)
+    }
+  }, [diffOptions, showDiff, compareMode, structuredFormat, originalText, changedText, updateDiff, updateStructuredDiff])
 
-    const changedMap = new Map<string, number[]>()
-    changedLines.forEach((line, index) => {
-      if (!changedMap.has(line)) {
-        changedMap.set(line, [])
+  const hunks = React.useMemo<DiffHunk[]>(
+    () => groupHunks(diffResult, contextLines),
+    [diffResult, contextLines]
+  )
+
+  // Everything on screen and in exports is a list of files: the imported patch, or the single computed diff
+  const viewFiles = React.useMemo<PatchFile[]>(() => {
+    if (patchFiles) return patchFiles
+    return [
+      {
+        oldName: fileNames.original,
+        newName: fileNames.changed,
+        hunks,
+        additions: diffResult.filter((line) => line.type === "insert").length,
+        deletions: diffResult.filter((line) => line.type === "delete").length,
+      },
+    ]
+  }, [patchFiles, fileNames, hunks, diffResult])
+
+  const currentFile = viewFiles[Math.min(selectedPatchFile, viewFiles.length - 1)]
+  const stats = viewFiles.reduce(
+    (total, file) => ({ additions: total.additions + file.additions, deletions: total.deletions + file.deletions }),
+    { additions: 0, deletions: 0 }
+  )
+  const hunkCount = viewFiles.reduce((total, file) => total + file.hunks.length, 0)
+
+  const handleFindDifference = async () => {
+    if (!originalText && !changedText && (compareMode !== "merge" || !baseText)) {
+      toast.error("Please enter text in at least one field")
+      return
+    }
+
+    if (compareMode === "merge") {
+      if (await updateMerge(baseText, originalText, changedText)) {
+        setShowDiff(true)
+        toast.success("Texts merged")
+      }
+      return
+    }
+
+    const succeeded =
+      compareMode === "structured"
+        ? updateStructuredDiff(originalText, changedText, diffOptions, structuredFormat)
+        : await updateDiff(originalText, changedText, diffOptions)
+    if (succeeded) {
+      setShowDiff(true)
+      toast.success("Difference calculated")
+    }
+  }
+
+  // Switches a shown result between the textual and the structured comparison
+  const handleToggleCompareMode = async () => {
+    const nextMode: CompareMode = compareMode === "text" ? "structured" : "text"
+    const succeeded =
+      nextMode === "structured"
+        ? updateStructuredDiff(originalText, changedText, diffOptions, structuredFormat)
+        : await updateDiff(originalText, changedText, diffOptions)
+    if (succeeded) {
+      setCompareMode(nextMode)
+    }
+  }
+
+  const handleCopyStructuredChanges = () => {
+    navigator.clipboard.writeText(structuredChanges.map(formatStructuredChange).join("\n"))
+    toast.success("Changes copied to clipboard")
+  }
+
+  const handleResolveConflict = (index: number, resolution: ConflictResolution | undefined) => {
+    setMergeResolutions((prev) => {
+      const next = { ...prev }
+      if (resolution) {
+        next[index] = resolution
+      } else {
+        delete next[index]
       }
-      changedMap.get(line)!.push(index)
+      return next
     })
+  }
 
-    // Find longest common subsequence using dynamic programming
-    const m = originalLines.length
-    const n = changedLines.length
-    const dp: number[][] = Array(m + 1)
-      .fill(null)
-      .map(() => Array(n + 1).fill(0))
-
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (originalLines[i - 1] === changedLines[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1] + 1
-        } else {
-          dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1])
+  const handleCopyMerged = () => {
+    navigator.clipboard.writeText(mergedText)
+    if (unresolvedCount > 0) {
+      toast.warning("Merged text copied with conflict markers for unresolved conflicts")
+    } else {
+      toast.success("Merged text copied to clipboard")
+    }
+  }
+
+  const handleDownloadMerged = () => {
+    downloadFile(mergedText, `merged-${fileNames.base}`, "text/plain")
+    if (unresolvedCount > 0) {
+      toast.warning("Merged file downloaded with conflict markers for unresolved conflicts")
+    } else {
+      toast.success("Merged file downloaded")
+    }
+  }
+
+  const getSnapshot = (): DiffSnapshot => ({
+    mode: compareMode,
+    structuredFormat,
+    baseText,
+    originalText,
+    changedText,
+    fileNames,
+    options: {
+      ignoreWhitespace: comparisonOptions.ignoreWhitespace,
+      ignoreCase: comparisonOptions.ignoreCase,
+      inlineDiff: comparisonOptions.inlineDiff,
+      contextLines: comparisonOptions.contextLines,
+    },
+  })
+
+  // Restores a saved or shared session and shows its result
+  const openSnapshot = React.useCallback(
+    async (snapshot: DiffSnapshot) => {
+      setShowDiff(false)
+      setPatchFiles(null)
+      setCompareMode(snapshot.mode)
+      setStructuredFormat(snapshot.structuredFormat)
+      setBaseText(snapshot.baseText)
+      setOriginalText(snapshot.originalText)
+      setChangedText(snapshot.changedText)
+      setFileNames(snapshot.fileNames)
+      setOptionOverrides(snapshot.options)
+
+      const options: LineDiffOptions = {
+        ignoreWhitespace: snapshot.options.ignoreWhitespace,
+        ignoreCase: snapshot.options.ignoreCase,
+        inlineDiff: snapshot.options.inlineDiff,
+      }
+      const succeeded =
+        snapshot.mode === "merge"
+          ? await updateMerge(snapshot.baseText, snapshot.originalText, snapshot.changedText)
+          : snapshot.mode === "structured"
+            ? updateStructuredDiff(snapshot.originalText, snapshot.changedText, options, snapshot.structuredFormat)
+            : await updateDiff(snapshot.originalText, snapshot.changedText, options)
+      if (succeeded) {
+        setShowDiff(true)
+      }
+    },
+    [updateDiff, updateMerge, updateStructuredDiff]
+  )
+
+  // Open a diff shared by link: small ones are in the URL fragment, larger ones in Firestore
+  React.useEffect(() => {
+    if (sharedLinkLoadedRef.current) return
+    sharedLinkLoadedRef.current = true
+
+    const encoded = window.location.hash.startsWith(SHARE_FRAGMENT_PREFIX)
+      ? window.location.hash.slice(SHARE_FRAGMENT_PREFIX.length)
+      : null
+    const shareId = new URLSearchParams(window.location.search).get(SHARE_QUERY_PARAM)
+    if (!encoded && !shareId) return
+
+    const openSharedLink = async () => {
+      try {
+        const snapshot = encoded ? await decodeSnapshot(encoded) : await loadSharedSession(shareId as string)
+        if (!snapshot) {
+          toast.error("This shared diff no longer exists")
+          return
         }
+        setIsSharedView(true)
+        await openSnapshot(snapshot)
+      } catch (error) {
+        console.error("Failed to open shared diff:", error)
+        toast.error("Failed to open shared diff. The link may be incomplete.")
       }
     }
+    openSharedLink()
+  }, [openSnapshot])
 
-    // Reconstruct the diff
-    let i = m
-    let j = n
-    const diff: Array<{ type: "equal" | "insert" | "delete"; content: string; origLine?: number; changedLine?: number }> = []
-
-    while (i > 0 || j > 0) {
-      if (i > 0 && j > 0 && originalLines[i - 1] === changedLines[j - 1]) {
-        diff.unshift({
-          type: "equal",
-          content: originalLines[i - 1],
-          origLine: i,
-          changedLine: j,
-        })
-        i--
-        j--
-      } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-        diff.unshift({
-          type: "insert",
-          content: changedLines[j - 1],
-          changedLine: j,
-        })
-        j--
-      } else if (i > 0) {
-        diff.unshift({
-          type: "delete",
-          content: originalLines[i - 1],
-          origLine: i,
-        })
-        i--
-      }
+  const handleOpenSession = async (session: SavedDiffSession) => {
+    setIsSharedView(false)
+    setActiveSession({ id: session.id, name: session.name })
+    await openSnapshot(session)
+    toast.success(`Opened "${session.name}"`)
+  }
+
+  const handleDeleteSession = async (session: SavedDiffSession) => {
+    if (!confirm(`Delete the saved session "${session.name}"?`)) return
+
+    try {
+      await deleteSession(session.id)
+      if (activeSession?.id === session.id) setActiveSession(null)
+      toast.success("Session deleted")
+    } catch (error: any) {
+      console.error("Failed to delete session:", error)
+      toast.error("Failed to delete session")
     }
+  }
 
-    return diff.map((line) => ({
-      type: line.type,
-      content: line.content,
-      lineNumber: line.type === "equal" ? line.origLine : line.type === "insert" ? line.changedLine : line.origLine,
-    }))
-  }, [])
+  const handleOpenSaveDialog = () => {
+    if (!user) {
+      toast.error("You must be signed in to save sessions")
+      return
+    }
+    setSessionName(activeSession?.name ?? `${fileNames.original} → ${fileNames.changed}`)
+    setSaveDialogOpen(true)
+  }
 
-  const handleFindDifference = () => {
-    if (!originalText && !changedText) {
-      toast.error("Please enter text in at least one field")
+  const handleSaveSession = async () => {
+    const name = sessionName.trim()
+    if (!name) {
+      toast.error("Please enter a name for the session")
+      return
+    }
+    const snapshot = getSnapshot()
+    if (getSnapshotTextLength(snapshot) > MAX_SESSION_TEXT_LENGTH) {
+      toast.error("These texts are too large to save")
       return
     }
 
-    const diff = calculateDiff(originalText, changedText)
-    setDiffResult(diff)
-    setShowDiff(true)
-    toast.success("Difference calculated")
+    try {
+      // Saving under the open session's name updates it; a new name creates a copy
+      const id = await saveSession(name, snapshot, activeSession?.name === name ? activeSession.id : undefined)
+      setActiveSession({ id, name })
+      setSaveDialogOpen(false)
+      toast.success("Session saved")
+    } catch (error: any) {
+      console.error("Failed to save session:", error)
+      toast.error(error.code === "permission-denied" ? "You don't have permission to save sessions" : "Failed to save session")
+    }
+  }
+
+  const handleShare = async () => {
+    const snapshot = getSnapshot()
+    const pageUrl = `${window.location.origin}${window.location.pathname}`
+    setIsSharing(true)
+    try {
+      const encoded = await encodeSnapshot(snapshot)
+      if (encoded.length <= MAX_FRAGMENT_LENGTH) {
+        setShareLink(`${pageUrl}${SHARE_FRAGMENT_PREFIX}${encoded}`)
+        return
+      }
+      if (!user) {
+        toast.error("This diff is too large for a link. Sign in to share it.")
+        return
+      }
+      if (getSnapshotTextLength(snapshot) > MAX_SESSION_TEXT_LENGTH) {
+        toast.error("These texts are too large to share")
+        return
+      }
+      const shareId = await shareSession(snapshot)
+      setShareLink(`${pageUrl}?${SHARE_QUERY_PARAM}=${encodeURIComponent(shareId)}`)
+    } catch (error) {
+      console.error("Failed to create share link:", error)
+      toast.error("Failed to create share link")
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  const handleCopyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink)
+      toast.success("Link copied to clipboard")
+    } catch (error) {
+      toast.error("Failed to copy link")
+    }
   }
 
   const handleClear = () => {
+    setActiveSession(null)
+    setOptionOverrides(null)
+    setBaseText("")
     setOriginalText("")
     setChangedText("")
     setDiffResult([])
+    setMergeChunks([])
     setShowDiff(false)
+    setFileNames(DEFAULT_FILE_NAMES)
+  }
+
+  const handleBackToEdit = () => {
+    setShowDiff(false)
+    setIsSharedView(false)
+    setPatchFiles(null)
+    setSelectedPatchFile(0)
   }
 
   const handleCopyOriginal = () => {
@@ -129,27 +519,81 @@ export function DiffChecker() {
     toast.success("Changed text copied to clipboard")
   }
 
-  const handleDownloadDiff = () => {
-    const diffText = diffResult
-      .map((line) => {
-        const prefix = line.type === "insert" ? "+" : line.type === "delete" ? "-" : " "
-        return `${prefix} ${line.content}`
+  const handleDownloadPatch = async () => {
+    let patch: string
+    if (patchFiles) {
+      patch = formatPatchFiles(patchFiles)
+    } else {
+      let lines: DiffLine[] | null = diffResult
+      if (!canExportDiff(diffOptions)) {
+        try {
+          lines = await runDiff(originalText, changedText, EXACT_DIFF_OPTIONS)
+        } catch (error) {
+          console.error("Failed to calculate diff:", error)
+          toast.error("Failed to export patch")
+          return
+        }
+      }
+      if (!lines) return
+      patch = formatUnifiedDiff(lines, originalText, changedText, {
+        originalName: fileNames.original,
+        changedName: fileNames.changed,
+        contextLines,
       })
-      .join("\n")
-
-    const blob = new Blob([diffText], { type: "text/plain" })
-    const url = URL.createObjectURL(blob)
-    const link = document.createElement("a")
-    link.href = url
-    link.download = "diff-result.txt"
-    link.click()
-    URL.revokeObjectURL(url)
-    toast.success("Diff result downloaded")
+    }
+    if (!patch) {
+      toast.info("No differences to export")
+      return
+    }
+
+    downloadFile(patch, `${baseName(patchFiles ? "changes" : fileNames.changed)}.patch`, "text/x-diff")
+    toast.success("Patch downloaded")
+  }
+
+  const handleDownloadHtml = () => {
+    const title = patchFiles
+      ? `Patch: ${patchFiles.length} ${patchFiles.length === 1 ? "file" : "files"}`
+      : `Diff: ${fileNames.original} → ${fileNames.changed}`
+    downloadFile(formatHtmlReport(viewFiles, title), `${baseName(patchFiles ? "changes" : fileNames.changed)}-diff.html`, "text/html")
+    toast.success("HTML report downloaded")
+  }
+
+  const handleRenderPatch = () => {
+    if (!patchText.trim()) {
+      toast.error("Paste a patch or upload a .patch file first")
+      return
+    }
+
+    try {
+      const files = parseUnifiedDiff(patchText)
+      files.forEach((file) => file.hunks.forEach((hunk) => addInlineSegments(hunk.lines, diffOptions)))
+      setPatchFiles(files)
+      setSelectedPatchFile(0)
+      setShowDiff(true)
+      setPatchDialogOpen(false)
+      toast.success(`Loaded patch with ${files.length} ${files.length === 1 ? "file" : "files"}`)
+    } catch (error) {
+      console.error("Failed to parse patch:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to parse patch")
+    }
+  }
+
+  const handlePatchUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      setPatchText(event.target?.result as string)
+      toast.success("Patch file loaded")
+    }
+    reader.readAsText(file)
+    e.target.value = ""
   }
 
   const handleFileUpload = (
     e: React.ChangeEvent<HTMLInputElement>,
-    type: "original" | "changed"
+    type: "base" | "original" | "changed"
   ) => {
     const file = e.target.files?.[0]
     if (!file) return
@@ -157,38 +601,19 @@ export function DiffChecker() {
     const reader = new FileReader()
     reader.onload = (event) => {
       const content = event.target?.result as string
-      if (type === "original") {
+      if (type === "base") {
+        setBaseText(content)
+      } else if (type === "original") {
         setOriginalText(content)
       } else {
         setChangedText(content)
       }
+      setFileNames((prev) => ({ ...prev, [type]: file.name }))
       toast.success("File loaded successfully")
     }
     reader.readAsText(file)
   }
 
-  const getLineClassName = (type: DiffLine["type"]) => {
-    switch (type) {
-      case "insert":
-        return "bg-green-500/20 dark:bg-green-500/30 border-l-4 border-green-500"
-      case "delete":
-        return "bg-red-500/20 dark:bg-red-500/30 border-l-4 border-red-500"
-      default:
-        return "bg-transparent"
-    }
-  }
-
-  const getLinePrefix = (type: DiffLine["type"]) => {
-    switch (type) {
-      case "insert":
-        return "+"
-      case "delete":
-        return "-"
-      default:
-        return " "
-    }
-  }
-
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -199,26 +624,75 @@ export function DiffChecker() {
       <div>
         <h2 className="text-2xl font-bold mb-2">Text Diff Checker</h2>
         <p className="text-muted-foreground">
-          Compare two text files and find the differences between them
+          Compare two text files, or JSON and YAML documents, and find the differences between them
         </p>
       </div>
 
+      {(isSharedView || optionOverrides) && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/40 px-4 py-2 text-sm">
+          <span>
+            {isSharedView
+              ? "You're viewing a shared diff. It's read-only: your edits stay on this device."
+              : `Using the comparison options saved with ${activeSession ? `"${activeSession.name}"` : "this session"}.`}
+          </span>
+          {optionOverrides && (
+            <Button variant="ghost" size="sm" onClick={() => setOptionOverrides(null)}>
+              Use My Settings
+            </Button>
+          )}
+        </div>
+      )}
+
       {!showDiff ? (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={`grid grid-cols-1 gap-6 ${compareMode === "merge" ? "lg:grid-cols-3" : "lg:grid-cols-2"}`}>
+          {/* Common ancestor, only used when merging */}
+          {compareMode === "merge" && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Base</CardTitle>
+                    <CardDescription>The common version both sides were edited from</CardDescription>
+                  </div>
+                  <label className="cursor-pointer flex items-center">
+                    <Upload className="h-4 w-4 text-muted-foreground hover:text-foreground" />
+                    <input
+                      type="file"
+                      accept=".txt,.md,.js,.ts,.tsx,.jsx,.json,.yaml,.yml,.css,.html"
+                      className="hidden"
+                      onChange={(e) => handleFileUpload(e, "base")}
+                    />
+                  </label>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Textarea
+                  value={baseText}
+                  onChange={(e) => setBaseText(e.target.value)}
+                  placeholder="Enter base text here..."
+                  className="min-h-[400px] font-mono"
+                  style={{ fontSize: settings.fontSize }}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Original Text */}
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Original Text</CardTitle>
-                  <CardDescription>Enter or paste the original text</CardDescription>
+                  <CardTitle>{compareMode === "merge" ? "Ours" : "Original Text"}</CardTitle>
+                  <CardDescription>
+                    {compareMode === "merge" ? "Your edited version" : "Enter or paste the original text"}
+                  </CardDescription>
                 </div>
                 <div className="flex items-center gap-2">
                   <label className="cursor-pointer flex items-center">
                     <Upload className="h-4 w-4 text-muted-foreground hover:text-foreground" />
                     <input
                       type="file"
-                      accept=".txt,.md,.js,.ts,.tsx,.jsx,.json,.css,.html"
+                      accept=".txt,.md,.js,.ts,.tsx,.jsx,.json,.yaml,.yml,.css,.html"
                       className="hidden"
                       onChange={(e) => handleFileUpload(e, "original")}
                     />
@@ -240,7 +714,8 @@ export function DiffChecker() {
                 value={originalText}
                 onChange={(e) => setOriginalText(e.target.value)}
                 placeholder="Enter original text here..."
-                className="min-h-[400px] font-mono text-sm"
+                className="min-h-[400px] font-mono"
+                style={{ fontSize: settings.fontSize }}
               />
             </CardContent>
           </Card>
@@ -250,15 +725,17 @@ export function DiffChecker() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Changed Text</CardTitle>
-                  <CardDescription>Enter or paste the modified text</CardDescription>
+                  <CardTitle>{compareMode === "merge" ? "Theirs" : "Changed Text"}</CardTitle>
+                  <CardDescription>
+                    {compareMode === "merge" ? "The other edited version" : "Enter or paste the modified text"}
+                  </CardDescription>
                 </div>
                 <div className="flex items-center gap-2">
                   <label className="cursor-pointer flex items-center">
                     <Upload className="h-4 w-4 text-muted-foreground hover:text-foreground" />
                     <input
                       type="file"
-                      accept=".txt,.md,.js,.ts,.tsx,.jsx,.json,.css,.html"
+                      accept=".txt,.md,.js,.ts,.tsx,.jsx,.json,.yaml,.yml,.css,.html"
                       className="hidden"
                       onChange={(e) => handleFileUpload(e, "changed")}
                     />
@@ -280,27 +757,42 @@ export function DiffChecker() {
                 value={changedText}
                 onChange={(e) => setChangedText(e.target.value)}
                 placeholder="Enter changed text here..."
-                className="min-h-[400px] font-mono text-sm"
+                className="min-h-[400px] font-mono"
+                style={{ fontSize: settings.fontSize }}
               />
             </CardContent>
           </Card>
         </div>
-      ) : (
+      ) : compareMode === "merge" && !patchFiles ? (
         <Card>
           <CardHeader>
-            <div className="flex items-center justify-between">
+            <div className="flex flex-wrap items-center justify-between gap-2">
               <div>
-                <CardTitle>Diff Result</CardTitle>
+                <CardTitle>Three-way Merge</CardTitle>
                 <CardDescription>
-                  Green lines are additions, red lines are deletions
+                  {conflictCount === 0
+                    ? "Merged without conflicts"
+                    : `${conflictCount} ${conflictCount === 1 ? "conflict" : "conflicts"}, ${unresolvedCount} unresolved`}
                 </CardDescription>
               </div>
-              <div className="flex gap-2">
-                <Button variant="outline" size="sm" onClick={handleDownloadDiff}>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={handleOpenSaveDialog}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleShare} disabled={isSharing}>
+                  <Share2 className="mr-2 h-4 w-4" />
+                  Share
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleCopyMerged}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy Merged
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDownloadMerged}>
                   <Download className="mr-2 h-4 w-4" />
                   Download
                 </Button>
-                <Button variant="outline" size="sm" onClick={() => setShowDiff(false)}>
+                <Button variant="outline" size="sm" onClick={handleBackToEdit}>
                   <X className="mr-2 h-4 w-4" />
                   Back to Edit
                 </Button>
@@ -308,29 +800,216 @@ export function DiffChecker() {
             </div>
           </CardHeader>
           <CardContent>
-            <div className="rounded-lg border bg-muted/50 p-4 overflow-auto max-h-[600px]">
-              <pre className="font-mono text-sm whitespace-pre-wrap">
-                {diffResult.map((line, index) => (
-                  <div
-                    key={index}
-                    className={`px-2 py-1 ${getLineClassName(line.type)}`}
-                  >
-                    <span className="text-muted-foreground mr-2 select-none">
-                      {getLinePrefix(line.type)}
-                    </span>
-                    <span>{line.content || " "}</span>
-                  </div>
-                ))}
-              </pre>
+            <div
+              className={`rounded-lg border p-4 overflow-auto max-h-[600px] font-mono ${DIFF_THEME_CLASSES[settings.theme]}`}
+              style={{ fontSize: settings.fontSize }}
+            >
+              <MergeView chunks={mergeChunks} resolutions={mergeResolutions} onResolve={handleResolveConflict} />
+            </div>
+          </CardContent>
+        </Card>
+      ) : compareMode === "structured" && !patchFiles ? (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle>Structured Diff</CardTitle>
+                <CardDescription>
+                  {structuredChanges.length === 0
+                    ? "No differences found"
+                    : (["added", "removed", "changed", "type-changed"] as const)
+                        .map((kind) => [kind, structuredChanges.filter((change) => change.kind === kind).length] as const)
+                        .filter(([, count]) => count > 0)
+                        .map(([kind, count]) => `${count} ${kind === "type-changed" ? "type changed" : kind}`)
+                        .join(", ")}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={handleToggleCompareMode} disabled={isComputing}>
+                  Text Diff
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleOpenSaveDialog}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleShare} disabled={isSharing}>
+                  <Share2 className="mr-2 h-4 w-4" />
+                  Share
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCopyStructuredChanges}
+                  disabled={structuredChanges.length === 0}
+                >
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleBackToEdit}>
+                  <X className="mr-2 h-4 w-4" />
+                  Back to Edit
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div
+              className={`rounded-lg border p-4 overflow-auto max-h-[600px] font-mono ${DIFF_THEME_CLASSES[settings.theme]}`}
+              style={{ fontSize: settings.fontSize }}
+            >
+              <StructuredDiffView changes={structuredChanges} />
             </div>
           </CardContent>
         </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle>{patchFiles ? "Patch" : "Diff Result"}</CardTitle>
+                <CardDescription>
+                  {stats.additions + stats.deletions === 0
+                    ? "No differences found"
+                    : `${stats.additions} additions, ${stats.deletions} deletions in ${hunkCount} ${hunkCount === 1 ? "hunk" : "hunks"}`}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {!patchFiles && (
+                  <>
+                    <Button variant="outline" size="sm" onClick={handleToggleCompareMode}>
+                      <Braces className="mr-2 h-4 w-4" />
+                      Structured
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleOpenSaveDialog}>
+                      <Save className="mr-2 h-4 w-4" />
+                      Save
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleShare} disabled={isSharing}>
+                      <Share2 className="mr-2 h-4 w-4" />
+                      Share
+                    </Button>
+                  </>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setLayout(layout === "split" ? "unified" : "split")}>
+                  {layout === "split" ? "Unified" : "Side by Side"}
+                </Button>
+                {!patchFiles && (
+                  <Button variant="outline" size="sm" onClick={() => setShowAllLines(!showAllLines)}>
+                    {showAllLines ? "Changes Only" : "All Lines"}
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={handleDownloadPatch}>
+                  <Download className="mr-2 h-4 w-4" />
+                  .patch
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDownloadHtml}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  HTML
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleBackToEdit}>
+                  <X className="mr-2 h-4 w-4" />
+                  Back to Edit
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className={viewFiles.length > 1 ? "grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4" : ""}>
+              {viewFiles.length > 1 && (
+                <div className="space-y-1 overflow-auto max-h-[600px]">
+                  {viewFiles.map((file, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setSelectedPatchFile(index)}
+                      className={`w-full text-left rounded-md px-2 py-1.5 text-sm font-mono break-all hover:bg-muted ${
+                        file === currentFile ? "bg-muted font-semibold" : ""
+                      }`}
+                    >
+                      <span className="block">{file.newName === "/dev/null" ? file.oldName : file.newName}</span>
+                      <span className="text-xs text-green-600">+{file.additions}</span>{" "}
+                      <span className="text-xs text-red-600">-{file.deletions}</span>
+                      {file.binary && <Badge variant="secondary" className="ml-2 text-xs">binary</Badge>}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className={`rounded-lg border p-4 overflow-auto max-h-[600px] ${DIFF_THEME_CLASSES[settings.theme]}`}>
+                {patchFiles && (
+                  <p className="mb-2 text-sm font-mono text-muted-foreground">
+                    {currentFile.oldName === currentFile.newName
+                      ? currentFile.newName
+                      : `${currentFile.oldName} → ${currentFile.newName}`}
+                  </p>
+                )}
+                <pre className="font-mono whitespace-pre-wrap" style={{ fontSize: settings.fontSize }}>
+                  {!patchFiles && showAllLines ? (
+                    <DiffView
+                      hunks={[{ originalStart: 1, originalLength: 0, changedStart: 1, changedLength: 0, lines: diffResult }]}
+                      layout={layout}
+                      showLineNumbers={settings.showLineNumbers}
+                      showHunkHeaders={false}
+                    />
+                  ) : (
+                    <DiffView hunks={currentFile.hunks} layout={layout} showLineNumbers={settings.showLineNumbers} />
+                  )}
+                </pre>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!showDiff && (
+        <div className="flex flex-wrap items-center justify-center gap-4">
+          <div className="flex rounded-md border p-1 gap-1">
+            <Button
+              variant={compareMode === "text" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setCompareMode("text")}
+            >
+              Text
+            </Button>
+            <Button
+              variant={compareMode === "structured" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setCompareMode("structured")}
+            >
+              <Braces className="mr-2 h-4 w-4" />
+              JSON / YAML
+            </Button>
+            <Button
+              variant={compareMode === "merge" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setCompareMode("merge")}
+            >
+              <GitMerge className="mr-2 h-4 w-4" />
+              Three-way Merge
+            </Button>
+          </div>
+          {compareMode === "structured" && (
+            <select
+              value={structuredFormat}
+              onChange={(e) => setStructuredFormat(e.target.value as StructuredFormat | "auto")}
+              aria-label="Document format"
+              className="flex h-10 w-36 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="auto">Detect format</option>
+              <option value="json">JSON</option>
+              <option value="yaml">YAML</option>
+            </select>
+          )}
+        </div>
       )}
 
       {!showDiff && (
         <div className="flex gap-4 justify-center">
-          <Button onClick={handleFindDifference} size="lg" className="min-w-[200px]">
-            Find Difference
+          <Button onClick={handleFindDifference} size="lg" className="min-w-[200px]" disabled={isComputing}>
+            {isComputing ? "Comparing..." : compareMode === "merge" ? "Merge" : "Find Difference"}
+          </Button>
+          <Button onClick={() => setPatchDialogOpen(true)} variant="outline" size="lg">
+            <FileCode className="mr-2 h-4 w-4" />
+            Import Patch
           </Button>
           <Button onClick={handleClear} variant="outline" size="lg">
             <X className="mr-2 h-4 w-4" />
@@ -338,6 +1017,91 @@ export function DiffChecker() {
           </Button>
         </div>
       )}
+
+      {!showDiff && user && (
+        <SavedSessions
+          sessions={sessions}
+          loading={sessionsLoading}
+          activeSessionId={activeSession?.id ?? null}
+          onOpen={handleOpenSession}
+          onDelete={handleDeleteSession}
+        />
+      )}
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Save Session</DialogTitle>
+            <DialogDescription>
+              Saves the texts, mode and comparison options. Keep the name to update the open session, or enter a new
+              name to save a copy.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="sessionName">Name</Label>
+            <Input
+              id="sessionName"
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveSession()}
+              maxLength={100}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSession}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!shareLink} onOpenChange={(open) => !open && setShareLink("")}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Share Diff</DialogTitle>
+            <DialogDescription>
+              Anyone with this link can view the comparison. Later changes on your side don&apos;t affect it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input value={shareLink} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button onClick={handleCopyShareLink}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={patchDialogOpen} onOpenChange={setPatchDialogOpen}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Import Patch</DialogTitle>
+            <DialogDescription>
+              Paste a unified diff or git patch, or upload a .patch / .diff file. Patches with several files are supported.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={patchText}
+            onChange={(e) => setPatchText(e.target.value)}
+            placeholder={"diff --git a/file.txt b/file.txt\n--- a/file.txt\n+++ b/file.txt\n@@ -1,3 +1,3 @@"}
+            className="min-h-[300px] font-mono text-xs"
+          />
+          <DialogFooter className="gap-2 sm:justify-between">
+            <label>
+              <Button variant="outline" asChild>
+                <span className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload File
+                </span>
+              </Button>
+              <input type="file" accept=".patch,.diff,.txt" className="hidden" onChange={handlePatchUpload} />
+            </label>
+            <Button onClick={handleRenderPatch}>Render Patch</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </motion.div>
   )
 }
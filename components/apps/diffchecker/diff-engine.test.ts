@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { computeLineDiff, groupHunks, type LineDiffOptions } from "./diff-engine"
+
+const STRICT: LineDiffOptions = { ignoreWhitespace: false, ignoreCase: false, inlineDiff: "off" }
+
+const types = (original: string, changed: string, options: LineDiffOptions) =>
+  computeLineDiff(original, changed, options).map((line) => line.type)
+
+describe("computeLineDiff settings", () => {
+  it("treats whitespace changes as equal only when ignoring whitespace", () => {
+    const original = "const a = 1\nreturn a"
+    const changed = "const  a = 1  \n\treturn a"
+    expect(types(original, changed, STRICT)).toEqual(["delete", "delete", "insert", "insert"])
+    expect(types(original, changed, { ...STRICT, ignoreWhitespace: true })).toEqual(["equal", "equal"])
+  })
+
+  it("treats case changes as equal only when ignoring case", () => {
+    expect(types("Hello\nWorld", "hello\nWorld", STRICT)).toEqual(["delete", "insert", "equal"])
+    expect(types("Hello\nWorld", "hello\nWorld", { ...STRICT, ignoreCase: true })).toEqual(["equal", "equal"])
+  })
+
+  it("shows the changed text for lines matched by ignoring case or whitespace", () => {
+    const [line] = computeLineDiff("Hello", "hello ", { ...STRICT, ignoreCase: true, ignoreWhitespace: true })
+    expect(line).toMatchObject({ type: "equal", content: "hello ", originalLine: 1, changedLine: 1 })
+  })
+
+  it("highlights changes by word, by character or not at all", () => {
+    const segments = (inlineDiff: LineDiffOptions["inlineDiff"]) =>
+      computeLineDiff("the quick fox", "the quack fox", { ...STRICT, inlineDiff })[1].segments
+
+    expect(segments("off")).toBeUndefined()
+    expect(segments("word")).toEqual([
+      { type: "equal", text: "the " },
+      { type: "change", text: "quack" },
+      { type: "equal", text: " fox" },
+    ])
+    expect(segments("char")).toEqual([
+      { type: "equal", text: "the qu" },
+      { type: "change", text: "a" },
+      { type: "equal", text: "ck fox" },
+    ])
+  })
+})
+
+describe("groupHunks context lines", () => {
+  const original = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n")
+  const changed = ["a", "b", "c", "d", "E", "f", "g", "h", "i", "J"].join("\n")
+  const lines = computeLineDiff(original, changed, STRICT)
+
+  it("shows as many unchanged lines around each change as configured", () => {
+    const [hunk] = groupHunks(lines, 1)
+    expect(hunk.lines.map((line) => line.content)).toEqual(["d", "e", "E", "f"])
+    expect(hunk).toMatchObject({ originalStart: 4, originalLength: 3, changedStart: 4, changedLength: 3 })
+  })
+
+  it("merges hunks whose context overlaps", () => {
+    expect(groupHunks(lines, 1)).toHaveLength(2)
+    expect(groupHunks(lines, 3)).toHaveLength(1)
+    expect(groupHunks(lines, 0).map((hunk) => hunk.lines.length)).toEqual([2, 2])
+  })
+})
@@ -0,0 +1,410 @@
+// Diff engine for the Diff Checker: Myers' O((N+M)D) algorithm in linear space, with
+// hunk grouping and word/character-level highlighting for modified line pairs.
+// Pure functions only, so it can run both in the Web Worker and on the main thread.
+
+export type InlineDiffMode = "word" | "char" | "off"
+
+export interface InlineSegment {
+  /** "change" marks text removed from (delete lines) or added to (insert lines) the paired line */
+  type: "equal" | "change"
+  text: string
+}
+
+export interface DiffLine {
+  type: "equal" | "insert" | "delete"
+  content: string
+  /** Line number in the original text (equal and delete lines) */
+  originalLine?: number
+  /** Line number in the changed text (equal and insert lines) */
+  changedLine?: number
+  /** Intra-line highlighting, set on delete/insert lines that were paired as a modification */
+  segments?: InlineSegment[]
+  /** Set on lines imported from a patch that were followed by "\ No newline at end of file" */
+  noNewlineAtEnd?: boolean
+}
+
+/** One row of the side-by-side view; a missing side is shown as an empty cell */
+export interface SideBySideRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+export interface DiffHunk {
+  originalStart: number
+  originalLength: number
+  changedStart: number
+  changedLength: number
+  lines: DiffLine[]
+}
+
+export interface LineDiffOptions {
+  ignoreWhitespace: boolean
+  ignoreCase: boolean
+  inlineDiff: InlineDiffMode
+}
+
+/** Every changed character counts, for merges and patches that have to reproduce the texts exactly */
+export const EXACT_DIFF_OPTIONS: LineDiffOptions = { ignoreWhitespace: false, ignoreCase: false, inlineDiff: "off" }
+
+// Paired lines sharing less than this fraction of their text are shown as a plain delete + insert
+const MIN_INLINE_SIMILARITY = 0.4
+
+// Key used to decide whether two lines match; the displayed content is never modified
+export function normalizeLine(line: string, options: Pick<LineDiffOptions, "ignoreWhitespace" | "ignoreCase">): string {
+  let key = line
+  if (options.ignoreWhitespace) {
+    key = key.replace(/\s+/g, " ").trim()
+  }
+  if (options.ignoreCase) {
+    key = key.toLowerCase()
+  }
+  return key
+}
+
+// Maps each distinct key to a small integer so the diff compares numbers instead of strings
+function toIds(keysA: string[], keysB: string[]): [Int32Array, Int32Array] {
+  const ids = new Map<string, number>()
+  const idOf = (key: string) => {
+    let id = ids.get(key)
+    if (id === undefined) {
+      id = ids.size
+      ids.set(key, id)
+    }
+    return id
+  }
+  return [Int32Array.from(keysA, idOf), Int32Array.from(keysB, idOf)]
+}
+
+/**
+ * Longest common subsequence of two id sequences as [indexInA, indexInB] pairs in ascending order.
+ * Elements that only occur on one side can never match, so they are dropped before running Myers;
+ * this keeps completely rewritten files (huge D) fast.
+ */
+export function longestCommonSubsequence(a: Int32Array, b: Int32Array): Array<[number, number]> {
+  const inA = new Set(a)
+  const inB = new Set(b)
+  const aIndex: number[] = []
+  const bIndex: number[] = []
+  a.forEach((id, i) => {
+    if (inB.has(id)) aIndex.push(i)
+  })
+  b.forEach((id, j) => {
+    if (inA.has(id)) bIndex.push(j)
+  })
+
+  const reducedA = Int32Array.from(aIndex, (i) => a[i])
+  const reducedB = Int32Array.from(bIndex, (j) => b[j])
+  const matches: Array<[number, number]> = []
+  myersLcs(reducedA, 0, reducedA.length, reducedB, 0, reducedB.length, matches)
+
+  return matches.map(([i, j]) => [aIndex[i], bIndex[j]])
+}
+
+// Divide and conquer on the middle snake (Myers 1986, section 4b)
+function myersLcs(
+  a: Int32Array,
+  aLo: number,
+  aHi: number,
+  b: Int32Array,
+  bLo: number,
+  bHi: number,
+  matches: Array<[number, number]>
+) {
+  // Common prefix
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    matches.push([aLo, bLo])
+    aLo++
+    bLo++
+  }
+
+  // Common suffix, emitted after the middle part to keep matches ordered
+  let suffix = 0
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) {
+    suffix++
+  }
+  aHi -= suffix
+  bHi -= suffix
+
+  if (aLo < aHi && bLo < bHi) {
+    const snake = findMiddleSnake(a, aLo, aHi, b, bLo, bHi)
+    if (snake.distance > 1) {
+      myersLcs(a, aLo, aLo + snake.x, b, bLo, bLo + snake.y, matches)
+      for (let k = 0; k < snake.u - snake.x; k++) {
+        matches.push([aLo + snake.x + k, bLo + snake.y + k])
+      }
+      myersLcs(a, aLo + snake.u, aHi, b, bLo + snake.v, bHi, matches)
+    } else {
+      // At most one insertion or deletion left: everything else matches in order
+      let i = aLo
+      let j = bLo
+      while (i < aHi && j < bHi) {
+        if (a[i] === b[j]) {
+          matches.push([i, j])
+          i++
+          j++
+        } else if (aHi - i > bHi - j) {
+          i++
+        } else {
+          j++
+        }
+      }
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    matches.push([aHi + k, bHi + k])
+  }
+}
+
+interface MiddleSnake {
+  /** Start and end of the snake, relative to (aLo, bLo) */
+  x: number
+  y: number
+  u: number
+  v: number
+  /** Length of the shortest edit script for this sub-problem */
+  distance: number
+}
+
+function findMiddleSnake(
+  a: Int32Array,
+  aLo: number,
+  aHi: number,
+  b: Int32Array,
+  bLo: number,
+  bHi: number
+): MiddleSnake {
+  const n = aHi - aLo
+  const m = bHi - bLo
+  const delta = n - m
+  const odd = (delta & 1) === 1
+  const max = Math.ceil((n + m) / 2)
+  const offset = max + 1
+  // vf[k]: furthest x on diagonal k going forward; vb[k]: furthest x going backward from the end
+  const vf = new Int32Array(2 * max + 3)
+  const vb = new Int32Array(2 * max + 3)
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && vf[offset + k - 1] < vf[offset + k + 1])
+          ? vf[offset + k + 1]
+          : vf[offset + k - 1] + 1
+      let y = x - k
+      const startX = x
+      const startY = y
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++
+        y++
+      }
+      vf[offset + k] = x
+
+      const backK = delta - k
+      if (odd && backK >= -(d - 1) && backK <= d - 1 && x + vb[offset + backK] >= n) {
+        return { x: startX, y: startY, u: x, v: y, distance: 2 * d - 1 }
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && vb[offset + k - 1] < vb[offset + k + 1])
+          ? vb[offset + k + 1]
+          : vb[offset + k - 1] + 1
+      let y = x - k
+      const startX = x
+      const startY = y
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++
+        y++
+      }
+      vb[offset + k] = x
+
+      const forwardK = delta - k
+      if (!odd && forwardK >= -d && forwardK <= d && x + vf[offset + forwardK] >= n) {
+        return { x: n - x, y: m - y, u: n - startX, v: m - startY, distance: 2 * d }
+      }
+    }
+  }
+
+  // Unreachable: the paths always meet by d = max
+  return { x: 0, y: 0, u: 0, v: 0, distance: n + m }
+}
+
+function tokenize(line: string, mode: Exclude<InlineDiffMode, "off">): string[] {
+  if (mode === "char") return Array.from(line)
+  return line.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) || []
+}
+
+function toSegments(tokens: string[], matched: Set<number>): InlineSegment[] {
+  const segments: InlineSegment[] = []
+  tokens.forEach((token, index) => {
+    const type = matched.has(index) ? "equal" : "change"
+    const last = segments[segments.length - 1]
+    if (last && last.type === type) {
+      last.text += token
+    } else {
+      segments.push({ type, text: token })
+    }
+  })
+  return segments
+}
+
+/**
+ * Intra-line diff of a modified line pair. Returns null when the lines are too different for
+ * highlighting to be useful.
+ */
+export function computeInlineDiff(
+  original: string,
+  changed: string,
+  mode: Exclude<InlineDiffMode, "off">,
+  options: Pick<LineDiffOptions, "ignoreCase"> = { ignoreCase: false }
+): { original: InlineSegment[]; changed: InlineSegment[] } | null {
+  const originalTokens = tokenize(original, mode)
+  const changedTokens = tokenize(changed, mode)
+  const key = (token: string) => (options.ignoreCase ? token.toLowerCase() : token)
+  const [a, b] = toIds(originalTokens.map(key), changedTokens.map(key))
+  const matches = longestCommonSubsequence(a, b)
+
+  const matchedLength = matches.reduce((sum, [i]) => sum + originalTokens[i].length, 0)
+  const similarity = (2 * matchedLength) / Math.max(1, original.length + changed.length)
+  if (similarity < MIN_INLINE_SIMILARITY) return null
+
+  return {
+    original: toSegments(originalTokens, new Set(matches.map(([i]) => i))),
+    changed: toSegments(changedTokens, new Set(matches.map(([, j]) => j))),
+  }
+}
+
+// Pairs the deletes and inserts of each change block line by line and attaches inline segments
+export function addInlineSegments(lines: DiffLine[], options: Pick<LineDiffOptions, "ignoreCase" | "inlineDiff">) {
+  if (options.inlineDiff === "off") return
+  const mode = options.inlineDiff
+
+  let index = 0
+  while (index < lines.length) {
+    if (lines[index].type === "equal") {
+      index++
+      continue
+    }
+    const deletes: DiffLine[] = []
+    const inserts: DiffLine[] = []
+    while (index < lines.length && lines[index].type !== "equal") {
+      const line = lines[index]
+      if (line.type === "delete") deletes.push(line)
+      else inserts.push(line)
+      index++
+    }
+
+    for (let k = 0; k < Math.min(deletes.length, inserts.length); k++) {
+      const inline = computeInlineDiff(deletes[k].content, inserts[k].content, mode, options)
+      if (inline) {
+        deletes[k].segments = inline.original
+        inserts[k].segments = inline.changed
+      }
+    }
+  }
+}
+
+// Line-based diff; within each change block deletions are listed before insertions
+export function computeLineDiff(original: string, changed: string, options: LineDiffOptions): DiffLine[] {
+  const originalLines = original.split("\n")
+  const changedLines = changed.split("\n")
+  const [a, b] = toIds(
+    originalLines.map((line) => normalizeLine(line, options)),
+    changedLines.map((line) => normalizeLine(line, options))
+  )
+  const matches = longestCommonSubsequence(a, b)
+
+  const diff: DiffLine[] = []
+  let i = 0
+  let j = 0
+  const emitChanges = (untilI: number, untilJ: number) => {
+    for (; i < untilI; i++) {
+      diff.push({ type: "delete", content: originalLines[i], originalLine: i + 1 })
+    }
+    for (; j < untilJ; j++) {
+      diff.push({ type: "insert", content: changedLines[j], changedLine: j + 1 })
+    }
+  }
+
+  matches.forEach(([matchI, matchJ]) => {
+    emitChanges(matchI, matchJ)
+    diff.push({ type: "equal", content: changedLines[j], originalLine: i + 1, changedLine: j + 1 })
+    i++
+    j++
+  })
+  emitChanges(originalLines.length, changedLines.length)
+
+  addInlineSegments(diff, options)
+  return diff
+}
+
+/**
+ * Groups changed lines into hunks with `contextLines` unchanged lines around them, merging hunks
+ * whose context would overlap. Start numbers follow the unified diff convention (a zero-length
+ * side starts at the line before the change).
+ */
+export function groupHunks(lines: DiffLine[], contextLines: number): DiffHunk[] {
+  const ranges: Array<[number, number]> = []
+  lines.forEach((line, index) => {
+    if (line.type === "equal") return
+    const start = Math.max(0, index - contextLines)
+    const end = Math.min(lines.length, index + contextLines + 1)
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      ranges.push([start, end])
+    }
+  })
+
+  // Number of original/changed lines before each index
+  const originalBefore: number[] = []
+  const changedBefore: number[] = []
+  let originalCount = 0
+  let changedCount = 0
+  lines.forEach((line) => {
+    originalBefore.push(originalCount)
+    changedBefore.push(changedCount)
+    if (line.type !== "insert") originalCount++
+    if (line.type !== "delete") changedCount++
+  })
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end)
+    const originalLength = hunkLines.filter((line) => line.type !== "insert").length
+    const changedLength = hunkLines.filter((line) => line.type !== "delete").length
+    return {
+      originalStart: originalBefore[start] + (originalLength > 0 ? 1 : 0),
+      originalLength,
+      changedStart: changedBefore[start] + (changedLength > 0 ? 1 : 0),
+      changedLength,
+      lines: hunkLines,
+    }
+  })
+}
+
+// Lines up each change block's deletions (left) with its insertions (right)
+export function toSideBySideRows(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = []
+  let index = 0
+  while (index < lines.length) {
+    const line = lines[index]
+    if (line.type === "equal") {
+      rows.push({ left: line, right: line })
+      index++
+      continue
+    }
+    const deletes: DiffLine[] = []
+    const inserts: DiffLine[] = []
+    while (index < lines.length && lines[index].type !== "equal") {
+      if (lines[index].type === "delete") deletes.push(lines[index])
+      else inserts.push(lines[index])
+      index++
+    }
+    for (let k = 0; k < Math.max(deletes.length, inserts.length); k++) {
+      rows.push({ left: deletes[k], right: inserts[k] })
+    }
+  }
+  return rows
+}
@@ -0,0 +1,80 @@
+// Diff sessions: everything needed to reproduce a comparison (texts, mode and options), used for
+// saved sessions in Firestore and for share links
+
+import { z } from "zod"
+import { diffCheckerSettingsSchema } from "./settings-schema"
+
+export const compareModeSchema = z.enum(["text", "structured", "merge"])
+
+export type CompareMode = z.infer<typeof compareModeSchema>
+
+export const sessionOptionsSchema = diffCheckerSettingsSchema.pick({
+  ignoreWhitespace: true,
+  ignoreCase: true,
+  inlineDiff: true,
+  contextLines: true,
+})
+
+export type SessionOptions = z.infer<typeof sessionOptionsSchema>
+
+export const diffSnapshotSchema = z.object({
+  mode: compareModeSchema,
+  structuredFormat: z.enum(["auto", "json", "yaml"]),
+  baseText: z.string(),
+  originalText: z.string(),
+  changedText: z.string(),
+  fileNames: z.object({ base: z.string(), original: z.string(), changed: z.string() }),
+  options: sessionOptionsSchema,
+})
+
+export type DiffSnapshot = z.infer<typeof diffSnapshotSchema>
+
+export interface SavedDiffSession extends DiffSnapshot {
+  id: string
+  name: string
+  updatedAt: Date | null
+}
+
+/** Encoded snapshots up to this length go in the URL fragment; larger ones are shared through Firestore */
+export const MAX_FRAGMENT_LENGTH = 8000
+
+/** Firestore documents are limited to 1 MiB; leave room for the other fields */
+export const MAX_SESSION_TEXT_LENGTH = 900_000
+
+export const SHARE_FRAGMENT_PREFIX = "#diff="
+export const SHARE_QUERY_PARAM = "share"
+
+export function getSnapshotTextLength(snapshot: DiffSnapshot): number {
+  return snapshot.baseText.length + snapshot.originalText.length + snapshot.changedText.length
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  // Chunked so String.fromCharCode doesn't exceed the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/** Deflates and base64url-encodes a snapshot for use in a URL fragment */
+export async function encodeSnapshot(snapshot: DiffSnapshot): Promise<string> {
+  const stream = new Blob([JSON.stringify(snapshot)]).stream().pipeThrough(new CompressionStream("deflate-raw"))
+  return toBase64Url(new Uint8Array(await new Response(stream).arrayBuffer()))
+}
+
+/** Reverses encodeSnapshot. Throws if the data is corrupt or doesn't match the snapshot schema. */
+export async function decodeSnapshot(encoded: string): Promise<DiffSnapshot> {
+  const stream = new Blob([fromBase64Url(encoded)]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return diffSnapshotSchema.parse(JSON.parse(await new Response(stream).text()))
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import * as React from "react"
+import { toSideBySideRows, type DiffHunk, type DiffLine } from "./diff-engine"
+
+export type DiffLayout = "unified" | "split"
+
+interface DiffViewProps {
+  hunks: DiffHunk[]
+  layout: DiffLayout
+  showLineNumbers: boolean
+  /** Hide the @@ headers, e.g. when showing every line as a single hunk */
+  showHunkHeaders?: boolean
+}
+
+const getLineClassName = (type: DiffLine["type"]) => {
+  switch (type) {
+    case "insert":
+      return "bg-green-500/20 dark:bg-green-500/30 border-l-4 border-green-500"
+    case "delete":
+      return "bg-red-500/20 dark:bg-red-500/30 border-l-4 border-red-500"
+    default:
+      return "bg-transparent"
+  }
+}
+
+const getLinePrefix = (type: DiffLine["type"]) => {
+  switch (type) {
+    case "insert":
+      return "+"
+    case "delete":
+      return "-"
+    default:
+      return " "
+  }
+}
+
+const getSegmentClassName = (type: DiffLine["type"]) =>
+  type === "insert" ? "bg-green-500/40 rounded-sm" : "bg-red-500/40 rounded-sm"
+
+function LineContent({ line }: { line: DiffLine }) {
+  if (!line.segments) {
+    return <span>{line.content || " "}</span>
+  }
+  return (
+    <span>
+      {line.segments.map((segment, index) =>
+        segment.type === "change" ? (
+          <span key={index} className={getSegmentClassName(line.type)}>
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </span>
+  )
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <span className="inline-block w-10 shrink-0 text-right text-muted-foreground mr-2 select-none">
+      {value ?? ""}
+    </span>
+  )
+}
+
+function HunkHeader({ hunk }: { hunk: DiffHunk }) {
+  return (
+    <div className="px-2 py-1 text-muted-foreground bg-primary/5 select-none">
+      @@ -{hunk.originalStart},{hunk.originalLength} +{hunk.changedStart},{hunk.changedLength} @@
+    </div>
+  )
+}
+
+function UnifiedLine({ line, showLineNumbers }: { line: DiffLine; showLineNumbers: boolean }) {
+  return (
+    <div className={`px-2 py-1 ${getLineClassName(line.type)}`}>
+      {showLineNumbers && <LineNumber value={line.type === "insert" ? line.changedLine : line.originalLine} />}
+      <span className="text-muted-foreground mr-2 select-none">{getLinePrefix(line.type)}</span>
+      <LineContent line={line} />
+    </div>
+  )
+}
+
+function SplitCell({
+  line,
+  side,
+  showLineNumbers,
+}: {
+  line?: DiffLine
+  side: "left" | "right"
+  showLineNumbers: boolean
+}) {
+  if (!line) {
+    return <div className="px-2 py-1 bg-muted/40" />
+  }
+  // Equal lines appear on both sides without highlighting
+  const type = line.type === "equal" ? "equal" : side === "left" ? "delete" : "insert"
+  return (
+    <div className={`px-2 py-1 flex min-w-0 ${getLineClassName(type)}`}>
+      {showLineNumbers && <LineNumber value={side === "left" ? line.originalLine : line.changedLine} />}
+      <span className="min-w-0 break-all">
+        <LineContent line={line} />
+      </span>
+    </div>
+  )
+}
+
+/** Renders diff hunks either as a single unified column or side by side */
+export function DiffView({ hunks, layout, showLineNumbers, showHunkHeaders = true }: DiffViewProps) {
+  return (
+    <>
+      {hunks.map((hunk, hunkIndex) => (
+        <React.Fragment key={hunkIndex}>
+          {showHunkHeaders && <HunkHeader hunk={hunk} />}
+          {layout === "unified"
+            ? hunk.lines.map((line, index) => (
+                <UnifiedLine key={index} line={line} showLineNumbers={showLineNumbers} />
+              ))
+            : toSideBySideRows(hunk.lines).map((row, index) => (
+                <div key={index} className="grid grid-cols-2 gap-px">
+                  <SplitCell line={row.left} side="left" showLineNumbers={showLineNumbers} />
+                  <SplitCell line={row.right} side="right" showLineNumbers={showLineNumbers} />
+                </div>
+              ))}
+        </React.Fragment>
+      ))}
+    </>
+  )
+}
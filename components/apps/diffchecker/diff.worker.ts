@@ -0,0 +1,14 @@
+import { computeLineDiff } from "./diff-engine"
+import type { DiffWorkerRequest, DiffWorkerResponse } from "./use-diff-worker"
+
+// Runs the diff off the main thread so large files don't freeze the tab
+self.addEventListener("message", (event: MessageEvent<DiffWorkerRequest>) => {
+  const { id, original, changed, options } = event.data
+  let response: DiffWorkerResponse
+  try {
+    response = { id, lines: computeLineDiff(original, changed, options) }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) }
+  }
+  self.postMessage(response)
+})
@@ -0,0 +1,82 @@
+// Standalone HTML report (side-by-side, inline styles) for sharing a diff outside the app
+
+import { toSideBySideRows, type DiffLine } from "./diff-engine"
+import type { PatchFile } from "./unified-diff"
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function renderContent(line: DiffLine): string {
+  if (!line.segments) return escapeHtml(line.content)
+  return line.segments
+    .map((segment) => (segment.type === "change" ? `<mark>${escapeHtml(segment.text)}</mark>` : escapeHtml(segment.text)))
+    .join("")
+}
+
+function renderCell(line: DiffLine | undefined, side: "left" | "right"): string {
+  if (!line) return `<td class="num"></td><td class="empty"></td>`
+  const number = side === "left" ? line.originalLine : line.changedLine
+  const className = line.type === "equal" ? "" : line.type === "delete" ? "del" : "ins"
+  return `<td class="num">${number ?? ""}</td><td class="${className}">${renderContent(line)}</td>`
+}
+
+function renderFile(file: PatchFile): string {
+  const title = file.oldName === file.newName ? file.newName : `${file.oldName} → ${file.newName}`
+  const body = file.binary
+    ? `<tr><td colspan="4" class="note">Binary file</td></tr>`
+    : file.hunks
+        .map((hunk) => {
+          const header = `<tr><td colspan="4" class="hunk">@@ -${hunk.originalStart},${hunk.originalLength} +${hunk.changedStart},${hunk.changedLength} @@</td></tr>`
+          const rows = toSideBySideRows(hunk.lines)
+            .map((row) => `<tr>${renderCell(row.left, "left")}${renderCell(row.right, "right")}</tr>`)
+            .join("\n")
+          return `${header}\n${rows}`
+        })
+        .join("\n")
+
+  return `<section>
+<h2>${escapeHtml(title)} <small><span class="add">+${file.additions}</span> <span class="rem">-${file.deletions}</span></small></h2>
+<table>
+${body}
+</table>
+</section>`
+}
+
+export function formatHtmlReport(files: PatchFile[], title: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; }
+  h1 { font-size: 1.5rem; }
+  h2 { font-size: 1rem; font-family: ui-monospace, monospace; margin: 2rem 0 0.5rem; }
+  small { font-weight: normal; }
+  .add { color: #15803d; }
+  .rem { color: #b91c1c; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; font-family: ui-monospace, monospace; font-size: 12px; border: 1px solid #e5e7eb; }
+  td { padding: 2px 8px; vertical-align: top; white-space: pre-wrap; word-break: break-all; }
+  td.num { width: 3.5rem; text-align: right; color: #9ca3af; user-select: none; border-right: 1px solid #e5e7eb; }
+  td.del { background: #fee2e2; }
+  td.ins { background: #dcfce7; }
+  td.del mark { background: #fca5a5; }
+  td.ins mark { background: #86efac; }
+  td.empty { background: #f9fafb; }
+  td.hunk { background: #eff6ff; color: #6b7280; }
+  td.note { color: #6b7280; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Generated ${escapeHtml(new Date().toLocaleString())}</p>
+${files.map(renderFile).join("\n")}
+</body>
+</html>
+`
+}
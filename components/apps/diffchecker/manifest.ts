@@ -0,0 +1,24 @@
+import { GitCompare } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { DIFF_CHECKER_SETTINGS } from "./settings-schema"
+import { DiffChecker } from "./diff-checker"
+import { DiffCheckerSettings } from "./diff-checker-settings"
+
+export const diffCheckerManifest = defineAppManifest({
+  appId: "diffchecker",
+  name: "Diff Checker",
+  description: "Compare text files and find differences between two versions",
+  category: "Utilities",
+  tags: ["diff", "compare", "text", "file", "difference"],
+  status: "live",
+  icon: GitCompare,
+  accent: "from-purple-500 to-pink-500",
+  Main: DiffChecker,
+  Settings: DiffCheckerSettings,
+  settings: DIFF_CHECKER_SETTINGS,
+  collections: [
+    { name: "diffCheckerSettings", scope: "user", docParam: "settingsId", description: "Diff Checker settings subcollection" },
+    { name: "diffCheckerSessions", scope: "user", docParam: "sessionId", description: "Diff Checker saved sessions subcollection" },
+    { name: "diffCheckerSharedSessions", scope: "shared", docParam: "shareId", description: "Read-only diffs shared by link" },
+  ],
+})
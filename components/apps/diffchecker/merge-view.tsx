@@ -0,0 +1,135 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { getResolvedLines, type ConflictResolution, type MergeChunk } from "./three-way-merge"
+
+interface MergeViewProps {
+  chunks: MergeChunk[]
+  resolutions: Record<number, ConflictResolution>
+  /** Called with undefined to reopen a resolved conflict */
+  onResolve: (index: number, resolution: ConflictResolution | undefined) => void
+}
+
+const AUTO_MERGE_LABELS: Record<string, string> = {
+  ours: "from ours",
+  theirs: "from theirs",
+  both: "same change in both",
+}
+
+function Lines({ lines, className = "" }: { lines: string[]; className?: string }) {
+  if (lines.length === 0) {
+    return <div className={`px-2 py-1 italic text-muted-foreground ${className}`}>(no lines)</div>
+  }
+  return (
+    <>
+      {lines.map((line, index) => (
+        <div key={index} className={`px-2 whitespace-pre-wrap break-all ${className}`}>
+          {line || " "}
+        </div>
+      ))}
+    </>
+  )
+}
+
+function ConflictChunk({
+  chunk,
+  resolution,
+  onResolve,
+}: {
+  chunk: MergeChunk
+  resolution?: ConflictResolution
+  onResolve: (resolution: ConflictResolution | undefined) => void
+}) {
+  const resolved = getResolvedLines(chunk, resolution)
+
+  if (resolved) {
+    return (
+      <div className="my-2 rounded-md border border-green-500/50">
+        <div className="flex items-center justify-between px-2 py-1 bg-green-500/10 font-sans text-xs">
+          <span>Conflict resolved: {resolution === "both" ? "both sides" : resolution}</span>
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => onResolve(undefined)}>
+            Undo
+          </Button>
+        </div>
+        <Lines lines={resolved} className="bg-green-500/20 dark:bg-green-500/30" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="my-2 rounded-md border border-red-500/60">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-2 py-1 bg-red-500/10 font-sans text-xs">
+        <span className="font-semibold text-red-600 dark:text-red-400">Conflict</span>
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => onResolve("ours")}>
+            Accept Ours
+          </Button>
+          <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => onResolve("theirs")}>
+            Accept Theirs
+          </Button>
+          <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => onResolve("both")}>
+            Accept Both
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-px">
+        <div>
+          <div className="px-2 py-0.5 font-sans text-xs text-muted-foreground">Ours</div>
+          <Lines lines={chunk.ours} className="bg-blue-500/15 dark:bg-blue-500/25" />
+        </div>
+        <div>
+          <div className="px-2 py-0.5 font-sans text-xs text-muted-foreground">Theirs</div>
+          <Lines lines={chunk.theirs} className="bg-purple-500/15 dark:bg-purple-500/25" />
+        </div>
+      </div>
+      {chunk.base.length > 0 && (
+        <details className="px-2 py-1 font-sans text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Base</summary>
+          <div className="font-mono">
+            <Lines lines={chunk.base} className="line-through" />
+          </div>
+        </details>
+      )}
+    </div>
+  )
+}
+
+/** Shows a three-way merge with auto-merged changes highlighted and actions on each conflict */
+export function MergeView({ chunks, resolutions, onResolve }: MergeViewProps) {
+  return (
+    <div>
+      {chunks.map((chunk, index) => {
+        if (chunk.kind === "unchanged") {
+          return <Lines key={index} lines={chunk.ours} />
+        }
+        if (chunk.kind === "conflict") {
+          return (
+            <ConflictChunk
+              key={index}
+              chunk={chunk}
+              resolution={resolutions[index]}
+              onResolve={(resolution) => onResolve(index, resolution)}
+            />
+          )
+        }
+        const lines = getResolvedLines(chunk) ?? []
+        return (
+          <div key={index} className="relative border-l-4 border-green-500 bg-green-500/10">
+            <Badge variant="secondary" className="absolute right-1 top-0.5 text-[10px] font-sans">
+              {AUTO_MERGE_LABELS[chunk.kind]}
+            </Badge>
+            {lines.length > 0 ? (
+              <Lines lines={lines} />
+            ) : (
+              <div className="px-2 py-1 italic text-muted-foreground">
+                ({chunk.base.length} {chunk.base.length === 1 ? "line" : "lines"} removed)
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
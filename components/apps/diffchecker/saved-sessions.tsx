@@ -0,0 +1,75 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { FolderOpen, Trash2 } from "lucide-react"
+import type { SavedDiffSession } from "./diff-session"
+
+interface SavedSessionsProps {
+  sessions: SavedDiffSession[]
+  loading: boolean
+  activeSessionId: string | null
+  onOpen: (session: SavedDiffSession) => void
+  onDelete: (session: SavedDiffSession) => void
+}
+
+const MODE_LABELS: Record<SavedDiffSession["mode"], string> = {
+  text: "Text",
+  structured: "JSON / YAML",
+  merge: "Merge",
+}
+
+export function SavedSessions({ sessions, loading, activeSessionId, onOpen, onDelete }: SavedSessionsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Sessions</CardTitle>
+        <CardDescription>Comparisons you saved, with their texts and options</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved sessions yet. Compare two texts and click Save to keep the comparison.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{session.name}</span>
+                    <Badge variant="secondary">{MODE_LABELS[session.mode]}</Badge>
+                    {session.id === activeSessionId && <Badge variant="outline">Open</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {session.fileNames.original} → {session.fileNames.changed}
+                    {session.updatedAt && ` · ${session.updatedAt.toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => onOpen(session)}>
+                    <FolderOpen className="mr-2 h-4 w-4" />
+                    Open
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onDelete(session)}
+                    aria-label={`Delete ${session.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
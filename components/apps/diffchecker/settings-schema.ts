@@ -0,0 +1,33 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const diffCheckerSettingsSchema = z.object({
+  fontSize: z.number().min(10).max(20),
+  showLineNumbers: z.boolean(),
+  ignoreWhitespace: z.boolean(),
+  ignoreCase: z.boolean(),
+  theme: z.enum(["light", "dark", "auto"]),
+  contextLines: z.number().int().min(0).max(20),
+  inlineDiff: z.enum(["word", "char", "off"]),
+})
+
+export type DiffCheckerSettingsValues = z.infer<typeof diffCheckerSettingsSchema>
+
+export const DEFAULT_DIFF_CHECKER_SETTINGS: DiffCheckerSettingsValues = {
+  fontSize: 14,
+  showLineNumbers: true,
+  ignoreWhitespace: false,
+  ignoreCase: false,
+  theme: "auto",
+  contextLines: 3,
+  inlineDiff: "word",
+}
+
+export const DIFF_CHECKER_SETTINGS = defineAppSettings({
+  appId: "diffchecker",
+  collection: "diffCheckerSettings",
+  storageKey: "diff-checker-settings",
+  schema: diffCheckerSettingsSchema,
+  defaults: DEFAULT_DIFF_CHECKER_SETTINGS,
+  version: 1,
+})
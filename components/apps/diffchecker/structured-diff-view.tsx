@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+import { Badge } from "@/components/ui/badge"
+import { formatStructuredValue, type StructuredChange, type StructuredChangeKind } from "./structured-diff"
+
+const KIND_LABELS: Record<StructuredChangeKind, string> = {
+  added: "added",
+  removed: "removed",
+  changed: "changed",
+  "type-changed": "type",
+}
+
+const getChangeClassName = (kind: StructuredChangeKind) => {
+  switch (kind) {
+    case "added":
+      return "bg-green-500/20 dark:bg-green-500/30 border-l-4 border-green-500"
+    case "removed":
+      return "bg-red-500/20 dark:bg-red-500/30 border-l-4 border-red-500"
+    default:
+      return "bg-yellow-500/20 dark:bg-yellow-500/30 border-l-4 border-yellow-500"
+  }
+}
+
+function ChangeValue({ change }: { change: StructuredChange }) {
+  switch (change.kind) {
+    case "added":
+      return <span>{formatStructuredValue(change.after)}</span>
+    case "removed":
+      return <span className="line-through opacity-80">{formatStructuredValue(change.before)}</span>
+    default:
+      return (
+        <span>
+          <span className="text-red-600 dark:text-red-400">{formatStructuredValue(change.before)}</span>
+          <span className="text-muted-foreground"> → </span>
+          <span className="text-green-600 dark:text-green-400">{formatStructuredValue(change.after)}</span>
+        </span>
+      )
+  }
+}
+
+/** Lists the changes of a structured (JSON / YAML) comparison by path */
+export function StructuredDiffView({ changes }: { changes: StructuredChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-muted-foreground">The documents are equivalent</p>
+  }
+
+  return (
+    <div className="space-y-px">
+      {changes.map((change, index) => (
+        <div key={index} className={`px-2 py-1 flex flex-wrap items-baseline gap-x-2 ${getChangeClassName(change.kind)}`}>
+          <Badge variant="outline" className="w-16 justify-center text-xs shrink-0">
+            {KIND_LABELS[change.kind]}
+          </Badge>
+          <span className="font-semibold break-all">{change.path}</span>
+          <span className="break-all">
+            <ChangeValue change={change} />
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { diffStructured, parseStructured } from "./structured-diff"
+
+const OPTIONS = { ignoreWhitespace: false, ignoreCase: false }
+
+describe("diffStructured", () => {
+  it("ignores key order", () => {
+    const original = parseStructured('{"a": 1, "b": [1, 2]}', "json", "original")
+    const changed = parseStructured("b: [1, 2]\na: 1", "yaml", "changed")
+    expect(diffStructured(original, changed, OPTIONS)).toEqual([])
+  })
+
+  it("reports added, removed and changed values by path", () => {
+    const original = { a: 1, b: { c: "x" }, list: [1] }
+    const changed = { b: { c: "y" }, list: [1, 2], "d-e": true }
+    expect(diffStructured(original, changed, OPTIONS)).toEqual([
+      { kind: "removed", path: "$.a", before: 1 },
+      { kind: "changed", path: "$.b.c", before: "x", after: "y" },
+      { kind: "added", path: '$["d-e"]', after: true },
+      { kind: "added", path: "$.list[1]", after: 2 },
+    ])
+  })
+
+  it("treats keys named after Object.prototype members like any other key", () => {
+    expect(diffStructured({ toString: 1 }, {}, OPTIONS)).toEqual([{ kind: "removed", path: "$.toString", before: 1 }])
+    expect(diffStructured({}, { constructor: "x" }, OPTIONS)).toEqual([{ kind: "added", path: "$.constructor", after: "x" }])
+  })
+})
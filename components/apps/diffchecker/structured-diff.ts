@@ -0,0 +1,160 @@
+// Semantic diff of JSON / YAML documents: compares parsed values and reports changes by path,
+// so reordered keys and reformatting don't show up as changes
+
+import { parse as parseYaml } from "yaml"
+import { normalizeLine, type LineDiffOptions } from "./diff-engine"
+
+export type StructuredFormat = "json" | "yaml"
+
+export type StructuredChangeKind = "added" | "removed" | "changed" | "type-changed"
+
+export interface StructuredChange {
+  kind: StructuredChangeKind
+  /** JSONPath-style location, e.g. `$.items[3].price` */
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+type ValueType = "null" | "array" | "object" | "string" | "number" | "boolean"
+
+export class StructuredParseError extends Error {
+  constructor(message: string, public side: "original" | "changed") {
+    super(`${side === "original" ? "Original" : "Changed"} text: ${message}`)
+    this.name = "StructuredParseError"
+  }
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+const MAX_VALUE_LENGTH = 80
+
+/** Guesses the format from the first character: JSON documents start with an object or array */
+export function detectFormat(text: string): StructuredFormat {
+  const start = text.trimStart()[0]
+  return start === "{" || start === "[" ? "json" : "yaml"
+}
+
+export function parseStructured(text: string, format: StructuredFormat, side: "original" | "changed"): unknown {
+  try {
+    // Empty YAML parses to null; treat empty JSON the same way rather than failing
+    if (!text.trim()) return null
+    return format === "json" ? JSON.parse(text) : parseYaml(text)
+  } catch (error) {
+    throw new StructuredParseError(error instanceof Error ? error.message : String(error), side)
+  }
+}
+
+function getValueType(value: unknown): ValueType {
+  if (value === null || value === undefined) return "null"
+  if (Array.isArray(value)) return "array"
+  switch (typeof value) {
+    case "object":
+      return "object"
+    case "string":
+      return "string"
+    case "number":
+    case "bigint":
+      return "number"
+    case "boolean":
+      return "boolean"
+    default:
+      // Functions and symbols can't come out of a parser; compare them as strings
+      return "string"
+  }
+}
+
+function appendPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`
+  return IDENTIFIER.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+function walk(
+  before: unknown,
+  after: unknown,
+  path: string,
+  options: Pick<LineDiffOptions, "ignoreWhitespace" | "ignoreCase">,
+  changes: StructuredChange[]
+) {
+  const beforeType = getValueType(before)
+  const afterType = getValueType(after)
+
+  if (beforeType !== afterType) {
+    changes.push({ kind: "type-changed", path, before, after })
+    return
+  }
+
+  if (beforeType === "object") {
+    const beforeObject = before as Record<string, unknown>
+    const afterObject = after as Record<string, unknown>
+    const keys = Array.from(new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)])).sort()
+    keys.forEach((key) => {
+      const childPath = appendPath(path, key)
+      // Own keys only: `in` would also find inherited names like `toString` or `constructor`
+      if (!Object.hasOwn(afterObject, key)) {
+        changes.push({ kind: "removed", path: childPath, before: beforeObject[key] })
+      } else if (!Object.hasOwn(beforeObject, key)) {
+        changes.push({ kind: "added", path: childPath, after: afterObject[key] })
+      } else {
+        walk(beforeObject[key], afterObject[key], childPath, options, changes)
+      }
+    })
+    return
+  }
+
+  if (beforeType === "array") {
+    const beforeArray = before as unknown[]
+    const afterArray = after as unknown[]
+    for (let i = 0; i < Math.max(beforeArray.length, afterArray.length); i++) {
+      const childPath = appendPath(path, i)
+      if (i >= afterArray.length) {
+        changes.push({ kind: "removed", path: childPath, before: beforeArray[i] })
+      } else if (i >= beforeArray.length) {
+        changes.push({ kind: "added", path: childPath, after: afterArray[i] })
+      } else {
+        walk(beforeArray[i], afterArray[i], childPath, options, changes)
+      }
+    }
+    return
+  }
+
+  const isEqual =
+    beforeType === "string"
+      ? normalizeLine(String(before), options) === normalizeLine(String(after), options)
+      : before === after || (beforeType === "null" && afterType === "null")
+  if (!isEqual) {
+    changes.push({ kind: "changed", path, before, after })
+  }
+}
+
+/**
+ * Compares two parsed documents. Object keys are compared by name regardless of order and
+ * reported in sorted order; array items are compared by index.
+ */
+export function diffStructured(
+  original: unknown,
+  changed: unknown,
+  options: Pick<LineDiffOptions, "ignoreWhitespace" | "ignoreCase">
+): StructuredChange[] {
+  const changes: StructuredChange[] = []
+  walk(original, changed, "$", options, changes)
+  return changes
+}
+
+export function formatStructuredValue(value: unknown): string {
+  const text = value === undefined ? "null" : JSON.stringify(value) ?? String(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+}
+
+/** One line per change, e.g. `$.items[3].price: 10 → 12` */
+export function formatStructuredChange(change: StructuredChange): string {
+  switch (change.kind) {
+    case "added":
+      return `+ ${change.path}: ${formatStructuredValue(change.after)}`
+    case "removed":
+      return `- ${change.path}: ${formatStructuredValue(change.before)}`
+    case "type-changed":
+      return `~ ${change.path}: ${formatStructuredValue(change.before)} (${getValueType(change.before)}) → ${formatStructuredValue(change.after)} (${getValueType(change.after)})`
+    default:
+      return `~ ${change.path}: ${formatStructuredValue(change.before)} → ${formatStructuredValue(change.after)}`
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { EXACT_DIFF_OPTIONS, computeLineDiff } from "./diff-engine"
+import { buildMergedText, computeThreeWayMerge, countConflicts } from "./three-way-merge"
+
+const merge = (base: string, ours: string, theirs: string) =>
+  computeThreeWayMerge(
+    base,
+    ours,
+    theirs,
+    computeLineDiff(base, ours, EXACT_DIFF_OPTIONS),
+    computeLineDiff(base, theirs, EXACT_DIFF_OPTIONS)
+  )
+
+const kinds = (base: string, ours: string, theirs: string) => merge(base, ours, theirs).map((chunk) => chunk.kind)
+
+describe("computeThreeWayMerge", () => {
+  const base = "a\nb\nc\nd\ne"
+
+  it("leaves identical texts as one unchanged chunk", () => {
+    const chunks = merge(base, base, base)
+    expect(chunks.map((chunk) => chunk.kind)).toEqual(["unchanged"])
+    expect(buildMergedText(chunks, {})).toBe(base)
+  })
+
+  it("takes changes made on one side only", () => {
+    const chunks = merge(base, "a\nB\nc\nd\ne", "a\nb\nc\nd\nE")
+    expect(chunks.map((chunk) => chunk.kind)).toEqual(["unchanged", "ours", "unchanged", "theirs"])
+    expect(countConflicts(chunks)).toBe(0)
+    expect(buildMergedText(chunks, {})).toBe("a\nB\nc\nd\nE")
+  })
+
+  it("takes an identical change on both sides once", () => {
+    const chunks = merge(base, "a\nb\nX\nd\ne", "a\nb\nX\nd\ne")
+    expect(chunks.map((chunk) => chunk.kind)).toEqual(["unchanged", "both", "unchanged"])
+    expect(buildMergedText(chunks, {})).toBe("a\nb\nX\nd\ne")
+  })
+
+  it("takes deletions and insertions", () => {
+    expect(buildMergedText(merge(base, "a\nc\nd\ne", "a\nb\nc\nd\ne\nf"), {})).toBe("a\nc\nd\ne\nf")
+  })
+
+  it("reports different changes to the same lines as a conflict", () => {
+    const chunks = merge(base, "a\nb\nours\nd\ne", "a\nb\ntheirs\nd\ne")
+    expect(chunks.map((chunk) => chunk.kind)).toEqual(["unchanged", "conflict", "unchanged"])
+    expect(chunks[1]).toMatchObject({ base: ["c"], ours: ["ours"], theirs: ["theirs"] })
+    expect(countConflicts(chunks)).toBe(1)
+  })
+
+  it("writes unresolved conflicts with diff3 markers and applies resolutions", () => {
+    const chunks = merge(base, "a\nb\nours\nd\ne", "a\nb\ntheirs\nd\ne")
+    expect(buildMergedText(chunks, {})).toBe(
+      "a\nb\n<<<<<<< ours\nours\n||||||| base\nc\n=======\ntheirs\n>>>>>>> theirs\nd\ne"
+    )
+    expect(buildMergedText(chunks, { 1: "ours" })).toBe("a\nb\nours\nd\ne")
+    expect(buildMergedText(chunks, { 1: "theirs" })).toBe("a\nb\ntheirs\nd\ne")
+    expect(buildMergedText(chunks, { 1: "both" })).toBe("a\nb\nours\ntheirs\nd\ne")
+  })
+
+  it("conflicts when one side edits a line the other deletes", () => {
+    expect(kinds(base, "a\nb\nC\nd\ne", "a\nb\nd\ne")).toContain("conflict")
+  })
+
+  it("conflicts when both sides append different lines at the end", () => {
+    const chunks = merge("a", "a\nours", "a\ntheirs")
+    expect(chunks.map((chunk) => chunk.kind)).toEqual(["unchanged", "conflict"])
+    expect(chunks[1]).toMatchObject({ base: [], ours: ["ours"], theirs: ["theirs"] })
+  })
+
+  it("merges into an empty base", () => {
+    expect(kinds("", "x", "")).toEqual(["ours"])
+    expect(buildMergedText(merge("", "x", ""), {})).toBe("x")
+    expect(kinds("", "x", "y")).toEqual(["conflict"])
+  })
+})
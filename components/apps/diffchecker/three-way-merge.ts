@@ -0,0 +1,167 @@
+// Three-way merge (diff3) for the Diff Checker: aligns "ours" and "theirs" against a common base,
+// takes every change made on only one side and reports overlapping changes as conflicts
+
+import type { DiffLine } from "./diff-engine"
+
+export type MergeChunkKind =
+  /** Identical in all three texts */
+  | "unchanged"
+  /** Changed on one side only, or identically on both; merged automatically */
+  | "ours"
+  | "theirs"
+  | "both"
+  /** Changed differently on both sides */
+  | "conflict"
+
+export interface MergeChunk {
+  kind: MergeChunkKind
+  base: string[]
+  ours: string[]
+  theirs: string[]
+}
+
+/** Accept-left, accept-right, or both sides (ours first) */
+export type ConflictResolution = "ours" | "theirs" | "both"
+
+const CONFLICT_MARKERS = {
+  ours: "<<<<<<< ours",
+  base: "||||||| base",
+  separator: "=======",
+  theirs: ">>>>>>> theirs",
+}
+
+// Maps each base line index to the matching line index of the other text (or -1)
+function toLineMap(baseLength: number, diff: DiffLine[]): Int32Array {
+  const map = new Int32Array(baseLength).fill(-1)
+  diff.forEach((line) => {
+    if (line.type === "equal" && line.originalLine !== undefined && line.changedLine !== undefined) {
+      map[line.originalLine - 1] = line.changedLine - 1
+    }
+  })
+  return map
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+/**
+ * Merges `ours` and `theirs` given their exact line diffs against `base` (as produced by
+ * `computeLineDiff(base, ours)` and `computeLineDiff(base, theirs)` with no ignore options).
+ * Base lines matched in both diffs are stable; everything between stable lines is one chunk.
+ */
+export function computeThreeWayMerge(
+  base: string,
+  ours: string,
+  theirs: string,
+  oursDiff: DiffLine[],
+  theirsDiff: DiffLine[]
+): MergeChunk[] {
+  const baseLines = base.split("\n")
+  const oursLines = ours.split("\n")
+  const theirsLines = theirs.split("\n")
+  const oursMap = toLineMap(baseLines.length, oursDiff)
+  const theirsMap = toLineMap(baseLines.length, theirsDiff)
+  const chunks: MergeChunk[] = []
+
+  const pushChunk = (chunk: MergeChunk) => {
+    const last = chunks[chunks.length - 1]
+    if (chunk.kind === "unchanged" && last?.kind === "unchanged") {
+      last.base.push(...chunk.base)
+      last.ours.push(...chunk.ours)
+      last.theirs.push(...chunk.theirs)
+    } else {
+      chunks.push(chunk)
+    }
+  }
+
+  let b = 0
+  let o = 0
+  let t = 0
+  while (b < baseLines.length || o < oursLines.length || t < theirsLines.length) {
+    // Next base line present in both other texts
+    let stable = b
+    while (stable < baseLines.length && (oursMap[stable] === -1 || theirsMap[stable] === -1)) {
+      stable++
+    }
+    const endBase = stable
+    const endOurs = stable < baseLines.length ? oursMap[stable] : oursLines.length
+    const endTheirs = stable < baseLines.length ? theirsMap[stable] : theirsLines.length
+
+    if (endBase > b || endOurs > o || endTheirs > t) {
+      const chunk: MergeChunk = {
+        kind: "conflict",
+        base: baseLines.slice(b, endBase),
+        ours: oursLines.slice(o, endOurs),
+        theirs: theirsLines.slice(t, endTheirs),
+      }
+      const oursChanged = !sameLines(chunk.base, chunk.ours)
+      const theirsChanged = !sameLines(chunk.base, chunk.theirs)
+      if (!oursChanged && !theirsChanged) {
+        chunk.kind = "unchanged"
+      } else if (!theirsChanged) {
+        chunk.kind = "ours"
+      } else if (!oursChanged) {
+        chunk.kind = "theirs"
+      } else if (sameLines(chunk.ours, chunk.theirs)) {
+        chunk.kind = "both"
+      }
+      pushChunk(chunk)
+    }
+
+    if (stable < baseLines.length) {
+      const line = baseLines[stable]
+      pushChunk({ kind: "unchanged", base: [line], ours: [line], theirs: [line] })
+    }
+    b = endBase + 1
+    o = endOurs + 1
+    t = endTheirs + 1
+  }
+
+  return chunks
+}
+
+export function countConflicts(chunks: MergeChunk[]): number {
+  return chunks.filter((chunk) => chunk.kind === "conflict").length
+}
+
+/** Lines a chunk contributes to the output, or null for an unresolved conflict */
+export function getResolvedLines(chunk: MergeChunk, resolution?: ConflictResolution): string[] | null {
+  switch (chunk.kind) {
+    case "unchanged":
+    case "ours":
+    case "both":
+      return chunk.ours
+    case "theirs":
+      return chunk.theirs
+    default:
+      if (!resolution) return null
+      if (resolution === "both") return [...chunk.ours, ...chunk.theirs]
+      return resolution === "ours" ? chunk.ours : chunk.theirs
+  }
+}
+
+/**
+ * Builds the merged text. Resolutions are keyed by chunk index; unresolved conflicts are written
+ * with diff3-style conflict markers so they can still be resolved in an editor.
+ */
+export function buildMergedText(chunks: MergeChunk[], resolutions: Record<number, ConflictResolution>): string {
+  const output: string[] = []
+  chunks.forEach((chunk, index) => {
+    const lines = getResolvedLines(chunk, resolutions[index])
+    if (lines) {
+      output.push(...lines)
+    } else {
+      output.push(
+        CONFLICT_MARKERS.ours,
+        ...chunk.ours,
+        CONFLICT_MARKERS.base,
+        ...chunk.base,
+        CONFLICT_MARKERS.separator,
+        ...chunk.theirs,
+        CONFLICT_MARKERS.theirs
+      )
+    }
+  })
+  return output.join("\n")
+}
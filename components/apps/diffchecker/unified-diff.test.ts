@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { EXACT_DIFF_OPTIONS, computeLineDiff, type LineDiffOptions } from "./diff-engine"
+import { canExportDiff, formatUnifiedDiff, parseUnifiedDiff } from "./unified-diff"
+
+const NAMES = { originalName: "original.txt", changedName: "changed.txt", contextLines: 3 }
+
+// Applies a single-file patch the way `git apply` does: context and deleted lines must match exactly
+function applyPatch(original: string, patch: string): string | null {
+  const [file] = parseUnifiedDiff(patch)
+  const source = original.split("\n")
+  const output: string[] = []
+  let next = 0
+  for (const hunk of file.hunks) {
+    const start = hunk.originalLength === 0 ? hunk.originalStart : hunk.originalStart - 1
+    output.push(...source.slice(next, start))
+    next = start
+    for (const line of hunk.lines) {
+      if (line.type === "insert") {
+        output.push(line.content)
+        continue
+      }
+      if (source[next] !== line.content) return null
+      if (line.type === "equal") output.push(line.content)
+      next++
+    }
+  }
+  return [...output, ...source.slice(next)].join("\n")
+}
+
+// What the Diff Checker downloads for a diff shown with `viewOptions`
+function exportPatch(original: string, changed: string, viewOptions: LineDiffOptions): string {
+  const viewLines = computeLineDiff(original, changed, viewOptions)
+  const lines = canExportDiff(viewOptions) ? viewLines : computeLineDiff(original, changed, EXACT_DIFF_OPTIONS)
+  return formatUnifiedDiff(lines, original, changed, NAMES)
+}
+
+describe("patch export", () => {
+  const original = "  a\nB\nc\n"
+  const changed = " a\nb\nd\n"
+  const ignoring: LineDiffOptions = { ignoreWhitespace: true, ignoreCase: true, inlineDiff: "word" }
+
+  it("applies to the original when the view ignores whitespace and case", () => {
+    expect(applyPatch(original, exportPatch(original, changed, ignoring))).toBe(changed)
+  })
+
+  it("keeps whitespace and case edits the view hides", () => {
+    const patch = exportPatch(original, changed, ignoring)
+    expect(patch).toContain("\n-  a\n")
+    expect(patch).toContain("\n+b\n")
+    // The view's own diff writes changed lines as context, which doesn't apply
+    const viewPatch = formatUnifiedDiff(computeLineDiff(original, changed, ignoring), original, changed, NAMES)
+    expect(applyPatch(original, viewPatch)).toBeNull()
+  })
+
+  it("round-trips an exact diff", () => {
+    const from = "one\ntwo\nthree\nfour\n"
+    const to = "one\n2\nthree\nfour\nfive\n"
+    expect(applyPatch(from, exportPatch(from, to, EXACT_DIFF_OPTIONS))).toBe(to)
+  })
+})
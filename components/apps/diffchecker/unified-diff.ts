@@ -0,0 +1,295 @@
+// Unified diff (git patch) export and import for the Diff Checker
+
+import { groupHunks, type DiffHunk, type DiffLine, type LineDiffOptions } from "./diff-engine"
+
+export interface PatchFile {
+  oldName: string
+  newName: string
+  hunks: DiffHunk[]
+  additions: number
+  deletions: number
+  /** Set for "Binary files ... differ" entries, which have no hunks */
+  binary?: boolean
+}
+
+export interface UnifiedDiffOptions {
+  originalName: string
+  changedName: string
+  contextLines: number
+}
+
+const NO_NEWLINE_MARKER = "\\ No newline at end of file"
+const DEV_NULL = "/dev/null"
+
+export class PatchParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`)
+    this.name = "PatchParseError"
+  }
+}
+
+function countLines(text: string): number {
+  return text.split("\n").length
+}
+
+// split("\n") yields an empty last element for text ending in a newline (or for empty text);
+// that element is not a real line and must not appear in a patch
+function getPhantomLine(text: string): number | null {
+  return text === "" || text.endsWith("\n") ? countLines(text) : null
+}
+
+/**
+ * Drops the phantom trailing lines from a diff of the two texts and splits a final line pair that
+ * only differs in its trailing newline, so the patch applies cleanly with `git apply` / `patch`.
+ */
+function toPatchLines(lines: DiffLine[], original: string, changed: string): DiffLine[] {
+  const phantomOriginal = getPhantomLine(original)
+  const phantomChanged = getPhantomLine(changed)
+  const lastOriginal = countLines(original)
+  const lastChanged = countLines(changed)
+  const result: DiffLine[] = []
+
+  lines.forEach((line) => {
+    const isPhantomOriginal = line.type !== "insert" && line.originalLine === phantomOriginal
+    const isPhantomChanged = line.type !== "delete" && line.changedLine === phantomChanged
+
+    if (line.type === "equal") {
+      if (isPhantomOriginal && isPhantomChanged) return
+      if (isPhantomOriginal) {
+        result.push({ type: "insert", content: line.content, changedLine: line.changedLine })
+        return
+      }
+      if (isPhantomChanged) {
+        result.push({ type: "delete", content: line.content, originalLine: line.originalLine })
+        return
+      }
+      // Same text, but only one side ends with a newline
+      const originalUnterminated = phantomOriginal === null && line.originalLine === lastOriginal
+      const changedUnterminated = phantomChanged === null && line.changedLine === lastChanged
+      if (originalUnterminated !== changedUnterminated) {
+        result.push({ type: "delete", content: line.content, originalLine: line.originalLine })
+        result.push({ type: "insert", content: line.content, changedLine: line.changedLine })
+        return
+      }
+      result.push(line)
+    } else if (!isPhantomOriginal && !isPhantomChanged) {
+      result.push(line)
+    }
+  })
+
+  // Keep deletions ahead of insertions within each change block
+  for (let i = 1; i < result.length; i++) {
+    if (result[i].type === "delete" && result[i - 1].type === "insert") {
+      let j = i
+      while (j > 0 && result[j - 1].type === "insert") {
+        ;[result[j - 1], result[j]] = [result[j], result[j - 1]]
+        j--
+      }
+    }
+  }
+
+  return result
+}
+
+function formatHunkHeader(hunk: DiffHunk): string {
+  const range = (start: number, length: number) => (length === 1 ? `${start}` : `${start},${length}`)
+  return `@@ -${range(hunk.originalStart, hunk.originalLength)} +${range(hunk.changedStart, hunk.changedLength)} @@`
+}
+
+export function formatPatchFileHeader(oldName: string, newName: string): string[] {
+  const from = oldName === DEV_NULL ? DEV_NULL : `a/${oldName}`
+  const to = newName === DEV_NULL ? DEV_NULL : `b/${newName}`
+  return [`diff --git a/${oldName === DEV_NULL ? newName : oldName} b/${newName === DEV_NULL ? oldName : newName}`, `--- ${from}`, `+++ ${to}`]
+}
+
+function formatHunks(hunks: DiffHunk[], unterminated: { original: number | null; changed: number | null }): string[] {
+  const output: string[] = []
+  hunks.forEach((hunk) => {
+    output.push(formatHunkHeader(hunk))
+    hunk.lines.forEach((line) => {
+      const prefix = line.type === "insert" ? "+" : line.type === "delete" ? "-" : " "
+      output.push(prefix + line.content)
+      const endsOriginal = line.type !== "insert" && line.originalLine === unterminated.original
+      const endsChanged = line.type !== "delete" && line.changedLine === unterminated.changed
+      if (endsOriginal || endsChanged) {
+        output.push(NO_NEWLINE_MARKER)
+      }
+    })
+  })
+  return output
+}
+
+/**
+ * Whether a diff computed with `options` can be exported as a patch. Lines matched by ignoring
+ * whitespace or case would be written as context, so the patch wouldn't apply to the original;
+ * diff again with EXACT_DIFF_OPTIONS instead.
+ */
+export function canExportDiff(options: Pick<LineDiffOptions, "ignoreWhitespace" | "ignoreCase">): boolean {
+  return !options.ignoreWhitespace && !options.ignoreCase
+}
+
+/** Formats a diff of two texts as a unified diff with git-style a/ and b/ file names */
+export function formatUnifiedDiff(
+  lines: DiffLine[],
+  original: string,
+  changed: string,
+  options: UnifiedDiffOptions
+): string {
+  const patchLines = toPatchLines(lines, original, changed)
+  const hunks = groupHunks(patchLines, options.contextLines)
+  if (hunks.length === 0) return ""
+
+  const unterminated = {
+    original: getPhantomLine(original) === null ? countLines(original) : null,
+    changed: getPhantomLine(changed) === null ? countLines(changed) : null,
+  }
+  return [
+    ...formatPatchFileHeader(options.originalName, options.changedName),
+    ...formatHunks(hunks, unterminated),
+  ].join("\n") + "\n"
+}
+
+/** Re-serializes parsed patch files, e.g. to download a pasted patch */
+export function formatPatchFiles(files: PatchFile[]): string {
+  return files
+    .map((file) => {
+      const header = formatPatchFileHeader(file.oldName, file.newName)
+      if (file.binary) {
+        return [header[0], `Binary files ${header[1].slice(4)} and ${header[2].slice(4)} differ`].join("\n")
+      }
+      const output: string[] = [...header]
+      file.hunks.forEach((hunk) => {
+        output.push(formatHunkHeader(hunk))
+        hunk.lines.forEach((line) => {
+          const prefix = line.type === "insert" ? "+" : line.type === "delete" ? "-" : " "
+          output.push(prefix + line.content)
+          if (line.noNewlineAtEnd) output.push(NO_NEWLINE_MARKER)
+        })
+      })
+      return output.join("\n")
+    })
+    .join("\n") + "\n"
+}
+
+function stripPathPrefix(name: string): string {
+  // Drop a trailing timestamp ("--- file.txt\t2024-01-01 ...") and the a/ b/ prefixes
+  const path = name.split("\t")[0].trim()
+  if (path === DEV_NULL) return DEV_NULL
+  return path.replace(/^[ab]\//, "")
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+/**
+ * Parses a unified diff: plain `diff -u` output or `git diff` / `git format-patch` output,
+ * with any number of files. Commit messages and other text between files are ignored.
+ */
+export function parseUnifiedDiff(patch: string): PatchFile[] {
+  const lines = patch.replace(/\r\n/g, "\n").split("\n")
+  const files: PatchFile[] = []
+  let current: PatchFile | null = null
+  let gitNames: [string, string] | null = null
+  let index = 0
+
+  const createFile = (oldName: string, newName: string): PatchFile => {
+    const file: PatchFile = { oldName, newName, hunks: [], additions: 0, deletions: 0 }
+    files.push(file)
+    return file
+  }
+
+  // git headers without ---/+++ lines (renames, mode changes, empty new files) still list the file
+  const flushGitHeader = () => {
+    if (gitNames) createFile(gitNames[0], gitNames[1])
+    gitNames = null
+  }
+
+  while (index < lines.length) {
+    const line = lines[index]
+
+    if (line.startsWith("diff --git ")) {
+      flushGitHeader()
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/)
+      gitNames = match ? [match[1], match[2]] : null
+      current = null
+      index++
+      continue
+    }
+
+    if (line.startsWith("Binary files ") && gitNames) {
+      current = createFile(gitNames[0], gitNames[1])
+      current.binary = true
+      gitNames = null
+      index++
+      continue
+    }
+
+    if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")) {
+      current = createFile(stripPathPrefix(line.slice(4)), stripPathPrefix(lines[index + 1].slice(4)))
+      gitNames = null
+      index += 2
+      continue
+    }
+
+    const header = line.match(HUNK_HEADER)
+    if (header) {
+      if (!current) {
+        throw new PatchParseError("Hunk found before a --- / +++ file header", index + 1)
+      }
+      const file: PatchFile = current
+      const hunk: DiffHunk = {
+        originalStart: parseInt(header[1], 10),
+        originalLength: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        changedStart: parseInt(header[3], 10),
+        changedLength: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+      }
+      // Zero-length ranges point at the line before the change
+      let originalLine = hunk.originalLength === 0 ? hunk.originalStart + 1 : hunk.originalStart
+      let changedLine = hunk.changedLength === 0 ? hunk.changedStart + 1 : hunk.changedStart
+      let remainingOriginal = hunk.originalLength
+      let remainingChanged = hunk.changedLength
+      index++
+
+      while (index < lines.length && (remainingOriginal > 0 || remainingChanged > 0 || lines[index].startsWith("\\"))) {
+        const body = lines[index]
+        const marker = body[0]
+        const content = body.slice(1)
+
+        if (marker === "\\") {
+          const last = hunk.lines[hunk.lines.length - 1]
+          if (last) last.noNewlineAtEnd = true
+        } else if (marker === " " || body === "") {
+          // Some tools strip the trailing space of empty context lines
+          hunk.lines.push({ type: "equal", content, originalLine: originalLine++, changedLine: changedLine++ })
+          remainingOriginal--
+          remainingChanged--
+        } else if (marker === "-") {
+          hunk.lines.push({ type: "delete", content, originalLine: originalLine++ })
+          file.deletions++
+          remainingOriginal--
+        } else if (marker === "+") {
+          hunk.lines.push({ type: "insert", content, changedLine: changedLine++ })
+          file.additions++
+          remainingChanged--
+        } else {
+          throw new PatchParseError(`Unexpected line in hunk: "${body.slice(0, 40)}"`, index + 1)
+        }
+        index++
+      }
+
+      if (remainingOriginal !== 0 || remainingChanged !== 0) {
+        throw new PatchParseError("Hunk is shorter than its @@ header says", index)
+      }
+      file.hunks.push(hunk)
+      continue
+    }
+
+    index++
+  }
+  flushGitHeader()
+
+  if (files.length === 0) {
+    throw new PatchParseError("No file headers (--- / +++) found", 1)
+  }
+  return files
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import * as React from "react"
+import { addDoc, collection, doc, getDoc, serverTimestamp } from "firebase/firestore"
+import { useAuth } from "@/components/auth/auth-provider"
+import { readUpdatedAt, useUserCollection, type UserCollectionDefinition } from "@/components/apps/use-user-collection"
+import { db } from "@/lib/firebase/config"
+import { diffSnapshotSchema, type DiffSnapshot, type SavedDiffSession } from "./diff-session"
+
+export const DIFF_SESSIONS_COLLECTION = "diffCheckerSessions"
+export const SHARED_DIFF_SESSIONS_COLLECTION = "diffCheckerSharedSessions"
+
+/** Reads a read-only shared snapshot; works signed out */
+export async function loadSharedSession(shareId: string): Promise<DiffSnapshot | null> {
+  const snap = await getDoc(doc(db, SHARED_DIFF_SESSIONS_COLLECTION, shareId))
+  if (!snap.exists()) return null
+  return diffSnapshotSchema.parse(snap.data())
+}
+
+const DIFF_SESSIONS: UserCollectionDefinition<typeof diffSnapshotSchema, SavedDiffSession> = {
+  collection: DIFF_SESSIONS_COLLECTION,
+  label: "sessions",
+  schema: diffSnapshotSchema,
+  toItem: (id, snapshot, data) => ({
+    ...snapshot,
+    id,
+    name: typeof data.name === "string" ? data.name : "Untitled",
+    updatedAt: readUpdatedAt(data),
+  }),
+}
+
+/** The signed-in user's saved sessions from /users/{uid}/diffCheckerSessions, newest first */
+export function useDiffSessions() {
+  const { user } = useAuth()
+  const { items: sessions, loading, save, remove: deleteSession } = useUserCollection(DIFF_SESSIONS)
+
+  /** Creates a session, or overwrites the one with `sessionId`; resolves to the session ID */
+  const saveSession = React.useCallback(
+    (name: string, snapshot: DiffSnapshot, sessionId?: string) => save({ ...snapshot, name }, sessionId),
+    [save]
+  )
+
+  /** Publishes a read-only copy that anyone with the link can open; resolves to the share ID */
+  const shareSession = React.useCallback(
+    async (snapshot: DiffSnapshot) => {
+      if (!user) throw new Error("You must be signed in to share large diffs")
+
+      const created = await addDoc(collection(db, SHARED_DIFF_SESSIONS_COLLECTION), {
+        ...snapshot,
+        createdBy: user.uid,
+        createdAt: serverTimestamp(),
+      })
+      return created.id
+    },
+    [user]
+  )
+
+  return { sessions, loading, saveSession, deleteSession, shareSession }
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import * as React from "react"
+import { computeLineDiff, type DiffLine, type LineDiffOptions } from "./diff-engine"
+
+export interface DiffWorkerRequest {
+  id: number
+  original: string
+  changed: string
+  options: LineDiffOptions
+}
+
+export type DiffWorkerResponse = { id: number; lines: DiffLine[] } | { id: number; error: string }
+
+/**
+ * Computes diffs in a Web Worker. Only the most recent request resolves; earlier ones that are
+ * still running resolve to null so callers can ignore stale results. Falls back to the main
+ * thread where workers aren't available.
+ */
+export function useDiffWorker() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const latestIdRef = React.useRef(0)
+  const pendingRef = React.useRef(
+    new Map<number, { resolve: (lines: DiffLine[] | null) => void; reject: (error: Error) => void }>()
+  )
+
+  React.useEffect(() => {
+    if (typeof Worker === "undefined") return
+
+    const worker = new Worker(new URL("./diff.worker.ts", import.meta.url))
+    const pending = pendingRef.current
+    worker.onmessage = (event: MessageEvent<DiffWorkerResponse>) => {
+      const response = event.data
+      const request = pending.get(response.id)
+      if (!request) return
+      pending.delete(response.id)
+
+      if (response.id !== latestIdRef.current) {
+        request.resolve(null)
+      } else if ("error" in response) {
+        request.reject(new Error(response.error))
+      } else {
+        request.resolve(response.lines)
+      }
+    }
+    worker.onerror = (event) => {
+      console.error("Diff worker failed:", event.message)
+      pending.forEach((request) => request.reject(new Error(event.message || "Diff worker failed")))
+      pending.clear()
+    }
+    workerRef.current = worker
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      pending.forEach((request) => request.resolve(null))
+      pending.clear()
+    }
+  }, [])
+
+  const runDiff = React.useCallback(
+    (original: string, changed: string, options: LineDiffOptions): Promise<DiffLine[] | null> => {
+      const id = ++latestIdRef.current
+      const worker = workerRef.current
+      if (!worker) {
+        return Promise.resolve(computeLineDiff(original, changed, options))
+      }
+
+      return new Promise((resolve, reject) => {
+        pendingRef.current.set(id, { resolve, reject })
+        const request: DiffWorkerRequest = { id, original, changed, options }
+        worker.postMessage(request)
+      })
+    },
+    []
+  )
+
+  return runDiff
+}
@@ -0,0 +1,176 @@
+// Minimal DER (ASN.1) reader: just enough to walk certificates and CSRs. It decodes the tag/length
+// structure and a handful of primitive types; everything else is left as raw bytes.
+
+import { CryptoInputError } from "./web-crypto"
+import { bytesToHex } from "./encoding"
+
+export const ASN1_TAGS = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  SEQUENCE: 0x10,
+  SET: 0x11,
+  PRINTABLE_STRING: 0x13,
+  T61_STRING: 0x14,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  UNIVERSAL_STRING: 0x1c,
+  BMP_STRING: 0x1e,
+} as const
+
+export type Asn1Class = "universal" | "application" | "context" | "private"
+
+export interface Asn1Node {
+  tagClass: Asn1Class
+  tagNumber: number
+  constructed: boolean
+  /** The whole encoding, header included */
+  der: Uint8Array<ArrayBuffer>
+  /** Contents only */
+  value: Uint8Array<ArrayBuffer>
+  children: Asn1Node[]
+}
+
+const CLASSES: Asn1Class[] = ["universal", "application", "context", "private"]
+
+function readNode(bytes: Uint8Array<ArrayBuffer>, start: number): Asn1Node {
+  let offset = start
+  const fail = () => {
+    throw new CryptoInputError("This isn't valid DER data")
+  }
+  if (offset >= bytes.length) fail()
+
+  const first = bytes[offset++]
+  let tagNumber = first & 0x1f
+  if (tagNumber === 0x1f) {
+    tagNumber = 0
+    let byte: number
+    do {
+      if (offset >= bytes.length) fail()
+      byte = bytes[offset++]
+      tagNumber = tagNumber * 128 + (byte & 0x7f)
+    } while (byte & 0x80)
+  }
+
+  if (offset >= bytes.length) fail()
+  let length = bytes[offset++]
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f
+    // Indefinite lengths are BER, not DER, and nothing here is larger than 4 GB
+    if (lengthBytes === 0 || lengthBytes > 4) fail()
+    length = 0
+    for (let i = 0; i < lengthBytes; i++) {
+      if (offset >= bytes.length) fail()
+      length = length * 256 + bytes[offset++]
+    }
+  }
+  if (offset + length > bytes.length) fail()
+
+  const constructed = (first & 0x20) !== 0
+  const value = bytes.subarray(offset, offset + length)
+  return {
+    tagClass: CLASSES[first >> 6],
+    tagNumber,
+    constructed,
+    der: bytes.subarray(start, offset + length),
+    value,
+    children: constructed ? readChildren(value) : [],
+  }
+}
+
+function readChildren(bytes: Uint8Array<ArrayBuffer>): Asn1Node[] {
+  const children: Asn1Node[] = []
+  let offset = 0
+  while (offset < bytes.length) {
+    const child = readNode(bytes, offset)
+    children.push(child)
+    offset += child.der.length
+  }
+  return children
+}
+
+/** Parses a single DER value; throws a CryptoInputError if it's malformed or has trailing bytes */
+export function parseDer(bytes: Uint8Array<ArrayBuffer>): Asn1Node {
+  const node = readNode(bytes, 0)
+  if (node.der.length !== bytes.length) {
+    throw new CryptoInputError("This isn't valid DER data")
+  }
+  return node
+}
+
+export function isUniversal(node: Asn1Node | undefined, tagNumber: number): node is Asn1Node {
+  return node?.tagClass === "universal" && node.tagNumber === tagNumber
+}
+
+export function isContext(node: Asn1Node | undefined, tagNumber: number): node is Asn1Node {
+  return node?.tagClass === "context" && node.tagNumber === tagNumber
+}
+
+/** Dotted-decimal form, e.g. 2.5.4.3 */
+export function readOid(node: Asn1Node): string {
+  const parts: number[] = []
+  let current = 0
+  node.value.forEach((byte) => {
+    current = current * 128 + (byte & 0x7f)
+    if (byte & 0x80) return
+    if (parts.length === 0) {
+      // The first component packs the first two arcs as 40 * x + y
+      const x = current < 80 ? Math.floor(current / 40) : 2
+      parts.push(x, current - 40 * x)
+    } else {
+      parts.push(current)
+    }
+    current = 0
+  })
+  return parts.join(".")
+}
+
+/** Big-endian hex without the sign-padding zero byte */
+export function readIntegerHex(node: Asn1Node): string {
+  const value = node.value.length > 1 && node.value[0] === 0 ? node.value.subarray(1) : node.value
+  return bytesToHex(value)
+}
+
+export function readString(node: Asn1Node): string {
+  switch (node.tagNumber) {
+    case ASN1_TAGS.BMP_STRING:
+      return new TextDecoder("utf-16be").decode(node.value)
+    case ASN1_TAGS.UNIVERSAL_STRING:
+      return Array.from({ length: node.value.length / 4 }, (_, i) =>
+        String.fromCodePoint(new DataView(node.value.buffer, node.value.byteOffset + i * 4, 4).getUint32(0))
+      ).join("")
+    case ASN1_TAGS.T61_STRING:
+      return new TextDecoder("latin1").decode(node.value)
+    default:
+      return new TextDecoder().decode(node.value)
+  }
+}
+
+/** UTCTime (two-digit years, 1950-2049) or GeneralizedTime, both in UTC */
+export function readTime(node: Asn1Node): Date {
+  const text = readString(node)
+  const match =
+    node.tagNumber === ASN1_TAGS.UTC_TIME
+      ? text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/)
+      : text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/)
+  if (!match) {
+    throw new CryptoInputError(`Unsupported time value "${text}"`)
+  }
+  let year = Number(match[1])
+  if (node.tagNumber === ASN1_TAGS.UTC_TIME) {
+    year += year < 50 ? 2000 : 1900
+  }
+  return new Date(
+    Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0))
+  )
+}
+
+/** Contents of a BIT STRING, without the leading unused-bits byte */
+export function readBitString(node: Asn1Node): Uint8Array<ArrayBuffer> {
+  return node.value.subarray(1)
+}
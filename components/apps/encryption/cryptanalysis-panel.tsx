@@ -0,0 +1,434 @@
+"use client"
+
+import * as React from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Copy } from "lucide-react"
+import { toast } from "sonner"
+import {
+  AFFINE_MULTIPLIERS,
+  TransformInputError,
+  convertAffine,
+  convertAtbash,
+  convertRailFence,
+  convertVigenere,
+  type CodecMode,
+} from "./transforms"
+import {
+  ENGLISH_IOC,
+  ENGLISH_LETTER_FREQUENCIES,
+  breakCaesar,
+  countLetters,
+  indexOfCoincidence,
+  solveAffine,
+  solveAtbash,
+  solveRailFence,
+  solveVigenere,
+  type KeyLengthEstimate,
+  type ScoringMethod,
+  type SolveCandidate,
+} from "./cryptanalysis"
+
+type CipherMode = CodecMode | "solve"
+
+type ClassicalCipher = "vigenere" | "atbash" | "affine" | "railfence"
+
+const CIPHER_INFO: Record<ClassicalCipher, { title: string; description: string }> = {
+  vigenere: {
+    title: "Vigenère Cipher",
+    description: "Caesar shifts that cycle through the letters of a key. Auto-solve estimates the key length first.",
+  },
+  atbash: {
+    title: "Atbash Cipher",
+    description: "Reverses the alphabet (A↔Z, B↔Y). Encoding and decoding are the same.",
+  },
+  affine: {
+    title: "Affine Cipher",
+    description: "Maps each letter x to (a·x + b) mod 26. Auto-solve tries all 312 keys.",
+  },
+  railfence: {
+    title: "Rail Fence Cipher",
+    description: "Writes the text in a zigzag across rails and reads it off rail by rail. Auto-solve tries every rail count.",
+  },
+}
+
+function copyToClipboard(text: string, label: string) {
+  navigator.clipboard.writeText(text)
+  toast.success(`${label} copied to clipboard`)
+}
+
+/** Observed letter frequencies of `text` next to the English ones */
+function FrequencyHistogram({ text }: { text: string }) {
+  const counts = React.useMemo(() => countLetters(text), [text])
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  if (total === 0) return null
+
+  const observed = counts.map((count) => count / total)
+  const max = Math.max(...observed, ...ENGLISH_LETTER_FREQUENCIES)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <Label>Letter Frequencies</Label>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-2 rounded-sm bg-primary" /> Input
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-2 rounded-sm bg-muted-foreground/40" /> English
+          </span>
+          <span>
+            {total} letters · IoC {indexOfCoincidence(text).toFixed(4)} (English ≈ {ENGLISH_IOC})
+          </span>
+        </div>
+      </div>
+      <div className="flex h-32 items-end gap-0.5 rounded-lg border p-2">
+        {observed.map((frequency, i) => {
+          const letter = String.fromCharCode(65 + i)
+          return (
+            <div
+              key={letter}
+              className="flex h-full flex-1 flex-col items-center justify-end"
+              title={`${letter}: ${(frequency * 100).toFixed(1)}% (English ${(ENGLISH_LETTER_FREQUENCIES[i] * 100).toFixed(1)}%)`}
+            >
+              <div className="flex w-full flex-1 items-end justify-center gap-px">
+                <div className="w-1/2 rounded-t-sm bg-primary" style={{ height: `${(frequency / max) * 100}%` }} />
+                <div
+                  className="w-1/2 rounded-t-sm bg-muted-foreground/40"
+                  style={{ height: `${(ENGLISH_LETTER_FREQUENCIES[i] / max) * 100}%` }}
+                />
+              </div>
+              <span className="mt-1 text-[10px] font-mono text-muted-foreground">{letter}</span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function CandidateList({
+  candidates,
+  scoreLabel,
+  limit = 10,
+}: {
+  candidates: SolveCandidate[]
+  scoreLabel: string
+  limit?: number
+}) {
+  if (candidates.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <Label>Best Candidates ({scoreLabel})</Label>
+      <div className="divide-y rounded-lg border">
+        {candidates.slice(0, limit).map((candidate, index) => (
+          <div key={candidate.key} className="flex items-start gap-3 p-2">
+            <Badge variant={index === 0 ? "default" : "secondary"} className="shrink-0 font-mono">
+              {candidate.key}
+            </Badge>
+            <span className="shrink-0 w-16 text-xs text-muted-foreground font-mono pt-0.5">
+              {Number.isFinite(candidate.score) ? candidate.score.toFixed(2) : "—"}
+            </span>
+            <span className="min-w-0 flex-1 break-all font-mono text-sm">{candidate.plaintext.slice(0, 300)}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => copyToClipboard(candidate.plaintext, "Plaintext")}
+              aria-label={`Copy plaintext for ${candidate.key}`}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function KeyLengthTable({ estimates }: { estimates: KeyLengthEstimate[] }) {
+  return (
+    <div className="space-y-2">
+      <Label>Key Length Estimates</Label>
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted">
+            <tr>
+              <th className="px-3 py-1 text-left font-medium">Length</th>
+              <th className="px-3 py-1 text-left font-medium">Score</th>
+              <th className="px-3 py-1 text-left font-medium">Avg. IoC</th>
+              <th className="px-3 py-1 text-left font-medium">Kasiski Matches</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {estimates.slice(0, 6).map((estimate, index) => (
+              <tr key={estimate.length} className={index === 0 ? "font-semibold" : undefined}>
+                <td className="px-3 py-1">{estimate.length}</td>
+                <td className="px-3 py-1">{estimate.score.toFixed(3)}</td>
+                <td className="px-3 py-1">{estimate.ioc.toFixed(4)}</td>
+                <td className="px-3 py-1">{estimate.kasiskiCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function CaesarBreaker({ fontSize }: { fontSize: number }) {
+  const [input, setInput] = React.useState("")
+  const [method, setMethod] = React.useState<ScoringMethod>("chi-squared")
+
+  const candidates = React.useMemo(() => (input ? breakCaesar(input, method) : []), [input, method])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <CardTitle>Caesar Breaker</CardTitle>
+            <CardDescription>Tries all 26 shifts and ranks them by how English the result looks</CardDescription>
+          </div>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as ScoringMethod)}
+            aria-label="Scoring method"
+            className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            <option value="chi-squared">Chi-squared</option>
+            <option value="frequency">Letter frequency</option>
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Ciphertext</Label>
+          <Textarea
+            placeholder="Paste Caesar-shifted text..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="font-mono min-h-[120px]"
+            style={{ fontSize: `${fontSize}px` }}
+          />
+        </div>
+        <FrequencyHistogram text={input} />
+        <CandidateList
+          candidates={candidates}
+          scoreLabel={method === "chi-squared" ? "chi-squared, lower is better" : "frequency score, higher is better"}
+          limit={26}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+interface CipherResult {
+  output?: string
+  error?: string
+  candidates?: SolveCandidate[]
+  keyLengths?: KeyLengthEstimate[]
+}
+
+function ClassicalCipherCard({ cipher, fontSize }: { cipher: ClassicalCipher; fontSize: number }) {
+  const [mode, setMode] = React.useState<CipherMode>("decode")
+  const [input, setInput] = React.useState("")
+  const [vigenereKey, setVigenereKey] = React.useState("KEY")
+  const [affineA, setAffineA] = React.useState(5)
+  const [affineB, setAffineB] = React.useState(8)
+  const [rails, setRails] = React.useState(3)
+
+  const result = React.useMemo<CipherResult>(() => {
+    if (!input) return {}
+    try {
+      if (mode === "solve") {
+        switch (cipher) {
+          case "vigenere":
+            return solveVigenere(input)
+          case "atbash":
+            return { candidates: solveAtbash(input) }
+          case "affine":
+            return { candidates: solveAffine(input) }
+          case "railfence":
+            return { candidates: solveRailFence(input) }
+        }
+      }
+      switch (cipher) {
+        case "vigenere":
+          return { output: convertVigenere(input, vigenereKey, mode) }
+        case "atbash":
+          return { output: convertAtbash(input) }
+        case "affine":
+          return { output: convertAffine(input, affineA, affineB, mode) }
+        case "railfence":
+          return { output: convertRailFence(input, rails, mode) }
+      }
+    } catch (error) {
+      return { error: error instanceof TransformInputError ? error.message : "Invalid input" }
+    }
+  }, [cipher, mode, input, vigenereKey, affineA, affineB, rails])
+
+  const { title, description } = CIPHER_INFO[cipher]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <CardTitle>{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {cipher !== "atbash" && (
+              <Button variant={mode === "encode" ? "default" : "outline"} size="sm" onClick={() => setMode("encode")}>
+                Encode
+              </Button>
+            )}
+            <Button
+              variant={mode === "decode" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setMode("decode")}
+            >
+              {cipher === "atbash" ? "Encode / Decode" : "Decode"}
+            </Button>
+            <Button variant={mode === "solve" ? "default" : "outline"} size="sm" onClick={() => setMode("solve")}>
+              Auto-solve
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mode !== "solve" && cipher === "vigenere" && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="vigenereKey">Key</Label>
+            <Input
+              id="vigenereKey"
+              value={vigenereKey}
+              onChange={(e) => setVigenereKey(e.target.value)}
+              className="w-48 font-mono"
+            />
+          </div>
+        )}
+        {mode !== "solve" && cipher === "affine" && (
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="affineA">a</Label>
+              <select
+                id="affineA"
+                value={affineA}
+                onChange={(e) => setAffineA(parseInt(e.target.value))}
+                className="flex h-10 w-24 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                {AFFINE_MULTIPLIERS.map((a) => (
+                  <option key={a} value={a}>
+                    {a}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="affineB">b</Label>
+              <Input
+                id="affineB"
+                type="number"
+                min="0"
+                max="25"
+                value={affineB}
+                onChange={(e) => setAffineB((parseInt(e.target.value) || 0) % 26)}
+                className="w-20"
+              />
+            </div>
+          </div>
+        )}
+        {mode !== "solve" && cipher === "railfence" && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="railCount">Rails</Label>
+            <Input
+              id="railCount"
+              type="number"
+              min="2"
+              max="50"
+              value={rails}
+              onChange={(e) => setRails(Math.min(50, Math.max(2, parseInt(e.target.value) || 2)))}
+              className="w-20"
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label>{mode === "encode" ? "Plaintext" : "Ciphertext"}</Label>
+          <Textarea
+            placeholder={mode === "encode" ? "Enter text to encode..." : "Paste the ciphertext..."}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="font-mono min-h-[120px]"
+            style={{ fontSize: `${fontSize}px` }}
+          />
+        </div>
+        {result.error && <p className="text-sm text-destructive">{result.error}</p>}
+        {mode === "solve" ? (
+          <>
+            <FrequencyHistogram text={input} />
+            {result.keyLengths && <KeyLengthTable estimates={result.keyLengths} />}
+            <CandidateList
+              candidates={result.candidates ?? []}
+              scoreLabel={
+                cipher === "railfence"
+                  ? "bigram score, higher is better"
+                  : cipher === "vigenere"
+                    ? "by likely key length, chi-squared"
+                    : "chi-squared, lower is better"
+              }
+            />
+          </>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Output</Label>
+              {result.output && (
+                <Button variant="ghost" size="sm" onClick={() => copyToClipboard(result.output as string, title)}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              )}
+            </div>
+            <Textarea
+              readOnly
+              value={result.output ?? ""}
+              className="font-mono min-h-[120px] bg-muted"
+              style={{ fontSize: `${fontSize}px` }}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/** Breakers and extra classical ciphers for CTF-style puzzles */
+export function CryptanalysisPanel({ fontSize }: { fontSize: number }) {
+  return (
+    <Tabs defaultValue="caesar" className="w-full">
+      <TabsList className="grid w-full grid-cols-3 md:grid-cols-5 h-auto">
+        <TabsTrigger value="caesar">Caesar Breaker</TabsTrigger>
+        <TabsTrigger value="vigenere">Vigenère</TabsTrigger>
+        <TabsTrigger value="atbash">Atbash</TabsTrigger>
+        <TabsTrigger value="affine">Affine</TabsTrigger>
+        <TabsTrigger value="railfence">Rail Fence</TabsTrigger>
+      </TabsList>
+      <TabsContent value="caesar" className="mt-4">
+        <CaesarBreaker fontSize={fontSize} />
+      </TabsContent>
+      {(["vigenere", "atbash", "affine", "railfence"] as const).map((cipher) => (
+        <TabsContent key={cipher} value={cipher} className="mt-4">
+          <ClassicalCipherCard cipher={cipher} fontSize={fontSize} />
+        </TabsContent>
+      ))}
+    </Tabs>
+  )
+}
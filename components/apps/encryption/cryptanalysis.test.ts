@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { breakCaesar, estimateVigenereKeyLength, lettersOnly, solveVigenere } from "./cryptanalysis"
+import { convertCaesar, convertVigenere } from "./transforms"
+
+const PASSAGE =
+  "It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of " +
+  "foolishness, it was the epoch of belief, it was the epoch of incredulity, it was the season of Light, " +
+  "it was the season of Darkness, it was the spring of hope, it was the winter of despair, we had " +
+  "everything before us, we had nothing before us, we were all going direct to Heaven, we were all " +
+  "going direct the other way, in short, the period"
+
+const SHORT_PASSAGE = "Call me Ishmael. Some years ago, never mind how long precisely, having little or no money in my purse."
+
+describe("breakCaesar", () => {
+  it("ranks the right shift first", () => {
+    const [best] = breakCaesar(convertCaesar(PASSAGE, 7, "encode"))
+    expect(best.key).toBe("shift 7")
+    expect(best.plaintext).toBe(PASSAGE)
+  })
+})
+
+describe("estimateVigenereKeyLength", () => {
+  it("ranks the real key length ahead of its multiples", () => {
+    const ciphertext = convertVigenere(PASSAGE, "LEMON", "encode")
+    expect(lettersOnly(ciphertext)).toHaveLength(335)
+    expect(estimateVigenereKeyLength(ciphertext)[0].length).toBe(5)
+  })
+
+  it("finds short keys in short texts", () => {
+    const ciphertext = convertVigenere(SHORT_PASSAGE, "KEY", "encode")
+    expect(estimateVigenereKeyLength(ciphertext)[0].length).toBe(3)
+  })
+
+  it("scores every length up to the limit", () => {
+    const estimates = estimateVigenereKeyLength(convertVigenere(PASSAGE, "CIPHER", "encode"), 12)
+    expect(estimates.map((estimate) => estimate.length).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 12 }, (_, index) => index + 1)
+    )
+    expect(estimates[0].length).toBe(6)
+  })
+})
+
+describe("solveVigenere", () => {
+  it("recovers the key and plaintext", () => {
+    const { candidates } = solveVigenere(convertVigenere(PASSAGE, "LEMON", "encode"))
+    expect(candidates[0].key).toBe("LEMON")
+    expect(candidates[0].plaintext).toBe(PASSAGE)
+  })
+})
@@ -0,0 +1,239 @@
+// Scoring and brute-force solvers for the classical ciphers in transforms.ts. Substitution ciphers
+// are ranked by how closely their letter frequencies match English; transpositions keep the letter
+// frequencies, so rail fence candidates are ranked by English bigrams instead.
+
+import {
+  AFFINE_MULTIPLIERS,
+  convertAffine,
+  convertAtbash,
+  convertCaesar,
+  convertRailFence,
+  convertVigenere,
+} from "./transforms"
+
+/** Relative frequency of A-Z in English text */
+export const ENGLISH_LETTER_FREQUENCIES = [
+  0.08167, 0.01492, 0.02782, 0.04253, 0.12702, 0.02228, 0.02015, 0.06094, 0.06966, 0.00153, 0.00772, 0.04025,
+  0.02406, 0.06749, 0.07507, 0.01929, 0.00095, 0.05987, 0.06327, 0.09056, 0.02758, 0.00978, 0.0236, 0.0015,
+  0.01974, 0.00074,
+]
+
+/** Expected index of coincidence for English text */
+export const ENGLISH_IOC = 0.0667
+
+// The most common English bigrams, as a percentage of all bigrams
+const ENGLISH_BIGRAMS: Record<string, number> = {
+  TH: 3.56, HE: 3.07, IN: 2.43, ER: 2.05, AN: 1.99, RE: 1.85, ON: 1.76, AT: 1.49, EN: 1.45, ND: 1.35,
+  TI: 1.34, ES: 1.34, OR: 1.28, TE: 1.2, OF: 1.17, ED: 1.17, IS: 1.13, IT: 1.12, AL: 1.09, AR: 1.07,
+  ST: 1.05, TO: 1.04, NT: 1.04, NG: 0.95, SE: 0.93, HA: 0.93, AS: 0.87, OU: 0.87, IO: 0.83, LE: 0.83,
+  VE: 0.83, CO: 0.79, ME: 0.79, DE: 0.76, HI: 0.76, RI: 0.73, RO: 0.73, IC: 0.7, NE: 0.69, EA: 0.69,
+  RA: 0.69, CE: 0.65, LI: 0.62, CH: 0.6, LL: 0.58, BE: 0.58, MA: 0.57, SI: 0.55, OM: 0.55, UR: 0.54,
+}
+
+// Score for a bigram that isn't in the table
+const RARE_BIGRAM_PERCENT = 0.02
+
+export type ScoringMethod = "chi-squared" | "frequency"
+
+/** Uppercase A-Z only */
+export function lettersOnly(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z]/g, "")
+}
+
+export function countLetters(text: string): number[] {
+  const counts = new Array(26).fill(0)
+  for (const char of lettersOnly(text)) {
+    counts[char.charCodeAt(0) - 65]++
+  }
+  return counts
+}
+
+/** Chi-squared distance from English letter frequencies; lower is more English-like */
+export function chiSquared(text: string): number {
+  const counts = countLetters(text)
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  if (total === 0) return Infinity
+  return counts.reduce((sum, count, i) => {
+    const expected = total * ENGLISH_LETTER_FREQUENCIES[i]
+    return sum + (count - expected) ** 2 / expected
+  }, 0)
+}
+
+/** Average English frequency of the text's letters; higher is more English-like */
+export function frequencyScore(text: string): number {
+  const letters = lettersOnly(text)
+  if (letters.length === 0) return 0
+  let sum = 0
+  for (const char of letters) sum += ENGLISH_LETTER_FREQUENCIES[char.charCodeAt(0) - 65]
+  return sum / letters.length
+}
+
+/** Average log10 bigram frequency across adjacent letters; higher is more English-like */
+export function bigramScore(text: string): number {
+  const letters = lettersOnly(text)
+  if (letters.length < 2) return -Infinity
+  let sum = 0
+  for (let i = 0; i < letters.length - 1; i++) {
+    sum += Math.log10(ENGLISH_BIGRAMS[letters.slice(i, i + 2)] ?? RARE_BIGRAM_PERCENT)
+  }
+  return sum / (letters.length - 1)
+}
+
+/** Probability that two letters picked at random from the text are the same */
+export function indexOfCoincidence(text: string): number {
+  const counts = countLetters(text)
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  if (total < 2) return 0
+  return counts.reduce((sum, count) => sum + count * (count - 1), 0) / (total * (total - 1))
+}
+
+export interface SolveCandidate {
+  /** Human-readable key, e.g. "shift 3", "LEMON", "a=5, b=8" */
+  key: string
+  plaintext: string
+  /** Chi-squared (lower is better), frequency or bigram score (higher is better) */
+  score: number
+}
+
+function rankCandidates(candidates: SolveCandidate[], lowerIsBetter: boolean): SolveCandidate[] {
+  return [...candidates].sort((x, y) => (lowerIsBetter ? x.score - y.score : y.score - x.score))
+}
+
+function scoreText(text: string, method: ScoringMethod): number {
+  return method === "chi-squared" ? chiSquared(text) : frequencyScore(text)
+}
+
+/** Decrypts with all 26 shifts, best first */
+export function breakCaesar(ciphertext: string, method: ScoringMethod = "chi-squared"): SolveCandidate[] {
+  const candidates = Array.from({ length: 26 }, (_, shift) => {
+    const plaintext = convertCaesar(ciphertext, shift, "decode")
+    return { key: `shift ${shift}`, plaintext, score: scoreText(plaintext, method) }
+  })
+  return rankCandidates(candidates, method === "chi-squared")
+}
+
+/** Caesar shifts ordered by the chi-squared of the decoded text, best first */
+export function rankCaesarShifts(ciphertext: string): number[] {
+  const scores = Array.from({ length: 26 }, (_, shift) => chiSquared(convertCaesar(ciphertext, shift, "decode")))
+  return Array.from(scores.keys()).sort((x, y) => scores[x] - scores[y])
+}
+
+/** Atbash has no key: the candidates are the text as-is and decoded, best first */
+export function solveAtbash(ciphertext: string): SolveCandidate[] {
+  const decoded = convertAtbash(ciphertext)
+  return rankCandidates(
+    [
+      { key: "decoded", plaintext: decoded, score: chiSquared(decoded) },
+      { key: "unchanged", plaintext: ciphertext, score: chiSquared(ciphertext) },
+    ],
+    true
+  )
+}
+
+/** All 312 affine keys, best first */
+export function solveAffine(ciphertext: string): SolveCandidate[] {
+  const candidates = AFFINE_MULTIPLIERS.flatMap((a) =>
+    Array.from({ length: 26 }, (_, b) => {
+      const plaintext = convertAffine(ciphertext, a, b, "decode")
+      return { key: `a=${a}, b=${b}`, plaintext, score: chiSquared(plaintext) }
+    })
+  )
+  return rankCandidates(candidates, true)
+}
+
+/** Every rail count from 2 up to the text length (capped at 50), best first */
+export function solveRailFence(ciphertext: string): SolveCandidate[] {
+  const maxRails = Math.min(Array.from(ciphertext).length - 1, 50)
+  const candidates: SolveCandidate[] = []
+  for (let rails = 2; rails <= maxRails; rails++) {
+    const plaintext = convertRailFence(ciphertext, rails, "decode")
+    candidates.push({ key: `${rails} rails`, plaintext, score: bigramScore(plaintext) })
+  }
+  return rankCandidates(candidates, false)
+}
+
+export interface KeyLengthEstimate {
+  length: number
+  /** Average index of coincidence of the text split into `length` columns */
+  ioc: number
+  /** How many distances between repeated trigrams are multiples of `length` (Kasiski) */
+  kasiskiCount: number
+  /**
+   * Bigram score of the text decrypted with the best key of this length, less a penalty for each
+   * key letter; higher is better
+   */
+  score: number
+}
+
+// Splits the letters into columns, one for each position in the key
+function splitColumns(letters: string, keyLength: number): string[] {
+  const columns: string[] = new Array(keyLength).fill("")
+  for (let i = 0; i < letters.length; i++) {
+    columns[i % keyLength] += letters[i]
+  }
+  return columns
+}
+
+// Distances between repeated trigrams; the key length tends to divide most of them
+function kasiskiDistances(letters: string): number[] {
+  const lastSeen = new Map<string, number>()
+  const distances: number[] = []
+  for (let i = 0; i + 3 <= letters.length; i++) {
+    const trigram = letters.slice(i, i + 3)
+    const previous = lastSeen.get(trigram)
+    if (previous !== undefined) distances.push(i - previous)
+    lastSeen.set(trigram, i)
+  }
+  return distances
+}
+
+/**
+ * Scores every Vigenère key length from 1 to `maxLength` by how English the text reads once
+ * decrypted with the best key of that length. The IoC and Kasiski figures are kept for display.
+ * Sorted with the most likely length first.
+ *
+ * Every key letter is fitted to its column, so longer keys always read a little better, and
+ * multiples of the real length decrypt to the same text. Each key letter therefore costs
+ * 1 / (number of letters) of the score, which puts the real length ahead of its multiples and of
+ * lengths that only fit short texts by chance.
+ */
+export function estimateVigenereKeyLength(ciphertext: string, maxLength = 20): KeyLengthEstimate[] {
+  const letters = lettersOnly(ciphertext)
+  const distances = kasiskiDistances(letters)
+  // Each column needs a few letters for its key letter to mean anything
+  const limit = Math.max(1, Math.min(maxLength, Math.floor(letters.length / 4)))
+
+  const estimates: KeyLengthEstimate[] = []
+  for (let length = 1; length <= limit; length++) {
+    const columns = splitColumns(letters, length)
+    const ioc = columns.reduce((sum, column) => sum + indexOfCoincidence(column), 0) / length
+    const kasiskiCount = length === 1 ? distances.length : distances.filter((d) => d % length === 0).length
+    const { plaintext } = solveVigenereWithLength(ciphertext, length)
+    const score = bigramScore(plaintext) - length / letters.length
+    estimates.push({ length, ioc, kasiskiCount, score })
+  }
+
+  return estimates.sort((x, y) => y.score - x.score || x.length - y.length)
+}
+
+/** Finds the key for each column as the Caesar shift with the lowest chi-squared */
+export function solveVigenereWithLength(ciphertext: string, keyLength: number): SolveCandidate {
+  const columns = splitColumns(lettersOnly(ciphertext), keyLength)
+  const key = columns
+    .map((column) => String.fromCharCode(65 + rankCaesarShifts(column)[0]))
+    .join("")
+  const plaintext = convertVigenere(ciphertext, key, "decode")
+  return { key, plaintext, score: chiSquared(plaintext) }
+}
+
+/**
+ * Solves for the five most likely key lengths. `candidates` keep the key length order rather than
+ * being re-ranked by chi-squared, which always favours longer keys.
+ */
+export function solveVigenere(ciphertext: string, maxKeyLength = 20) {
+  const keyLengths = estimateVigenereKeyLength(ciphertext, maxKeyLength)
+  const candidates = keyLengths
+    .slice(0, 5)
+    .map((estimate) => solveVigenereWithLength(ciphertext, estimate.length))
+  return { keyLengths, candidates }
+}
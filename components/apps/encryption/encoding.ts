@@ -0,0 +1,64 @@
+// Byte conversions shared by the crypto tools. Everything works on Uint8Array so results can be
+// passed straight to crypto.subtle.
+
+export function utf8Encode(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text)
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes)
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ""
+  // Chunked so String.fromCharCode doesn't exceed the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+/** Accepts standard and URL-safe base64, with or without padding and whitespace */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const cleaned = base64.replace(/\s/g, "").replace(/-/g, "+").replace(/_/g, "/")
+  const padded = cleaned + "=".repeat((4 - (cleaned.length % 4)) % 4)
+  const binary = atob(padded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+/** Ignores whitespace and an optional 0x prefix; throws on odd length or non-hex characters */
+export function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  const cleaned = hex.replace(/\s/g, "").replace(/^0x/i, "")
+  if (cleaned.length % 2 !== 0 || /[^0-9a-f]/i.test(cleaned)) {
+    throw new Error("Invalid hex string")
+  }
+  const bytes = new Uint8Array(cleaned.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(cleaned.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  parts.forEach((part) => {
+    result.set(part, offset)
+    offset += part.length
+  })
+  return result
+}
@@ -9,86 +9,36 @@ import { Input } from "@/components/ui/input"
 import { Trash2, Download, Upload, RotateCcw } from "lucide-react"
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, deleteDoc } from "firebase/firestore"
-
-const STORAGE_KEY = "encryption-platform-settings"
-
-interface EncryptionSettings {
-  autoConvert: boolean
-  clearOnTabChange: boolean
-  defaultTab: string
-  fontSize: number
-}
-
-const DEFAULT_SETTINGS: EncryptionSettings = {
-  autoConvert: true,
-  clearOnTabChange: false,
-  defaultTab: "base64",
-  fontSize: 14,
-}
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { parseAppSettings } from "@/lib/apps/app-settings"
+import {
+  DEFAULT_ENCRYPTION_SETTINGS,
+  ENCRYPTION_SETTINGS,
+  type EncryptionSettingsValues,
+} from "./settings-schema"
 
 export function EncryptionSettings() {
   const { user } = useAuth()
-  const [settings, setSettings] = React.useState<EncryptionSettings>(DEFAULT_SETTINGS)
+  const { settings: savedSettings, loading, save, clear } = useAppSettings(ENCRYPTION_SETTINGS)
+  const [settings, setSettings] = React.useState<EncryptionSettingsValues>(DEFAULT_ENCRYPTION_SETTINGS)
   const [hasChanges, setHasChanges] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
 
+  // Follow the stored settings until the user starts editing
   React.useEffect(() => {
-    if (!user) {
-      setLoading(false)
-      return
-    }
-
-    const loadSettings = async () => {
-      try {
-        const settingsRef = doc(db, "users", user.uid, "encryptionSettings", "default")
-        const settingsSnap = await getDoc(settingsRef)
-        
-        if (settingsSnap.exists()) {
-          setSettings({ ...DEFAULT_SETTINGS, ...settingsSnap.data() })
-        } else {
-          // Load from localStorage as fallback on first login
-          const localSaved = localStorage.getItem(STORAGE_KEY)
-          if (localSaved) {
-            try {
-              const parsed = JSON.parse(localSaved)
-              setSettings({ ...DEFAULT_SETTINGS, ...parsed })
-              // Migrate to Firestore
-              await setDoc(settingsRef, { ...DEFAULT_SETTINGS, ...parsed })
-            } catch (error) {
-              console.error("Failed to parse localStorage settings:", error)
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Failed to load settings:", error)
-        toast.error("Failed to load settings")
-      } finally {
-        setLoading(false)
-      }
-    }
+    if (!hasChanges) setSettings(savedSettings)
+  }, [savedSettings, hasChanges])
 
-    loadSettings()
-  }, [user])
-
-  const updateSetting = <K extends keyof EncryptionSettings>(
+  const updateSetting = <K extends keyof EncryptionSettingsValues>(
     key: K,
-    value: EncryptionSettings[K]
+    value: EncryptionSettingsValues[K]
   ) => {
     setSettings((prev) => ({ ...prev, [key]: value }))
     setHasChanges(true)
   }
 
   const saveSettings = async () => {
-    if (!user) {
-      toast.error("You must be signed in to save settings")
-      return
-    }
-
     try {
-      const settingsRef = doc(db, "users", user.uid, "encryptionSettings", "default")
-      await setDoc(settingsRef, settings)
+      await save(settings)
       setHasChanges(false)
       toast.success("Settings saved successfully")
     } catch (error) {
@@ -98,22 +48,16 @@ export function EncryptionSettings() {
   }
 
   const resetSettings = () => {
-    setSettings(DEFAULT_SETTINGS)
+    setSettings(DEFAULT_ENCRYPTION_SETTINGS)
     setHasChanges(true)
     toast.info("Settings reset to defaults")
   }
 
   const clearAllData = async () => {
-    if (!user) {
-      toast.error("You must be signed in to clear data")
-      return
-    }
-
     if (confirm("Are you sure you want to clear all data? This cannot be undone.")) {
       try {
-        const settingsRef = doc(db, "users", user.uid, "encryptionSettings", "default")
-        await deleteDoc(settingsRef)
-        setSettings(DEFAULT_SETTINGS)
+        await clear()
+        setSettings(DEFAULT_ENCRYPTION_SETTINGS)
         setHasChanges(false)
         toast.success("All data cleared")
       } catch (error) {
@@ -143,7 +87,7 @@ export function EncryptionSettings() {
     reader.onload = (e) => {
       try {
         const imported = JSON.parse(e.target?.result as string)
-        setSettings({ ...DEFAULT_SETTINGS, ...imported })
+        setSettings(parseAppSettings(ENCRYPTION_SETTINGS, imported))
         setHasChanges(true)
         toast.success("Settings imported successfully")
       } catch (error) {
@@ -155,19 +99,6 @@ export function EncryptionSettings() {
     event.target.value = ""
   }
 
-  if (!user) {
-    return (
-      <div className="p-12 text-center rounded-lg border border-dashed">
-        <p className="text-muted-foreground mb-4">
-          Please sign in to access settings
-        </p>
-        <Button asChild>
-          <a href="/hub">Sign In</a>
-        </Button>
-      </div>
-    )
-  }
-
   if (loading) {
     return (
       <div className="p-12 text-center rounded-lg border border-dashed">
@@ -183,6 +114,16 @@ export function EncryptionSettings() {
       transition={{ duration: 0.5 }}
       className="space-y-6"
     >
+      {!user && (
+        <p className="text-sm text-muted-foreground">
+          You’re saving settings on this device.{" "}
+          <a href="/hub" className="text-primary underline underline-offset-4">
+            Sign in
+          </a>{" "}
+          to sync them across devices.
+        </p>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>General Settings</CardTitle>
@@ -236,6 +177,7 @@ export function EncryptionSettings() {
               className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
             >
               <option value="base64">Base64</option>
+              <option value="tokens">JWT / X.509 Inspector</option>
               <option value="url">URL Encoding</option>
               <option value="hex">Hex</option>
               <option value="binary">Binary</option>
@@ -245,6 +187,11 @@ export function EncryptionSettings() {
               <option value="morse">Morse Code</option>
               <option value="md5">MD5</option>
               <option value="sha256">SHA-256</option>
+              <option value="magic">Magic (auto-detect)</option>
+              <option value="crypto">Crypto (AES / RSA / ECDH / Signatures)</option>
+              <option value="recipe">Recipe</option>
+              <option value="cryptanalysis">Cryptanalysis (Vigenère, Affine, Rail Fence...)</option>
+              <option value="files">File Hash (HMAC, CRC32, verify)</option>
             </select>
           </div>
 
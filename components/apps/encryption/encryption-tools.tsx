@@ -10,29 +10,28 @@ import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Copy } from "lucide-react"
 import { toast } from "sonner"
-import CryptoJS from "crypto-js"
-import { useAuth } from "@/components/auth/auth-provider"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc } from "firebase/firestore"
-
-// Morse Code mapping
-const MORSE_CODE: Record<string, string> = {
-  "A": ".-", "B": "-...", "C": "-.-.", "D": "-..", "E": ".", "F": "..-.",
-  "G": "--.", "H": "....", "I": "..", "J": ".---", "K": "-.-", "L": ".-..",
-  "M": "--", "N": "-.", "O": "---", "P": ".--.", "Q": "--.-", "R": ".-.",
-  "S": "...", "T": "-", "U": "..-", "V": "...-", "W": ".--", "X": "-..-",
-  "Y": "-.--", "Z": "--..", "0": "-----", "1": ".----", "2": "..---",
-  "3": "...--", "4": "....-", "5": ".....", "6": "-....", "7": "--...",
-  "8": "---..", "9": "----.", ".": ".-.-.-", ",": "--..--", "?": "..--..",
-  "'": ".----.", "!": "-.-.--", "/": "-..-.", "(": "-.--.", ")": "-.--.-",
-  "&": ".-...", ":": "---...", ";": "-.-.-.", "=": "-...-", "+": ".-.-.",
-  "-": "-....-", "_": "..--.-", '"': ".-..-.", "$": "...-..-", "@": ".--.-.",
-  " ": "/"
-}
-
-const MORSE_REVERSE: Record<string, string> = Object.fromEntries(
-  Object.entries(MORSE_CODE).map(([k, v]) => [v, k])
-)
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { ENCRYPTION_SETTINGS } from "./settings-schema"
+import { CryptoPanel } from "./crypto-panel"
+import { CryptanalysisPanel } from "./cryptanalysis-panel"
+import { MagicPanel } from "./magic-panel"
+import { FileHashPanel } from "./file-hash-panel"
+import { TokenInspectorPanel } from "./token-inspector-panel"
+import { RecipeBuilder, type ActiveRecipe } from "./recipe-builder"
+import { RECIPE_FRAGMENT_PREFIX, decodeRecipe, type RecipeStep } from "./recipe"
+import {
+  TransformInputError,
+  convertAscii,
+  convertBase64,
+  convertBinary,
+  convertCaesar,
+  convertHex,
+  convertMorse,
+  convertRot13,
+  convertUrl,
+  hashMd5,
+  hashSha256,
+} from "./transforms"
 
 interface CipherCardProps {
   title: string
@@ -128,50 +127,10 @@ const CipherCard = ({
   </Card>
 )
 
-interface EncryptionSettings {
-  autoConvert: boolean
-  clearOnTabChange: boolean
-  defaultTab: string
-  fontSize: number
-}
-
-const DEFAULT_SETTINGS: EncryptionSettings = {
-  autoConvert: true,
-  clearOnTabChange: false,
-  defaultTab: "base64",
-  fontSize: 14,
-}
-
 export function EncryptionTools() {
-  const { user } = useAuth()
-  const [settings, setSettings] = React.useState<EncryptionSettings>(DEFAULT_SETTINGS)
-
-  // Load settings from Firestore if authenticated, otherwise use defaults
-  React.useEffect(() => {
-    if (!user || !db) {
-      setSettings(DEFAULT_SETTINGS)
-      return
-    }
-
-    const loadSettings = async () => {
-      try {
-        const settingsRef = doc(db, "users", user.uid, "encryptionSettings", "default")
-        const snapshot = await getDoc(settingsRef)
-        if (snapshot.exists()) {
-          const data = snapshot.data()
-          setSettings({ ...DEFAULT_SETTINGS, ...data })
-        } else {
-          // No settings found, use defaults
-          setSettings(DEFAULT_SETTINGS)
-        }
-      } catch (error) {
-        console.error("Error loading settings:", error)
-        setSettings(DEFAULT_SETTINGS)
-      }
-    }
-
-    loadSettings()
-  }, [user])
+  const { settings } = useAppSettings(ENCRYPTION_SETTINGS)
+  // null until the user picks a tab, so the saved default tab applies once settings load
+  const [activeTab, setActiveTab] = React.useState<string | null>(null)
 
   // Base64
   const [base64Input, setBase64Input] = React.useState("")
@@ -221,6 +180,14 @@ export function EncryptionTools() {
   const [sha256Input, setSha256Input] = React.useState("")
   const [sha256Output, setSha256Output] = React.useState("")
 
+  // Recipe
+  const [recipeInput, setRecipeInput] = React.useState("")
+  const [recipeSteps, setRecipeSteps] = React.useState<RecipeStep[]>([])
+  const [activeRecipe, setActiveRecipe] = React.useState<ActiveRecipe | null>(null)
+
+  // Magic
+  const [magicInput, setMagicInput] = React.useState("")
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text)
     toast.success(`${label} copied to clipboard`)
@@ -230,11 +197,7 @@ export function EncryptionTools() {
   const base64OutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !base64Input) return ""
     try {
-      if (base64Mode === "encode") {
-        return btoa(base64Input)
-      } else {
-        return atob(base64Input)
-      }
+      return convertBase64(base64Input, base64Mode)
     } catch (error) {
       return ""
     }
@@ -249,11 +212,7 @@ export function EncryptionTools() {
   const urlOutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !urlInput) return ""
     try {
-      if (urlMode === "encode") {
-        return encodeURIComponent(urlInput)
-      } else {
-        return decodeURIComponent(urlInput)
-      }
+      return convertUrl(urlInput, urlMode)
     } catch (error) {
       return ""
     }
@@ -268,18 +227,7 @@ export function EncryptionTools() {
   const hexOutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !hexInput) return ""
     try {
-      if (hexMode === "encode") {
-        return Array.from(hexInput)
-          .map((c) => c.charCodeAt(0).toString(16).padStart(2, "0"))
-          .join("")
-      } else {
-        const cleaned = hexInput.replace(/\s/g, "")
-        if (cleaned.length % 2 !== 0) return ""
-        return cleaned
-          .match(/.{1,2}/g)
-          ?.map((byte) => String.fromCharCode(parseInt(byte, 16)))
-          .join("") || ""
-      }
+      return convertHex(hexInput, hexMode)
     } catch (error) {
       return ""
     }
@@ -294,18 +242,7 @@ export function EncryptionTools() {
   const binaryOutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !binaryInput) return ""
     try {
-      if (binaryMode === "encode") {
-        return Array.from(binaryInput)
-          .map((c) => c.charCodeAt(0).toString(2).padStart(8, "0"))
-          .join(" ")
-      } else {
-        const cleaned = binaryInput.replace(/\s/g, "")
-        if (cleaned.length % 8 !== 0) return ""
-        return cleaned
-          .match(/.{8}/g)
-          ?.map((byte) => String.fromCharCode(parseInt(byte, 2)))
-          .join("") || ""
-      }
+      return convertBinary(binaryInput, binaryMode)
     } catch (error) {
       return ""
     }
@@ -320,16 +257,7 @@ export function EncryptionTools() {
   const asciiOutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !asciiInput) return ""
     try {
-      if (asciiMode === "encode") {
-        return Array.from(asciiInput)
-          .map((c) => c.charCodeAt(0).toString())
-          .join(" ")
-      } else {
-        return asciiInput
-          .split(/\s+/)
-          .map((num) => String.fromCharCode(parseInt(num, 10)))
-          .join("")
-      }
+      return convertAscii(asciiInput, asciiMode)
     } catch (error) {
       return ""
     }
@@ -344,17 +272,7 @@ export function EncryptionTools() {
   const caesarOutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !caesarInput) return ""
     try {
-      const shift = caesarMode === "encode" ? caesarShift : (26 - caesarShift) % 26
-      return Array.from(caesarInput)
-        .map((char) => {
-          if (char.match(/[a-z]/i)) {
-            const code = char.charCodeAt(0)
-            const base = code >= 65 && code <= 90 ? 65 : 97
-            return String.fromCharCode(((code - base + shift) % 26) + base)
-          }
-          return char
-        })
-        .join("")
+      return convertCaesar(caesarInput, caesarShift, caesarMode)
     } catch (error) {
       return ""
     }
@@ -369,16 +287,7 @@ export function EncryptionTools() {
   const rot13OutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !rot13Input) return ""
     try {
-      return Array.from(rot13Input)
-        .map((char) => {
-          if (char.match(/[a-z]/i)) {
-            const code = char.charCodeAt(0)
-            const base = code >= 65 && code <= 90 ? 65 : 97
-            return String.fromCharCode(((code - base + 13) % 26) + base)
-          }
-          return char
-        })
-        .join("")
+      return convertRot13(rot13Input)
     } catch (error) {
       return ""
     }
@@ -393,21 +302,7 @@ export function EncryptionTools() {
   const morseOutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !morseInput) return ""
     try {
-      if (morseMode === "encode") {
-        return Array.from(morseInput.toUpperCase())
-          .map((char) => MORSE_CODE[char] || char)
-          .join(" ")
-      } else {
-        return morseInput
-          .split(" / ")
-          .map((word) =>
-            word
-              .split(" ")
-              .map((code) => MORSE_REVERSE[code] || code)
-              .join("")
-          )
-          .join(" ")
-      }
+      return convertMorse(morseInput, morseMode)
     } catch (error) {
       return ""
     }
@@ -422,7 +317,7 @@ export function EncryptionTools() {
   const md5OutputMemo = React.useMemo(() => {
     if (!settings.autoConvert || !md5Input) return ""
     try {
-      return CryptoJS.MD5(md5Input).toString()
+      return hashMd5(md5Input)
     } catch (error) {
       return ""
     }
@@ -441,12 +336,7 @@ export function EncryptionTools() {
     }
     const computeHash = async () => {
       try {
-        const encoder = new TextEncoder()
-        const data = encoder.encode(sha256Input)
-        const hashBuffer = await crypto.subtle.digest("SHA-256", data)
-        const hashArray = Array.from(new Uint8Array(hashBuffer))
-        const hashHex = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("")
-        setSha256Output(hashHex)
+        setSha256Output(await hashSha256(sha256Input))
       } catch (error) {
         setSha256Output("")
       }
@@ -455,180 +345,166 @@ export function EncryptionTools() {
   }, [sha256Input, settings.autoConvert])
 
   // Manual conversion functions (used when autoConvert is disabled or when user clicks Convert button)
-  const convertBase64 = () => {
+  const handleConvertBase64 = () => {
     if (!base64Input) return
     try {
-      if (base64Mode === "encode") {
-        setBase64Output(btoa(base64Input))
-      } else {
-        setBase64Output(atob(base64Input))
-      }
+      setBase64Output(convertBase64(base64Input, base64Mode))
     } catch (error) {
       toast.error("Invalid Base64 input")
     }
   }
 
-  const convertUrl = () => {
+  const handleConvertUrl = () => {
     if (!urlInput) return
     try {
-      if (urlMode === "encode") {
-        setUrlOutput(encodeURIComponent(urlInput))
-      } else {
-        setUrlOutput(decodeURIComponent(urlInput))
-      }
+      setUrlOutput(convertUrl(urlInput, urlMode))
     } catch (error) {
       toast.error("Invalid URL-encoded input")
     }
   }
 
-  const convertHex = () => {
+  const handleConvertHex = () => {
     if (!hexInput) return
     try {
-      if (hexMode === "encode") {
-        setHexOutput(Array.from(hexInput)
-          .map((c) => c.charCodeAt(0).toString(16).padStart(2, "0"))
-          .join(""))
-      } else {
-        const cleaned = hexInput.replace(/\s/g, "")
-        if (cleaned.length % 2 !== 0) {
-          toast.error("Invalid hex string (length must be even)")
-          return
-        }
-        setHexOutput(cleaned
-          .match(/.{1,2}/g)
-          ?.map((byte) => String.fromCharCode(parseInt(byte, 16)))
-          .join("") || "")
-      }
+      setHexOutput(convertHex(hexInput, hexMode))
     } catch (error) {
-      toast.error("Invalid hex input")
+      toast.error(error instanceof TransformInputError ? error.message : "Invalid hex input")
     }
   }
 
-  const convertBinary = () => {
+  const handleConvertBinary = () => {
     if (!binaryInput) return
     try {
-      if (binaryMode === "encode") {
-        setBinaryOutput(Array.from(binaryInput)
-          .map((c) => c.charCodeAt(0).toString(2).padStart(8, "0"))
-          .join(" "))
-      } else {
-        const cleaned = binaryInput.replace(/\s/g, "")
-        if (cleaned.length % 8 !== 0) {
-          toast.error("Invalid binary string (length must be multiple of 8)")
-          return
-        }
-        setBinaryOutput(cleaned
-          .match(/.{8}/g)
-          ?.map((byte) => String.fromCharCode(parseInt(byte, 2)))
-          .join("") || "")
-      }
+      setBinaryOutput(convertBinary(binaryInput, binaryMode))
     } catch (error) {
-      toast.error("Invalid binary input")
+      toast.error(error instanceof TransformInputError ? error.message : "Invalid binary input")
     }
   }
 
-  const convertAscii = () => {
+  const handleConvertAscii = () => {
     if (!asciiInput) return
     try {
-      if (asciiMode === "encode") {
-        setAsciiOutput(Array.from(asciiInput)
-          .map((c) => c.charCodeAt(0).toString())
-          .join(" "))
-      } else {
-        setAsciiOutput(asciiInput
-          .split(/\s+/)
-          .map((num) => String.fromCharCode(parseInt(num, 10)))
-          .join(""))
-      }
+      setAsciiOutput(convertAscii(asciiInput, asciiMode))
     } catch (error) {
       toast.error("Invalid ASCII input")
     }
   }
 
-  const convertCaesar = () => {
+  const handleConvertCaesar = () => {
     if (!caesarInput) return
     try {
-      const shift = caesarMode === "encode" ? caesarShift : (26 - caesarShift) % 26
-      setCaesarOutput(Array.from(caesarInput)
-        .map((char) => {
-          if (char.match(/[a-z]/i)) {
-            const code = char.charCodeAt(0)
-            const base = code >= 65 && code <= 90 ? 65 : 97
-            return String.fromCharCode(((code - base + shift) % 26) + base)
-          }
-          return char
-        })
-        .join(""))
+      setCaesarOutput(convertCaesar(caesarInput, caesarShift, caesarMode))
     } catch (error) {
       toast.error("Invalid input")
     }
   }
 
-  const convertRot13 = () => {
+  const handleConvertRot13 = () => {
     if (!rot13Input) return
     try {
-      setRot13Output(Array.from(rot13Input)
-        .map((char) => {
-          if (char.match(/[a-z]/i)) {
-            const code = char.charCodeAt(0)
-            const base = code >= 65 && code <= 90 ? 65 : 97
-            return String.fromCharCode(((code - base + 13) % 26) + base)
-          }
-          return char
-        })
-        .join(""))
+      setRot13Output(convertRot13(rot13Input))
     } catch (error) {
       toast.error("Invalid input")
     }
   }
 
-  const convertMorse = () => {
+  const handleConvertMorse = () => {
     if (!morseInput) return
     try {
-      if (morseMode === "encode") {
-        setMorseOutput(Array.from(morseInput.toUpperCase())
-          .map((char) => MORSE_CODE[char] || char)
-          .join(" "))
-      } else {
-        setMorseOutput(morseInput
-          .split(" / ")
-          .map((word) =>
-            word
-              .split(" ")
-              .map((code) => MORSE_REVERSE[code] || code)
-              .join("")
-          )
-          .join(" "))
-      }
+      setMorseOutput(convertMorse(morseInput, morseMode))
     } catch (error) {
       toast.error("Invalid Morse code input")
     }
   }
 
-  const convertMd5 = () => {
+  const handleConvertMd5 = () => {
     if (!md5Input) return
     try {
-      setMd5Output(CryptoJS.MD5(md5Input).toString())
+      setMd5Output(hashMd5(md5Input))
     } catch (error) {
       toast.error("Error generating MD5 hash")
     }
   }
 
-  const convertSha256 = async () => {
+  const handleConvertSha256 = async () => {
     if (!sha256Input) return
     try {
-      const encoder = new TextEncoder()
-      const data = encoder.encode(sha256Input)
-      const hashBuffer = await crypto.subtle.digest("SHA-256", data)
-      const hashArray = Array.from(new Uint8Array(hashBuffer))
-      const hashHex = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("")
-      setSha256Output(hashHex)
+      setSha256Output(await hashSha256(sha256Input))
     } catch (error) {
       toast.error("Error generating SHA-256 hash")
     }
   }
 
+  // Open a recipe shared by link (#recipe=...)
+  React.useEffect(() => {
+    if (!window.location.hash.startsWith(RECIPE_FRAGMENT_PREFIX)) return
+    try {
+      const recipe = decodeRecipe(window.location.hash.slice(RECIPE_FRAGMENT_PREFIX.length))
+      setRecipeSteps(recipe.steps)
+      setActiveRecipe({ id: null, name: recipe.name })
+      setActiveTab("recipe")
+    } catch (error) {
+      console.error("Failed to open shared recipe:", error)
+      toast.error("Failed to open shared recipe. The link may be incomplete.")
+    }
+  }, [])
+
+  // Opens a Magic interpretation: one decoder in its own tab, a chain of them in the Recipe tab
+  const handleOpenMagicSteps = (steps: RecipeStep[]) => {
+    if (steps.length > 1) {
+      setRecipeInput(magicInput)
+      setRecipeSteps(steps)
+      setActiveRecipe(null)
+      setActiveTab("recipe")
+      return
+    }
+
+    const [step] = steps
+    switch (step.op) {
+      case "base64":
+        setBase64Input(magicInput)
+        setBase64Mode("decode")
+        break
+      case "url":
+        setUrlInput(magicInput)
+        setUrlMode("decode")
+        break
+      case "hex":
+        setHexInput(magicInput)
+        setHexMode("decode")
+        break
+      case "binary":
+        setBinaryInput(magicInput)
+        setBinaryMode("decode")
+        break
+      case "ascii":
+        setAsciiInput(magicInput)
+        setAsciiMode("decode")
+        break
+      case "caesar":
+        setCaesarInput(magicInput)
+        setCaesarShift(step.shift)
+        setCaesarMode("decode")
+        break
+      case "rot13":
+        setRot13Input(magicInput)
+        break
+      case "morse":
+        setMorseInput(magicInput)
+        setMorseMode("decode")
+        break
+      case "md5":
+        setMd5Input(magicInput)
+        break
+      case "sha256":
+        setSha256Input(magicInput)
+        break
+    }
+    setActiveTab(step.op)
+  }
+
   const handleTabChange = (value: string) => {
+    setActiveTab(value)
     if (settings.clearOnTabChange) {
       setBase64Input("")
       setBase64Output("")
@@ -650,6 +526,8 @@ export function EncryptionTools() {
       setMd5Output("")
       setSha256Input("")
       setSha256Output("")
+      setRecipeInput("")
+      setMagicInput("")
     }
   }
 
@@ -663,18 +541,19 @@ export function EncryptionTools() {
       <div>
         <h2 className="text-2xl font-bold mb-2">Encryption & Encoding Tools</h2>
         <p className="text-muted-foreground">
-          Encode, decode, and hash text using various encryption and encoding methods
+          Encode, decode, hash, and encrypt text with classic ciphers and real WebCrypto algorithms
         </p>
       </div>
 
-      <Tabs 
-        defaultValue={settings.defaultTab} 
+      <Tabs
+        value={activeTab ?? settings.defaultTab}
         className="w-full"
         onValueChange={handleTabChange}
       >
         <div className="space-y-2">
-          <TabsList className="grid w-full grid-cols-5 max-w-full overflow-x-auto">
+          <TabsList className="grid w-full grid-cols-6 max-w-full overflow-x-auto">
             <TabsTrigger value="base64">Base64</TabsTrigger>
+            <TabsTrigger value="tokens">JWT / X.509</TabsTrigger>
             <TabsTrigger value="url">URL</TabsTrigger>
             <TabsTrigger value="hex">Hex</TabsTrigger>
             <TabsTrigger value="binary">Binary</TabsTrigger>
@@ -687,6 +566,13 @@ export function EncryptionTools() {
             <TabsTrigger value="md5">MD5</TabsTrigger>
             <TabsTrigger value="sha256">SHA-256</TabsTrigger>
           </TabsList>
+          <TabsList className="grid w-full grid-cols-5 max-w-full overflow-x-auto">
+            <TabsTrigger value="magic">Magic</TabsTrigger>
+            <TabsTrigger value="crypto">Crypto</TabsTrigger>
+            <TabsTrigger value="recipe">Recipe</TabsTrigger>
+            <TabsTrigger value="cryptanalysis">Cryptanalysis</TabsTrigger>
+            <TabsTrigger value="files">File Hash</TabsTrigger>
+          </TabsList>
         </div>
 
         <TabsContent value="base64" className="space-y-4 mt-6">
@@ -699,7 +585,7 @@ export function EncryptionTools() {
             mode={base64Mode}
             onModeChange={setBase64Mode}
             onCopy={() => copyToClipboard(base64Output, "Base64")}
-            onConvert={convertBase64}
+            onConvert={handleConvertBase64}
             placeholder={base64Mode === "encode" ? "Enter text to encode..." : "Enter Base64 to decode..."}
             fontSize={settings.fontSize}
           />
@@ -715,7 +601,7 @@ export function EncryptionTools() {
             mode={urlMode}
             onModeChange={setUrlMode}
             onCopy={() => copyToClipboard(urlOutput, "URL")}
-            onConvert={convertUrl}
+            onConvert={handleConvertUrl}
             placeholder={urlMode === "encode" ? "Enter text to encode..." : "Enter URL-encoded text..."}
             fontSize={settings.fontSize}
           />
@@ -731,7 +617,7 @@ export function EncryptionTools() {
             mode={hexMode}
             onModeChange={setHexMode}
             onCopy={() => copyToClipboard(hexOutput, "Hex")}
-            onConvert={convertHex}
+            onConvert={handleConvertHex}
             placeholder={hexMode === "encode" ? "Enter text to encode..." : "Enter hex string..."}
             fontSize={settings.fontSize}
           />
@@ -747,7 +633,7 @@ export function EncryptionTools() {
             mode={binaryMode}
             onModeChange={setBinaryMode}
             onCopy={() => copyToClipboard(binaryOutput, "Binary")}
-            onConvert={convertBinary}
+            onConvert={handleConvertBinary}
             placeholder={binaryMode === "encode" ? "Enter text to encode..." : "Enter binary string..."}
             fontSize={settings.fontSize}
           />
@@ -763,7 +649,7 @@ export function EncryptionTools() {
             mode={asciiMode}
             onModeChange={setAsciiMode}
             onCopy={() => copyToClipboard(asciiOutput, "ASCII")}
-            onConvert={convertAscii}
+            onConvert={handleConvertAscii}
             placeholder={asciiMode === "encode" ? "Enter text to encode..." : "Enter ASCII codes (space-separated)..."}
             fontSize={settings.fontSize}
           />
@@ -820,7 +706,7 @@ export function EncryptionTools() {
                 />
               </div>
               <div className="flex justify-end gap-2">
-                <Button onClick={convertCaesar} disabled={!caesarInput}>
+                <Button onClick={handleConvertCaesar} disabled={!caesarInput}>
                   Convert
                 </Button>
                 {caesarOutput && (
@@ -863,7 +749,7 @@ export function EncryptionTools() {
                 />
               </div>
               <div className="flex justify-end">
-                <Button onClick={convertRot13} disabled={!rot13Input}>
+                <Button onClick={handleConvertRot13} disabled={!rot13Input}>
                   Convert
                 </Button>
               </div>
@@ -898,7 +784,7 @@ export function EncryptionTools() {
             mode={morseMode}
             onModeChange={setMorseMode}
             onCopy={() => copyToClipboard(morseOutput, "Morse")}
-            onConvert={convertMorse}
+            onConvert={handleConvertMorse}
             placeholder={morseMode === "encode" ? "Enter text to encode..." : "Enter Morse code (use / to separate words)..."}
             fontSize={settings.fontSize}
           />
@@ -924,7 +810,7 @@ export function EncryptionTools() {
                 />
               </div>
               <div className="flex justify-end gap-2">
-                <Button onClick={convertMd5} disabled={!md5Input}>
+                <Button onClick={handleConvertMd5} disabled={!md5Input}>
                   Convert
                 </Button>
                 {md5Output && (
@@ -967,7 +853,7 @@ export function EncryptionTools() {
                 />
               </div>
               <div className="flex justify-end gap-2">
-                <Button onClick={convertSha256} disabled={!sha256Input}>
+                <Button onClick={handleConvertSha256} disabled={!sha256Input}>
                   Convert
                 </Button>
                 {sha256Output && (
@@ -989,6 +875,44 @@ export function EncryptionTools() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="magic" className="space-y-4 mt-6">
+          <MagicPanel
+            input={magicInput}
+            onInputChange={setMagicInput}
+            onOpen={handleOpenMagicSteps}
+            fontSize={settings.fontSize}
+          />
+        </TabsContent>
+
+        <TabsContent value="tokens" className="space-y-4 mt-6">
+          <TokenInspectorPanel fontSize={settings.fontSize} />
+        </TabsContent>
+
+        <TabsContent value="crypto" className="space-y-4 mt-6">
+          <CryptoPanel fontSize={settings.fontSize} />
+        </TabsContent>
+
+        <TabsContent value="cryptanalysis" className="space-y-4 mt-6">
+          <CryptanalysisPanel fontSize={settings.fontSize} />
+        </TabsContent>
+
+        <TabsContent value="files" className="space-y-4 mt-6">
+          <FileHashPanel />
+        </TabsContent>
+
+        <TabsContent value="recipe" className="space-y-4 mt-6">
+          <RecipeBuilder
+            input={recipeInput}
+            onInputChange={setRecipeInput}
+            steps={recipeSteps}
+            onStepsChange={setRecipeSteps}
+            activeRecipe={activeRecipe}
+            onActiveRecipeChange={setActiveRecipe}
+            autoConvert={settings.autoConvert}
+            fontSize={settings.fontSize}
+          />
+        </TabsContent>
       </Tabs>
     </motion.div>
   )
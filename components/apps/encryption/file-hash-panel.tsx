@@ -0,0 +1,395 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle2, Copy, FileUp, RotateCw, Trash2, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { hexToBytes, utf8Encode } from "./encoding"
+import {
+  HASH_ALGORITHMS,
+  getRequiredAlgorithms,
+  parseChecksumList,
+  verifyFile,
+  type FileDigests,
+  type HashAlgorithm,
+} from "./file-hash"
+import { useFileHasher } from "./use-file-hasher"
+
+type FileStatus = "queued" | "hashing" | "done" | "error" | "cancelled"
+
+interface HashedFile {
+  id: number
+  file: File
+  status: FileStatus
+  bytesHashed: number
+  digests?: FileDigests
+  /** Whether the digests are HMACs */
+  hmac: boolean
+  error?: string
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ["KB", "MB", "GB", "TB"]
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(1)} ${units[unit]}`
+}
+
+export function FileHashPanel() {
+  const { hash, cancel } = useFileHasher()
+  const [files, setFiles] = React.useState<HashedFile[]>([])
+  const [algorithms, setAlgorithms] = React.useState<HashAlgorithm[]>(["SHA-256"])
+  const [hmacEnabled, setHmacEnabled] = React.useState(false)
+  const [hmacKey, setHmacKey] = React.useState("")
+  const [hmacKeyFormat, setHmacKeyFormat] = React.useState<"text" | "hex">("text")
+  const [expectedText, setExpectedText] = React.useState("")
+  const [isDragging, setIsDragging] = React.useState(false)
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const nextIdRef = React.useRef(0)
+  // Files are hashed one at a time, in the order they were added
+  const queueRef = React.useRef<Promise<void>>(Promise.resolve())
+  // Bumped by Cancel so queued files skip themselves
+  const generationRef = React.useRef(0)
+
+  const expected = React.useMemo(() => parseChecksumList(expectedText), [expectedText])
+  const isHashing = files.some((entry) => entry.status === "queued" || entry.status === "hashing")
+
+  const updateFile = (id: number, changes: Partial<HashedFile>) => {
+    setFiles((current) => current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)))
+  }
+
+  const enqueue = (entries: HashedFile[]) => {
+    let key: Uint8Array | undefined
+    if (hmacEnabled) {
+      try {
+        key = hmacKeyFormat === "hex" ? hexToBytes(hmacKey) : utf8Encode(hmacKey)
+      } catch {
+        toast.error("The HMAC key is not valid hex")
+        return
+      }
+      if (key.length === 0) {
+        toast.error("Enter an HMAC key")
+        return
+      }
+    }
+    // Always compute what the pasted checksums need, so verification works without extra clicks
+    const toCompute = HASH_ALGORITHMS.filter(
+      (algorithm) => algorithms.includes(algorithm) || getRequiredAlgorithms(expected).includes(algorithm)
+    )
+    if (toCompute.length === 0) {
+      toast.error("Select at least one algorithm")
+      return
+    }
+
+    const generation = generationRef.current
+    setFiles((current) => {
+      const ids = new Set(entries.map((entry) => entry.id))
+      const reset = entries.map((entry) => ({
+        ...entry,
+        status: "queued" as const,
+        bytesHashed: 0,
+        digests: undefined,
+        error: undefined,
+        hmac: Boolean(key),
+      }))
+      return [...current.filter((entry) => !ids.has(entry.id)), ...reset]
+    })
+
+    entries.forEach((entry) => {
+      queueRef.current = queueRef.current.then(async () => {
+        if (generation !== generationRef.current) return
+        updateFile(entry.id, { status: "hashing" })
+        try {
+          const digests = await hash(entry.file, toCompute, key, (bytesHashed) => updateFile(entry.id, { bytesHashed }))
+          updateFile(entry.id, { status: "done", digests, bytesHashed: entry.file.size })
+        } catch (error) {
+          if (error instanceof DOMException && error.name === "AbortError") {
+            updateFile(entry.id, { status: "cancelled" })
+            return
+          }
+          console.error(`Failed to hash ${entry.file.name}:`, error)
+          updateFile(entry.id, { status: "error", error: error instanceof Error ? error.message : "Hashing failed" })
+        }
+      })
+    })
+  }
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return
+    const entries = Array.from(fileList).map((file) => ({
+      id: ++nextIdRef.current,
+      file,
+      status: "queued" as const,
+      bytesHashed: 0,
+      hmac: false,
+    }))
+    enqueue(entries)
+  }
+
+  const handleCancel = () => {
+    generationRef.current++
+    cancel()
+    setFiles((current) =>
+      current.map((entry) =>
+        entry.status === "queued" || entry.status === "hashing" ? { ...entry, status: "cancelled" } : entry
+      )
+    )
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    addFiles(event.dataTransfer.files)
+  }
+
+  const toggleAlgorithm = (algorithm: HashAlgorithm) => {
+    setAlgorithms((current) =>
+      current.includes(algorithm) ? current.filter((a) => a !== algorithm) : [...current, algorithm]
+    )
+  }
+
+  const copyDigest = (digest: string, label: string) => {
+    navigator.clipboard.writeText(digest)
+    toast.success(`${label} copied to clipboard`)
+  }
+
+  // sha256sum-compatible list of the finished files, for one algorithm
+  const copyChecksumList = (algorithm: HashAlgorithm) => {
+    const lines = files
+      .filter((entry) => entry.digests?.[algorithm])
+      .map((entry) => `${entry.digests?.[algorithm]}  ${entry.file.name}`)
+    if (lines.length === 0) return
+    copyDigest(lines.join("\n") + "\n", `${algorithm} checksums`)
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>File Hashing</CardTitle>
+          <CardDescription>
+            Files are hashed in your browser in 4 MB chunks, so even very large files are never uploaded or fully
+            loaded into memory.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Algorithms</Label>
+            <div className="flex flex-wrap gap-2">
+              {HASH_ALGORITHMS.map((algorithm) => (
+                <Button
+                  key={algorithm}
+                  variant={algorithms.includes(algorithm) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => toggleAlgorithm(algorithm)}
+                >
+                  {algorithm}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="hmacEnabled"
+                checked={hmacEnabled}
+                onChange={(e) => setHmacEnabled(e.target.checked)}
+                className="h-4 w-4"
+              />
+              <Label htmlFor="hmacEnabled">HMAC with a secret key (CRC32 is unaffected)</Label>
+            </div>
+            {hmacEnabled && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  placeholder="Secret key"
+                  value={hmacKey}
+                  onChange={(e) => setHmacKey(e.target.value)}
+                  className="max-w-sm font-mono"
+                />
+                <select
+                  value={hmacKeyFormat}
+                  onChange={(e) => setHmacKeyFormat(e.target.value as "text" | "hex")}
+                  aria-label="HMAC key format"
+                  className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value="text">Text (UTF-8)</option>
+                  <option value="hex">Hex</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors ${
+              isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25"
+            }`}
+          >
+            <FileUp className="h-8 w-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Drop files here, or</p>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              Choose Files
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(e.target.files)
+                e.target.value = ""
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expectedChecksums">Verify (optional)</Label>
+            <Textarea
+              id="expectedChecksums"
+              placeholder={"Paste an expected checksum, or the contents of a SHA256SUMS file:\ne3b0c442...  file.iso"}
+              value={expectedText}
+              onChange={(e) => setExpectedText(e.target.value)}
+              className="font-mono text-xs min-h-[80px]"
+            />
+            {expectedText.trim() && (
+              <p className="text-xs text-muted-foreground">
+                {expected.length === 0
+                  ? "No checksums recognised. Digests must be hex: CRC32, MD5, SHA-1, SHA-256, SHA-384 or SHA-512."
+                  : `${expected.length} checksum${expected.length === 1 ? "" : "s"} found (${getRequiredAlgorithms(expected).join(", ")})`}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {files.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between flex-wrap gap-2">
+              <CardTitle>Files</CardTitle>
+              <div className="flex flex-wrap gap-2">
+                {isHashing ? (
+                  <Button variant="outline" size="sm" onClick={handleCancel}>
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => enqueue(files)}>
+                    <RotateCw className="h-4 w-4 mr-2" />
+                    Rehash All
+                  </Button>
+                )}
+                <select
+                  value=""
+                  onChange={(e) => copyChecksumList(e.target.value as HashAlgorithm)}
+                  aria-label="Copy checksum list"
+                  className="flex h-9 w-48 rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value="" disabled>
+                    Copy checksum list...
+                  </option>
+                  {HASH_ALGORITHMS.map((algorithm) => (
+                    <option key={algorithm} value={algorithm}>
+                      {algorithm}
+                    </option>
+                  ))}
+                </select>
+                <Button variant="ghost" size="sm" onClick={() => setFiles([])} disabled={isHashing}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {files.map((entry) => {
+              const verification =
+                entry.digests && expected.length > 0 ? verifyFile(entry.file.name, entry.digests, expected) : null
+              const percent = entry.file.size === 0 ? 100 : Math.round((entry.bytesHashed / entry.file.size) * 100)
+              return (
+                <div key={entry.id} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="min-w-0">
+                      <span className="font-medium break-all">{entry.file.name}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">{formatBytes(entry.file.size)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {entry.hmac && entry.status === "done" && <Badge variant="outline">HMAC</Badge>}
+                      {verification?.status === "pass" && (
+                        <Badge>
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          {verification.expected?.algorithm} matches
+                        </Badge>
+                      )}
+                      {verification?.status === "fail" && (
+                        <Badge variant="destructive">
+                          <XCircle className="h-3 w-3 mr-1" />
+                          {verification.expected?.algorithm} mismatch
+                        </Badge>
+                      )}
+                      {verification?.status === "no-checksum" && <Badge variant="secondary">No checksum</Badge>}
+                      {entry.status === "queued" && <Badge variant="secondary">Queued</Badge>}
+                      {entry.status === "cancelled" && <Badge variant="secondary">Cancelled</Badge>}
+                    </div>
+                  </div>
+                  {entry.status === "hashing" && (
+                    <div className="space-y-1">
+                      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                        <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {percent}% · {formatBytes(entry.bytesHashed)} of {formatBytes(entry.file.size)}
+                      </p>
+                    </div>
+                  )}
+                  {entry.status === "error" && <p className="text-sm text-destructive">{entry.error}</p>}
+                  {entry.digests && (
+                    <div className="space-y-1">
+                      {HASH_ALGORITHMS.filter((algorithm) => entry.digests?.[algorithm]).map((algorithm) => {
+                        const digest = entry.digests?.[algorithm] as string
+                        const label = entry.hmac && algorithm !== "CRC32" ? `HMAC-${algorithm}` : algorithm
+                        return (
+                          <div key={algorithm} className="flex items-center gap-2">
+                            <span className="w-28 shrink-0 text-xs font-medium text-muted-foreground">{label}</span>
+                            <code className="min-w-0 flex-1 break-all text-xs">{digest}</code>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 shrink-0"
+                              onClick={() => copyDigest(digest, label)}
+                              aria-label={`Copy ${label}`}
+                            >
+                              <Copy className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
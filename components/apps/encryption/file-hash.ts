@@ -0,0 +1,151 @@
+// Streaming file digests and checksum-list parsing. crypto.subtle.digest only hashes a whole buffer
+// at once, so files are fed in chunks to hash-wasm's incremental (WebAssembly) hashers instead.
+
+import {
+  createCRC32,
+  createHMAC,
+  createMD5,
+  createSHA1,
+  createSHA256,
+  createSHA384,
+  createSHA512,
+  type IHasher,
+} from "hash-wasm"
+
+export const HASH_ALGORITHMS = ["MD5", "SHA-1", "SHA-256", "SHA-384", "SHA-512", "CRC32"] as const
+
+export type HashAlgorithm = (typeof HASH_ALGORITHMS)[number]
+
+export type FileDigests = Partial<Record<HashAlgorithm, string>>
+
+/** Bytes read from the file per step; progress is reported after each one */
+export const HASH_CHUNK_SIZE = 4 * 1024 * 1024
+
+const HASHER_FACTORIES: Record<Exclude<HashAlgorithm, "CRC32">, () => Promise<IHasher>> = {
+  "MD5": createMD5,
+  "SHA-1": createSHA1,
+  "SHA-256": createSHA256,
+  "SHA-384": createSHA384,
+  "SHA-512": createSHA512,
+}
+
+/** Hex digest length of each algorithm, used to tell which one an expected checksum belongs to */
+const DIGEST_HEX_LENGTHS: Record<number, HashAlgorithm> = {
+  8: "CRC32",
+  32: "MD5",
+  40: "SHA-1",
+  64: "SHA-256",
+  96: "SHA-384",
+  128: "SHA-512",
+}
+
+/**
+ * A hasher that can be fed chunk by chunk. With an HMAC key the hash algorithms produce
+ * HMAC-<algorithm> instead; CRC32 is a checksum, not a hash, and ignores the key.
+ */
+export async function createHasher(algorithm: HashAlgorithm, hmacKey?: Uint8Array): Promise<IHasher> {
+  const hasher =
+    algorithm === "CRC32"
+      ? await createCRC32()
+      : hmacKey
+        ? await createHMAC(HASHER_FACTORIES[algorithm](), hmacKey)
+        : await HASHER_FACTORIES[algorithm]()
+  hasher.init()
+  return hasher
+}
+
+export interface HashFileOptions {
+  algorithms: HashAlgorithm[]
+  hmacKey?: Uint8Array
+  /** Called with the number of bytes hashed so far */
+  onProgress?: (bytesHashed: number) => void
+  /** Checked between chunks; hashing stops with an AbortError once it returns true */
+  isCancelled?: () => boolean
+}
+
+/** Reads the file in HASH_CHUNK_SIZE slices so even very large files never sit in memory at once */
+export async function hashFile(file: Blob, options: HashFileOptions): Promise<FileDigests> {
+  const hashers = await Promise.all(
+    options.algorithms.map(async (algorithm) => [algorithm, await createHasher(algorithm, options.hmacKey)] as const)
+  )
+
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    if (options.isCancelled?.()) {
+      throw new DOMException("Hashing was cancelled", "AbortError")
+    }
+    const chunk = new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer())
+    hashers.forEach(([, hasher]) => hasher.update(chunk))
+    options.onProgress?.(Math.min(offset + HASH_CHUNK_SIZE, file.size))
+  }
+
+  return Object.fromEntries(hashers.map(([algorithm, hasher]) => [algorithm, hasher.digest("hex")]))
+}
+
+export interface ExpectedChecksum {
+  /** null when the line was just a digest, which then applies to every file */
+  fileName: string | null
+  digest: string
+  algorithm: HashAlgorithm
+}
+
+/**
+ * Parses pasted checksums: a bare digest, GNU `sha256sum`-style lines (`<digest>  <name>`, with
+ * `*` before the name in binary mode) or BSD-style lines (`SHA256 (<name>) = <digest>`).
+ * Lines that don't look like a checksum, such as comments, are skipped.
+ */
+export function parseChecksumList(text: string): ExpectedChecksum[] {
+  const entries: ExpectedChecksum[] = []
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith("#")) continue
+
+    const bsd = line.match(/^[A-Z0-9-]+\s*\((.+)\)\s*=\s*([0-9a-f]+)$/i)
+    const gnu = line.match(/^([0-9a-f]+)\s+\*?(.+)$/i)
+    const bare = line.match(/^([0-9a-f]+)$/i)
+
+    const [digest, fileName] = bsd ? [bsd[2], bsd[1]] : gnu ? [gnu[1], gnu[2]] : bare ? [bare[1], null] : [null, null]
+    if (!digest) continue
+    const algorithm = DIGEST_HEX_LENGTHS[digest.length]
+    if (!algorithm) continue
+    entries.push({ fileName: fileName?.trim() ?? null, digest: digest.toLowerCase(), algorithm })
+  }
+  return entries
+}
+
+export type VerificationStatus = "pass" | "fail" | "no-checksum"
+
+export interface FileVerification {
+  status: VerificationStatus
+  /** The expected checksum that was compared, if any */
+  expected?: ExpectedChecksum
+}
+
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path
+}
+
+/**
+ * Checks a file's digests against the expected checksums for its name, matched on the base name so
+ * `dist/app.zip` in a checksum file matches a dropped `app.zip`. Every checksum listed for the file
+ * must match. Files that aren't listed are compared with the bare digests instead, and pass if any
+ * of those matches.
+ */
+export function verifyFile(fileName: string, digests: FileDigests, expected: ExpectedChecksum[]): FileVerification {
+  const comparable = expected.filter((entry) => digests[entry.algorithm] !== undefined)
+  const named = comparable.filter((entry) => entry.fileName !== null && baseName(entry.fileName) === baseName(fileName))
+
+  if (named.length > 0) {
+    const mismatch = named.find((entry) => digests[entry.algorithm] !== entry.digest)
+    return mismatch ? { status: "fail", expected: mismatch } : { status: "pass", expected: named[0] }
+  }
+
+  const bare = comparable.filter((entry) => entry.fileName === null)
+  if (bare.length === 0) return { status: "no-checksum" }
+  const match = bare.find((entry) => digests[entry.algorithm] === entry.digest)
+  return match ? { status: "pass", expected: match } : { status: "fail", expected: bare[0] }
+}
+
+/** Algorithms needed to check the expected checksums */
+export function getRequiredAlgorithms(expected: ExpectedChecksum[]): HashAlgorithm[] {
+  return HASH_ALGORITHMS.filter((algorithm) => expected.some((entry) => entry.algorithm === algorithm))
+}
@@ -0,0 +1,33 @@
+import { hashFile } from "./file-hash"
+import type { FileHashWorkerRequest, FileHashWorkerResponse } from "./use-file-hasher"
+
+// Hashes files off the main thread so large files don't freeze the tab
+const cancelled = new Set<number>()
+
+self.addEventListener("message", async (event: MessageEvent<FileHashWorkerRequest>) => {
+  const request = event.data
+  if (request.type === "cancel") {
+    cancelled.add(request.id)
+    return
+  }
+
+  const { id, file, algorithms, hmacKey } = request
+  let response: FileHashWorkerResponse
+  try {
+    const digests = await hashFile(file, {
+      algorithms,
+      hmacKey,
+      onProgress: (bytesHashed) => {
+        const progress: FileHashWorkerResponse = { type: "progress", id, bytesHashed }
+        self.postMessage(progress)
+      },
+      isCancelled: () => cancelled.has(id),
+    })
+    response = { type: "done", id, digests }
+  } catch (error) {
+    response = { type: "error", id, error: error instanceof Error ? error.message : String(error) }
+  } finally {
+    cancelled.delete(id)
+  }
+  self.postMessage(response)
+})
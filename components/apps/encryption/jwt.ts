@@ -0,0 +1,240 @@
+// JSON Web Token decoding and JWS signature verification with crypto.subtle. Keys can be an HMAC
+// secret, a JWK or JWK Set, a PEM public key, or a PEM certificate.
+
+import { base64ToBytes, utf8Decode, utf8Encode } from "./encoding"
+import { CryptoInputError, toImportableJwk } from "./web-crypto"
+import { parseCertificate, parsePemBlocks } from "./x509"
+
+export interface DecodedJwt {
+  header: Record<string, unknown>
+  /** Parsed JSON, or the raw text for JWS payloads that aren't JSON */
+  payload: unknown
+  signature: Uint8Array<ArrayBuffer>
+  /** `<header>.<payload>` exactly as received; this is what the signature covers */
+  signingInput: string
+}
+
+function decodeSegment(segment: string, name: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(segment)) {
+    throw new CryptoInputError(`The ${name} isn't base64url`)
+  }
+  try {
+    return base64ToBytes(segment)
+  } catch {
+    throw new CryptoInputError(`The ${name} isn't base64url`)
+  }
+}
+
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.trim().replace(/^Bearer\s+/i, "").split(".")
+  if (parts.length === 5) {
+    throw new CryptoInputError("This is an encrypted token (JWE); its contents can't be read without the key")
+  }
+  if (parts.length !== 3) {
+    throw new CryptoInputError("A JWT has three dot-separated parts: header.payload.signature")
+  }
+
+  let header: unknown
+  try {
+    header = JSON.parse(utf8Decode(decodeSegment(parts[0], "header")))
+  } catch (error) {
+    if (error instanceof CryptoInputError) throw error
+    throw new CryptoInputError("The header isn't valid JSON")
+  }
+  if (!header || typeof header !== "object" || Array.isArray(header)) {
+    throw new CryptoInputError("The header must be a JSON object")
+  }
+
+  const payloadText = utf8Decode(decodeSegment(parts[1], "payload"))
+  let payload: unknown = payloadText
+  try {
+    payload = JSON.parse(payloadText)
+  } catch {
+    /* not JSON; show it as text */
+  }
+
+  return {
+    header: header as Record<string, unknown>,
+    payload,
+    signature: decodeSegment(parts[2], "signature"),
+    signingInput: `${parts[0]}.${parts[1]}`,
+  }
+}
+
+export interface JwtTimeClaims {
+  issuedAt?: Date
+  notBefore?: Date
+  expiresAt?: Date
+}
+
+/** `iat`, `nbf` and `exp`, which are NumericDates: seconds since the epoch */
+export function getTimeClaims(payload: unknown): JwtTimeClaims {
+  if (!payload || typeof payload !== "object") return {}
+  const claims = payload as Record<string, unknown>
+  const toDate = (value: unknown) => (typeof value === "number" ? new Date(value * 1000) : undefined)
+  return { issuedAt: toDate(claims.iat), notBefore: toDate(claims.nbf), expiresAt: toDate(claims.exp) }
+}
+
+/** e.g. "2d 3h 4m 5s"; leading zero units are dropped */
+export function formatDuration(milliseconds: number): string {
+  let seconds = Math.floor(Math.abs(milliseconds) / 1000)
+  const units: [string, number][] = [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ]
+  const parts: string[] = []
+  units.forEach(([label, size]) => {
+    const amount = Math.floor(seconds / size)
+    seconds -= amount * size
+    if (amount > 0 || parts.length > 0 || size === 1) parts.push(`${amount}${label}`)
+  })
+  return parts.join(" ")
+}
+
+type JwsFamily = "HS" | "RS" | "PS" | "ES" | "EdDSA"
+
+interface JwsAlgorithm {
+  family: JwsFamily
+  hash: "SHA-256" | "SHA-384" | "SHA-512"
+  /** ES only */
+  namedCurve?: "P-256" | "P-384" | "P-521"
+}
+
+export const SUPPORTED_JWS_ALGORITHMS = [
+  "HS256",
+  "HS384",
+  "HS512",
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+  "EdDSA",
+]
+
+function getJwsAlgorithm(alg: unknown): JwsAlgorithm {
+  if (alg === "none") {
+    throw new CryptoInputError('This token is unsigned (alg: "none"), so there is nothing to verify')
+  }
+  if (alg === "EdDSA") return { family: "EdDSA", hash: "SHA-512" }
+  const match = typeof alg === "string" ? alg.match(/^(HS|RS|PS|ES)(256|384|512)$/) : null
+  if (!match) {
+    throw new CryptoInputError(`Unsupported algorithm "${String(alg)}"`)
+  }
+  const bits = match[2] as "256" | "384" | "512"
+  return {
+    family: match[1] as JwsFamily,
+    hash: `SHA-${bits}`,
+    namedCurve: bits === "512" ? "P-521" : `P-${bits}`,
+  }
+}
+
+function getKeyParams(algorithm: JwsAlgorithm): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  switch (algorithm.family) {
+    case "RS":
+      return { name: "RSASSA-PKCS1-v1_5", hash: algorithm.hash }
+    case "PS":
+      return { name: "RSA-PSS", hash: algorithm.hash }
+    case "ES":
+      return { name: "ECDSA", namedCurve: algorithm.namedCurve as string }
+    default:
+      return { name: "Ed25519" }
+  }
+}
+
+function getVerifyParams(algorithm: JwsAlgorithm): AlgorithmIdentifier | RsaPssParams | EcdsaParams {
+  switch (algorithm.family) {
+    case "RS":
+      return { name: "RSASSA-PKCS1-v1_5" }
+    case "PS":
+      // JWS fixes the salt length to the hash length
+      return { name: "RSA-PSS", saltLength: Number(algorithm.hash.slice(4)) / 8 }
+    case "ES":
+      return { name: "ECDSA", hash: algorithm.hash }
+    default:
+      return { name: "Ed25519" }
+  }
+}
+
+/** Picks the key from a JWK Set by `kid`, or the only key if there's just one */
+function selectJwk(parsed: { keys?: unknown } & JsonWebKey, kid: unknown): JsonWebKey {
+  if (!Array.isArray(parsed.keys)) return parsed
+  const keys = parsed.keys as (JsonWebKey & { kid?: string })[]
+  const match = keys.find((key) => key.kid === kid) ?? (keys.length === 1 ? keys[0] : undefined)
+  if (!match) {
+    throw new CryptoInputError(
+      kid ? `The JWK Set has no key with kid "${String(kid)}"` : "The token has no kid; paste the single key to use"
+    )
+  }
+  return match
+}
+
+async function importVerifyKey(keyText: string, algorithm: JwsAlgorithm, kid: unknown): Promise<CryptoKey> {
+  const params = getKeyParams(algorithm)
+  const trimmed = keyText.trim()
+
+  if (trimmed.startsWith("{")) {
+    let parsed: { keys?: unknown } & JsonWebKey
+    try {
+      parsed = JSON.parse(trimmed)
+    } catch {
+      throw new CryptoInputError("The key looks like JWK but isn't valid JSON")
+    }
+    const jwk = toImportableJwk(selectJwk(parsed, kid), "public")
+    // A JWK's alg has to agree with the import parameters, and the header is what counts here
+    delete jwk.alg
+    try {
+      return await crypto.subtle.importKey("jwk", jwk, params, false, ["verify"])
+    } catch {
+      throw new CryptoInputError("This JWK doesn't match the token's algorithm")
+    }
+  }
+
+  const block = parsePemBlocks(trimmed).find((pem) => pem.label === "PUBLIC KEY" || pem.label === "CERTIFICATE")
+  if (!block) {
+    throw new CryptoInputError('Paste a JWK, a JWK Set, or a PEM "PUBLIC KEY" or "CERTIFICATE" block')
+  }
+  const spki = block.label === "CERTIFICATE" ? parseCertificate(block.der).publicKey.spki : block.der
+  try {
+    return await crypto.subtle.importKey("spki", spki, params, false, ["verify"])
+  } catch {
+    throw new CryptoInputError("This public key doesn't match the token's algorithm")
+  }
+}
+
+export interface VerifyJwtOptions {
+  /** How an HMAC secret is given; jwt.io and many libraries also accept base64 secrets */
+  secretEncoding: "text" | "base64"
+}
+
+/**
+ * Checks the token's signature with the algorithm named in its header. Throws a CryptoInputError
+ * when the key can't be used at all; a well-formed key that doesn't match resolves to false.
+ */
+export async function verifyJwt(token: DecodedJwt, keyText: string, options: VerifyJwtOptions): Promise<boolean> {
+  const algorithm = getJwsAlgorithm(token.header.alg)
+  if (!keyText.trim()) {
+    throw new CryptoInputError(algorithm.family === "HS" ? "Enter the shared secret" : "Enter the public key")
+  }
+  const data = utf8Encode(token.signingInput)
+
+  if (algorithm.family === "HS") {
+    let secret: Uint8Array<ArrayBuffer>
+    try {
+      secret = options.secretEncoding === "base64" ? base64ToBytes(keyText.trim()) : utf8Encode(keyText)
+    } catch {
+      throw new CryptoInputError("The secret isn't valid base64")
+    }
+    const key = await crypto.subtle.importKey("raw", secret, { name: "HMAC", hash: algorithm.hash }, false, ["verify"])
+    return crypto.subtle.verify("HMAC", key, token.signature, data)
+  }
+
+  const key = await importVerifyKey(keyText, algorithm, token.header.kid)
+  return crypto.subtle.verify(getVerifyParams(algorithm), key, token.signature, data)
+}
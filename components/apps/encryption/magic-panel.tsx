@@ -0,0 +1,90 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { ExternalLink } from "lucide-react"
+import { RECIPE_OPERATIONS, type RecipeStep } from "./recipe"
+import { MAX_MAGIC_DEPTH, describeMagicSteps, detectEncodings } from "./magic"
+
+// Longer inputs are still detected, but only on request so typing stays responsive
+const LIVE_DETECTION_MAX_LENGTH = 20_000
+
+interface MagicPanelProps {
+  input: string
+  onInputChange: (input: string) => void
+  /** Opens a single decoder in its tab, or a chain in the Recipe tab, with the input pre-filled */
+  onOpen: (steps: RecipeStep[]) => void
+  fontSize: number
+}
+
+export function MagicPanel({ input, onInputChange, onOpen, fontSize }: MagicPanelProps) {
+  const [requestedInput, setRequestedInput] = React.useState<string | null>(null)
+  const isLive = input.length <= LIVE_DETECTION_MAX_LENGTH
+  const detectedInput = isLive || requestedInput === input ? input : ""
+
+  const candidates = React.useMemo(() => detectEncodings(detectedInput), [detectedInput])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Magic</CardTitle>
+        <CardDescription>
+          Tries every decoder, up to {MAX_MAGIC_DEPTH} layers deep, and ranks the results by how readable they are
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Input</Label>
+          <Textarea
+            placeholder="Paste an encoded string..."
+            value={input}
+            onChange={(e) => onInputChange(e.target.value)}
+            className="font-mono min-h-[120px]"
+            style={{ fontSize: `${fontSize}px` }}
+          />
+        </div>
+        {!isLive && requestedInput !== input && (
+          <div className="flex justify-end">
+            <Button onClick={() => setRequestedInput(input)}>Detect</Button>
+          </div>
+        )}
+
+        {detectedInput.trim() && candidates.length === 0 && (
+          <p className="text-sm text-muted-foreground">No decoder produced readable output for this input.</p>
+        )}
+        {candidates.length > 0 && (
+          <div className="space-y-2">
+            <Label>Interpretations</Label>
+            <div className="divide-y rounded-lg border">
+              {candidates.map((candidate, index) => (
+                <div key={describeMagicSteps(candidate.steps)} className="space-y-1 p-3">
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={index === 0 ? "default" : "secondary"}>
+                        {Math.round(candidate.score * 100)}%
+                      </Badge>
+                      <span className="text-sm font-medium">{describeMagicSteps(candidate.steps)}</span>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => onOpen(candidate.steps)}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      {candidate.steps.length === 1
+                        ? `Open in ${RECIPE_OPERATIONS[candidate.steps[0].op].label}`
+                        : "Open as Recipe"}
+                    </Button>
+                  </div>
+                  <p className="font-mono text-sm break-all text-muted-foreground">
+                    {candidate.output.length > 300 ? `${candidate.output.slice(0, 300)}…` : candidate.output}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
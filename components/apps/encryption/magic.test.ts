@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import { detectEncodings, plausibilityScore } from "./magic"
+import { convertBase64, convertCaesar, convertHex, convertMorse, convertRot13, convertUrl } from "./transforms"
+
+const TEXT = "Meet me at the old bridge after sunset and bring the map"
+
+const best = (input: string, maxDepth?: number) => detectEncodings(input, maxDepth)[0]
+
+describe("detectEncodings", () => {
+  it("decodes single layers", () => {
+    expect(best(convertBase64(TEXT, "encode"))).toMatchObject({ output: TEXT, steps: [{ op: "base64" }] })
+    expect(best(convertHex(TEXT, "encode"))).toMatchObject({ output: TEXT, steps: [{ op: "hex" }] })
+    expect(best(convertRot13(TEXT))).toMatchObject({ output: TEXT, steps: [{ op: "rot13" }] })
+    expect(best(convertUrl("a=1&b=two words/é", "encode")).output).toBe("a=1&b=two words/é")
+  })
+
+  it("finds a guessed Caesar shift", () => {
+    expect(best(convertCaesar(TEXT, 3, "encode"))).toMatchObject({ output: TEXT, steps: [{ op: "caesar", shift: 3 }] })
+  })
+
+  it("peels nested encodings in order", () => {
+    const nested = convertBase64(convertHex(convertRot13(TEXT), "encode"), "encode")
+    const candidate = best(nested)
+    expect(candidate.output).toBe(TEXT)
+    expect(candidate.steps.map((step) => step.op)).toEqual(["base64", "hex", "rot13"])
+  })
+
+  it("stops at the depth limit", () => {
+    const nested = convertBase64(convertHex(TEXT, "encode"), "encode")
+    expect(best(nested, 2).output).toBe(TEXT)
+    expect(detectEncodings(nested, 1).some((candidate) => candidate.output === TEXT)).toBe(false)
+  })
+
+  it("decodes Morse", () => {
+    expect(best(convertMorse("SOS HELP", "encode")).output).toBe("SOS HELP")
+  })
+
+  it("returns nothing for blank input or input no decoder accepts", () => {
+    expect(detectEncodings("")).toEqual([])
+    expect(detectEncodings("   \n")).toEqual([])
+    expect(detectEncodings("12345 !!! ???")).toEqual([])
+  })
+
+  it("never offers the input itself or a rotation straight after another", () => {
+    const candidates = detectEncodings(TEXT, 3, 100)
+    expect(candidates.some((candidate) => candidate.output === TEXT)).toBe(false)
+    candidates.forEach(({ steps }) => {
+      steps.slice(1).forEach((step, index) => {
+        const rotations = ["rot13", "caesar"]
+        expect(rotations.includes(step.op) && rotations.includes(steps[index].op)).toBe(false)
+      })
+    })
+  })
+
+  it("stays within the limit for long input", () => {
+    const long = convertBase64(TEXT.repeat(200), "encode")
+    expect(detectEncodings(long, 3, 5).length).toBeLessThanOrEqual(5)
+  })
+})
+
+describe("plausibilityScore", () => {
+  it("ranks English above ciphertext above binary noise", () => {
+    const english = plausibilityScore(TEXT)
+    const rotated = plausibilityScore(convertCaesar(TEXT, 7, "encode"))
+    const noise = plausibilityScore("\u0001\u0002\u0003abc\u0004\u0005")
+    expect(english).toBeGreaterThan(rotated)
+    expect(rotated).toBeGreaterThan(noise)
+    expect(plausibilityScore("")).toBe(0)
+  })
+})
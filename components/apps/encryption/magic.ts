@@ -0,0 +1,185 @@
+// "Magic" detection: runs the input through every decoder, then through every decoder again on the
+// outputs that still look like text, and ranks the resulting chains by how readable they are.
+// Chains are expressed as recipe steps so they can be opened in a tab or the Recipe builder.
+
+import { chiSquared, lettersOnly, rankCaesarShifts } from "./cryptanalysis"
+import {
+  convertAscii,
+  convertBase64,
+  convertBinary,
+  convertCaesar,
+  convertHex,
+  convertMorse,
+  convertRot13,
+  convertUrl,
+} from "./transforms"
+import { describeRecipeStep, type RecipeStep } from "./recipe"
+
+export const MAX_MAGIC_DEPTH = 3
+
+// Upper bound on decoded strings explored, so long or pathological inputs stay responsive
+const MAX_MAGIC_NODES = 300
+
+// Each extra layer has to earn its place. The Caesar shift is picked for its English-looking
+// letters, which flatters short outputs, so a guessed shift costs more.
+const STEP_PENALTY = 0.02
+const CAESAR_PENALTY = 0.05
+
+export interface MagicCandidate {
+  /** Decoders applied in order to the original input */
+  steps: RecipeStep[]
+  output: string
+  /** 0-1, higher is more plausible; longer chains and guessed Caesar shifts score lower */
+  score: number
+}
+
+interface MagicDecoder {
+  /** Cheap check that the input could be this encoding at all */
+  matches: (input: string) => boolean
+  /** Throws if the input turns out not to be valid */
+  decode: (input: string) => { step: RecipeStep; output: string }
+}
+
+function decodeStep(op: RecipeStep["op"], shift = 13): RecipeStep {
+  return { op, mode: "decode", shift }
+}
+
+const hasLetters = (input: string) => /[a-z]/i.test(input)
+
+const MAGIC_DECODERS: MagicDecoder[] = [
+  {
+    matches: (input) => {
+      const cleaned = input.replace(/\s/g, "")
+      return cleaned.length >= 4 && cleaned.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(cleaned)
+    },
+    decode: (input) => ({ step: decodeStep("base64"), output: convertBase64(input.trim(), "decode") }),
+  },
+  {
+    matches: (input) => /%[0-9a-f]{2}/i.test(input),
+    decode: (input) => ({ step: decodeStep("url"), output: convertUrl(input, "decode") }),
+  },
+  {
+    matches: (input) => {
+      const cleaned = input.replace(/\s/g, "")
+      return cleaned.length >= 2 && cleaned.length % 2 === 0 && /^[0-9a-f]+$/i.test(cleaned)
+    },
+    decode: (input) => ({ step: decodeStep("hex"), output: convertHex(input, "decode") }),
+  },
+  {
+    matches: (input) => {
+      const cleaned = input.replace(/\s/g, "")
+      return cleaned.length >= 8 && cleaned.length % 8 === 0 && /^[01]+$/.test(cleaned)
+    },
+    decode: (input) => ({ step: decodeStep("binary"), output: convertBinary(input, "decode") }),
+  },
+  {
+    matches: (input) => /^\d{1,3}(\s+\d{1,3})+$/.test(input.trim()),
+    decode: (input) => ({ step: decodeStep("ascii"), output: convertAscii(input.trim(), "decode") }),
+  },
+  {
+    matches: (input) => /^[.\-/\s]+$/.test(input.trim()) && /[.-]/.test(input),
+    decode: (input) => ({ step: decodeStep("morse"), output: convertMorse(input.trim(), "decode") }),
+  },
+  {
+    matches: hasLetters,
+    decode: (input) => ({ step: decodeStep("rot13"), output: convertRot13(input) }),
+  },
+  {
+    // Only the best-scoring shift; 0 is the input itself and 13 is covered by ROT13
+    matches: hasLetters,
+    decode: (input) => {
+      const shift = rankCaesarShifts(input).find((candidate) => candidate !== 0 && candidate !== 13) as number
+      return { step: decodeStep("caesar", shift), output: convertCaesar(input, shift, "decode") }
+    },
+  },
+]
+
+function isPrintable(char: string): boolean {
+  const code = char.charCodeAt(0)
+  return code === 9 || code === 10 || code === 13 || (code >= 32 && code < 127) || code >= 160
+}
+
+/**
+ * How plausible `text` is as a final answer, from 0 to 1: mostly printable characters, mostly
+ * letters and spaces, and letter frequencies close to English.
+ */
+export function plausibilityScore(text: string): number {
+  const chars = Array.from(text)
+  if (chars.length === 0) return 0
+
+  const printable = chars.filter(isPrintable).length / chars.length
+  if (printable < 0.9) return printable * 0.3
+
+  const letters = lettersOnly(text).length
+  const wordChars = chars.filter((char) => /[a-z\s]/i.test(char)).length / chars.length
+  // Chi-squared per letter is well under 1 for English and several times that for random letters
+  const english = letters >= 5 ? 1 / (1 + chiSquared(text) / letters) : 0
+
+  return printable * (0.4 + 0.3 * wordChars + 0.3 * english)
+}
+
+/** Only decoded text that is still readable is worth decoding again */
+function isWorthExpanding(text: string): boolean {
+  const chars = Array.from(text)
+  return chars.length > 0 && chars.filter(isPrintable).length / chars.length >= 0.95
+}
+
+// ROT13 and Caesar in a row just amount to another Caesar shift
+function isRotation(step: RecipeStep): boolean {
+  return step.op === "rot13" || step.op === "caesar"
+}
+
+/**
+ * Breadth-first search over decoder chains up to `maxDepth` layers, best interpretation first.
+ * Outputs identical to the input or to a shorter chain's output are dropped.
+ */
+export function detectEncodings(input: string, maxDepth = MAX_MAGIC_DEPTH, limit = 10): MagicCandidate[] {
+  if (!input.trim()) return []
+
+  const seen = new Set<string>([input])
+  const candidates: MagicCandidate[] = []
+  let frontier: MagicCandidate[] = [{ steps: [], output: input, score: plausibilityScore(input) }]
+
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+    const next: MagicCandidate[] = []
+    for (const node of frontier) {
+      const previous = node.steps[node.steps.length - 1]
+      for (const decoder of MAGIC_DECODERS) {
+        if (seen.size >= MAX_MAGIC_NODES) break
+        if (!decoder.matches(node.output)) continue
+
+        let decoded: ReturnType<MagicDecoder["decode"]>
+        try {
+          decoded = decoder.decode(node.output)
+        } catch {
+          continue
+        }
+        if (!decoded.output || seen.has(decoded.output)) continue
+        if (previous && isRotation(previous) && isRotation(decoded.step)) continue
+
+        seen.add(decoded.output)
+        const steps = [...node.steps, decoded.step]
+        const penalty = steps.reduce(
+          (total, step) => total + STEP_PENALTY + (step.op === "caesar" ? CAESAR_PENALTY : 0),
+          0
+        )
+        const candidate = {
+          steps,
+          output: decoded.output,
+          score: Math.max(0, plausibilityScore(decoded.output) - penalty),
+        }
+        candidates.push(candidate)
+        if (isWorthExpanding(decoded.output)) next.push(candidate)
+      }
+    }
+    frontier = next
+  }
+
+  return candidates
+    .sort((x, y) => y.score - x.score || x.steps.length - y.steps.length)
+    .slice(0, limit)
+}
+
+export function describeMagicSteps(steps: RecipeStep[]): string {
+  return steps.map(describeRecipeStep).join(" → ")
+}
@@ -0,0 +1,37 @@
+import { Lock } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { ENCRYPTION_SETTINGS } from "./settings-schema"
+import { EncryptionTools } from "./encryption-tools"
+import { EncryptionSettings } from "./encryption-settings"
+
+export const encryptionManifest = defineAppManifest({
+  appId: "encryption",
+  name: "Encryption Platform",
+  description: "Encode, decode ciphers, hashes and WebCrypto encryption",
+  category: "Utilities",
+  tags: [
+    "encryption",
+    "security",
+    "cipher",
+    "encode",
+    "decode",
+    "aes",
+    "rsa",
+    "cryptanalysis",
+    "ctf",
+    "checksum",
+    "hmac",
+    "jwt",
+    "x509",
+  ],
+  status: "live",
+  icon: Lock,
+  accent: "from-blue-500 to-cyan-500",
+  Main: EncryptionTools,
+  Settings: EncryptionSettings,
+  settings: ENCRYPTION_SETTINGS,
+  collections: [
+    { name: "encryptionSettings", scope: "user", docParam: "settingsId", description: "Encryption settings subcollection" },
+    { name: "encryptionRecipes", scope: "user", docParam: "recipeId", description: "Encryption saved recipes subcollection" },
+  ],
+})
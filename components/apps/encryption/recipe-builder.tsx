@@ -0,0 +1,446 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ArrowDown, ArrowUp, Copy, FolderOpen, Link2, Plus, Save, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { useAuth } from "@/components/auth/auth-provider"
+import {
+  MAX_RECIPE_STEPS,
+  RECIPE_FRAGMENT_PREFIX,
+  RECIPE_OPERATIONS,
+  RECIPE_OPERATION_IDS,
+  createRecipeStep,
+  describeRecipeStep,
+  encodeRecipe,
+  runRecipe,
+  type RecipeOperationId,
+  type RecipeStep,
+  type RecipeStepResult,
+  type SavedRecipe,
+} from "./recipe"
+import { useRecipes } from "./use-recipes"
+
+export interface ActiveRecipe {
+  /** null for recipes opened from a link that haven't been saved yet */
+  id: string | null
+  name: string
+}
+
+interface RecipeBuilderProps {
+  input: string
+  onInputChange: (input: string) => void
+  steps: RecipeStep[]
+  onStepsChange: (steps: RecipeStep[]) => void
+  activeRecipe: ActiveRecipe | null
+  onActiveRecipeChange: (recipe: ActiveRecipe | null) => void
+  autoConvert: boolean
+  fontSize: number
+}
+
+export function RecipeBuilder({
+  input,
+  onInputChange,
+  steps,
+  onStepsChange,
+  activeRecipe,
+  onActiveRecipeChange,
+  autoConvert,
+  fontSize,
+}: RecipeBuilderProps) {
+  const { user } = useAuth()
+  const { recipes, loading, saveRecipe, deleteRecipe } = useRecipes()
+  const [newOperation, setNewOperation] = React.useState<RecipeOperationId>("base64")
+  const [results, setResults] = React.useState<RecipeStepResult[]>([])
+  const [saveDialogOpen, setSaveDialogOpen] = React.useState(false)
+  const [recipeName, setRecipeName] = React.useState("")
+
+  // Live intermediate output; an older run that finishes late (SHA-256 is async) is discarded
+  React.useEffect(() => {
+    if (!autoConvert) return
+    if (!input || steps.length === 0) {
+      setResults([])
+      return
+    }
+    let cancelled = false
+    runRecipe(input, steps).then((next) => {
+      if (!cancelled) setResults(next)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [input, steps, autoConvert])
+
+  const finalResult = results.length === steps.length ? results[results.length - 1] : undefined
+  const finalOutput = finalResult?.output ?? ""
+
+  const handleRun = async () => {
+    setResults(await runRecipe(input, steps))
+  }
+
+  const handleAddStep = () => {
+    if (steps.length >= MAX_RECIPE_STEPS) {
+      toast.error(`Recipes can have at most ${MAX_RECIPE_STEPS} steps`)
+      return
+    }
+    onStepsChange([...steps, createRecipeStep(newOperation)])
+  }
+
+  const updateStep = (index: number, changes: Partial<RecipeStep>) => {
+    onStepsChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)))
+  }
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const target = index + offset
+    if (target < 0 || target >= steps.length) return
+    const next = [...steps]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onStepsChange(next)
+  }
+
+  const removeStep = (index: number) => {
+    onStepsChange(steps.filter((_, i) => i !== index))
+  }
+
+  const handleNewRecipe = () => {
+    onActiveRecipeChange(null)
+    onStepsChange([])
+    setResults([])
+  }
+
+  const handleOpenSaveDialog = () => {
+    if (!user) {
+      toast.error("You must be signed in to save recipes")
+      return
+    }
+    setRecipeName(activeRecipe?.name ?? steps.map(describeRecipeStep).join(" → "))
+    setSaveDialogOpen(true)
+  }
+
+  const handleSaveRecipe = async () => {
+    const name = recipeName.trim().slice(0, 100)
+    if (!name) {
+      toast.error("Please enter a name for the recipe")
+      return
+    }
+
+    try {
+      // Saving under the open recipe's name updates it; a new name creates a copy
+      const id = await saveRecipe(
+        { name, steps },
+        activeRecipe?.id && activeRecipe.name === name ? activeRecipe.id : undefined
+      )
+      onActiveRecipeChange({ id, name })
+      setSaveDialogOpen(false)
+      toast.success("Recipe saved")
+    } catch (error: any) {
+      console.error("Failed to save recipe:", error)
+      toast.error(error.code === "permission-denied" ? "You don't have permission to save recipes" : "Failed to save recipe")
+    }
+  }
+
+  const handleCopyShareLink = async () => {
+    const name = activeRecipe?.name ?? steps.map(describeRecipeStep).join(" → ").slice(0, 100)
+    const link = `${window.location.origin}${window.location.pathname}${RECIPE_FRAGMENT_PREFIX}${encodeRecipe({ name, steps })}`
+    try {
+      await navigator.clipboard.writeText(link)
+      toast.success("Recipe link copied to clipboard")
+    } catch (error) {
+      toast.error("Failed to copy link")
+    }
+  }
+
+  const handleOpenRecipe = (recipe: SavedRecipe) => {
+    onActiveRecipeChange({ id: recipe.id, name: recipe.name })
+    onStepsChange(recipe.steps)
+    setResults([])
+    toast.success(`Opened "${recipe.name}"`)
+  }
+
+  const handleDeleteRecipe = async (recipe: SavedRecipe) => {
+    if (!confirm(`Delete the recipe "${recipe.name}"?`)) return
+
+    try {
+      await deleteRecipe(recipe.id)
+      if (activeRecipe?.id === recipe.id) onActiveRecipeChange(null)
+      toast.success("Recipe deleted")
+    } catch (error: any) {
+      console.error("Failed to delete recipe:", error)
+      toast.error("Failed to delete recipe")
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <CardTitle>{activeRecipe?.name ?? "Recipe"}</CardTitle>
+              <CardDescription>
+                Chain conversions into a pipeline. Each step runs on the output of the one before it.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleNewRecipe}>
+                New
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleCopyShareLink} disabled={steps.length === 0}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Share
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleOpenSaveDialog} disabled={steps.length === 0}>
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Input</Label>
+            <Textarea
+              placeholder="Enter text to run through the recipe..."
+              value={input}
+              onChange={(e) => onInputChange(e.target.value)}
+              className="font-mono min-h-[120px]"
+              style={{ fontSize: `${fontSize}px` }}
+            />
+          </div>
+
+          {steps.map((step, index) => {
+            const operation = RECIPE_OPERATIONS[step.op]
+            const result = results[index]
+            return (
+              <div key={index} className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center justify-between flex-wrap gap-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="secondary">{index + 1}</Badge>
+                    <span className="font-medium">{operation.label}</span>
+                    {operation.hasMode && (
+                      <>
+                        <Button
+                          variant={step.mode === "encode" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => updateStep(index, { mode: "encode" })}
+                        >
+                          Encode
+                        </Button>
+                        <Button
+                          variant={step.mode === "decode" ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => updateStep(index, { mode: "decode" })}
+                        >
+                          Decode
+                        </Button>
+                      </>
+                    )}
+                    {operation.hasShift && (
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor={`recipeShift-${index}`}>Shift</Label>
+                        <Input
+                          id={`recipeShift-${index}`}
+                          type="number"
+                          min="0"
+                          max="25"
+                          value={step.shift}
+                          onChange={(e) => updateStep(index, { shift: (parseInt(e.target.value) || 0) % 26 })}
+                          className="w-20"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move step up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      aria-label="Move step down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeStep(index)}
+                      aria-label="Remove step"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {result?.error !== undefined ? (
+                  <p className="text-sm text-destructive">{result.error}</p>
+                ) : (
+                  result && (
+                    <Textarea
+                      readOnly
+                      value={result.output}
+                      className="font-mono min-h-[60px] bg-muted text-xs"
+                    />
+                  )
+                )}
+              </div>
+            )
+          })}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={newOperation}
+              onChange={(e) => setNewOperation(e.target.value as RecipeOperationId)}
+              aria-label="Operation to add"
+              className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              {RECIPE_OPERATION_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {RECIPE_OPERATIONS[id].label}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" onClick={handleAddStep}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Step
+            </Button>
+            {!autoConvert && (
+              <Button onClick={handleRun} disabled={!input || steps.length === 0} className="ml-auto">
+                Run
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Output</Label>
+              {finalOutput && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    navigator.clipboard.writeText(finalOutput)
+                    toast.success("Output copied to clipboard")
+                  }}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              )}
+            </div>
+            <Textarea
+              readOnly
+              value={finalOutput}
+              className="font-mono min-h-[120px] bg-muted"
+              style={{ fontSize: `${fontSize}px` }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Recipes</CardTitle>
+          <CardDescription>Pipelines you saved to your account</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!user ? (
+            <p className="text-sm text-muted-foreground">Sign in to save recipes.</p>
+          ) : loading ? (
+            <p className="text-sm text-muted-foreground">Loading recipes...</p>
+          ) : recipes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved recipes yet.</p>
+          ) : (
+            <div className="divide-y">
+              {recipes.map((recipe) => (
+                <div key={recipe.id} className="flex items-center justify-between gap-2 py-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{recipe.name}</span>
+                      {recipe.id === activeRecipe?.id && <Badge variant="outline">Open</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {recipe.steps.map(describeRecipeStep).join(" → ") || "No steps"}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleOpenRecipe(recipe)}
+                      aria-label={`Open ${recipe.name}`}
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleDeleteRecipe(recipe)}
+                      aria-label={`Delete ${recipe.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Save Recipe</DialogTitle>
+            <DialogDescription>
+              Saves the steps, not the input text. Keep the name to update the open recipe, or change it to save a copy.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="recipeName">Name</Label>
+            <Input
+              id="recipeName"
+              value={recipeName}
+              maxLength={100}
+              onChange={(e) => setRecipeName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSaveRecipe()
+              }}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveRecipe}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
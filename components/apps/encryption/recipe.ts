@@ -0,0 +1,125 @@
+// Recipes: ordered chains of the cipher tab transforms, run one after another on the same input.
+// Saved to Firestore and shared as a URL fragment.
+
+import { z } from "zod"
+import { base64ToBytes, bytesToBase64Url, utf8Decode, utf8Encode } from "./encoding"
+import {
+  convertAscii,
+  convertBase64,
+  convertBinary,
+  convertCaesar,
+  convertHex,
+  convertMorse,
+  convertRot13,
+  convertUrl,
+  hashMd5,
+  hashSha256,
+  type CodecMode,
+} from "./transforms"
+
+export const RECIPE_OPERATION_IDS = [
+  "base64",
+  "url",
+  "hex",
+  "binary",
+  "ascii",
+  "caesar",
+  "rot13",
+  "morse",
+  "md5",
+  "sha256",
+] as const
+
+export type RecipeOperationId = (typeof RECIPE_OPERATION_IDS)[number]
+
+export const MAX_RECIPE_STEPS = 50
+
+export const recipeStepSchema = z.object({
+  op: z.enum(RECIPE_OPERATION_IDS),
+  /** Ignored by operations that only go one way (ROT13 and the hashes) */
+  mode: z.enum(["encode", "decode"]),
+  /** Caesar only */
+  shift: z.number().int().min(0).max(25),
+})
+
+export type RecipeStep = z.infer<typeof recipeStepSchema>
+
+export const recipeSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  steps: z.array(recipeStepSchema).max(MAX_RECIPE_STEPS),
+})
+
+export type Recipe = z.infer<typeof recipeSchema>
+
+export interface SavedRecipe extends Recipe {
+  id: string
+  updatedAt: Date | null
+}
+
+interface RecipeOperation {
+  label: string
+  hasMode: boolean
+  hasShift: boolean
+  run: (input: string, step: RecipeStep) => string | Promise<string>
+}
+
+export const RECIPE_OPERATIONS: Record<RecipeOperationId, RecipeOperation> = {
+  base64: { label: "Base64", hasMode: true, hasShift: false, run: (input, step) => convertBase64(input, step.mode) },
+  url: { label: "URL", hasMode: true, hasShift: false, run: (input, step) => convertUrl(input, step.mode) },
+  hex: { label: "Hex", hasMode: true, hasShift: false, run: (input, step) => convertHex(input, step.mode) },
+  binary: { label: "Binary", hasMode: true, hasShift: false, run: (input, step) => convertBinary(input, step.mode) },
+  ascii: { label: "ASCII", hasMode: true, hasShift: false, run: (input, step) => convertAscii(input, step.mode) },
+  caesar: {
+    label: "Caesar",
+    hasMode: true,
+    hasShift: true,
+    run: (input, step) => convertCaesar(input, step.shift, step.mode),
+  },
+  rot13: { label: "ROT13", hasMode: false, hasShift: false, run: (input) => convertRot13(input) },
+  morse: { label: "Morse", hasMode: true, hasShift: false, run: (input, step) => convertMorse(input, step.mode) },
+  md5: { label: "MD5", hasMode: false, hasShift: false, run: (input) => hashMd5(input) },
+  sha256: { label: "SHA-256", hasMode: false, hasShift: false, run: (input) => hashSha256(input) },
+}
+
+export function createRecipeStep(op: RecipeOperationId, mode: CodecMode = "encode"): RecipeStep {
+  return { op, mode, shift: 13 }
+}
+
+export function describeRecipeStep(step: RecipeStep): string {
+  const operation = RECIPE_OPERATIONS[step.op]
+  const shift = operation.hasShift ? ` ${step.shift}` : ""
+  return operation.hasMode ? `${operation.label}${shift} ${step.mode}` : operation.label
+}
+
+export type RecipeStepResult = { output: string; error?: undefined } | { output?: undefined; error: string }
+
+/**
+ * Runs the steps in order, each on the previous step's output. Stops at the first step that
+ * throws, so the results array is shorter than `steps` when a step fails.
+ */
+export async function runRecipe(input: string, steps: RecipeStep[]): Promise<RecipeStepResult[]> {
+  const results: RecipeStepResult[] = []
+  let current = input
+  for (const step of steps) {
+    try {
+      current = await RECIPE_OPERATIONS[step.op].run(current, step)
+      results.push({ output: current })
+    } catch (error) {
+      results.push({ error: error instanceof Error && error.message ? error.message : "This step failed" })
+      break
+    }
+  }
+  return results
+}
+
+export const RECIPE_FRAGMENT_PREFIX = "#recipe="
+
+/** Base64url-encodes a recipe for use in a URL fragment */
+export function encodeRecipe(recipe: Recipe): string {
+  return bytesToBase64Url(utf8Encode(JSON.stringify(recipe)))
+}
+
+/** Reverses encodeRecipe. Throws if the data is corrupt or doesn't match the recipe schema. */
+export function decodeRecipe(encoded: string): Recipe {
+  return recipeSchema.parse(JSON.parse(utf8Decode(base64ToBytes(encoded))))
+}
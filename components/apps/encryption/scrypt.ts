@@ -0,0 +1,101 @@
+// scrypt (RFC 7914): a memory-hard password KDF in the same family as Argon2, which WebCrypto
+// doesn't offer. The PBKDF2 steps use crypto.subtle; the Salsa20/8 mixing runs in plain JS.
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
+
+// Salsa20/8 core applied in place to 16 words of `b` starting at `offset`
+function salsa20_8(b: Uint32Array, offset: number, x: Uint32Array) {
+  for (let i = 0; i < 16; i++) x[i] = b[offset + i]
+
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= rotl(x[0] + x[12], 7); x[8] ^= rotl(x[4] + x[0], 9)
+    x[12] ^= rotl(x[8] + x[4], 13); x[0] ^= rotl(x[12] + x[8], 18)
+    x[9] ^= rotl(x[5] + x[1], 7); x[13] ^= rotl(x[9] + x[5], 9)
+    x[1] ^= rotl(x[13] + x[9], 13); x[5] ^= rotl(x[1] + x[13], 18)
+    x[14] ^= rotl(x[10] + x[6], 7); x[2] ^= rotl(x[14] + x[10], 9)
+    x[6] ^= rotl(x[2] + x[14], 13); x[10] ^= rotl(x[6] + x[2], 18)
+    x[3] ^= rotl(x[15] + x[11], 7); x[7] ^= rotl(x[3] + x[15], 9)
+    x[11] ^= rotl(x[7] + x[3], 13); x[15] ^= rotl(x[11] + x[7], 18)
+    x[1] ^= rotl(x[0] + x[3], 7); x[2] ^= rotl(x[1] + x[0], 9)
+    x[3] ^= rotl(x[2] + x[1], 13); x[0] ^= rotl(x[3] + x[2], 18)
+    x[6] ^= rotl(x[5] + x[4], 7); x[7] ^= rotl(x[6] + x[5], 9)
+    x[4] ^= rotl(x[7] + x[6], 13); x[5] ^= rotl(x[4] + x[7], 18)
+    x[11] ^= rotl(x[10] + x[9], 7); x[8] ^= rotl(x[11] + x[10], 9)
+    x[9] ^= rotl(x[8] + x[11], 13); x[10] ^= rotl(x[9] + x[8], 18)
+    x[12] ^= rotl(x[15] + x[14], 7); x[13] ^= rotl(x[12] + x[15], 9)
+    x[14] ^= rotl(x[13] + x[12], 13); x[15] ^= rotl(x[14] + x[13], 18)
+  }
+
+  for (let i = 0; i < 16; i++) b[offset + i] += x[i]
+}
+
+// scryptBlockMix: reads the 32r-word block `b`, writes the shuffled result to `y`
+function blockMix(b: Uint32Array, y: Uint32Array, r: number, scratch: Uint32Array, x: Uint32Array) {
+  scratch.set(b.subarray((2 * r - 1) * 16, 2 * r * 16))
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) scratch[k] ^= b[i * 16 + k]
+    salsa20_8(scratch, 0, x)
+    // Even blocks go to the first half of the output, odd blocks to the second
+    y.set(scratch.subarray(0, 16), ((i >> 1) + (i & 1) * r) * 16)
+  }
+}
+
+function roMix(block: Uint32Array, n: number, r: number) {
+  const words = 32 * r
+  const v = new Uint32Array(words * n)
+  const y = new Uint32Array(words)
+  const scratch = new Uint32Array(16)
+  const x = new Uint32Array(16)
+
+  for (let i = 0; i < n; i++) {
+    v.set(block, i * words)
+    blockMix(block, y, r, scratch, x)
+    block.set(y)
+  }
+  for (let i = 0; i < n; i++) {
+    const j = block[(2 * r - 1) * 16] & (n - 1)
+    for (let k = 0; k < words; k++) block[k] ^= v[j * words + k]
+    blockMix(block, y, r, scratch, x)
+    block.set(y)
+  }
+}
+
+async function pbkdf2Sha256(password: Uint8Array<ArrayBuffer>, salt: Uint8Array<ArrayBuffer>, length: number) {
+  const key = await crypto.subtle.importKey("raw", password, "PBKDF2", false, ["deriveBits"])
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", salt, iterations: 1, hash: "SHA-256" }, key, length * 8)
+  return new Uint8Array(bits)
+}
+
+export interface ScryptParams {
+  /** CPU/memory cost, a power of two; memory use is 128 * N * r bytes */
+  N: number
+  r: number
+  p: number
+}
+
+export async function scrypt(
+  password: Uint8Array<ArrayBuffer>,
+  salt: Uint8Array<ArrayBuffer>,
+  { N, r, p }: ScryptParams,
+  keyLength: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (N < 2 || (N & (N - 1)) !== 0) {
+    throw new Error("scrypt N must be a power of two greater than 1")
+  }
+
+  const blockBytes = 128 * r
+  const b = await pbkdf2Sha256(password, salt, p * blockBytes)
+
+  for (let i = 0; i < p; i++) {
+    // Words are little-endian per the spec, independent of platform byte order
+    const view = new DataView(b.buffer, i * blockBytes, blockBytes)
+    const block = new Uint32Array(blockBytes / 4)
+    for (let k = 0; k < block.length; k++) block[k] = view.getUint32(k * 4, true)
+    roMix(block, N, r)
+    for (let k = 0; k < block.length; k++) view.setUint32(k * 4, block[k], true)
+  }
+
+  return pbkdf2Sha256(password, b, keyLength)
+}
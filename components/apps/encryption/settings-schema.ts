@@ -0,0 +1,27 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const encryptionSettingsSchema = z.object({
+  autoConvert: z.boolean(),
+  clearOnTabChange: z.boolean(),
+  defaultTab: z.string(),
+  fontSize: z.number().min(10).max(20),
+})
+
+export type EncryptionSettingsValues = z.infer<typeof encryptionSettingsSchema>
+
+export const DEFAULT_ENCRYPTION_SETTINGS: EncryptionSettingsValues = {
+  autoConvert: true,
+  clearOnTabChange: false,
+  defaultTab: "base64",
+  fontSize: 14,
+}
+
+export const ENCRYPTION_SETTINGS = defineAppSettings({
+  appId: "encryption",
+  collection: "encryptionSettings",
+  storageKey: "encryption-platform-settings",
+  schema: encryptionSettingsSchema,
+  defaults: DEFAULT_ENCRYPTION_SETTINGS,
+  version: 1,
+})
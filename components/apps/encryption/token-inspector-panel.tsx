@@ -0,0 +1,372 @@
+"use client"
+
+import * as React from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Copy, ShieldCheck, ShieldX } from "lucide-react"
+import { toast } from "sonner"
+import { CryptoInputError } from "./web-crypto"
+import { SUPPORTED_JWS_ALGORITHMS, decodeJwt, formatDuration, getTimeClaims, verifyJwt } from "./jwt"
+import { formatName, inspectPem, type PemInspection } from "./x509"
+
+const SELECT_CLASS_NAME =
+  "flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+function copyToClipboard(text: string, label: string) {
+  navigator.clipboard.writeText(text)
+  toast.success(`${label} copied to clipboard`)
+}
+
+/** Current time, ticking every second while `enabled` so countdowns stay live */
+function useNow(enabled: boolean): number {
+  const [now, setNow] = React.useState(() => Date.now())
+  React.useEffect(() => {
+    if (!enabled) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [enabled])
+  return now
+}
+
+function ValidityBadge({ notBefore, notAfter, now }: { notBefore?: Date; notAfter?: Date; now: number }) {
+  if (notBefore && now < notBefore.getTime()) {
+    return <Badge variant="secondary">Not valid for another {formatDuration(notBefore.getTime() - now)}</Badge>
+  }
+  if (notAfter && now >= notAfter.getTime()) {
+    return <Badge variant="destructive">Expired {formatDuration(now - notAfter.getTime())} ago</Badge>
+  }
+  if (notAfter) {
+    return <Badge>Expires in {formatDuration(notAfter.getTime() - now)}</Badge>
+  }
+  return <Badge variant="secondary">No expiry</Badge>
+}
+
+function JsonBlock({ label, value, fontSize }: { label: string; value: unknown; fontSize: number }) {
+  const text = typeof value === "string" ? value : JSON.stringify(value, null, 2)
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Button variant="ghost" size="sm" onClick={() => copyToClipboard(text, label)}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <pre className="overflow-x-auto rounded-md bg-muted p-3 font-mono" style={{ fontSize: `${fontSize}px` }}>
+        {text}
+      </pre>
+    </div>
+  )
+}
+
+function JwtInspector({ fontSize }: { fontSize: number }) {
+  const [token, setToken] = React.useState("")
+  const [key, setKey] = React.useState("")
+  const [secretEncoding, setSecretEncoding] = React.useState<"text" | "base64">("text")
+  const [verified, setVerified] = React.useState<boolean | null>(null)
+
+  const decoded = React.useMemo(() => {
+    if (!token.trim()) return null
+    try {
+      return { jwt: decodeJwt(token), error: null }
+    } catch (error) {
+      return { jwt: null, error: error instanceof CryptoInputError ? error.message : "This isn't a valid JWT" }
+    }
+  }, [token])
+
+  const jwt = decoded?.jwt ?? null
+  const claims = jwt ? getTimeClaims(jwt.payload) : {}
+  const now = useNow(Boolean(claims.expiresAt || claims.notBefore))
+  const algorithm = typeof jwt?.header.alg === "string" ? jwt.header.alg : "unknown"
+  const isHmac = algorithm.startsWith("HS")
+
+  const verify = async () => {
+    if (!jwt) return
+    try {
+      setVerified(await verifyJwt(jwt, key, { secretEncoding }))
+    } catch (error) {
+      setVerified(null)
+      console.error("JWT verification failed", error)
+      toast.error(error instanceof CryptoInputError ? error.message : "Verification failed")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>JSON Web Token</CardTitle>
+        <CardDescription>
+          Decodes the header and payload and verifies signatures ({SUPPORTED_JWS_ALGORITHMS.join(", ")}) in your
+          browser. Tokens and keys never leave this page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Token</Label>
+          <Textarea
+            placeholder="eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+            value={token}
+            onChange={(e) => {
+              setToken(e.target.value)
+              setVerified(null)
+            }}
+            className="font-mono text-xs min-h-[100px] break-all"
+          />
+          {decoded?.error && <p className="text-sm text-destructive">{decoded.error}</p>}
+        </div>
+
+        {jwt && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{algorithm}</Badge>
+              {typeof jwt.header.kid === "string" && <Badge variant="outline">kid: {jwt.header.kid}</Badge>}
+              <ValidityBadge notBefore={claims.notBefore} notAfter={claims.expiresAt} now={now} />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <JsonBlock label="Header" value={jwt.header} fontSize={fontSize} />
+              <JsonBlock label="Payload" value={jwt.payload} fontSize={fontSize} />
+            </div>
+            {(claims.issuedAt || claims.notBefore || claims.expiresAt) && (
+              <div className="grid gap-1 text-sm">
+                {claims.issuedAt && (
+                  <div>
+                    <span className="text-muted-foreground">Issued (iat): </span>
+                    {claims.issuedAt.toLocaleString()}
+                  </div>
+                )}
+                {claims.notBefore && (
+                  <div>
+                    <span className="text-muted-foreground">Not before (nbf): </span>
+                    {claims.notBefore.toLocaleString()}
+                  </div>
+                )}
+                {claims.expiresAt && (
+                  <div>
+                    <span className="text-muted-foreground">Expires (exp): </span>
+                    {claims.expiresAt.toLocaleString()}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between flex-wrap gap-2">
+                <Label>{isHmac ? "Shared secret" : "Public key (JWK, JWK Set, PEM public key or certificate)"}</Label>
+                {isHmac && (
+                  <select
+                    value={secretEncoding}
+                    onChange={(e) => {
+                      setSecretEncoding(e.target.value as "text" | "base64")
+                      setVerified(null)
+                    }}
+                    aria-label="Secret encoding"
+                    className={SELECT_CLASS_NAME}
+                  >
+                    <option value="text">Text (UTF-8)</option>
+                    <option value="base64">Base64 encoded</option>
+                  </select>
+                )}
+              </div>
+              <Textarea
+                placeholder={isHmac ? "your-256-bit-secret" : '{"kty":"RSA",...} or -----BEGIN PUBLIC KEY-----'}
+                value={key}
+                onChange={(e) => {
+                  setKey(e.target.value)
+                  setVerified(null)
+                }}
+                className="font-mono text-xs min-h-[80px]"
+              />
+            </div>
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              {verified !== null && (
+                <Badge variant={verified ? "default" : "destructive"} className="mr-auto">
+                  {verified ? <ShieldCheck className="h-4 w-4 mr-1" /> : <ShieldX className="h-4 w-4 mr-1" />}
+                  {verified ? "Signature verified" : "Invalid signature"}
+                </Badge>
+              )}
+              <Button onClick={verify} disabled={!key.trim()}>
+                Verify Signature
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid gap-1 sm:grid-cols-[10rem_1fr]">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      <div className="min-w-0 break-all text-sm">{children}</div>
+    </div>
+  )
+}
+
+function FingerprintField({ label, value }: { label: string; value: string }) {
+  return (
+    <Field label={label}>
+      <div className="flex items-start gap-2">
+        <code className="flex-1 text-xs">{value}</code>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          onClick={() => copyToClipboard(value, `${label} fingerprint`)}
+          aria-label={`Copy ${label} fingerprint`}
+        >
+          <Copy className="h-3 w-3" />
+        </Button>
+      </div>
+    </Field>
+  )
+}
+
+function PemResult({ result, now }: { result: PemInspection; now: number }) {
+  if (result.kind === "other") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{result.label}</CardTitle>
+          <CardDescription>{result.size} bytes. Only certificates and certificate requests are inspected.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const commonName = result.subject.find((attribute) => attribute.type === "CN")?.value
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <CardTitle className="text-base break-all">
+            {commonName ?? (result.kind === "certificate" ? "Certificate" : "Certificate Request")}
+          </CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{result.kind === "certificate" ? `X.509 v${result.version}` : "CSR (PKCS#10)"}</Badge>
+            {result.kind === "certificate" && result.isSelfSigned && <Badge variant="secondary">Self-signed</Badge>}
+            {result.isCa && <Badge variant="secondary">CA</Badge>}
+            {result.kind === "certificate" && (
+              <ValidityBadge notBefore={result.notBefore} notAfter={result.notAfter} now={now} />
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Field label="Subject">{formatName(result.subject) || "(empty)"}</Field>
+        {result.kind === "certificate" && (
+          <>
+            <Field label="Issuer">{formatName(result.issuer)}</Field>
+            <Field label="Serial number">
+              <code className="text-xs">{result.serialNumber}</code>
+            </Field>
+            <Field label="Valid from">{result.notBefore.toLocaleString()}</Field>
+            <Field label="Valid until">{result.notAfter.toLocaleString()}</Field>
+          </>
+        )}
+        <Field label="Subject Alt Names">
+          {result.subjectAltNames.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {result.subjectAltNames.map((name) => (
+                <Badge key={name} variant="outline" className="font-mono font-normal">
+                  {name}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <span className="text-muted-foreground">None</span>
+          )}
+        </Field>
+        <Field label="Public key">{result.publicKey.description}</Field>
+        <Field label="Signature">{result.signatureAlgorithm}</Field>
+        {result.pathLength !== undefined && <Field label="Path length">{result.pathLength}</Field>}
+        {result.keyUsage.length > 0 && <Field label="Key usage">{result.keyUsage.join(", ")}</Field>}
+        {result.extendedKeyUsage.length > 0 && (
+          <Field label="Extended key usage">{result.extendedKeyUsage.join(", ")}</Field>
+        )}
+        <FingerprintField label="SHA-256" value={result.fingerprints.sha256} />
+        <FingerprintField label="SHA-1" value={result.fingerprints.sha1} />
+      </CardContent>
+    </Card>
+  )
+}
+
+function CertificateInspector() {
+  const [pem, setPem] = React.useState("")
+  const [results, setResults] = React.useState<PemInspection[]>([])
+  const [error, setError] = React.useState<string | null>(null)
+  const now = useNow(results.some((result) => result.kind === "certificate"))
+
+  // Parsing is instant, but fingerprints come from crypto.subtle, which is async
+  React.useEffect(() => {
+    if (!pem.trim()) {
+      setResults([])
+      setError(null)
+      return
+    }
+    let cancelled = false
+    inspectPem(pem)
+      .then((inspections) => {
+        if (cancelled) return
+        setResults(inspections)
+        setError(null)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        if (!(error instanceof CryptoInputError)) console.error("Failed to inspect PEM", error)
+        setResults([])
+        setError(error instanceof CryptoInputError ? error.message : "This PEM couldn't be parsed")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [pem])
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Certificates &amp; CSRs</CardTitle>
+          <CardDescription>
+            Paste one or more PEM certificates or certificate signing requests, such as a full chain, to see their
+            names, validity, SANs and fingerprints
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Textarea
+            placeholder={"-----BEGIN CERTIFICATE-----\n...\n-----END CERTIFICATE-----"}
+            value={pem}
+            onChange={(e) => setPem(e.target.value)}
+            className="font-mono text-xs min-h-[160px]"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+      {results.map((result, index) => (
+        <PemResult key={index} result={result} now={now} />
+      ))}
+    </div>
+  )
+}
+
+export function TokenInspectorPanel({ fontSize }: { fontSize: number }) {
+  return (
+    <Tabs defaultValue="jwt" className="w-full">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="jwt">JWT</TabsTrigger>
+        <TabsTrigger value="pem">X.509 / PEM</TabsTrigger>
+      </TabsList>
+      <TabsContent value="jwt" className="mt-4">
+        <JwtInspector fontSize={fontSize} />
+      </TabsContent>
+      <TabsContent value="pem" className="mt-4">
+        <CertificateInspector />
+      </TabsContent>
+    </Tabs>
+  )
+}
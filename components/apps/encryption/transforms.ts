@@ -0,0 +1,204 @@
+// Text transforms behind the cipher tabs, kept free of React state so the tabs and the recipe
+// pipeline run exactly the same code
+
+import CryptoJS from "crypto-js"
+
+export type CodecMode = "encode" | "decode"
+
+/** Input the transform can't handle; the message is safe to show to the user */
+export class TransformInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TransformInputError"
+  }
+}
+
+// Morse Code mapping
+const MORSE_CODE: Record<string, string> = {
+  "A": ".-", "B": "-...", "C": "-.-.", "D": "-..", "E": ".", "F": "..-.",
+  "G": "--.", "H": "....", "I": "..", "J": ".---", "K": "-.-", "L": ".-..",
+  "M": "--", "N": "-.", "O": "---", "P": ".--.", "Q": "--.-", "R": ".-.",
+  "S": "...", "T": "-", "U": "..-", "V": "...-", "W": ".--", "X": "-..-",
+  "Y": "-.--", "Z": "--..", "0": "-----", "1": ".----", "2": "..---",
+  "3": "...--", "4": "....-", "5": ".....", "6": "-....", "7": "--...",
+  "8": "---..", "9": "----.", ".": ".-.-.-", ",": "--..--", "?": "..--..",
+  "'": ".----.", "!": "-.-.--", "/": "-..-.", "(": "-.--.", ")": "-.--.-",
+  "&": ".-...", ":": "---...", ";": "-.-.-.", "=": "-...-", "+": ".-.-.",
+  "-": "-....-", "_": "..--.-", '"': ".-..-.", "$": "...-..-", "@": ".--.-.",
+  " ": "/"
+}
+
+const MORSE_REVERSE: Record<string, string> = Object.fromEntries(
+  Object.entries(MORSE_CODE).map(([k, v]) => [v, k])
+)
+
+export function convertBase64(input: string, mode: CodecMode): string {
+  return mode === "encode" ? btoa(input) : atob(input)
+}
+
+export function convertUrl(input: string, mode: CodecMode): string {
+  return mode === "encode" ? encodeURIComponent(input) : decodeURIComponent(input)
+}
+
+export function convertHex(input: string, mode: CodecMode): string {
+  if (mode === "encode") {
+    return Array.from(input)
+      .map((c) => c.charCodeAt(0).toString(16).padStart(2, "0"))
+      .join("")
+  }
+  const cleaned = input.replace(/\s/g, "")
+  if (cleaned.length % 2 !== 0) {
+    throw new TransformInputError("Invalid hex string (length must be even)")
+  }
+  return cleaned
+    .match(/.{1,2}/g)
+    ?.map((byte) => String.fromCharCode(parseInt(byte, 16)))
+    .join("") || ""
+}
+
+export function convertBinary(input: string, mode: CodecMode): string {
+  if (mode === "encode") {
+    return Array.from(input)
+      .map((c) => c.charCodeAt(0).toString(2).padStart(8, "0"))
+      .join(" ")
+  }
+  const cleaned = input.replace(/\s/g, "")
+  if (cleaned.length % 8 !== 0) {
+    throw new TransformInputError("Invalid binary string (length must be multiple of 8)")
+  }
+  return cleaned
+    .match(/.{8}/g)
+    ?.map((byte) => String.fromCharCode(parseInt(byte, 2)))
+    .join("") || ""
+}
+
+export function convertAscii(input: string, mode: CodecMode): string {
+  if (mode === "encode") {
+    return Array.from(input)
+      .map((c) => c.charCodeAt(0).toString())
+      .join(" ")
+  }
+  return input
+    .split(/\s+/)
+    .map((num) => String.fromCharCode(parseInt(num, 10)))
+    .join("")
+}
+
+export function convertCaesar(input: string, shift: number, mode: CodecMode): string {
+  const effectiveShift = mode === "encode" ? shift : (26 - shift) % 26
+  return Array.from(input)
+    .map((char) => {
+      if (char.match(/[a-z]/i)) {
+        const code = char.charCodeAt(0)
+        const base = code >= 65 && code <= 90 ? 65 : 97
+        return String.fromCharCode(((code - base + effectiveShift) % 26) + base)
+      }
+      return char
+    })
+    .join("")
+}
+
+export function convertRot13(input: string): string {
+  return convertCaesar(input, 13, "encode")
+}
+
+export function convertMorse(input: string, mode: CodecMode): string {
+  if (mode === "encode") {
+    return Array.from(input.toUpperCase())
+      .map((char) => MORSE_CODE[char] || char)
+      .join(" ")
+  }
+  return input
+    .split(" / ")
+    .map((word) =>
+      word
+        .split(" ")
+        .map((code) => MORSE_REVERSE[code] || code)
+        .join("")
+    )
+    .join(" ")
+}
+
+export function hashMd5(input: string): string {
+  return CryptoJS.MD5(input).toString()
+}
+
+export async function hashSha256(input: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const data = encoder.encode(input)
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data)
+  const hashArray = Array.from(new Uint8Array(hashBuffer))
+  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+// Classical ciphers below only change A-Z and a-z (keeping case); everything else passes through
+
+function shiftLetter(char: string, map: (index: number) => number): string {
+  const code = char.charCodeAt(0)
+  const base = code >= 65 && code <= 90 ? 65 : 97
+  return String.fromCharCode(map(code - base) + base)
+}
+
+function mod26(value: number): number {
+  return ((value % 26) + 26) % 26
+}
+
+export function convertAtbash(input: string): string {
+  return input.replace(/[a-z]/gi, (char) => shiftLetter(char, (index) => 25 - index))
+}
+
+/** The key's letters give the shift for each letter of the input; non-letters don't use up the key */
+export function convertVigenere(input: string, key: string, mode: CodecMode): string {
+  const shifts = Array.from(key.toUpperCase().replace(/[^A-Z]/g, "")).map((c) => c.charCodeAt(0) - 65)
+  if (shifts.length === 0) {
+    throw new TransformInputError("The key must contain at least one letter")
+  }
+  let position = 0
+  return input.replace(/[a-z]/gi, (char) => {
+    const shift = shifts[position++ % shifts.length]
+    return shiftLetter(char, (index) => mod26(mode === "encode" ? index + shift : index - shift))
+  })
+}
+
+export const AFFINE_MULTIPLIERS = [1, 3, 5, 7, 9, 11, 15, 17, 19, 21, 23, 25]
+
+/** E(x) = (a * x + b) mod 26; `a` must be coprime with 26 so the cipher can be reversed */
+export function convertAffine(input: string, a: number, b: number, mode: CodecMode): string {
+  const multiplier = mod26(a)
+  if (!AFFINE_MULTIPLIERS.includes(multiplier)) {
+    throw new TransformInputError("The multiplier must be coprime with 26 (1, 3, 5, 7, 9, 11, 15, 17, 19, 21, 23 or 25)")
+  }
+  const inverse = AFFINE_MULTIPLIERS.find((candidate) => (candidate * multiplier) % 26 === 1) as number
+  return input.replace(/[a-z]/gi, (char) =>
+    shiftLetter(char, (index) => (mode === "encode" ? mod26(multiplier * index + b) : mod26(inverse * (index - b))))
+  )
+}
+
+// Row of each position in the zigzag: 0, 1, ..., rails - 1, rails - 2, ..., 1, 0, 1, ...
+function railPattern(length: number, rails: number): number[] {
+  const cycle = 2 * (rails - 1)
+  return Array.from({ length }, (_, i) => {
+    const step = i % cycle
+    return step < rails ? step : cycle - step
+  })
+}
+
+/** Transposes every character, including spaces and punctuation */
+export function convertRailFence(input: string, rails: number, mode: CodecMode): string {
+  if (!Number.isInteger(rails) || rails < 2) {
+    throw new TransformInputError("Rail fence needs at least 2 rails")
+  }
+  const chars = Array.from(input)
+  const pattern = railPattern(chars.length, rails)
+  // Positions in the order they're written out: rail by rail, left to right
+  const order = Array.from(chars.keys()).sort((x, y) => pattern[x] - pattern[y] || x - y)
+
+  if (mode === "encode") {
+    return order.map((position) => chars[position]).join("")
+  }
+  const result: string[] = new Array(chars.length)
+  order.forEach((position, i) => {
+    result[position] = chars[i]
+  })
+  return result.join("")
+}
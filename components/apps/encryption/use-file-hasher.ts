@@ -0,0 +1,120 @@
+"use client"
+
+import * as React from "react"
+import { hashFile, type FileDigests, type HashAlgorithm } from "./file-hash"
+
+export type FileHashWorkerRequest =
+  | { type: "hash"; id: number; file: Blob; algorithms: HashAlgorithm[]; hmacKey?: Uint8Array }
+  | { type: "cancel"; id: number }
+
+export type FileHashWorkerResponse =
+  | { type: "progress"; id: number; bytesHashed: number }
+  | { type: "done"; id: number; digests: FileDigests }
+  | { type: "error"; id: number; error: string }
+
+interface PendingHash {
+  resolve: (digests: FileDigests) => void
+  reject: (error: Error) => void
+  onProgress?: (bytesHashed: number) => void
+}
+
+function abortError() {
+  return new DOMException("Hashing was cancelled", "AbortError")
+}
+
+/**
+ * Hashes files in a Web Worker, reporting progress per chunk. `cancel` stops every hash in flight;
+ * their promises reject with an AbortError. Falls back to the main thread where workers aren't
+ * available.
+ */
+export function useFileHasher() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const nextIdRef = React.useRef(0)
+  const pendingRef = React.useRef(new Map<number, PendingHash>())
+  // Main-thread fallback only
+  const runningRef = React.useRef(new Set<number>())
+  const cancelledRef = React.useRef(new Set<number>())
+
+  React.useEffect(() => {
+    if (typeof Worker === "undefined") return
+
+    const worker = new Worker(new URL("./file-hash.worker.ts", import.meta.url))
+    const pending = pendingRef.current
+    worker.onmessage = (event: MessageEvent<FileHashWorkerResponse>) => {
+      const response = event.data
+      const request = pending.get(response.id)
+      if (!request) return
+
+      if (response.type === "progress") {
+        request.onProgress?.(response.bytesHashed)
+        return
+      }
+      pending.delete(response.id)
+      if (response.type === "error") {
+        request.reject(new Error(response.error))
+      } else {
+        request.resolve(response.digests)
+      }
+    }
+    worker.onerror = (event) => {
+      console.error("File hash worker failed:", event.message)
+      pending.forEach((request) => request.reject(new Error(event.message || "File hash worker failed")))
+      pending.clear()
+    }
+    workerRef.current = worker
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      pending.forEach((request) => request.reject(abortError()))
+      pending.clear()
+    }
+  }, [])
+
+  const hash = React.useCallback(
+    (
+      file: Blob,
+      algorithms: HashAlgorithm[],
+      hmacKey?: Uint8Array,
+      onProgress?: (bytesHashed: number) => void
+    ): Promise<FileDigests> => {
+      const id = ++nextIdRef.current
+      const worker = workerRef.current
+      if (!worker) {
+        runningRef.current.add(id)
+        return hashFile(file, {
+          algorithms,
+          hmacKey,
+          onProgress,
+          isCancelled: () => cancelledRef.current.has(id),
+        }).finally(() => {
+          runningRef.current.delete(id)
+          cancelledRef.current.delete(id)
+        })
+      }
+
+      return new Promise((resolve, reject) => {
+        pendingRef.current.set(id, { resolve, reject, onProgress })
+        const request: FileHashWorkerRequest = { type: "hash", id, file, algorithms, hmacKey }
+        worker.postMessage(request)
+      })
+    },
+    []
+  )
+
+  const cancel = React.useCallback(() => {
+    const worker = workerRef.current
+    if (!worker) {
+      runningRef.current.forEach((id) => cancelledRef.current.add(id))
+      return
+    }
+    pendingRef.current.forEach((request, id) => {
+      const message: FileHashWorkerRequest = { type: "cancel", id }
+      worker.postMessage(message)
+      request.reject(abortError())
+    })
+    pendingRef.current.clear()
+  }, [])
+
+  return { hash, cancel }
+}
@@ -0,0 +1,24 @@
+"use client"
+
+import * as React from "react"
+import { readUpdatedAt, useUserCollection, type UserCollectionDefinition } from "@/components/apps/use-user-collection"
+import { recipeSchema, type Recipe, type SavedRecipe } from "./recipe"
+
+export const RECIPES_COLLECTION = "encryptionRecipes"
+
+const RECIPES: UserCollectionDefinition<typeof recipeSchema, SavedRecipe> = {
+  collection: RECIPES_COLLECTION,
+  label: "recipes",
+  schema: recipeSchema,
+  toItem: (id, recipe, data) => ({ ...recipe, id, updatedAt: readUpdatedAt(data) }),
+}
+
+/** The signed-in user's recipes from /users/{uid}/encryptionRecipes, newest first */
+export function useRecipes() {
+  const { items: recipes, loading, save, remove: deleteRecipe } = useUserCollection(RECIPES)
+
+  /** Creates a recipe, or overwrites the one with `recipeId`; resolves to the recipe ID */
+  const saveRecipe = React.useCallback((recipe: Recipe, recipeId?: string) => save(recipe, recipeId), [save])
+
+  return { recipes, loading, saveRecipe, deleteRecipe }
+}
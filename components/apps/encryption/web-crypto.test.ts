@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { CryptoInputError, decryptWithPassword, encryptWithPassword, formatEnvelope } from "./web-crypto"
+
+describe("password envelopes", () => {
+  it("round-trips with the password", async () => {
+    const envelope = await encryptWithPassword("hello", "secret", { kdf: "PBKDF2", cost: 1000 })
+    expect(await decryptWithPassword(formatEnvelope(envelope, "base64"), "secret")).toBe("hello")
+  })
+
+  it("refuses key derivation costs that would hang the browser", async () => {
+    const envelope = await encryptWithPassword("hello", "secret", { kdf: "scrypt", cost: 16 })
+    const withKdf = (kdf: object) => JSON.stringify({ ...envelope, kdf: { ...envelope.kdf, ...kdf } })
+
+    // About 1 GiB of memory and hours of work, though N, r and p are each modest
+    await expect(decryptWithPassword(withKdf({ N: 2 ** 20, r: 8, p: 128 }), "secret")).rejects.toThrow(
+      "key derivation cost above what this tool supports"
+    )
+    // A 128 GiB buffer
+    await expect(decryptWithPassword(withKdf({ N: 2 ** 20, r: 1024, p: 1 }), "secret")).rejects.toThrow(
+      CryptoInputError
+    )
+    await expect(decryptWithPassword(withKdf({ N: 1000 }), "secret")).rejects.toThrow("not a power of two")
+    await expect(
+      decryptWithPassword(withKdf({ name: "PBKDF2", hash: "SHA-256", iterations: 10_000_001 }), "secret")
+    ).rejects.toThrow(CryptoInputError)
+    expect(await decryptWithPassword(withKdf({}), "secret")).toBe("hello")
+  })
+})
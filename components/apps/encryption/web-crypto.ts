@@ -0,0 +1,452 @@
+// Real cryptography for the Encryption Platform, built on crypto.subtle:
+// password-based AES-GCM, RSA-OAEP, ECDH (ephemeral-static, HKDF + AES-GCM) and ECDSA / Ed25519
+// signatures, with PEM and JWK key import and export.
+
+import { z } from "zod"
+import { base64ToBytes, bytesToBase64, utf8Decode, utf8Encode } from "./encoding"
+import { scrypt } from "./scrypt"
+
+// ---------------------------------------------------------------------------
+// Password-based encryption (AES-256-GCM)
+// ---------------------------------------------------------------------------
+
+export type KdfName = "PBKDF2" | "scrypt"
+
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000
+export const DEFAULT_SCRYPT_N = 32768
+
+// Upper bounds for envelopes we'll decrypt, so a crafted envelope can't freeze the tab or exhaust
+// memory before the password is even checked. scrypt runs on the main thread, needs 128 * N * r
+// bytes and does work proportional to N * r * p; the strongest setting offered here (N = 2^17,
+// r = 8, p = 1) uses 128 MiB and 2^20 work.
+export const MAX_PBKDF2_ITERATIONS = 10_000_000
+const MAX_SCRYPT_MEMORY_BYTES = 256 * 1024 * 1024
+const MAX_SCRYPT_WORK = 2 ** 22
+
+const KDF_COST_MESSAGE = "Envelope asks for a key derivation cost above what this tool supports"
+
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+const kdfSchema = z
+  .discriminatedUnion("name", [
+    z.object({
+      name: z.literal("PBKDF2"),
+      hash: z.enum(["SHA-256", "SHA-512"]),
+      iterations: z.number().int().min(1).max(MAX_PBKDF2_ITERATIONS, KDF_COST_MESSAGE),
+      salt: z.string(),
+    }),
+    z.object({
+      name: z.literal("scrypt"),
+      N: z
+        .number()
+        .int()
+        .min(2)
+        .refine((N) => (N & (N - 1)) === 0, "Envelope's scrypt N is not a power of two"),
+      r: z.number().int().min(1),
+      p: z.number().int().min(1),
+      salt: z.string(),
+    }),
+  ])
+  .refine(
+    (kdf) =>
+      kdf.name !== "scrypt" ||
+      (128 * kdf.N * kdf.r <= MAX_SCRYPT_MEMORY_BYTES && kdf.N * kdf.r * kdf.p <= MAX_SCRYPT_WORK),
+    KDF_COST_MESSAGE
+  )
+
+/** Everything needed to decrypt except the password; salt, IV and ciphertext are base64 */
+const passwordEnvelopeSchema = z.object({
+  v: z.literal(1),
+  alg: z.literal("A256GCM"),
+  kdf: kdfSchema,
+  iv: z.string(),
+  ct: z.string(),
+})
+
+export type PasswordEnvelope = z.infer<typeof passwordEnvelopeSchema>
+
+export interface PasswordEncryptOptions {
+  kdf: KdfName
+  /** PBKDF2 iterations, or the scrypt N parameter */
+  cost: number
+}
+
+/** Thrown for bad input (malformed envelopes, wrong key types); message is safe to show */
+export class CryptoInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CryptoInputError"
+  }
+}
+
+async function deriveAesKey(password: string, kdf: PasswordEnvelope["kdf"]): Promise<CryptoKey> {
+  const salt = base64ToBytes(kdf.salt)
+  let keyBytes: Uint8Array<ArrayBuffer>
+  if (kdf.name === "scrypt") {
+    keyBytes = await scrypt(utf8Encode(password), salt, kdf, 32)
+  } else {
+    const baseKey = await crypto.subtle.importKey("raw", utf8Encode(password), "PBKDF2", false, ["deriveBits"])
+    keyBytes = new Uint8Array(
+      await crypto.subtle.deriveBits(
+        { name: "PBKDF2", salt, iterations: kdf.iterations, hash: kdf.hash },
+        baseKey,
+        256
+      )
+    )
+  }
+  return crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, ["encrypt", "decrypt"])
+}
+
+export async function encryptWithPassword(
+  plaintext: string,
+  password: string,
+  options: PasswordEncryptOptions
+): Promise<PasswordEnvelope> {
+  const salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+  const kdf: PasswordEnvelope["kdf"] =
+    options.kdf === "scrypt"
+      ? { name: "scrypt", N: options.cost, r: 8, p: 1, salt }
+      : { name: "PBKDF2", hash: "SHA-256", iterations: options.cost, salt }
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const key = await deriveAesKey(password, kdf)
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, utf8Encode(plaintext))
+
+  return { v: 1, alg: "A256GCM", kdf, iv: bytesToBase64(iv), ct: bytesToBase64(new Uint8Array(ciphertext)) }
+}
+
+/** Formats an envelope as pretty JSON, or as base64 of the compact JSON for pasting into chat */
+export function formatEnvelope(envelope: object, format: "json" | "base64"): string {
+  return format === "json" ? JSON.stringify(envelope, null, 2) : bytesToBase64(utf8Encode(JSON.stringify(envelope)))
+}
+
+// Accepts either output of formatEnvelope
+function parseEnvelope<T>(input: string, schema: z.ZodType<T>): T {
+  const trimmed = input.trim()
+  let data: unknown
+  try {
+    data = JSON.parse(trimmed.startsWith("{") ? trimmed : utf8Decode(base64ToBytes(trimmed)))
+  } catch {
+    throw new CryptoInputError("Input is not an encrypted envelope (expected JSON or base64)")
+  }
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    // Bounds on the key derivation have their own messages; anything else is a malformed envelope
+    const kdfIssue = parsed.error.issues.find(
+      (issue) => issue.path[0] === "kdf" && (issue.code === "too_big" || issue.code === "custom")
+    )
+    throw new CryptoInputError(kdfIssue?.message ?? "Envelope is missing fields or has an unsupported version")
+  }
+  return parsed.data
+}
+
+export async function decryptWithPassword(envelopeText: string, password: string): Promise<string> {
+  const envelope = parseEnvelope(envelopeText, passwordEnvelopeSchema)
+  const key = await deriveAesKey(password, envelope.kdf)
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(envelope.iv) },
+      key,
+      base64ToBytes(envelope.ct)
+    )
+    return utf8Decode(new Uint8Array(plaintext))
+  } catch {
+    // GCM authentication failure: wrong password or modified ciphertext
+    throw new CryptoInputError("Decryption failed: wrong password or the data was modified")
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Key pairs
+// ---------------------------------------------------------------------------
+
+export type KeyAlgorithm = "RSA-OAEP" | "ECDH" | "ECDSA" | "Ed25519"
+export type NamedCurve = "P-256" | "P-384" | "P-521"
+export type KeyFormat = "pem" | "jwk"
+
+export const NAMED_CURVES: NamedCurve[] = ["P-256", "P-384", "P-521"]
+
+export interface KeyPairOptions {
+  algorithm: KeyAlgorithm
+  /** RSA only */
+  modulusLength?: number
+  /** ECDH and ECDSA only */
+  namedCurve?: NamedCurve
+}
+
+function getImportParams(algorithm: KeyAlgorithm, namedCurve: NamedCurve): RsaHashedImportParams | EcKeyImportParams | Algorithm {
+  switch (algorithm) {
+    case "RSA-OAEP":
+      return { name: "RSA-OAEP", hash: "SHA-256" }
+    case "ECDH":
+    case "ECDSA":
+      return { name: algorithm, namedCurve }
+    default:
+      return { name: "Ed25519" }
+  }
+}
+
+function getUsages(algorithm: KeyAlgorithm, type: "public" | "private"): KeyUsage[] {
+  switch (algorithm) {
+    case "RSA-OAEP":
+      return type === "public" ? ["encrypt"] : ["decrypt"]
+    case "ECDH":
+      return type === "public" ? [] : ["deriveBits"]
+    default:
+      return type === "public" ? ["verify"] : ["sign"]
+  }
+}
+
+export async function generateKeyPair(options: KeyPairOptions): Promise<CryptoKeyPair> {
+  const namedCurve = options.namedCurve ?? "P-256"
+  const params =
+    options.algorithm === "RSA-OAEP"
+      ? {
+          name: "RSA-OAEP",
+          modulusLength: options.modulusLength ?? 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: "SHA-256",
+        }
+      : getImportParams(options.algorithm, namedCurve)
+  const usages = [...getUsages(options.algorithm, "public"), ...getUsages(options.algorithm, "private")]
+  try {
+    return (await crypto.subtle.generateKey(params, true, usages)) as CryptoKeyPair
+  } catch (error) {
+    if (options.algorithm === "Ed25519") {
+      throw new CryptoInputError("This browser doesn't support Ed25519 keys yet")
+    }
+    throw error
+  }
+}
+
+const PRIVATE_JWK_FIELDS = ["d", "p", "q", "dp", "dq", "qi", "oth"] as const
+
+// Strips the private fields for public imports, and key_ops, which keys from other tools may
+// set to operations we don't request
+export function toImportableJwk(jwk: JsonWebKey, type: "public" | "private"): JsonWebKey {
+  const result: JsonWebKey = { ...jwk }
+  delete result.key_ops
+  if (type === "public") {
+    PRIVATE_JWK_FIELDS.forEach((field) => delete result[field])
+  }
+  return result
+}
+
+function toPem(der: ArrayBuffer, label: string): string {
+  const base64 = bytesToBase64(new Uint8Array(der))
+  const lines = base64.match(/.{1,64}/g) ?? []
+  return [`-----BEGIN ${label}-----`, ...lines, `-----END ${label}-----`].join("\n")
+}
+
+export async function exportKey(key: CryptoKey, format: KeyFormat): Promise<string> {
+  if (format === "jwk") {
+    return JSON.stringify(await crypto.subtle.exportKey("jwk", key), null, 2)
+  }
+  return key.type === "public"
+    ? toPem(await crypto.subtle.exportKey("spki", key), "PUBLIC KEY")
+    : toPem(await crypto.subtle.exportKey("pkcs8", key), "PRIVATE KEY")
+}
+
+/**
+ * Imports a public or private key from PEM (SPKI / PKCS#8) or JWK. For EC keys in PEM form the
+ * curve isn't known up front, so each curve is tried, starting with `namedCurve`.
+ */
+export async function importKey(
+  text: string,
+  algorithm: KeyAlgorithm,
+  type: "public" | "private",
+  namedCurve: NamedCurve = "P-256"
+): Promise<CryptoKey> {
+  const trimmed = text.trim()
+  if (!trimmed) {
+    throw new CryptoInputError(`Enter a ${type} key`)
+  }
+  const usages = getUsages(algorithm, type)
+
+  if (trimmed.startsWith("{")) {
+    let jwk: JsonWebKey
+    try {
+      jwk = JSON.parse(trimmed)
+    } catch {
+      throw new CryptoInputError("The key looks like JWK but isn't valid JSON")
+    }
+    // Private JWKs also contain the public fields, so either can be pasted as the public key
+    jwk = toImportableJwk(jwk, type)
+    const curve = (jwk.crv as NamedCurve | undefined) ?? namedCurve
+    try {
+      return await crypto.subtle.importKey("jwk", jwk, getImportParams(algorithm, curve), true, usages)
+    } catch {
+      throw new CryptoInputError(`This JWK isn't a valid ${algorithm} ${type} key`)
+    }
+  }
+
+  const label = type === "public" ? "PUBLIC KEY" : "PRIVATE KEY"
+  const match = trimmed.match(new RegExp(`-----BEGIN ${label}-----([\\s\\S]+?)-----END ${label}-----`))
+  if (!match) {
+    throw new CryptoInputError(`Expected a PEM "${label}" block or a JWK`)
+  }
+  const der = base64ToBytes(match[1])
+  const format = type === "public" ? "spki" : "pkcs8"
+  const curves = algorithm === "ECDH" || algorithm === "ECDSA" ? [namedCurve, ...NAMED_CURVES.filter((c) => c !== namedCurve)] : [namedCurve]
+
+  for (const curve of curves) {
+    try {
+      return await crypto.subtle.importKey(format, der, getImportParams(algorithm, curve), true, usages)
+    } catch {
+      /* try the next curve */
+    }
+  }
+  throw new CryptoInputError(`This PEM isn't a valid ${algorithm} ${type} key`)
+}
+
+/** Derives the public key of an imported private key (via JWK, which carries both halves) */
+export async function getPublicKey(privateKey: CryptoKey, algorithm: KeyAlgorithm): Promise<CryptoKey> {
+  const publicJwk = toImportableJwk(await crypto.subtle.exportKey("jwk", privateKey), "public")
+  const curve = (publicJwk.crv as NamedCurve | undefined) ?? "P-256"
+  return crypto.subtle.importKey(
+    "jwk",
+    publicJwk,
+    getImportParams(algorithm, curve),
+    true,
+    getUsages(algorithm, "public")
+  )
+}
+
+// ---------------------------------------------------------------------------
+// RSA-OAEP
+// ---------------------------------------------------------------------------
+
+/** Largest plaintext RSA-OAEP with SHA-256 can encrypt for a key */
+export function getRsaOaepMaxBytes(key: CryptoKey): number {
+  const modulusBits = (key.algorithm as RsaHashedKeyAlgorithm).modulusLength
+  return modulusBits / 8 - 2 * 32 - 2
+}
+
+export async function rsaEncrypt(plaintext: string, publicKey: CryptoKey): Promise<string> {
+  const data = utf8Encode(plaintext)
+  const maxBytes = getRsaOaepMaxBytes(publicKey)
+  if (data.length > maxBytes) {
+    throw new CryptoInputError(
+      `RSA-OAEP can encrypt at most ${maxBytes} bytes with this key (input is ${data.length}). Use ECDH or a password for longer text.`
+    )
+  }
+  const ciphertext = await crypto.subtle.encrypt({ name: "RSA-OAEP" }, publicKey, data)
+  return bytesToBase64(new Uint8Array(ciphertext))
+}
+
+export async function rsaDecrypt(ciphertext: string, privateKey: CryptoKey): Promise<string> {
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: "RSA-OAEP" }, privateKey, base64ToBytes(ciphertext))
+    return utf8Decode(new Uint8Array(plaintext))
+  } catch {
+    throw new CryptoInputError("Decryption failed: wrong private key or corrupted ciphertext")
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ECDH (ephemeral-static): a fresh key pair per message, HKDF-SHA-256, AES-256-GCM
+// ---------------------------------------------------------------------------
+
+const ECDH_INFO = utf8Encode("ECDH-ES+A256GCM")
+
+const ecdhEnvelopeSchema = z.object({
+  v: z.literal(1),
+  alg: z.literal("ECDH-ES+A256GCM"),
+  /** Ephemeral public key as JWK */
+  epk: z.object({ kty: z.literal("EC"), crv: z.enum(["P-256", "P-384", "P-521"]), x: z.string(), y: z.string() }),
+  iv: z.string(),
+  ct: z.string(),
+})
+
+export type EcdhEnvelope = z.infer<typeof ecdhEnvelopeSchema>
+
+async function deriveEcdhKey(privateKey: CryptoKey, publicKey: CryptoKey, salt: Uint8Array<ArrayBuffer>) {
+  const curve = (publicKey.algorithm as EcKeyAlgorithm).namedCurve
+  const bits = { "P-256": 256, "P-384": 384, "P-521": 528 }[curve] ?? 256
+  const shared = await crypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, bits)
+  const hkdfKey = await crypto.subtle.importKey("raw", shared, "HKDF", false, ["deriveKey"])
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: ECDH_INFO },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  )
+}
+
+export async function ecdhEncrypt(plaintext: string, recipientPublicKey: CryptoKey): Promise<EcdhEnvelope> {
+  const namedCurve = (recipientPublicKey.algorithm as EcKeyAlgorithm).namedCurve as NamedCurve
+  const ephemeral = await generateKeyPair({ algorithm: "ECDH", namedCurve })
+  const epk = await crypto.subtle.exportKey("jwk", ephemeral.publicKey)
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  // Binding the IV into the key derivation as salt keeps each message key unique
+  const key = await deriveEcdhKey(ephemeral.privateKey, recipientPublicKey, iv)
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, utf8Encode(plaintext))
+
+  return {
+    v: 1,
+    alg: "ECDH-ES+A256GCM",
+    epk: { kty: "EC", crv: namedCurve, x: epk.x ?? "", y: epk.y ?? "" },
+    iv: bytesToBase64(iv),
+    ct: bytesToBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+export async function ecdhDecrypt(envelopeText: string, privateKey: CryptoKey): Promise<string> {
+  const envelope = parseEnvelope(envelopeText, ecdhEnvelopeSchema)
+  const privateCurve = (privateKey.algorithm as EcKeyAlgorithm).namedCurve
+  if (envelope.epk.crv !== privateCurve) {
+    throw new CryptoInputError(`Message was encrypted for a ${envelope.epk.crv} key, but this key is ${privateCurve}`)
+  }
+  const ephemeralPublicKey = await crypto.subtle.importKey(
+    "jwk",
+    envelope.epk,
+    { name: "ECDH", namedCurve: envelope.epk.crv },
+    true,
+    []
+  )
+  const iv = base64ToBytes(envelope.iv)
+  const key = await deriveEcdhKey(privateKey, ephemeralPublicKey, iv)
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, base64ToBytes(envelope.ct))
+    return utf8Decode(new Uint8Array(plaintext))
+  } catch {
+    throw new CryptoInputError("Decryption failed: wrong private key or the data was modified")
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Signatures (ECDSA, Ed25519)
+// ---------------------------------------------------------------------------
+
+function getSignParams(key: CryptoKey): AlgorithmIdentifier | EcdsaParams {
+  if (key.algorithm.name === "Ed25519") return { name: "Ed25519" }
+  const curve = (key.algorithm as EcKeyAlgorithm).namedCurve
+  const hash = curve === "P-521" ? "SHA-512" : curve === "P-384" ? "SHA-384" : "SHA-256"
+  return { name: "ECDSA", hash }
+}
+
+/** Signs UTF-8 text; ECDSA signatures are in the raw r||s (IEEE P1363) form WebCrypto produces */
+export async function signText(text: string, privateKey: CryptoKey): Promise<string> {
+  const signature = await crypto.subtle.sign(getSignParams(privateKey), privateKey, utf8Encode(text))
+  return bytesToBase64(new Uint8Array(signature))
+}
+
+export async function verifyText(text: string, signature: string, publicKey: CryptoKey): Promise<boolean> {
+  let signatureBytes: Uint8Array<ArrayBuffer>
+  try {
+    signatureBytes = base64ToBytes(signature)
+  } catch {
+    throw new CryptoInputError("Signature must be base64")
+  }
+  return crypto.subtle.verify(getSignParams(publicKey), publicKey, signatureBytes, utf8Encode(text))
+}
+
+/** SHA-256 fingerprint of a public key's SPKI encoding, shown so users can compare keys */
+export async function getKeyFingerprint(publicKey: CryptoKey): Promise<string> {
+  const spki = await crypto.subtle.exportKey("spki", publicKey)
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", spki))
+  return Array.from(digest.subarray(0, 16))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join(":")
+}
@@ -0,0 +1,339 @@
+// X.509 certificate and PKCS#10 CSR inspection. Only reads the fields people usually look for
+// (names, validity, SANs, key, fingerprints); signatures are not checked against an issuer.
+
+import {
+  ASN1_TAGS,
+  isContext,
+  isUniversal,
+  parseDer,
+  readBitString,
+  readIntegerHex,
+  readOid,
+  readString,
+  readTime,
+  type Asn1Node,
+} from "./asn1"
+import { base64ToBytes, bytesToHex } from "./encoding"
+import { CryptoInputError } from "./web-crypto"
+
+export interface PemBlock {
+  label: string
+  der: Uint8Array<ArrayBuffer>
+}
+
+/** Every `-----BEGIN X-----` block in the text, in order */
+export function parsePemBlocks(text: string): PemBlock[] {
+  const blocks: PemBlock[] = []
+  const pattern = /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g
+  for (const match of Array.from(text.matchAll(pattern))) {
+    // Skip encapsulated headers such as Proc-Type on legacy encrypted keys
+    const body = match[2]
+      .split(/\r?\n/)
+      .filter((line) => !line.includes(":"))
+      .join("")
+    try {
+      blocks.push({ label: match[1], der: base64ToBytes(body) })
+    } catch {
+      throw new CryptoInputError(`The ${match[1]} block isn't valid base64`)
+    }
+  }
+  return blocks
+}
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  "2.5.4.3": "CN",
+  "2.5.4.4": "SN",
+  "2.5.4.5": "serialNumber",
+  "2.5.4.6": "C",
+  "2.5.4.7": "L",
+  "2.5.4.8": "ST",
+  "2.5.4.9": "street",
+  "2.5.4.10": "O",
+  "2.5.4.11": "OU",
+  "2.5.4.12": "title",
+  "2.5.4.17": "postalCode",
+  "2.5.4.42": "GN",
+  "1.2.840.113549.1.9.1": "emailAddress",
+  "0.9.2342.19200300.100.1.25": "DC",
+  "0.9.2342.19200300.100.1.1": "UID",
+}
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  "1.2.840.113549.1.1.4": "md5WithRSAEncryption",
+  "1.2.840.113549.1.1.5": "sha1WithRSAEncryption",
+  "1.2.840.113549.1.1.10": "RSASSA-PSS",
+  "1.2.840.113549.1.1.11": "sha256WithRSAEncryption",
+  "1.2.840.113549.1.1.12": "sha384WithRSAEncryption",
+  "1.2.840.113549.1.1.13": "sha512WithRSAEncryption",
+  "1.2.840.10045.4.1": "ecdsa-with-SHA1",
+  "1.2.840.10045.4.3.2": "ecdsa-with-SHA256",
+  "1.2.840.10045.4.3.3": "ecdsa-with-SHA384",
+  "1.2.840.10045.4.3.4": "ecdsa-with-SHA512",
+  "1.3.101.112": "Ed25519",
+  "1.3.101.113": "Ed448",
+}
+
+const CURVES: Record<string, string> = {
+  "1.2.840.10045.3.1.7": "P-256",
+  "1.3.132.0.34": "P-384",
+  "1.3.132.0.35": "P-521",
+  "1.3.132.0.10": "secp256k1",
+}
+
+const EXTENDED_KEY_USAGES: Record<string, string> = {
+  "1.3.6.1.5.5.7.3.1": "TLS Web Server Authentication",
+  "1.3.6.1.5.5.7.3.2": "TLS Web Client Authentication",
+  "1.3.6.1.5.5.7.3.3": "Code Signing",
+  "1.3.6.1.5.5.7.3.4": "E-mail Protection",
+  "1.3.6.1.5.5.7.3.8": "Time Stamping",
+  "1.3.6.1.5.5.7.3.9": "OCSP Signing",
+}
+
+// Bit order of the KeyUsage BIT STRING
+const KEY_USAGES = [
+  "Digital Signature",
+  "Non Repudiation",
+  "Key Encipherment",
+  "Data Encipherment",
+  "Key Agreement",
+  "Certificate Sign",
+  "CRL Sign",
+  "Encipher Only",
+  "Decipher Only",
+]
+
+const OID_SUBJECT_ALT_NAME = "2.5.29.17"
+const OID_BASIC_CONSTRAINTS = "2.5.29.19"
+const OID_KEY_USAGE = "2.5.29.15"
+const OID_EXTENDED_KEY_USAGE = "2.5.29.37"
+const OID_EXTENSION_REQUEST = "1.2.840.113549.1.9.14"
+
+export interface NameAttribute {
+  /** Short name such as CN, or the OID when it isn't a common one */
+  type: string
+  value: string
+}
+
+export interface PublicKeyInfo {
+  /** e.g. "RSA 2048-bit", "EC P-256", "Ed25519" */
+  description: string
+  /** SubjectPublicKeyInfo, usable with crypto.subtle.importKey("spki", ...) */
+  spki: Uint8Array<ArrayBuffer>
+}
+
+export interface CertificateExtensions {
+  subjectAltNames: string[]
+  /** undefined when the extension is absent */
+  isCa?: boolean
+  pathLength?: number
+  keyUsage: string[]
+  extendedKeyUsage: string[]
+}
+
+export interface CertificateInfo extends CertificateExtensions {
+  kind: "certificate"
+  version: number
+  serialNumber: string
+  subject: NameAttribute[]
+  issuer: NameAttribute[]
+  notBefore: Date
+  notAfter: Date
+  publicKey: PublicKeyInfo
+  signatureAlgorithm: string
+  isSelfSigned: boolean
+}
+
+export interface CsrInfo extends CertificateExtensions {
+  kind: "csr"
+  subject: NameAttribute[]
+  publicKey: PublicKeyInfo
+  signatureAlgorithm: string
+}
+
+function invalid(what: string): never {
+  throw new CryptoInputError(`This doesn't look like a valid ${what}`)
+}
+
+function readName(node: Asn1Node): NameAttribute[] {
+  // Name ::= SEQUENCE OF SET OF SEQUENCE { type OID, value ANY }
+  return node.children.flatMap((rdn) =>
+    rdn.children.map((attribute) => {
+      const [type, value] = attribute.children
+      const oid = readOid(type)
+      return { type: NAME_ATTRIBUTES[oid] ?? oid, value: readString(value) }
+    })
+  )
+}
+
+export function formatName(name: NameAttribute[]): string {
+  return name.map((attribute) => `${attribute.type}=${attribute.value}`).join(", ")
+}
+
+function readAlgorithm(node: Asn1Node): string {
+  const oid = readOid(node.children[0])
+  return SIGNATURE_ALGORITHMS[oid] ?? oid
+}
+
+function readPublicKey(node: Asn1Node): PublicKeyInfo {
+  const [algorithm, key] = node.children
+  const oid = readOid(algorithm.children[0])
+  let description = oid
+  if (oid === "1.2.840.113549.1.1.1") {
+    // RSAPublicKey ::= SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+    const modulus = readIntegerHex(parseDer(readBitString(key)).children[0])
+    const bits = (modulus.length - 1) * 4 + parseInt(modulus[0], 16).toString(2).length
+    description = `RSA ${bits}-bit`
+  } else if (oid === "1.2.840.10045.2.1") {
+    const curve = algorithm.children[1]
+    const curveOid = isUniversal(curve, ASN1_TAGS.OID) ? readOid(curve) : "explicit parameters"
+    description = `EC ${CURVES[curveOid] ?? curveOid}`
+  } else if (SIGNATURE_ALGORITHMS[oid]) {
+    description = SIGNATURE_ALGORITHMS[oid]
+  }
+  return { description, spki: node.der }
+}
+
+function formatGeneralName(node: Asn1Node): string {
+  switch (node.tagNumber) {
+    case 1:
+      return `email:${readString(node)}`
+    case 2:
+      return `DNS:${readString(node)}`
+    case 4:
+      return `DirName:${formatName(readName(node.children[0]))}`
+    case 6:
+      return `URI:${readString(node)}`
+    case 7:
+      if (node.value.length === 4) return `IP:${Array.from(node.value).join(".")}`
+      return `IP:${(bytesToHex(node.value).match(/.{4}/g) ?? []).map((group) => parseInt(group, 16).toString(16)).join(":")}`
+    default:
+      return `[${node.tagNumber}]:${bytesToHex(node.value)}`
+  }
+}
+
+function readExtensions(extensions: Asn1Node[]): CertificateExtensions {
+  const result: CertificateExtensions = { subjectAltNames: [], keyUsage: [], extendedKeyUsage: [] }
+  extensions.forEach((extension) => {
+    // Extension ::= SEQUENCE { extnID OID, critical BOOLEAN DEFAULT FALSE, extnValue OCTET STRING }
+    const oid = readOid(extension.children[0])
+    if (![OID_SUBJECT_ALT_NAME, OID_BASIC_CONSTRAINTS, OID_KEY_USAGE, OID_EXTENDED_KEY_USAGE].includes(oid)) return
+    const value = parseDer(extension.children[extension.children.length - 1].value)
+    switch (oid) {
+      case OID_SUBJECT_ALT_NAME:
+        result.subjectAltNames = value.children.map(formatGeneralName)
+        break
+      case OID_BASIC_CONSTRAINTS: {
+        const [ca, pathLength] = value.children
+        result.isCa = isUniversal(ca, ASN1_TAGS.BOOLEAN) && ca.value[0] !== 0
+        const lengthNode = isUniversal(ca, ASN1_TAGS.INTEGER) ? ca : pathLength
+        if (isUniversal(lengthNode, ASN1_TAGS.INTEGER)) {
+          result.pathLength = parseInt(readIntegerHex(lengthNode), 16)
+        }
+        break
+      }
+      case OID_KEY_USAGE: {
+        const bits = readBitString(value)
+        result.keyUsage = KEY_USAGES.filter((_, bit) => (bits[bit >> 3] ?? 0) & (0x80 >> (bit & 7)))
+        break
+      }
+      case OID_EXTENDED_KEY_USAGE:
+        result.extendedKeyUsage = value.children.map((usage) => {
+          const usageOid = readOid(usage)
+          return EXTENDED_KEY_USAGES[usageOid] ?? usageOid
+        })
+        break
+    }
+  })
+  return result
+}
+
+export function parseCertificate(der: Uint8Array<ArrayBuffer>): CertificateInfo {
+  const certificate = parseDer(der)
+  const [tbs, signatureAlgorithm] = certificate.children
+  if (!isUniversal(tbs, ASN1_TAGS.SEQUENCE) || !signatureAlgorithm) invalid("certificate")
+
+  try {
+    // The version is an optional explicit [0]; v1 certificates omit it
+    const fields = isContext(tbs.children[0], 0) ? tbs.children.slice(1) : tbs.children
+    const version = isContext(tbs.children[0], 0) ? parseInt(readIntegerHex(tbs.children[0].children[0]), 16) + 1 : 1
+    const [serial, , issuer, validity, subject, publicKey] = fields
+    const extensions = fields.find((field) => isContext(field, 3))
+
+    const issuerName = readName(issuer)
+    const subjectName = readName(subject)
+    return {
+      kind: "certificate",
+      version,
+      serialNumber: readIntegerHex(serial),
+      subject: subjectName,
+      issuer: issuerName,
+      notBefore: readTime(validity.children[0]),
+      notAfter: readTime(validity.children[1]),
+      publicKey: readPublicKey(publicKey),
+      signatureAlgorithm: readAlgorithm(signatureAlgorithm),
+      isSelfSigned: formatName(issuerName) === formatName(subjectName),
+      ...readExtensions(extensions?.children[0]?.children ?? []),
+    }
+  } catch (error) {
+    if (error instanceof CryptoInputError) throw error
+    invalid("certificate")
+  }
+}
+
+export function parseCsr(der: Uint8Array<ArrayBuffer>): CsrInfo {
+  const request = parseDer(der)
+  const [info, signatureAlgorithm] = request.children
+  if (!isUniversal(info, ASN1_TAGS.SEQUENCE) || !signatureAlgorithm) invalid("certificate signing request")
+
+  try {
+    // CertificationRequestInfo ::= SEQUENCE { version, subject, subjectPKInfo, attributes [0] }
+    const [, subject, publicKey, attributes] = info.children
+    // Requested extensions travel as an extensionRequest attribute
+    const extensionRequest = attributes?.children.find((attribute) => readOid(attribute.children[0]) === OID_EXTENSION_REQUEST)
+    return {
+      kind: "csr",
+      subject: readName(subject),
+      publicKey: readPublicKey(publicKey),
+      signatureAlgorithm: readAlgorithm(signatureAlgorithm),
+      ...readExtensions(extensionRequest?.children[1]?.children[0]?.children ?? []),
+    }
+  } catch (error) {
+    if (error instanceof CryptoInputError) throw error
+    invalid("certificate signing request")
+  }
+}
+
+/** Colon-separated uppercase hex, the way browsers and openssl show fingerprints */
+export async function getFingerprint(der: Uint8Array<ArrayBuffer>, algorithm: "SHA-1" | "SHA-256"): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest(algorithm, der))
+  return (bytesToHex(digest).toUpperCase().match(/.{2}/g) ?? []).join(":")
+}
+
+export type PemInspection =
+  | (CertificateInfo & { fingerprints: { sha1: string; sha256: string } })
+  | (CsrInfo & { fingerprints: { sha1: string; sha256: string } })
+  | { kind: "other"; label: string; size: number }
+
+/**
+ * Inspects every PEM block in the text. Certificates and CSRs are parsed; other blocks (keys,
+ * CRLs) are listed by type and size only.
+ */
+export async function inspectPem(text: string): Promise<PemInspection[]> {
+  const blocks = parsePemBlocks(text)
+  if (blocks.length === 0) {
+    throw new CryptoInputError("No PEM blocks found. Paste text starting with -----BEGIN CERTIFICATE-----")
+  }
+  return Promise.all(
+    blocks.map(async (block): Promise<PemInspection> => {
+      const parsed =
+        block.label === "CERTIFICATE"
+          ? parseCertificate(block.der)
+          : block.label === "CERTIFICATE REQUEST" || block.label === "NEW CERTIFICATE REQUEST"
+            ? parseCsr(block.der)
+            : null
+      if (!parsed) return { kind: "other", label: block.label, size: block.der.length }
+      const [sha1, sha256] = await Promise.all([getFingerprint(block.der, "SHA-1"), getFingerprint(block.der, "SHA-256")])
+      return { ...parsed, fingerprints: { sha1, sha256 } }
+    })
+  )
+}
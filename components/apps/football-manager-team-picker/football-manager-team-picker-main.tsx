@@ -24,6 +24,7 @@ import {
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
+import { useAppSettings } from "@/components/apps/use-app-settings"
 import { db } from "@/lib/firebase/config"
 import {
   collection,
@@ -43,6 +44,7 @@ import {
 } from "firebase/firestore"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { FOOTBALL_MANAGER_TEAM_PICKER_SETTINGS } from "./settings-schema"
 
 interface Team {
   id: string
@@ -80,29 +82,18 @@ interface PickedTeam extends Team {
   pickedAt: Date
 }
 
-interface Settings {
-  defaultPickMode: "single" | "multiple"
-  defaultNumPicks: number
-  defaultMinTier: number
-  defaultSameCountry: boolean
-  defaultSameLeague: boolean
-  autoAddToHistory: boolean
-  showFavoritesOnly: boolean
-}
-
 export function FootballManagerTeamPickerMain() {
   const { user, loading: authLoading } = useAuth()
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
   const [data, setData] = React.useState<FootballManagerData | null>(null)
   const [loading, setLoading] = React.useState(true)
-  const [settingsLoading, setSettingsLoading] = React.useState(true)
   const [selectedCountries, setSelectedCountries] = React.useState<string[]>([])
   const [selectedLeagues, setSelectedLeagues] = React.useState<string[]>([])
   const [searchQuery, setSearchQuery] = React.useState("")
   const [pickedTeams, setPickedTeams] = React.useState<PickedTeam[]>([])
   const [favorites, setFavorites] = React.useState<string[]>([])
   const [history, setHistory] = React.useState<PickedTeam[]>([])
-  const [settings, setSettings] = React.useState<Settings | null>(null)
+  const { settings } = useAppSettings(FOOTBALL_MANAGER_TEAM_PICKER_SETTINGS)
   const [pickMode, setPickMode] = React.useState<"single" | "multiple">("single")
   const [numPicks, setNumPicks] = React.useState(4)
   const [sameCountry, setSameCountry] = React.useState(false)
@@ -114,14 +105,20 @@ export function FootballManagerTeamPickerMain() {
     loadData()
   }, [])
 
-  // Load settings when user is available
+  // Apply the saved picker defaults whenever they load or change
+  React.useEffect(() => {
+    setPickMode(settings.defaultPickMode)
+    setNumPicks(settings.defaultNumPicks)
+    setMinTier(settings.defaultMinTier)
+    setSameCountry(settings.defaultSameCountry)
+    setSameLeague(settings.defaultSameLeague)
+  }, [settings])
+
+  // Load user data when user is available
   React.useEffect(() => {
     if (user && !authLoading) {
-      loadSettings()
       loadFavorites()
       loadHistory()
-    } else if (!authLoading && !user) {
-      setSettingsLoading(false)
     }
   }, [user, authLoading])
 
@@ -142,56 +139,6 @@ export function FootballManagerTeamPickerMain() {
     }
   }
 
-  const loadSettings = async () => {
-    if (!user) return
-
-    try {
-      setSettingsLoading(true)
-      const settingsRef = doc(db, "users", user.uid, "footballManagerTeamPickerSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      if (settingsDoc.exists()) {
-        const data = settingsDoc.data()
-        const loadedSettings: Settings = {
-          defaultPickMode: data.defaultPickMode || "single",
-          defaultNumPicks: data.defaultNumPicks || 4,
-          defaultMinTier: data.defaultMinTier || 1,
-          defaultSameCountry: data.defaultSameCountry || false,
-          defaultSameLeague: data.defaultSameLeague || false,
-          autoAddToHistory: data.autoAddToHistory !== false, // Default true
-          showFavoritesOnly: data.showFavoritesOnly || false,
-        }
-        setSettings(loadedSettings)
-
-        // Apply settings to picker state
-        setPickMode(loadedSettings.defaultPickMode)
-        setNumPicks(loadedSettings.defaultNumPicks)
-        setMinTier(loadedSettings.defaultMinTier)
-        setSameCountry(loadedSettings.defaultSameCountry)
-        setSameLeague(loadedSettings.defaultSameLeague)
-      } else {
-        // Default settings
-        const defaultSettings: Settings = {
-          defaultPickMode: "single",
-          defaultNumPicks: 4,
-          defaultMinTier: 1,
-          defaultSameCountry: false,
-          defaultSameLeague: false,
-          autoAddToHistory: true,
-          showFavoritesOnly: false,
-        }
-        setSettings(defaultSettings)
-      }
-    } catch (error: any) {
-      console.error("Failed to load settings:", error)
-      if (error.code !== "permission-denied") {
-        toast.error("Failed to load settings")
-      }
-    } finally {
-      setSettingsLoading(false)
-    }
-  }
-
   const loadFavorites = async () => {
     if (!user) {
       setFavorites([])
@@ -304,7 +251,7 @@ export function FootballManagerTeamPickerMain() {
   }
 
   const saveToHistory = async (teams: PickedTeam[]) => {
-    if (!user || !settings?.autoAddToHistory) return
+    if (!user || !settings.autoAddToHistory) return
 
     try {
       const historyRef = collection(db, "users", user.uid, "footballManagerTeamPickerHistory")
@@ -365,7 +312,7 @@ export function FootballManagerTeamPickerMain() {
     let teams = getAllTeams()
 
     // Filter by favorites only if enabled
-    if (settings?.showFavoritesOnly && favorites.length > 0) {
+    if (settings.showFavoritesOnly && favorites.length > 0) {
       teams = teams.filter((team) => favorites.includes(team.id))
     }
 
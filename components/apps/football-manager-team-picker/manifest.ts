@@ -0,0 +1,24 @@
+import { Trophy } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { FOOTBALL_MANAGER_TEAM_PICKER_SETTINGS } from "./settings-schema"
+import { FootballManagerTeamPickerMain } from "./football-manager-team-picker-main"
+import { FootballManagerTeamPickerSettings } from "./football-manager-team-picker-settings"
+
+export const footballManagerTeamPickerManifest = defineAppManifest({
+  appId: "football-manager-team-picker",
+  name: "Football Manager Team Picker",
+  description: "Pick a random Football Manager team or multiple teams for you and your friends",
+  category: "Games",
+  tags: ["football", "fantasy", "team", "manager", "sports", "picker", "random"],
+  status: "live",
+  icon: Trophy,
+  accent: "from-yellow-500 to-orange-500",
+  Main: FootballManagerTeamPickerMain,
+  Settings: FootballManagerTeamPickerSettings,
+  settings: FOOTBALL_MANAGER_TEAM_PICKER_SETTINGS,
+  collections: [
+    { name: "footballManagerTeamPickerSettings", scope: "user", docParam: "settingsId", description: "Football Manager Team Picker settings subcollection" },
+    { name: "footballManagerTeamPickerFavorites", scope: "user", docParam: "teamId", description: "Football Manager Team Picker favorites subcollection" },
+    { name: "footballManagerTeamPickerHistory", scope: "user", docParam: "historyId", description: "Football Manager Team Picker history subcollection" },
+  ],
+})
@@ -0,0 +1,33 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const footballManagerTeamPickerSettingsSchema = z.object({
+  defaultPickMode: z.enum(["single", "multiple"]),
+  defaultNumPicks: z.number().int().min(2).max(20),
+  defaultMinTier: z.number().int().min(1),
+  defaultSameCountry: z.boolean(),
+  defaultSameLeague: z.boolean(),
+  autoAddToHistory: z.boolean(),
+  showFavoritesOnly: z.boolean(),
+})
+
+export type FootballManagerTeamPickerSettingsValues = z.infer<typeof footballManagerTeamPickerSettingsSchema>
+
+export const DEFAULT_FOOTBALL_MANAGER_TEAM_PICKER_SETTINGS: FootballManagerTeamPickerSettingsValues = {
+  defaultPickMode: "single",
+  defaultNumPicks: 4,
+  defaultMinTier: 1,
+  defaultSameCountry: false,
+  defaultSameLeague: false,
+  autoAddToHistory: true,
+  showFavoritesOnly: false,
+}
+
+export const FOOTBALL_MANAGER_TEAM_PICKER_SETTINGS = defineAppSettings({
+  appId: "football-manager-team-picker",
+  collection: "footballManagerTeamPickerSettings",
+  storageKey: "football-manager-team-picker-settings",
+  schema: footballManagerTeamPickerSettingsSchema,
+  defaults: DEFAULT_FOOTBALL_MANAGER_TEAM_PICKER_SETTINGS,
+  version: 1,
+})
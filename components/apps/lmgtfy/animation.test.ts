@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { buildLinkParams, getLinkAnimationSettings, getStepDelay } from "./animation"
+import { DEFAULT_LMGTFY_SETTINGS } from "./settings-schema"
+
+describe("getStepDelay", () => {
+  it("scales every step by the animation speed", () => {
+    const normal = getStepDelay(0, DEFAULT_LMGTFY_SETTINGS)
+    expect(getStepDelay(0, { ...DEFAULT_LMGTFY_SETTINGS, defaultAnimationSpeed: 2 })).toBe(normal / 2)
+    expect(getStepDelay(0, { ...DEFAULT_LMGTFY_SETTINGS, defaultAnimationSpeed: 0.5 })).toBe(normal * 2)
+  })
+})
+
+describe("shared link settings", () => {
+  it("leaves default settings out of the link", () => {
+    expect(buildLinkParams("how to boil water", DEFAULT_LMGTFY_SETTINGS)).toBe("q=how+to+boil+water")
+  })
+
+  it("carries changed settings to the recipient", () => {
+    const sender = { defaultAnimationSpeed: 1.5, redirectDelay: 3000, showQueryInAnimation: false }
+    const params = new URLSearchParams(buildLinkParams("cats", sender))
+    expect(params.get("q")).toBe("cats")
+    expect(getLinkAnimationSettings(params, DEFAULT_LMGTFY_SETTINGS)).toEqual(sender)
+  })
+
+  it("falls back to the viewer's settings for missing or invalid values", () => {
+    const viewer = { defaultAnimationSpeed: 0.5, redirectDelay: 4000, showQueryInAnimation: false }
+    expect(getLinkAnimationSettings(new URLSearchParams("q=cats"), viewer)).toEqual(viewer)
+    expect(getLinkAnimationSettings(new URLSearchParams("q=cats&speed=50&delay=abc&showQuery=1"), viewer)).toEqual({
+      ...viewer,
+      showQueryInAnimation: true,
+    })
+  })
+})
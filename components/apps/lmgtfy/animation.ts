@@ -0,0 +1,49 @@
+import { DEFAULT_LMGTFY_SETTINGS, lmgtfySettingsSchema, type LMGTFYSettingsValues } from "./settings-schema"
+
+// Animation steps for the LMGTFY sequence - funnier and slower
+export const ANIMATION_STEPS = [
+  { text: "Hmm...", delay: 1200, emoji: "🤔" },
+  { text: "Let me think...", delay: 1500, emoji: "💭" },
+  { text: "Oh wait!", delay: 1000, emoji: "💡" },
+  { text: "I know!", delay: 800, emoji: "✨" },
+  { text: "Let me...", delay: 1200, emoji: "👀" },
+  { text: "Let me just...", delay: 1400, emoji: "⌨️" },
+  { text: "Let me Google that for you!", delay: 2000, emoji: "🎉" },
+]
+
+/** How long step `stepIndex` stays on screen, in milliseconds, at the configured animation speed */
+export function getStepDelay(stepIndex: number, animation: LMGTFYSettingsValues): number {
+  return ANIMATION_STEPS[stepIndex].delay / animation.defaultAnimationSpeed
+}
+
+// Shared links carry the sender's animation settings so the recipient sees what the sender configured.
+// Missing or out-of-range params fall back to the viewer's own settings.
+export function getLinkAnimationSettings(
+  params: URLSearchParams,
+  fallback: LMGTFYSettingsValues
+): LMGTFYSettingsValues {
+  const { shape } = lmgtfySettingsSchema
+  const speed = shape.defaultAnimationSpeed.safeParse(Number(params.get("speed") ?? NaN))
+  const delay = shape.redirectDelay.safeParse(Number(params.get("delay") ?? NaN))
+  const showQuery = params.get("showQuery")
+
+  return {
+    defaultAnimationSpeed: speed.success ? speed.data : fallback.defaultAnimationSpeed,
+    redirectDelay: delay.success ? delay.data : fallback.redirectDelay,
+    showQueryInAnimation: showQuery === null ? fallback.showQueryInAnimation : showQuery !== "0",
+  }
+}
+
+export function buildLinkParams(searchQuery: string, settings: LMGTFYSettingsValues): string {
+  const params = new URLSearchParams({ q: searchQuery })
+  if (settings.defaultAnimationSpeed !== DEFAULT_LMGTFY_SETTINGS.defaultAnimationSpeed) {
+    params.set("speed", String(settings.defaultAnimationSpeed))
+  }
+  if (settings.redirectDelay !== DEFAULT_LMGTFY_SETTINGS.redirectDelay) {
+    params.set("delay", String(settings.redirectDelay))
+  }
+  if (!settings.showQueryInAnimation) {
+    params.set("showQuery", "0")
+  }
+  return params.toString()
+}
@@ -18,17 +18,9 @@ import {
   Share2
 } from "lucide-react"
 import { toast } from "sonner"
-
-// Animation steps for the LMGTFY sequence - funnier and slower
-const ANIMATION_STEPS = [
-  { text: "Hmm...", delay: 1200, emoji: "🤔" },
-  { text: "Let me think...", delay: 1500, emoji: "💭" },
-  { text: "Oh wait!", delay: 1000, emoji: "💡" },
-  { text: "I know!", delay: 800, emoji: "✨" },
-  { text: "Let me...", delay: 1200, emoji: "👀" },
-  { text: "Let me just...", delay: 1400, emoji: "⌨️" },
-  { text: "Let me Google that for you!", delay: 2000, emoji: "🎉" },
-]
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { LMGTFY_SETTINGS, type LMGTFYSettingsValues } from "./settings-schema"
+import { ANIMATION_STEPS, buildLinkParams, getLinkAnimationSettings, getStepDelay } from "./animation"
 
 export function LMGTFYMain() {
   const [query, setQuery] = React.useState("")
@@ -37,6 +29,9 @@ export function LMGTFYMain() {
   const [isAnimating, setIsAnimating] = React.useState(false)
   const [currentStep, setCurrentStep] = React.useState(0)
   const [showRedirect, setShowRedirect] = React.useState(false)
+  const [showQueryInAnimation, setShowQueryInAnimation] = React.useState(true)
+  const { settings, loading: settingsLoading } = useAppSettings(LMGTFY_SETTINGS)
+  const animationStartedRef = React.useRef(false)
   const searchParams = React.useMemo(() => {
     if (typeof window === "undefined") return null
     return new URLSearchParams(window.location.search)
@@ -49,6 +44,9 @@ export function LMGTFYMain() {
     if (typeof window === "undefined") return
     const pathname = window.location.pathname
     if (!pathname.includes("/a/lmgtfy") && !pathname.includes("/lmgtfy")) return
+    // Wait for the viewer's settings, which fill in anything the link doesn't specify,
+    // and only play once per page load even if the settings change afterwards
+    if (settingsLoading || animationStartedRef.current) return
     
     if (searchParams?.has("q")) {
       const sharedQuery = decodeURIComponent(searchParams.get("q") || "")
@@ -84,22 +82,24 @@ export function LMGTFYMain() {
         }
         descMeta.setAttribute("content", sharedQuery)
         
+        animationStartedRef.current = true
         setQuery(sharedQuery)
-        startAnimation(sharedQuery)
+        startAnimation(sharedQuery, getLinkAnimationSettings(searchParams, settings))
       }
     }
-  }, [searchParams])
+  }, [searchParams, settings, settingsLoading])
 
-  const startAnimation = (searchQuery: string) => {
+  const startAnimation = (searchQuery: string, animation: LMGTFYSettingsValues) => {
     setIsAnimating(true)
     setCurrentStep(0)
     setShowRedirect(false)
+    setShowQueryInAnimation(animation.showQueryInAnimation)
 
     // Play through animation steps
     let stepIndex = 0
     const playStep = () => {
       if (stepIndex < ANIMATION_STEPS.length) {
-        const currentDelay = ANIMATION_STEPS[stepIndex].delay
+        const currentDelay = getStepDelay(stepIndex, animation)
         setCurrentStep(stepIndex)
         setTimeout(() => {
           stepIndex++
@@ -112,7 +112,7 @@ export function LMGTFYMain() {
         setTimeout(() => {
           const googleUrl = `https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`
           window.location.href = googleUrl
-        }, 2500)
+        }, animation.redirectDelay)
       }
     }
     playStep()
@@ -131,7 +131,7 @@ export function LMGTFYMain() {
     const baseUrl = typeof window !== "undefined" 
       ? window.location.origin 
       : ""
-    const link = `${baseUrl}${pathname}?q=${encodeURIComponent(query.trim())}`
+    const link = `${baseUrl}${pathname}?${buildLinkParams(query.trim(), settings)}`
     setShareableLink(link)
     toast.success("Link generated! Copy it to share.")
   }
@@ -289,7 +289,7 @@ export function LMGTFYMain() {
             </motion.div>
           </AnimatePresence>
 
-          {query && (
+          {query && showQueryInAnimation && (
             <motion.p
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
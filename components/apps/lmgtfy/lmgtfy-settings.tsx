@@ -7,91 +7,31 @@ import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { useAppSettings } from "@/components/apps/use-app-settings"
 import { toast } from "sonner"
 import { Settings, RotateCcw } from "lucide-react"
-
-interface LMGTFYSettings {
-  defaultAnimationSpeed: number
-  redirectDelay: number
-  showQueryInAnimation: boolean
-}
-
-const DEFAULT_SETTINGS: LMGTFYSettings = {
-  defaultAnimationSpeed: 1.0,
-  redirectDelay: 1500,
-  showQueryInAnimation: true,
-}
+import {
+  DEFAULT_LMGTFY_SETTINGS,
+  LMGTFY_SETTINGS,
+  type LMGTFYSettingsValues,
+} from "./settings-schema"
 
 export function LMGTFYSettings() {
   const { user, loading: authLoading } = useAuth()
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
+  const { settings: savedSettings, loading, save } = useAppSettings(LMGTFY_SETTINGS)
   const [saving, setSaving] = React.useState(false)
-  const [settings, setSettings] = React.useState<LMGTFYSettings>(DEFAULT_SETTINGS)
+  const [settings, setSettings] = React.useState<LMGTFYSettingsValues>(DEFAULT_LMGTFY_SETTINGS)
 
+  // Keep the form in sync with the stored settings, including saves made elsewhere
   React.useEffect(() => {
-    if (user && !authLoading) {
-      loadSettings()
-    } else if (!authLoading && !user) {
-      setLoading(false)
-    }
-  }, [user, authLoading])
-
-  const loadSettings = async () => {
-    if (!user) return
-
-    try {
-      setLoading(true)
-      const settingsRef = doc(db, "users", user.uid, "lmgtfySettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      if (settingsDoc.exists()) {
-        const data = settingsDoc.data()
-        setSettings({
-          defaultAnimationSpeed: data.defaultAnimationSpeed ?? DEFAULT_SETTINGS.defaultAnimationSpeed,
-          redirectDelay: data.redirectDelay ?? DEFAULT_SETTINGS.redirectDelay,
-          showQueryInAnimation: data.showQueryInAnimation ?? DEFAULT_SETTINGS.showQueryInAnimation,
-        })
-      } else {
-        setSettings(DEFAULT_SETTINGS)
-      }
-    } catch (error: any) {
-      console.error("Failed to load settings:", error)
-      if (error.code !== "permission-denied") {
-        toast.error("Failed to load settings")
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
+    setSettings(savedSettings)
+  }, [savedSettings])
 
   const saveSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     try {
       setSaving(true)
-      const settingsRef = doc(db, "users", user.uid, "lmgtfySettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      const settingsData = {
-        ...settings,
-        updatedAt: serverTimestamp(),
-      }
-
-      if (settingsDoc.exists()) {
-        await updateDoc(settingsRef, settingsData)
-      } else {
-        await setDoc(settingsRef, {
-          ...settingsData,
-          createdAt: serverTimestamp(),
-        })
-      }
-
+      await save(settings)
       toast.success("Settings saved successfully!")
     } catch (error: any) {
       console.error("Failed to save settings:", error)
@@ -106,25 +46,14 @@ export function LMGTFYSettings() {
   }
 
   const resetSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     if (!confirm("Are you sure you want to reset all settings to default values?")) {
       return
     }
 
     try {
       setSaving(true)
-      setSettings(DEFAULT_SETTINGS)
-      const settingsRef = doc(db, "users", user.uid, "lmgtfySettings", "default")
-      await setDoc(settingsRef, {
-        ...DEFAULT_SETTINGS,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      })
-
+      setSettings(DEFAULT_LMGTFY_SETTINGS)
+      await save(DEFAULT_LMGTFY_SETTINGS)
       toast.success("Settings reset successfully!")
     } catch (error: any) {
       console.error("Failed to reset settings:", error)
@@ -144,18 +73,6 @@ export function LMGTFYSettings() {
     )
   }
 
-  if (!user) {
-    return (
-      <Card>
-        <CardContent className="py-12 text-center space-y-4">
-          <p className="text-muted-foreground">Please sign in to view and manage your settings</p>
-          <Button onClick={() => setAuthDialogOpen(true)}>Sign In</Button>
-          <AuthDialog open={authDialogOpen} onOpenChange={setAuthDialogOpen} />
-        </CardContent>
-      </Card>
-    )
-  }
-
   return (
     <div className="space-y-6">
       <div>
@@ -163,6 +80,19 @@ export function LMGTFYSettings() {
         <p className="text-muted-foreground">
           Customize your "Let Me Google That For You" experience
         </p>
+        {!user && (
+          <p className="text-sm text-muted-foreground mt-2">
+            You’re saving settings on this device.{" "}
+            <button
+              type="button"
+              className="text-primary underline underline-offset-4"
+              onClick={() => setAuthDialogOpen(true)}
+            >
+              Sign in
+            </button>{" "}
+            to sync them across devices.
+          </p>
+        )}
       </div>
 
       <Card>
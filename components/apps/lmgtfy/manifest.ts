@@ -0,0 +1,23 @@
+import { Search } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { LMGTFY_SETTINGS } from "./settings-schema"
+import { LMGTFYMain } from "./lmgtfy-main"
+import { LMGTFYSettings } from "./lmgtfy-settings"
+
+export const lmgtfyManifest = defineAppManifest({
+  appId: "lmgtfy",
+  name: "Let Me Google That",
+  description: "Generate shareable links that play an animation before redirecting to Google search",
+  category: "Utilities",
+  tags: ["google", "search", "share", "funny", "lmgtfy", "link", "redirect"],
+  status: "live",
+  icon: Search,
+  accent: "from-blue-500 to-cyan-500",
+  featured: true,
+  Main: LMGTFYMain,
+  Settings: LMGTFYSettings,
+  settings: LMGTFY_SETTINGS,
+  collections: [
+    { name: "lmgtfySettings", scope: "user", docParam: "settingsId", description: "LMGTFY settings subcollection" },
+  ],
+})
@@ -0,0 +1,25 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const lmgtfySettingsSchema = z.object({
+  defaultAnimationSpeed: z.number().min(0.5).max(2),
+  redirectDelay: z.number().min(500).max(5000),
+  showQueryInAnimation: z.boolean(),
+})
+
+export type LMGTFYSettingsValues = z.infer<typeof lmgtfySettingsSchema>
+
+export const DEFAULT_LMGTFY_SETTINGS: LMGTFYSettingsValues = {
+  defaultAnimationSpeed: 1.0,
+  redirectDelay: 1500,
+  showQueryInAnimation: true,
+}
+
+export const LMGTFY_SETTINGS = defineAppSettings({
+  appId: "lmgtfy",
+  collection: "lmgtfySettings",
+  storageKey: "lmgtfy-settings",
+  schema: lmgtfySettingsSchema,
+  defaults: DEFAULT_LMGTFY_SETTINGS,
+  version: 1,
+})
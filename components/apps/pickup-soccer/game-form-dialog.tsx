@@ -0,0 +1,301 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { GeoPoint } from "@/lib/geo"
+import { LocationPicker } from "./location-picker"
+import type { VenueFields, VenueOption } from "./location"
+import { WEEKDAY_NAMES, getWeekday, type RecurrenceFrequency } from "./recurrence"
+import type { PlayerInfo, RegularsMode } from "./types"
+
+export interface GameFormValues {
+  title: string
+  description: string
+  date: string
+  time: string
+  location: string
+  /** Picked on the map; optional, but needed for the games map and distance filter */
+  point: GeoPoint | null
+  maxPlayers: number
+  repeat: "none" | RecurrenceFrequency
+  /** Only used for custom recurrence; weekly and biweekly repeat on the date's weekday */
+  weekdays: number[]
+  endDate: string
+  regulars: string[]
+  regularsMode: RegularsMode
+}
+
+export const EMPTY_GAME_FORM: GameFormValues = {
+  title: "",
+  description: "",
+  date: "",
+  time: "",
+  location: "",
+  point: null,
+  maxPlayers: 10,
+  repeat: "none",
+  weekdays: [],
+  endDate: "",
+  regulars: [],
+  regularsMode: "join",
+}
+
+interface GameFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  description: string
+  submitLabel: string
+  initialValues: GameFormValues
+  /** Earliest date that can be picked */
+  minDate?: string
+  /** Show the repeat and regulars fields (new games and whole-series edits) */
+  showRecurrence: boolean
+  /** Leave out "Does not repeat", for editing an existing series */
+  requireRepeat?: boolean
+  /** Players who can be picked as regulars */
+  knownPlayers: PlayerInfo[]
+  venueOptions: VenueOption[]
+  onSaveVenue?: (venue: VenueFields) => Promise<void>
+  /** Rendered above the fields, e.g. to choose what an edit applies to */
+  children?: React.ReactNode
+  onSubmit: (values: GameFormValues) => Promise<void>
+}
+
+export function GameFormDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  submitLabel,
+  initialValues,
+  minDate,
+  showRecurrence,
+  requireRepeat = false,
+  knownPlayers,
+  venueOptions,
+  onSaveVenue,
+  children,
+  onSubmit,
+}: GameFormDialogProps) {
+  const [formData, setFormData] = React.useState<GameFormValues>(initialValues)
+  const [submitting, setSubmitting] = React.useState(false)
+
+  // Start from the given values whenever the dialog opens
+  React.useEffect(() => {
+    if (open) setFormData(initialValues)
+  }, [open, initialValues])
+
+  const weekdayName = formData.date ? WEEKDAY_NAMES[getWeekday(formData.date)] : "this day"
+
+  const toggleWeekday = (day: number) => {
+    setFormData({
+      ...formData,
+      weekdays: formData.weekdays.includes(day)
+        ? formData.weekdays.filter((d) => d !== day)
+        : [...formData.weekdays, day],
+    })
+  }
+
+  const toggleRegular = (uid: string) => {
+    setFormData({
+      ...formData,
+      regulars: formData.regulars.includes(uid)
+        ? formData.regulars.filter((id) => id !== uid)
+        : [...formData.regulars, uid],
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setSubmitting(true)
+      await onSubmit(formData)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {children}
+
+          <div className="space-y-2">
+            <Label htmlFor="title">Game Title *</Label>
+            <Input
+              id="title"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="e.g., Weekend Pickup Game"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Add any additional details..."
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="date">{showRecurrence && formData.repeat !== "none" ? "Starts *" : "Date *"}</Label>
+              <Input
+                id="date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                min={minDate}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="time">Time *</Label>
+              <Input
+                id="time"
+                type="time"
+                value={formData.time}
+                onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <LocationPicker
+            location={formData.location}
+            point={formData.point}
+            onChange={(location, point) => setFormData({ ...formData, location, point })}
+            venueOptions={venueOptions}
+            onSaveVenue={onSaveVenue}
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="maxPlayers">Max Players *</Label>
+            <Input
+              id="maxPlayers"
+              type="number"
+              min="2"
+              max="22"
+              value={formData.maxPlayers}
+              onChange={(e) => setFormData({ ...formData, maxPlayers: parseInt(e.target.value) || 10 })}
+              required
+            />
+          </div>
+
+          {showRecurrence && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="repeat">Repeat</Label>
+                <select
+                  id="repeat"
+                  value={formData.repeat}
+                  onChange={(e) => setFormData({ ...formData, repeat: e.target.value as GameFormValues["repeat"] })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  {!requireRepeat && <option value="none">Does not repeat</option>}
+                  <option value="weekly">Weekly on {weekdayName}</option>
+                  <option value="biweekly">Every other {weekdayName}</option>
+                  <option value="custom">Custom days</option>
+                </select>
+                {formData.repeat !== "none" && (
+                  <p className="text-xs text-muted-foreground">
+                    Games are added four weeks ahead, overnight and whenever you open Pickup Soccer
+                  </p>
+                )}
+              </div>
+
+              {formData.repeat === "custom" && (
+                <div className="flex flex-wrap gap-1">
+                  {WEEKDAY_NAMES.map((name, day) => (
+                    <Button
+                      key={name}
+                      type="button"
+                      size="sm"
+                      variant={formData.weekdays.includes(day) ? "default" : "outline"}
+                      onClick={() => toggleWeekday(day)}
+                    >
+                      {name.slice(0, 3)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {formData.repeat !== "none" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="endDate">Ends</Label>
+                    <Input
+                      id="endDate"
+                      type="date"
+                      value={formData.endDate}
+                      onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                      min={formData.date}
+                    />
+                    <p className="text-xs text-muted-foreground">Leave empty to repeat until the series is cancelled</p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Regulars</Label>
+                    {knownPlayers.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        Players from your games show up here once they&apos;ve joined one
+                      </p>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {knownPlayers.map((player) => (
+                          <Button
+                            key={player.uid}
+                            type="button"
+                            size="sm"
+                            variant={formData.regulars.includes(player.uid) ? "default" : "outline"}
+                            onClick={() => toggleRegular(player.uid)}
+                          >
+                            {player.name}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    <select
+                      id="regularsMode"
+                      aria-label="What happens to regulars"
+                      value={formData.regularsMode}
+                      onChange={(e) => setFormData({ ...formData, regularsMode: e.target.value as RegularsMode })}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    >
+                      <option value="join">Sign regulars up for each new game</option>
+                      <option value="invite">Invite regulars to each new game</option>
+                    </select>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitLabel}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "sonner"
+import { Bookmark, MapPin, Search, X } from "lucide-react"
+import type { GeoPoint } from "@/lib/geo"
+import { geocodeAddress, type VenueFields, type VenueOption } from "./location"
+
+const VenueMap = React.lazy(() => import("./venue-map"))
+
+interface LocationPickerProps {
+  location: string
+  point: GeoPoint | null
+  onChange: (location: string, point: GeoPoint | null) => void
+  /** Saved venues and places other games were played at, for the lookup */
+  venueOptions: VenueOption[]
+  /** Saves the current location as a venue; the button is hidden without it (signed out) */
+  onSaveVenue?: (venue: VenueFields) => Promise<void>
+}
+
+export function LocationPicker({ location, point, onChange, venueOptions, onSaveVenue }: LocationPickerProps) {
+  const [searching, setSearching] = React.useState(false)
+  const [savingVenue, setSavingVenue] = React.useState(false)
+
+  const savedOptions = venueOptions.filter((option) => option.savedId)
+  const otherOptions = venueOptions.filter((option) => !option.savedId)
+  const isSaved = savedOptions.some((option) => option.name.trim().toLowerCase() === location.trim().toLowerCase())
+
+  const pickVenue = (index: number) => {
+    const option = venueOptions[index]
+    if (option) onChange(option.name, option.point)
+  }
+
+  const findOnMap = async () => {
+    if (!location.trim()) {
+      toast.error("Enter an address or place name first")
+      return
+    }
+
+    try {
+      setSearching(true)
+      const found = await geocodeAddress(location)
+      if (found) {
+        onChange(location, found)
+      } else {
+        toast.error("Couldn't find that place. Click the map to pin it instead.")
+      }
+    } catch (error) {
+      console.error("Failed to geocode location:", error)
+      toast.error("Failed to look up the location")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const saveVenue = async () => {
+    if (!onSaveVenue || !point || !location.trim()) return
+    try {
+      setSavingVenue(true)
+      await onSaveVenue({ name: location.trim(), point })
+      toast.success("Venue saved")
+    } catch (error) {
+      console.error("Failed to save venue:", error)
+      toast.error("Failed to save venue")
+    } finally {
+      setSavingVenue(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="location">Location *</Label>
+      {venueOptions.length > 0 && (
+        <select
+          aria-label="Saved venues"
+          value=""
+          onChange={(e) => pickVenue(Number(e.target.value))}
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          <option value="">Choose a venue...</option>
+          {savedOptions.length > 0 && (
+            <optgroup label="Saved venues">
+              {savedOptions.map((option) => (
+                <option key={option.savedId} value={venueOptions.indexOf(option)}>
+                  {option.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {otherOptions.length > 0 && (
+            <optgroup label="Fields from other games">
+              {otherOptions.map((option) => (
+                <option key={option.name} value={venueOptions.indexOf(option)}>
+                  {option.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      )}
+      <div className="flex gap-2">
+        <Input
+          id="location"
+          value={location}
+          onChange={(e) => onChange(e.target.value, point)}
+          placeholder="e.g., Central Park Field 1"
+          required
+        />
+        <Button type="button" variant="outline" onClick={findOnMap} disabled={searching} title="Find on map">
+          <Search className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="relative h-56 overflow-hidden rounded-md border bg-muted">
+        <React.Suspense
+          fallback={
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="animate-pulse text-sm text-muted-foreground">Loading map...</div>
+            </div>
+          }
+        >
+          <VenueMap pin={point} onPick={(picked) => onChange(location, picked)} />
+        </React.Suspense>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <MapPin className="h-3 w-3 shrink-0" />
+          {point
+            ? `Pinned at ${point.lat.toFixed(4)}, ${point.lng.toFixed(4)}`
+            : "Click the map to pin the field so players can find it and filter by distance"}
+        </p>
+        <div className="flex gap-1 shrink-0">
+          {point && onSaveVenue && !isSaved && (
+            <Button type="button" variant="ghost" size="sm" onClick={saveVenue} disabled={savingVenue || !location.trim()}>
+              <Bookmark className="h-4 w-4 mr-1" />
+              Save Venue
+            </Button>
+          )}
+          {point && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(location, null)}>
+              <X className="h-4 w-4 mr-1" />
+              Clear Pin
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+// Where games are played. A game keeps its free-text `location`, shown on cards and in calendars,
+// plus an optional `point` picked on the map that puts it on the games map and in distance
+// filters. Organisers save the fields they use often as venues (/users/{uid}/pickupSoccerVenues).
+
+import { z } from "zod"
+import { calculateDistance, type GeoPoint } from "@/lib/geo"
+import type { Game } from "./types"
+
+// Shown until there's a pin or a game to fit the map to
+export const DEFAULT_MAP_CENTER: GeoPoint = { lat: 38.627, lng: -90.1994 }
+
+/** Choices for the "within N miles of me" filter */
+export const DISTANCE_OPTIONS = [1, 3, 5, 10, 25]
+
+export const geoPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+})
+
+export const venueSchema = z.object({
+  name: z.string().trim().min(1),
+  point: geoPointSchema,
+})
+
+export type VenueFields = z.infer<typeof venueSchema>
+
+export interface Venue extends VenueFields {
+  id: string
+}
+
+/** An entry in the venue lookup: a saved venue, or a place another game was played at */
+export interface VenueOption extends VenueFields {
+  savedId?: string
+}
+
+/**
+ * The venue lookup: the user's saved venues first, then every other named place games have been
+ * pinned at, most recent first. Names are matched case-insensitively so each place appears once.
+ */
+export function getVenueOptions(saved: Venue[], games: Game[]): VenueOption[] {
+  const seen = new Set<string>()
+  const options: VenueOption[] = []
+  const add = (option: VenueOption) => {
+    const key = option.name.trim().toLowerCase()
+    if (!key || seen.has(key)) return
+    seen.add(key)
+    options.push(option)
+  }
+
+  saved.forEach((venue) => add({ name: venue.name, point: venue.point, savedId: venue.id }))
+  ;[...games]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .forEach((game) => {
+      if (game.point) add({ name: game.location, point: game.point })
+    })
+  return options
+}
+
+/** Miles from `from` to the game, or null if the game isn't pinned on the map */
+export function getGameDistance(game: Pick<Game, "point">, from: GeoPoint): number | null {
+  return game.point ? calculateDistance(from, game.point) : null
+}
+
+export function formatDistance(miles: number): string {
+  return miles < 10 ? `${miles.toFixed(1)} mi` : `${Math.round(miles)} mi`
+}
+
+/** The first OpenStreetMap (Nominatim) match for an address or place name, or null */
+export async function geocodeAddress(address: string): Promise<GeoPoint | null> {
+  const params = new URLSearchParams({ q: address, format: "json", limit: "1" })
+  const response = await fetch(`https://nominatim.openstreetmap.org/search?${params}`, {
+    headers: { Accept: "application/json" },
+  })
+  if (!response.ok) throw new Error(`Geocoding failed with status ${response.status}`)
+
+  const [match] = (await response.json()) as { lat: string; lon: string }[]
+  if (!match) return null
+  const parsed = geoPointSchema.safeParse({ lat: Number(match.lat), lng: Number(match.lon) })
+  return parsed.success ? parsed.data : null
+}
+
+/** The browser's current position, for distance filters */
+export function getCurrentPosition(): Promise<GeoPoint> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location isn't available in this browser"))
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      reject,
+      { maximumAge: 10 * 60 * 1000, timeout: 15000 }
+    )
+  })
+}
@@ -0,0 +1,25 @@
+import { Users } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { PICKUP_SOCCER_SETTINGS } from "./settings-schema"
+import { PickupSoccerMain } from "./pickup-soccer-main"
+import { PickupSoccerSettings } from "./pickup-soccer-settings"
+
+export const pickupSoccerManifest = defineAppManifest({
+  appId: "pickup-soccer",
+  name: "Pickup Soccer",
+  description: "Schedule, join, create, and manage pickup soccer games",
+  category: "Social",
+  tags: ["soccer", "football", "sports", "pickup", "games", "scheduling", "recurring", "teams", "stats", "calendar", "map"],
+  status: "live",
+  icon: Users,
+  accent: "from-green-500 to-emerald-500",
+  Main: PickupSoccerMain,
+  Settings: PickupSoccerSettings,
+  settings: PICKUP_SOCCER_SETTINGS,
+  collections: [
+    { name: "pickupSoccerSettings", scope: "user", docParam: "settingsId", description: "Pickup Soccer settings subcollection" },
+    { name: "pickupSoccerVenues", scope: "user", docParam: "venueId", description: "Pickup Soccer saved venues subcollection" },
+    { name: "games", scope: "shared", docParam: "gameId", description: "Pickup Soccer Games collection" },
+    { name: "gameSeries", scope: "shared", docParam: "seriesId", description: "Pickup Soccer recurring game series" },
+  ],
+})
@@ -6,8 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { 
   Plus, 
   Calendar, 
@@ -18,202 +18,330 @@ import {
   Edit,
   Trash2,
   Search,
-  Filter,
   UserPlus,
-  UserMinus
+  UserMinus,
+  Repeat,
+  Ban,
+  RotateCcw,
+  Shuffle,
+  Trophy,
+  ClipboardList,
+  CalendarPlus,
+  List,
+  Map as MapIcon
 } from "lucide-react"
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { useUserNames } from "@/components/apps/use-user-names"
 import { db } from "@/lib/firebase/config"
+import { buildGameEvent } from "@/lib/calendar-events"
+import { downloadIcsEvents, toIcsFileName } from "@/lib/ics-download"
+import type { IcsEvent } from "@/lib/ics"
+import { toGeoPoint, type GeoPoint } from "@/lib/geo"
 import { 
   collection, 
   query, 
   where, 
   orderBy, 
-  getDocs, 
   getDoc,
   addDoc, 
   updateDoc, 
   deleteDoc, 
   doc, 
   serverTimestamp,
-  Timestamp
+  writeBatch,
+  runTransaction,
+  onSnapshot,
+  type DocumentData,
+  type Query
 } from "firebase/firestore"
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
-
-interface Game {
-  id: string
-  title: string
-  description: string
-  date: string
-  time: string
-  location: string
-  maxPlayers: number
-  players: string[]
-  createdBy: string
-  createdByName: string
-  createdAt: Timestamp
-  updatedAt: Timestamp
+import { EMPTY_GAME_FORM, GameFormDialog, type GameFormValues } from "./game-form-dialog"
+import {
+  MATERIALIZE_DAYS,
+  addDays,
+  buildOccurrence,
+  describeRecurrence,
+  getOccurrenceDates,
+  getOccurrenceId,
+  getTodayDate,
+  getWeekday,
+  type RecurrenceRule,
+} from "./recurrence"
+import {
+  DISTANCE_OPTIONS,
+  formatDistance,
+  getCurrentPosition,
+  getGameDistance,
+  getVenueOptions,
+  type VenueFields,
+} from "./location"
+import { useVenues } from "./use-venues"
+import type { MapMarker } from "./venue-map"
+import { TeamsDialog } from "./teams-dialog"
+import { ResultDialog } from "./result-dialog"
+import { Standings } from "./standings"
+import { formatScore, getMvps, hasGameStarted, toGameResult, toMvpVotes, type GameResult } from "./stats"
+import {
+  DEFAULT_RATING,
+  EMPTY_CONSTRAINTS,
+  TEAM_NAMES,
+  isLineupStale,
+  toRatings,
+  toTeamConstraints,
+  toTeams,
+  type PlayerRating,
+  type Team,
+  type TeamConstraints,
+} from "./teams"
+import { PICKUP_SOCCER_SETTINGS } from "./settings-schema"
+import type { Game, GameSeries, PlayerInfo } from "./types"
+import { fillFromWaitlist, getWaitlistPosition, joinRoster, leaveRoster, toRoster, type Roster } from "./waitlist"
+
+const VenueMap = React.lazy(() => import("./venue-map"))
+
+// Which games an edit of a series occurrence applies to
+type EditScope = "occurrence" | "series"
+
+function toRecurrenceRule(values: GameFormValues): RecurrenceRule | null {
+  if (values.repeat === "none") return null
+  return {
+    frequency: values.repeat,
+    weekdays: values.repeat === "custom" ? values.weekdays : [getWeekday(values.date)],
+  }
+}
+
+function toGame(id: string, data: DocumentData): Game {
+  return {
+    id,
+    title: data.title || "",
+    description: data.description || "",
+    date: data.date || "",
+    time: data.time || "",
+    location: data.location || "",
+    point: toGeoPoint(data.point),
+    maxPlayers: data.maxPlayers || 10,
+    players: Array.isArray(data.players) ? data.players : [],
+    waitlist: Array.isArray(data.waitlist) ? data.waitlist : [],
+    invited: Array.isArray(data.invited) ? data.invited : [],
+    status: data.status === "cancelled" ? "cancelled" : "scheduled",
+    seriesId: data.seriesId || undefined,
+    detached: data.detached === true,
+    ratings: toRatings(data.ratings),
+    teamConstraints: toTeamConstraints(data.teamConstraints),
+    teams: toTeams(data.teams),
+    result: toGameResult(data.result),
+    mvpVotes: toMvpVotes(data.mvpVotes),
+    createdBy: data.createdBy || "",
+    createdByName: data.createdByName || "",
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  }
+}
+
+function toGameSeries(id: string, data: DocumentData): GameSeries {
+  const frequency = data.rule?.frequency
+  return {
+    id,
+    title: data.title || "",
+    description: data.description || "",
+    time: data.time || "",
+    location: data.location || "",
+    point: toGeoPoint(data.point),
+    maxPlayers: data.maxPlayers || 10,
+    rule: {
+      frequency: frequency === "biweekly" || frequency === "custom" ? frequency : "weekly",
+      weekdays: Array.isArray(data.rule?.weekdays) ? data.rule.weekdays : [],
+    },
+    startDate: data.startDate || "",
+    endDate: data.endDate || "",
+    regulars: Array.isArray(data.regulars) ? data.regulars : [],
+    regularsMode: data.regularsMode === "invite" ? "invite" : "join",
+    createdBy: data.createdBy || "",
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  }
+}
+
+function compareGames(a: Game, b: Game): number {
+  if (a.date !== b.date) {
+    return a.date.localeCompare(b.date)
+  }
+  return a.time.localeCompare(b.time)
+}
+
+function formatDate(dateString: string) {
+  if (!dateString) return "Date TBD"
+  try {
+    const date = new Date(dateString + "T00:00:00")
+    return date.toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    })
+  } catch {
+    return dateString
+  }
+}
+
+function formatTime(timeString: string) {
+  if (!timeString) return "Time TBD"
+  try {
+    const [hours, minutes] = timeString.split(":")
+    const hour = parseInt(hours)
+    if (isNaN(hour)) return timeString
+    const ampm = hour >= 12 ? "PM" : "AM"
+    const displayHour = hour % 12 || 12
+    return `${displayHour}:${minutes || "00"} ${ampm}`
+  } catch {
+    return timeString
+  }
 }
 
-interface PlayerInfo {
-  uid: string
-  name: string
+// Creates any missing occurrences of the given series for the next few weeks, skipping IDs in
+// `attempted` and adding the ones it writes
+async function materializeOccurrences(seriesList: GameSeries[], existing: Game[], attempted: Set<string>) {
+  const existingIds = new Set(existing.map((game) => game.id))
+  const today = getTodayDate()
+  const horizon = addDays(today, MATERIALIZE_DAYS)
+  const batch = writeBatch(db)
+  let created = 0
+
+  seriesList.forEach((item) => {
+    getOccurrenceDates(item.rule, item.startDate, item.endDate, today, horizon).forEach((date) => {
+      const id = getOccurrenceId(item.id, date)
+      if (existingIds.has(id) || attempted.has(id)) return
+      attempted.add(id)
+      batch.set(doc(db, "games", id), {
+        ...buildOccurrence(item, date),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+      created++
+    })
+  })
+
+  if (created === 0) return
+  try {
+    await batch.commit()
+  } catch (error) {
+    console.error("Failed to create series occurrences:", error)
+    toast.error("Failed to create upcoming games for your series")
+  }
 }
 
 export function PickupSoccerMain() {
   const { user } = useAuth()
-  const [games, setGames] = React.useState<Game[]>([])
+  const { settings } = useAppSettings(PICKUP_SOCCER_SETTINGS)
+  const [savedGames, setSavedGames] = React.useState<Game[]>([])
+  const [pendingRosters, setPendingRosters] = React.useState<Record<string, Roster>>({})
   const [loading, setLoading] = React.useState(true)
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
   const [createDialogOpen, setCreateDialogOpen] = React.useState(false)
   const [searchQuery, setSearchQuery] = React.useState("")
   const [filterDate, setFilterDate] = React.useState("")
-  const [playerNames, setPlayerNames] = React.useState<Record<string, string>>({})
-
-  // Form state
-  const [formData, setFormData] = React.useState({
-    title: "",
-    description: "",
-    date: "",
-    time: "",
-    location: "",
-    maxPlayers: 10,
-  })
+  const [series, setSeries] = React.useState<GameSeries[]>([])
+  const [editTarget, setEditTarget] = React.useState<{ game: Game; scope: EditScope } | null>(null)
+  const [teamsTarget, setTeamsTarget] = React.useState<Game | null>(null)
+  const [resultTarget, setResultTarget] = React.useState<Game | null>(null)
+  const [view, setView] = React.useState<"list" | "map">("list")
+  // 0 for any distance
+  const [maxDistance, setMaxDistance] = React.useState(0)
+  const [myLocation, setMyLocation] = React.useState<GeoPoint | null>(null)
+  const { venues, saveVenue } = useVenues()
 
-  // Load games from Firestore
+  // Live games, so players see each other join and leave without reloading
   React.useEffect(() => {
-    loadGames()
-  }, [])
-
-  const loadGames = async () => {
-    try {
-      setLoading(true)
-      const gamesRef = collection(db, "games")
-      
-      // Try compound query first, fallback to simple query if index doesn't exist
-      let snapshot
-      try {
-        const q = query(gamesRef, orderBy("date", "asc"), orderBy("time", "asc"))
-        snapshot = await getDocs(q)
-      } catch (indexError: any) {
-        // If compound index doesn't exist, try single orderBy
-        if (indexError?.code === "failed-precondition") {
-          console.warn("Compound index not found, using single orderBy")
-          const q = query(gamesRef, orderBy("date", "asc"))
-          snapshot = await getDocs(q)
-        } else {
-          // If that fails, just get all games without ordering
-          snapshot = await getDocs(gamesRef)
-        }
-      }
-      
-      const gamesData: Game[] = []
-      const playerUids = new Set<string>()
-
-      snapshot.forEach((doc) => {
-        const data = doc.data()
-        gamesData.push({
-          id: doc.id,
-          title: data.title || "",
-          description: data.description || "",
-          date: data.date || "",
-          time: data.time || "",
-          location: data.location || "",
-          maxPlayers: data.maxPlayers || 10,
-          players: Array.isArray(data.players) ? data.players : [],
-          createdBy: data.createdBy || "",
-          createdByName: data.createdByName || "",
-          createdAt: data.createdAt,
-          updatedAt: data.updatedAt,
-        } as Game)
-
-        // Collect all player UIDs to fetch names
-        if (Array.isArray(data.players)) {
-          data.players.forEach((uid: string) => {
-            if (uid) playerUids.add(uid)
-          })
-        }
-        if (data.createdBy) {
-          playerUids.add(data.createdBy)
-        }
-      })
-
-      // Sort games by date and time client-side if query didn't order them
-      gamesData.sort((a, b) => {
-        if (a.date !== b.date) {
-          return a.date.localeCompare(b.date)
-        }
-        return a.time.localeCompare(b.time)
-      })
+    const gamesRef = collection(db, "games")
+    let unsubscribe = () => {}
 
-      setGames(gamesData)
-
-      // Load player names
-      if (playerUids.size > 0) {
-        await loadPlayerNames(Array.from(playerUids))
-      }
-    } catch (error: any) {
-      console.error("Failed to load games:", error)
-      if (error?.code === "permission-denied") {
-        toast.error("Permission denied. Please check Firestore rules.")
-      } else {
-        toast.error("Failed to load games. Please try again.")
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const loadPlayerNames = async (uids: string[]) => {
-    const names: Record<string, string> = {}
-    
-    await Promise.all(
-      uids.map(async (uid) => {
-        try {
-          const userDocRef = doc(db, "users", uid)
-          const userDoc = await getDoc(userDocRef)
-          if (userDoc.exists()) {
-            const userData = userDoc.data()
-            names[uid] = userData.displayName || userData.username || "Unknown Player"
+    const subscribe = (gamesQuery: Query) => {
+      unsubscribe = onSnapshot(
+        gamesQuery,
+        (snapshot) => {
+          setSavedGames(snapshot.docs.map((gameDoc) => toGame(gameDoc.id, gameDoc.data())).sort(compareGames))
+          setLoading(false)
+        },
+        (error) => {
+          // If the compound index doesn't exist, listen without ordering; games are sorted client-side
+          if (error.code === "failed-precondition" && gamesQuery !== gamesRef) {
+            console.warn("Compound index not found, listening without ordering")
+            subscribe(gamesRef)
+            return
+          }
+          console.error("Failed to load games:", error)
+          if (error.code === "permission-denied") {
+            toast.error("Permission denied. Please check Firestore rules.")
           } else {
-            names[uid] = "Unknown Player"
+            toast.error("Failed to load games. Please try again.")
           }
-        } catch (error) {
-          console.error(`Failed to load name for ${uid}:`, error)
-          names[uid] = "Unknown Player"
+          setLoading(false)
         }
-      })
+      )
+    }
+
+    subscribe(query(gamesRef, orderBy("date", "asc"), orderBy("time", "asc")))
+    return () => unsubscribe()
+  }, [])
+
+  React.useEffect(() => {
+    return onSnapshot(
+      collection(db, "gameSeries"),
+      (snapshot) => setSeries(snapshot.docs.map((seriesDoc) => toGameSeries(seriesDoc.id, seriesDoc.data()))),
+      // One-off games still work without series
+      (error) => console.error("Failed to load game series:", error)
     )
+  }, [])
 
-    setPlayerNames(names)
-  }
+  // Organisers' clients keep their own series' upcoming games created, since only a game's creator
+  // may create it; the materializeSeries Cloud Function does the same nightly for organisers who
+  // don't open the app. Each occurrence is only tried once per visit, so a failed write doesn't repeat.
+  const userId = user?.uid
+  const attemptedOccurrences = React.useRef(new Set<string>())
+  React.useEffect(() => {
+    if (!userId || loading) return
+    const ownSeries = series.filter((item) => item.createdBy === userId)
+    materializeOccurrences(ownSeries, savedGames, attemptedOccurrences.current)
+  }, [userId, loading, series, savedGames])
 
-  const getUserDisplayName = async (uid: string): Promise<string> => {
-    if (playerNames[uid]) {
-      return playerNames[uid]
-    }
+  // Saved games with any join or leave that is still being written on top
+  const games = React.useMemo(
+    () => savedGames.map((game) => (pendingRosters[game.id] ? { ...game, ...pendingRosters[game.id] } : game)),
+    [savedGames, pendingRosters]
+  )
 
+  const playerUids = React.useMemo(() => {
+    const uids = new Set<string>()
+    games.forEach((game) => {
+      game.players.forEach((uid) => uids.add(uid))
+      game.waitlist.forEach((uid) => uids.add(uid))
+      game.invited.forEach((uid) => uids.add(uid))
+      if (game.createdBy) uids.add(game.createdBy)
+      // Past players still show up in results and standings
+      game.result?.sides.forEach((side) => side.players.forEach((uid) => uids.add(uid)))
+    })
+    series.forEach((item) => item.regulars.forEach((uid) => uids.add(uid)))
+    return Array.from(uids)
+  }, [games, series])
+  const playerNames = useUserNames(playerUids, "Unknown Player")
+
+  // Shows a join or leave straight away; the snapshot takes over once the transaction commits
+  const updateRosterOptimistically = async <T,>(gameId: string, roster: Roster, write: () => Promise<T>) => {
+    setPendingRosters((current) => ({ ...current, [gameId]: roster }))
     try {
-      const userDocRef = doc(db, "users", uid)
-      const userDoc = await getDoc(userDocRef)
-      if (userDoc.exists()) {
-        const userData = userDoc.data()
-        const name = userData.displayName || userData.username || "Unknown Player"
-        setPlayerNames((prev) => ({ ...prev, [uid]: name }))
-        return name
-      }
-    } catch (error) {
-      console.error(`Failed to load name for ${uid}:`, error)
+      return await write()
+    } finally {
+      setPendingRosters((current) => {
+        const next = { ...current }
+        delete next[gameId]
+        return next
+      })
     }
-
-    return "Unknown Player"
   }
 
-  const handleCreateGame = async (e: React.FormEvent) => {
-    e.preventDefault()
-
+  const handleCreateGame = async (values: GameFormValues) => {
     if (!user) {
       setAuthDialogOpen(true)
       return
@@ -237,34 +365,64 @@ export function PickupSoccerMain() {
       return
     }
 
+    const rule = toRecurrenceRule(values)
+    if (rule && rule.weekdays.length === 0) {
+      toast.error("Pick at least one day for the game to repeat on")
+      return
+    }
+
     try {
-      const gameData = {
-        title: formData.title,
-        description: formData.description,
-        date: formData.date,
-        time: formData.time,
-        location: formData.location,
-        maxPlayers: formData.maxPlayers,
-        players: [],
-        createdBy: user.uid,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
+      if (rule) {
+        const seriesData = {
+          title: values.title,
+          description: values.description,
+          time: values.time,
+          location: values.location,
+          point: values.point,
+          maxPlayers: values.maxPlayers,
+          rule,
+          startDate: values.date,
+          endDate: values.endDate,
+          regulars: values.regulars,
+          regularsMode: values.regularsMode,
+          createdBy: user.uid,
+        }
+        await addDoc(collection(db, "gameSeries"), {
+          ...seriesData,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        })
+        // The upcoming games are created once the new series arrives in the snapshot
+        const today = getTodayDate()
+        const upcoming = getOccurrenceDates(rule, values.date, values.endDate, today, addDays(today, MATERIALIZE_DAYS))
+        toast.success(
+          upcoming.length > 0
+            ? `Series created with ${upcoming.length} upcoming game${upcoming.length === 1 ? "" : "s"}`
+            : `Series created. Games are added ${MATERIALIZE_DAYS / 7} weeks ahead.`
+        )
+      } else {
+        const gameData = {
+          title: values.title,
+          description: values.description,
+          date: values.date,
+          time: values.time,
+          location: values.location,
+          point: values.point,
+          maxPlayers: values.maxPlayers,
+          players: [],
+          waitlist: [],
+          invited: [],
+          status: "scheduled",
+          createdBy: user.uid,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        }
+
+        await addDoc(collection(db, "games"), gameData)
+        toast.success("Game created successfully!")
       }
 
-      await addDoc(collection(db, "games"), gameData)
-      
-      toast.success("Game created successfully!")
       setCreateDialogOpen(false)
-      setFormData({
-        title: "",
-        description: "",
-        date: "",
-        time: "",
-        location: "",
-        maxPlayers: 10,
-      })
-      
-      loadGames()
     } catch (error: any) {
       console.error("Failed to create game:", error)
       if (error.code === "permission-denied") {
@@ -275,6 +433,158 @@ export function PickupSoccerMain() {
     }
   }
 
+  // Moves waitlisted players into spots opened by raising maxPlayers
+  const promoteWaitlisted = async (gameIds: string[]) => {
+    await Promise.all(
+      gameIds.map((gameId) =>
+        runTransaction(db, async (transaction) => {
+          const gameRef = doc(db, "games", gameId)
+          const snapshot = await transaction.get(gameRef)
+          if (!snapshot.exists()) return
+          const data = snapshot.data()
+          const next = fillFromWaitlist(toRoster(data), data.maxPlayers || 10)
+          if (next.promoted.length > 0) {
+            transaction.update(gameRef, { ...next.roster, updatedAt: serverTimestamp() })
+          }
+        })
+      )
+    )
+  }
+
+  const handleEditGame = async (values: GameFormValues) => {
+    if (!user || !editTarget) return
+    const { game, scope } = editTarget
+    const details = {
+      title: values.title,
+      description: values.description,
+      time: values.time,
+      location: values.location,
+      point: values.point,
+      maxPlayers: values.maxPlayers,
+    }
+
+    try {
+      if (scope === "occurrence") {
+        await updateDoc(doc(db, "games", game.id), {
+          ...details,
+          date: values.date,
+          // Keep this game as it is when the whole series is edited later
+          ...(game.seriesId ? { detached: true } : {}),
+          updatedAt: serverTimestamp(),
+        })
+        if (values.maxPlayers > game.maxPlayers) await promoteWaitlisted([game.id])
+        toast.success("Game updated")
+      } else {
+        const current = series.find((item) => item.id === game.seriesId)
+        const rule = toRecurrenceRule(values)
+        if (!current || !rule) return
+        if (rule.weekdays.length === 0) {
+          toast.error("Pick at least one day for the game to repeat on")
+          return
+        }
+
+        const updated: GameSeries = {
+          ...current,
+          ...details,
+          rule,
+          startDate: values.date,
+          endDate: values.endDate,
+          regulars: values.regulars,
+          regularsMode: values.regularsMode,
+        }
+        const today = getTodayDate()
+        const batch = writeBatch(db)
+        const grown: string[] = []
+        batch.update(doc(db, "gameSeries", current.id), {
+          ...details,
+          rule,
+          startDate: updated.startDate,
+          endDate: updated.endDate,
+          regulars: updated.regulars,
+          regularsMode: updated.regularsMode,
+          updatedAt: serverTimestamp(),
+        })
+        // Upcoming games follow the series unless they were edited on their own; games on days
+        // the new rule no longer includes are cancelled rather than deleted, so players see why
+        games
+          .filter(
+            (item) =>
+              item.seriesId === current.id && item.date >= today && !item.detached && item.status === "scheduled"
+          )
+          .forEach((item) => {
+            const stillScheduled =
+              getOccurrenceDates(rule, updated.startDate, updated.endDate, item.date, item.date).length > 0
+            if (stillScheduled && details.maxPlayers > item.maxPlayers) grown.push(item.id)
+            batch.update(
+              doc(db, "games", item.id),
+              stillScheduled
+                ? { ...details, updatedAt: serverTimestamp() }
+                : { status: "cancelled", updatedAt: serverTimestamp() }
+            )
+          })
+        await batch.commit()
+        await promoteWaitlisted(grown)
+        toast.success("Series updated")
+      }
+
+      setEditTarget(null)
+    } catch (error: any) {
+      console.error("Failed to update game:", error)
+      if (error.code === "permission-denied") {
+        toast.error("Permission denied")
+      } else {
+        toast.error("Failed to update game")
+      }
+    }
+  }
+
+  // Series games are cancelled rather than deleted, or the next load would create them again
+  const handleCancelGame = async (game: Game) => {
+    if (!confirm("Cancel this game? Players will see it as cancelled.")) {
+      return
+    }
+
+    try {
+      await updateDoc(doc(db, "games", game.id), { status: "cancelled", updatedAt: serverTimestamp() })
+      toast.success("Game cancelled")
+    } catch (error: any) {
+      console.error("Failed to cancel game:", error)
+      toast.error("Failed to cancel game")
+    }
+  }
+
+  const handleRestoreGame = async (game: Game) => {
+    try {
+      await updateDoc(doc(db, "games", game.id), { status: "scheduled", updatedAt: serverTimestamp() })
+      toast.success("Game restored")
+    } catch (error: any) {
+      console.error("Failed to restore game:", error)
+      toast.error("Failed to restore game")
+    }
+  }
+
+  const handleCancelSeries = async (seriesId: string) => {
+    if (!confirm("Cancel every upcoming game in this series? Past games are kept.")) {
+      return
+    }
+
+    try {
+      const today = getTodayDate()
+      const batch = writeBatch(db)
+      batch.delete(doc(db, "gameSeries", seriesId))
+      games
+        .filter((item) => item.seriesId === seriesId && item.date >= today && item.status === "scheduled")
+        .forEach((item) => {
+          batch.update(doc(db, "games", item.id), { status: "cancelled", updatedAt: serverTimestamp() })
+        })
+      await batch.commit()
+      toast.success("Series cancelled")
+    } catch (error: any) {
+      console.error("Failed to cancel series:", error)
+      toast.error("Failed to cancel series")
+    }
+  }
+
   const handleJoinGame = async (gameId: string) => {
     if (!user) {
       setAuthDialogOpen(true)
@@ -303,24 +613,40 @@ export function PickupSoccerMain() {
       const game = games.find((g) => g.id === gameId)
       if (!game) return
 
-      if (game.players.includes(user.uid)) {
+      if (game.players.includes(user.uid) || game.waitlist.includes(user.uid)) {
         toast.error("You're already in this game")
         return
       }
 
-      if (game.players.length >= game.maxPlayers) {
-        toast.error("Game is full")
+      if (game.status === "cancelled") {
+        toast.error("This game has been cancelled")
         return
       }
 
+      // Read the latest lists in a transaction so two players can't both take the last spot
       const gameRef = doc(db, "games", gameId)
-      await updateDoc(gameRef, {
-        players: [...game.players, user.uid],
-        updatedAt: serverTimestamp(),
-      })
+      const expected = joinRoster(toRoster(game), user.uid, game.maxPlayers)
+      if (!expected) return
+      const joined = await updateRosterOptimistically(gameId, expected.roster, () =>
+        runTransaction(db, async (transaction) => {
+          const snapshot = await transaction.get(gameRef)
+          if (!snapshot.exists()) return null
+          const data = snapshot.data()
+          const next = joinRoster(toRoster(data), user.uid, data.maxPlayers || 10)
+          if (next) {
+            transaction.update(gameRef, { ...next.roster, updatedAt: serverTimestamp() })
+          }
+          return next
+        })
+      )
 
-      toast.success("Joined game successfully!")
-      loadGames()
+      if (!joined) {
+        toast.error("You're already in this game")
+      } else if (joined.result === "waitlisted") {
+        toast.success(`Game is full. You're #${joined.roster.waitlist.length} on the waitlist.`)
+      } else {
+        toast.success("Joined game successfully!")
+      }
     } catch (error: any) {
       console.error("Failed to join game:", error)
       if (error.code === "permission-denied") {
@@ -341,25 +667,166 @@ export function PickupSoccerMain() {
       const game = games.find((g) => g.id === gameId)
       if (!game) return
 
-      if (!game.players.includes(user.uid)) {
+      if (!game.players.includes(user.uid) && !game.waitlist.includes(user.uid)) {
         toast.error("You're not in this game")
         return
       }
 
+      // The first waitlisted player takes the freed spot in the same transaction
       const gameRef = doc(db, "games", gameId)
-      await updateDoc(gameRef, {
-        players: game.players.filter((uid) => uid !== user.uid),
-        updatedAt: serverTimestamp(),
-      })
+      const expected = leaveRoster(toRoster(game), user.uid, game.maxPlayers)
+      if (!expected) return
+      const left = await updateRosterOptimistically(gameId, expected.roster, () =>
+        runTransaction(db, async (transaction) => {
+          const snapshot = await transaction.get(gameRef)
+          if (!snapshot.exists()) return null
+          const data = snapshot.data()
+          const next = leaveRoster(toRoster(data), user.uid, data.maxPlayers || 10)
+          if (next) {
+            transaction.update(gameRef, { ...next.roster, updatedAt: serverTimestamp() })
+          }
+          return next
+        })
+      )
 
-      toast.success("Left game successfully")
-      loadGames()
+      if (game.waitlist.includes(user.uid)) {
+        toast.success("Left the waitlist")
+      } else if (left?.promoted) {
+        toast.success(`Left game. ${playerNames[left.promoted] || "The next player"} moved up from the waitlist.`)
+      } else {
+        toast.success("Left game successfully")
+      }
     } catch (error: any) {
       console.error("Failed to leave game:", error)
       toast.error("Failed to leave game")
     }
   }
 
+  const handleSaveTeams = async (teams: Team[], ratings: Record<string, PlayerRating>, constraints: TeamConstraints) => {
+    if (!user || !teamsTarget) return
+    if (teamsTarget.createdBy !== user.uid) {
+      toast.error("You can only make teams for games you created")
+      return
+    }
+
+    try {
+      // Ratings are kept per game, for the players in it
+      const gameRatings = Object.fromEntries(
+        teamsTarget.players.map((uid) => [uid, ratings[uid] ?? DEFAULT_RATING])
+      )
+      await updateDoc(doc(db, "games", teamsTarget.id), {
+        teams,
+        ratings: gameRatings,
+        teamConstraints: constraints,
+        updatedAt: serverTimestamp(),
+      })
+      toast.success("Teams saved")
+      setTeamsTarget(null)
+    } catch (error: any) {
+      console.error("Failed to save teams:", error)
+      toast.error("Failed to save teams")
+    }
+  }
+
+  const handleClearTeams = async () => {
+    if (!user || !teamsTarget) return
+
+    try {
+      await updateDoc(doc(db, "games", teamsTarget.id), { teams: [], updatedAt: serverTimestamp() })
+      toast.success("Teams cleared")
+      setTeamsTarget(null)
+    } catch (error: any) {
+      console.error("Failed to clear teams:", error)
+      toast.error("Failed to clear teams")
+    }
+  }
+
+  const handleSaveResult = async (result: GameResult) => {
+    if (!user || !resultTarget) return
+    if (resultTarget.createdBy !== user.uid) {
+      toast.error("You can only record results for games you created")
+      return
+    }
+
+    try {
+      await updateDoc(doc(db, "games", resultTarget.id), { result, updatedAt: serverTimestamp() })
+      toast.success("Result saved")
+      setResultTarget(null)
+    } catch (error: any) {
+      console.error("Failed to save result:", error)
+      toast.error("Failed to save result")
+    }
+  }
+
+  const handleVoteMvp = async (game: Game, playerId: string) => {
+    if (!user) {
+      setAuthDialogOpen(true)
+      return
+    }
+
+    try {
+      // Each player writes only their own vote, as the games rules require
+      await updateDoc(doc(db, "games", game.id), {
+        [`mvpVotes.${user.uid}`]: playerId,
+        updatedAt: serverTimestamp(),
+      })
+      toast.success(`Voted ${playerNames[playerId] || "player"} MVP`)
+    } catch (error: any) {
+      console.error("Failed to vote:", error)
+      toast.error("Failed to save your vote")
+    }
+  }
+
+  const handleDownloadGame = (game: Game) => {
+    const event = buildGameEvent(game, settings.reminderHours)
+    if (!event) {
+      toast.error("This game doesn't have a date yet")
+      return
+    }
+    downloadIcsEvents([event], toIcsFileName(game.title))
+    toast.success("Calendar event downloaded")
+  }
+
+  // Every upcoming game the user is playing in, as one file
+  const handleDownloadMyGames = () => {
+    if (!user) {
+      setAuthDialogOpen(true)
+      return
+    }
+
+    const today = getTodayDate()
+    const events = games
+      .filter((game) => game.players.includes(user.uid) && game.status !== "cancelled" && game.date >= today)
+      .map((game) => buildGameEvent(game, settings.reminderHours))
+      .filter((event): event is IcsEvent => event !== null)
+    if (events.length === 0) {
+      toast.error("You haven't joined any upcoming games")
+      return
+    }
+    downloadIcsEvents(events, "pickup-soccer-games.ics")
+    toast.success(`${events.length} game${events.length === 1 ? "" : "s"} downloaded`)
+  }
+
+  // The browser asks for the user's location the first time they filter by distance
+  const handleDistanceChange = async (miles: number) => {
+    if (!miles || myLocation) {
+      setMaxDistance(miles)
+      return
+    }
+
+    try {
+      setMyLocation(await getCurrentPosition())
+      setMaxDistance(miles)
+    } catch (error) {
+      console.error("Failed to get location:", error)
+      toast.error("Allow location access to filter games by distance")
+    }
+  }
+
+  const handleSaveVenue = async (venue: VenueFields) => {
+    await saveVenue(venue)
+  }
+
   const handleDeleteGame = async (gameId: string) => {
     if (!user) return
 
@@ -376,7 +843,6 @@ export function PickupSoccerMain() {
     try {
       await deleteDoc(doc(db, "games", gameId))
       toast.success("Game deleted successfully")
-      loadGames()
     } catch (error: any) {
       console.error("Failed to delete game:", error)
       toast.error("Failed to delete game")
@@ -402,49 +868,135 @@ export function PickupSoccerMain() {
       filtered = filtered.filter((game) => game.date === filterDate)
     }
 
+    // Filter by distance; games that aren't pinned on the map can't be placed, so they're left out
+    if (maxDistance && myLocation) {
+      filtered = filtered.filter((game) => {
+        const distance = getGameDistance(game, myLocation)
+        return distance !== null && distance <= maxDistance
+      })
+    }
+
     return filtered
-  }, [games, searchQuery, filterDate])
+  }, [games, searchQuery, filterDate, maxDistance, myLocation])
+
+  const mapMarkers = React.useMemo<MapMarker[]>(
+    () =>
+      filteredGames
+        .filter((game) => game.point && game.status !== "cancelled")
+        .map((game) => ({
+          id: game.id,
+          point: game.point!,
+          label: `${game.title} · ${formatDate(game.date)} ${formatTime(game.time)} · ${game.location}`,
+        })),
+    [filteredGames]
+  )
+
+  const venueOptions = React.useMemo(() => getVenueOptions(venues, games), [venues, games])
+
+  // New games start at the default venue from settings, or the default location text
+  const createInitialValues = React.useMemo<GameFormValues>(() => {
+    const venue = venues.find((item) => item.id === settings.defaultVenueId)
+    return {
+      ...EMPTY_GAME_FORM,
+      location: venue?.name ?? settings.defaultLocation,
+      point: venue?.point ?? null,
+    }
+  }, [venues, settings.defaultVenueId, settings.defaultLocation])
 
   const isGameFull = (game: Game) => {
     return Array.isArray(game.players) && game.players.length >= game.maxPlayers
   }
 
+  // Waitlisted players count as in the game, so they get a Leave button
   const isUserInGame = (game: Game) => {
-    return user && Array.isArray(game.players) && game.players.includes(user.uid)
+    return user && (game.players.includes(user.uid) || game.waitlist.includes(user.uid))
   }
 
   const canManageGame = (game: Game) => {
     return user && game.createdBy && game.createdBy === user.uid
   }
 
-  const formatDate = (dateString: string) => {
-    if (!dateString) return "Date TBD"
-    try {
-      const date = new Date(dateString + "T00:00:00")
-      return date.toLocaleDateString("en-US", {
-        weekday: "short",
-        month: "short",
-        day: "numeric",
-        year: "numeric",
-      })
-    } catch {
-      return dateString
-    }
-  }
+  const seriesById = React.useMemo(() => new Map(series.map((item) => [item.id, item])), [series])
 
-  const formatTime = (timeString: string) => {
-    if (!timeString) return "Time TBD"
-    try {
-      const [hours, minutes] = timeString.split(":")
-      const hour = parseInt(hours)
-      if (isNaN(hour)) return timeString
-      const ampm = hour >= 12 ? "PM" : "AM"
-      const displayHour = hour % 12 || 12
-      return `${displayHour}:${minutes || "00"} ${ampm}`
-    } catch {
-      return timeString
+  // Everyone whose name we've loaded can be picked as a regular
+  const knownPlayers = React.useMemo<PlayerInfo[]>(
+    () =>
+      Object.entries(playerNames)
+        .filter(([, name]) => name !== "Unknown Player")
+        .map(([uid, name]) => ({ uid, name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [playerNames]
+  )
+
+  const editSeries = editTarget?.game.seriesId ? seriesById.get(editTarget.game.seriesId) : undefined
+  const editInitialValues = React.useMemo<GameFormValues>(() => {
+    if (!editTarget) return EMPTY_GAME_FORM
+    if (editTarget.scope === "series" && editSeries) {
+      return {
+        ...EMPTY_GAME_FORM,
+        title: editSeries.title,
+        description: editSeries.description,
+        date: editSeries.startDate,
+        time: editSeries.time,
+        location: editSeries.location,
+        point: editSeries.point,
+        maxPlayers: editSeries.maxPlayers,
+        repeat: editSeries.rule.frequency,
+        weekdays: editSeries.rule.weekdays,
+        endDate: editSeries.endDate,
+        regulars: editSeries.regulars,
+        regularsMode: editSeries.regularsMode,
+      }
     }
-  }
+    const { game } = editTarget
+    return {
+      ...EMPTY_GAME_FORM,
+      title: game.title,
+      description: game.description,
+      date: game.date,
+      time: game.time,
+      location: game.location,
+      point: game.point,
+      maxPlayers: game.maxPlayers,
+    }
+  }, [editTarget, editSeries])
+
+  // Players not yet rated for this game start from their latest rating in the organiser's other games
+  const teamsInitialRatings = React.useMemo<Record<string, PlayerRating>>(() => {
+    if (!teamsTarget) return {}
+    const previous: Record<string, PlayerRating> = {}
+    games
+      .filter((game) => game.createdBy === teamsTarget.createdBy && game.id !== teamsTarget.id)
+      .forEach((game) => Object.assign(previous, game.ratings))
+    return Object.fromEntries(
+      teamsTarget.players.map((uid) => [uid, teamsTarget.ratings[uid] ?? previous[uid] ?? DEFAULT_RATING])
+    )
+  }, [teamsTarget, games])
+
+  // Series games start from the pairs used in the latest earlier occurrence
+  const teamsInitialConstraints = React.useMemo<TeamConstraints>(() => {
+    if (!teamsTarget) return EMPTY_CONSTRAINTS
+    const hasPairs = (constraints: TeamConstraints) => constraints.together.length + constraints.apart.length > 0
+    if (hasPairs(teamsTarget.teamConstraints) || !teamsTarget.seriesId) return teamsTarget.teamConstraints
+    const previous = games
+      .filter((game) => game.seriesId === teamsTarget.seriesId && game.date < teamsTarget.date)
+      .filter((game) => hasPairs(game.teamConstraints))
+      .pop()
+    return previous?.teamConstraints ?? teamsTarget.teamConstraints
+  }, [teamsTarget, games])
+
+  // A new result starts from the saved lineup, or two empty sides to fill in
+  const resultInitialValue = React.useMemo<GameResult>(() => {
+    if (resultTarget?.result) return resultTarget.result
+    const sides =
+      resultTarget && resultTarget.teams.length >= 2
+        ? resultTarget.teams.map((team) => ({
+            name: team.name,
+            players: team.players.filter((uid) => resultTarget.players.includes(uid)),
+          }))
+        : TEAM_NAMES.slice(0, 2).map((name) => ({ name, players: [] }))
+    return { sides, scores: sides.map(() => 0), playerStats: {} }
+  }, [resultTarget])
 
   return (
     <motion.div
@@ -460,257 +1012,497 @@ export function PickupSoccerMain() {
         </p>
       </div>
 
-      {/* Actions Bar */}
-      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
-        <div className="flex flex-1 gap-2 w-full sm:w-auto">
-          <div className="relative flex-1 max-w-md">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search games..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
-          </div>
-          <div className="relative">
-            <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none z-10" />
-            <Input
-              type="date"
-              value={filterDate}
-              onChange={(e) => setFilterDate(e.target.value)}
-              className="pl-10 pr-10 w-48 min-w-[192px] [&::-webkit-calendar-picker-indicator]:opacity-0 [&::-webkit-calendar-picker-indicator]:absolute [&::-webkit-calendar-picker-indicator]:right-2 [&::-webkit-calendar-picker-indicator]:w-6 [&::-webkit-calendar-picker-indicator]:h-6 [&::-webkit-calendar-picker-indicator]:cursor-pointer"
-            />
-          </div>
-          {filterDate && (
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => setFilterDate("")}
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          )}
-        </div>
-
-        <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => !user && setAuthDialogOpen(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Game
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle>Create New Game</DialogTitle>
-              <DialogDescription>
-                Fill in the details to create a new pickup soccer game
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleCreateGame} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="title">Game Title *</Label>
-                <Input
-                  id="title"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="e.g., Weekend Pickup Game"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Add any additional details..."
-                  rows={3}
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="date">Date *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                    min={new Date().toISOString().split("T")[0]}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="time">Time *</Label>
-                  <Input
-                    id="time"
-                    type="time"
-                    value={formData.time}
-                    onChange={(e) => setFormData({ ...formData, time: e.target.value })}
-                    required
-                  />
-                </div>
-              </div>
+      <Tabs defaultValue="games">
+        <TabsList>
+          <TabsTrigger value="games">Games</TabsTrigger>
+          <TabsTrigger value="standings">Standings</TabsTrigger>
+        </TabsList>
 
-              <div className="space-y-2">
-                <Label htmlFor="location">Location *</Label>
+        <TabsContent value="games" className="space-y-6">
+          {/* Actions Bar */}
+          <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+            <div className="flex flex-1 gap-2 w-full sm:w-auto">
+              <div className="relative flex-1 max-w-md">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  id="location"
-                  value={formData.location}
-                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                  placeholder="e.g., Central Park Field 1"
-                  required
+                  placeholder="Search games..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
                 />
               </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="maxPlayers">Max Players *</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none z-10" />
                 <Input
-                  id="maxPlayers"
-                  type="number"
-                  min="2"
-                  max="22"
-                  value={formData.maxPlayers}
-                  onChange={(e) => setFormData({ ...formData, maxPlayers: parseInt(e.target.value) || 10 })}
-                  required
+                  type="date"
+                  value={filterDate}
+                  onChange={(e) => setFilterDate(e.target.value)}
+                  className="pl-10 pr-10 w-48 min-w-[192px] [&::-webkit-calendar-picker-indicator]:opacity-0 [&::-webkit-calendar-picker-indicator]:absolute [&::-webkit-calendar-picker-indicator]:right-2 [&::-webkit-calendar-picker-indicator]:w-6 [&::-webkit-calendar-picker-indicator]:h-6 [&::-webkit-calendar-picker-indicator]:cursor-pointer"
                 />
               </div>
+              {filterDate && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setFilterDate("")}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              <select
+                value={maxDistance}
+                onChange={(e) => handleDistanceChange(Number(e.target.value))}
+                aria-label="Distance"
+                className="flex h-10 w-40 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                <option value={0}>Any distance</option>
+                {DISTANCE_OPTIONS.map((miles) => (
+                  <option key={miles} value={miles}>
+                    Within {miles} mi
+                  </option>
+                ))}
+              </select>
+            </div>
 
-              <div className="flex justify-end gap-3 pt-4">
+            <div className="flex gap-2">
+              <div className="flex rounded-md border">
                 <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setCreateDialogOpen(false)}
+                  variant={view === "list" ? "secondary" : "ghost"}
+                  size="icon"
+                  title="List view"
+                  onClick={() => setView("list")}
                 >
-                  Cancel
+                  <List className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={view === "map" ? "secondary" : "ghost"}
+                  size="icon"
+                  title="Map view"
+                  onClick={() => setView("map")}
+                >
+                  <MapIcon className="h-4 w-4" />
                 </Button>
-                <Button type="submit">Create Game</Button>
               </div>
-            </form>
-          </DialogContent>
-        </Dialog>
-      </div>
-
-      {/* Games List */}
-      {loading ? (
-        <div className="flex items-center justify-center py-12">
-          <p className="text-muted-foreground">Loading games...</p>
-        </div>
-      ) : filteredGames.length === 0 ? (
-        <Card>
-          <CardContent className="py-12 text-center">
-            <p className="text-muted-foreground mb-4">
-              {searchQuery || filterDate
-                ? "No games match your filters"
-                : "No games scheduled yet. Create the first one!"}
-            </p>
-            {!user && (
-              <Button onClick={() => setAuthDialogOpen(true)}>
-                Sign In to Create Game
+              {user && (
+                <Button variant="outline" onClick={handleDownloadMyGames}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Add My Games
+                </Button>
+              )}
+              <Button onClick={() => (user ? setCreateDialogOpen(true) : setAuthDialogOpen(true))}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Game
               </Button>
-            )}
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredGames.map((game) => (
-            <Card key={game.id} className="relative">
-              <CardHeader>
-                <div className="flex items-start justify-between mb-2">
-                  <CardTitle className="text-lg flex-1">{game.title}</CardTitle>
-                  {canManageGame(game) && (
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8"
-                      onClick={() => handleDeleteGame(game.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  )}
-                </div>
-                {game.description && (
-                  <CardDescription className="line-clamp-2">
-                    {game.description}
-                  </CardDescription>
-                )}
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2 text-sm">
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <Calendar className="h-4 w-4" />
-                    <span>{formatDate(game.date)}</span>
-                  </div>
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <Clock className="h-4 w-4" />
-                    <span>{formatTime(game.time)}</span>
-                  </div>
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <MapPin className="h-4 w-4" />
-                    <span className="line-clamp-1">{game.location}</span>
-                  </div>
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <Users className="h-4 w-4" />
-                    <span>
-                      {game.players.length} / {game.maxPlayers} players
-                    </span>
-                    {isGameFull(game) && (
-                      <Badge variant="secondary" className="ml-2">
-                        Full
-                      </Badge>
-                    )}
-                  </div>
-                  {game.createdBy && (
-                    <div className="text-xs text-muted-foreground">
-                      Created by {playerNames[game.createdBy] || "Unknown"}
-                    </div>
-                  )}
-                </div>
-
-                {/* Players List */}
-                {Array.isArray(game.players) && game.players.length > 0 && (
-                  <div className="pt-2 border-t">
-                    <p className="text-xs font-medium mb-2">Players:</p>
-                    <div className="flex flex-wrap gap-1">
-                      {game.players.map((playerId) => (
-                        <Badge key={playerId} variant="outline" className="text-xs">
-                          {playerNames[playerId] || "Loading..."}
-                        </Badge>
-                      ))}
-                    </div>
-                  </div>
-                )}
+            </div>
+            <GameFormDialog
+              open={createDialogOpen}
+              onOpenChange={setCreateDialogOpen}
+              title="Create New Game"
+              description="Fill in the details to create a new pickup soccer game"
+              submitLabel="Create Game"
+              initialValues={createInitialValues}
+              minDate={getTodayDate()}
+              showRecurrence
+              knownPlayers={knownPlayers}
+              venueOptions={venueOptions}
+              onSaveVenue={user ? handleSaveVenue : undefined}
+              onSubmit={handleCreateGame}
+            />
+          </div>
 
-                {/* Action Buttons */}
-                <div className="flex gap-2 pt-2">
-                  {isUserInGame(game) ? (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="flex-1"
-                      onClick={() => handleLeaveGame(game.id)}
-                    >
-                      <UserMinus className="h-4 w-4 mr-2" />
-                      Leave
-                    </Button>
-                  ) : (
-                    <Button
-                      size="sm"
-                      className="flex-1"
-                      onClick={() => handleJoinGame(game.id)}
-                      disabled={isGameFull(game) || !user}
-                    >
-                      <UserPlus className="h-4 w-4 mr-2" />
-                      {isGameFull(game) ? "Full" : "Join"}
-                    </Button>
-                  )}
-                </div>
+          {/* Games List */}
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <p className="text-muted-foreground">Loading games...</p>
+            </div>
+          ) : filteredGames.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground mb-4">
+                  {searchQuery || filterDate || maxDistance
+                    ? "No games match your filters"
+                    : "No games scheduled yet. Create the first one!"}
+                </p>
+                {!user && (
+                  <Button onClick={() => setAuthDialogOpen(true)}>
+                    Sign In to Create Game
+                  </Button>
+                )}
               </CardContent>
             </Card>
-          ))}
-        </div>
-      )}
+          ) : view === "map" ? (
+            <div className="space-y-2">
+              <div className="relative h-[500px] overflow-hidden rounded-lg border bg-muted">
+                <React.Suspense
+                  fallback={
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <div className="animate-pulse text-muted-foreground">Loading map...</div>
+                    </div>
+                  }
+                >
+                  <VenueMap markers={mapMarkers} pin={myLocation} />
+                </React.Suspense>
+              </div>
+              {mapMarkers.length < filteredGames.length && (
+                <p className="text-xs text-muted-foreground">
+                  {filteredGames.length - mapMarkers.length} of {filteredGames.length} games aren&apos;t on the map because
+                  they&apos;re cancelled or haven&apos;t been pinned. Switch to the list to see them.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredGames.map((game) => {
+                const gameSeries = game.seriesId ? seriesById.get(game.seriesId) : undefined
+                const isCancelled = game.status === "cancelled"
+                const invited = game.invited.filter((uid) => !game.players.includes(uid) && !game.waitlist.includes(uid))
+                const waitlistPosition = user ? getWaitlistPosition(game, user.uid) : null
+                const started = hasGameStarted(game)
+                const distance = myLocation ? getGameDistance(game, myLocation) : null
+                const mvps = getMvps(game.mvpVotes)
+                const scorers = game.result
+                  ? Object.entries(game.result.playerStats)
+                      .filter(([, stats]) => stats.goals > 0)
+                      .sort((a, b) => b[1].goals - a[1].goals)
+                  : []
+
+                return (
+                  <Card key={game.id} className={`relative ${isCancelled ? "opacity-60" : ""}`}>
+                    <CardHeader>
+                      <div className="flex items-start justify-between mb-2">
+                        <CardTitle className="text-lg flex-1">{game.title}</CardTitle>
+                        <div className="flex">
+                          {!isCancelled && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Add to calendar"
+                              onClick={() => handleDownloadGame(game)}
+                            >
+                              <CalendarPlus className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canManageGame(game) && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setEditTarget({ game, scope: "occurrence" })}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              {!game.seriesId && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => handleDeleteGame(game.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      {(gameSeries || isCancelled || waitlistPosition || (user && invited.includes(user.uid))) && (
+                        <div className="flex flex-wrap gap-1">
+                          {isCancelled && <Badge variant="destructive">Cancelled</Badge>}
+                          {gameSeries && (
+                            <Badge variant="secondary">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              {describeRecurrence(gameSeries.rule)}
+                            </Badge>
+                          )}
+                          {user && invited.includes(user.uid) && <Badge>You&apos;re invited</Badge>}
+                          {waitlistPosition && <Badge variant="outline">Waitlist #{waitlistPosition}</Badge>}
+                        </div>
+                      )}
+                      {game.description && (
+                        <CardDescription className="line-clamp-2">
+                          {game.description}
+                        </CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="space-y-2 text-sm">
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <Calendar className="h-4 w-4" />
+                          <span>{formatDate(game.date)}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <Clock className="h-4 w-4" />
+                          <span>{formatTime(game.time)}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <MapPin className="h-4 w-4" />
+                          <span className="line-clamp-1">{game.location}</span>
+                          {distance !== null && (
+                            <span className="shrink-0 text-xs">· {formatDistance(distance)}</span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <Users className="h-4 w-4" />
+                          <span>
+                            {game.players.length} / {game.maxPlayers} players
+                            {game.waitlist.length > 0 && ` · ${game.waitlist.length} waiting`}
+                          </span>
+                          {isGameFull(game) && (
+                            <Badge variant="secondary" className="ml-2">
+                              Full
+                            </Badge>
+                          )}
+                        </div>
+                        {game.createdBy && (
+                          <div className="text-xs text-muted-foreground">
+                            Created by {playerNames[game.createdBy] || "Unknown"}
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Players List */}
+                      {Array.isArray(game.players) && game.players.length > 0 && (
+                        <div className="pt-2 border-t">
+                          <p className="text-xs font-medium mb-2">Players:</p>
+                          <div className="flex flex-wrap gap-1">
+                            {game.players.map((playerId) => (
+                              <Badge key={playerId} variant="outline" className="text-xs">
+                                {playerNames[playerId] || "Loading..."}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {game.teams.length > 0 && (
+                        <div className="pt-2 border-t">
+                          <p className="text-xs font-medium mb-2">Teams:</p>
+                          {isLineupStale(game.teams, game.players) && (
+                            <p className="text-xs text-muted-foreground mb-2">
+                              Players have changed since these teams were made
+                            </p>
+                          )}
+                          <div className="space-y-1">
+                            {game.teams.map((team) => (
+                              <div key={team.name} className="flex flex-wrap items-center gap-1">
+                                <span className="text-xs text-muted-foreground w-14">{team.name}</span>
+                                {team.players
+                                  .filter((playerId) => game.players.includes(playerId))
+                                  .map((playerId) => (
+                                    <Badge key={playerId} variant="outline" className="text-xs">
+                                      {playerNames[playerId] || "Loading..."}
+                                    </Badge>
+                                  ))}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {(game.result || mvps.length > 0) && (
+                        <div className="pt-2 border-t space-y-1">
+                          <p className="text-xs font-medium mb-2">Result:</p>
+                          {game.result && <p className="text-sm font-semibold">{formatScore(game.result)}</p>}
+                          {scorers.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Goals:{" "}
+                              {scorers
+                                .map(([playerId, stats]) => `${playerNames[playerId] || "Unknown"} ${stats.goals}`)
+                                .join(", ")}
+                            </p>
+                          )}
+                          {mvps.length > 0 && (
+                            <p className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Trophy className="h-3 w-3" />
+                              MVP: {mvps.map((playerId) => playerNames[playerId] || "Unknown").join(", ")}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {user && started && !isCancelled && game.result && game.players.includes(user.uid) && game.players.length > 1 && (
+                        <div className="pt-2 border-t">
+                          <Label htmlFor={`mvp-${game.id}`} className="text-xs font-medium">
+                            Your MVP vote:
+                          </Label>
+                          <select
+                            id={`mvp-${game.id}`}
+                            value={game.mvpVotes[user.uid] ?? ""}
+                            onChange={(e) => e.target.value && handleVoteMvp(game, e.target.value)}
+                            className="mt-2 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                          >
+                            <option value="">Pick a player…</option>
+                            {game.players
+                              .filter((playerId) => playerId !== user.uid)
+                              .map((playerId) => (
+                                <option key={playerId} value={playerId}>
+                                  {playerNames[playerId] || "Unknown Player"}
+                                </option>
+                              ))}
+                          </select>
+                        </div>
+                      )}
+
+                      {game.waitlist.length > 0 && (
+                        <div className="pt-2 border-t">
+                          <p className="text-xs font-medium mb-2">Waitlist:</p>
+                          <div className="flex flex-wrap gap-1">
+                            {game.waitlist.map((playerId, index) => (
+                              <Badge key={playerId} variant="secondary" className="text-xs">
+                                {index + 1}. {playerNames[playerId] || "Loading..."}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {invited.length > 0 && (
+                        <div className="pt-2 border-t">
+                          <p className="text-xs font-medium mb-2">Invited:</p>
+                          <div className="flex flex-wrap gap-1">
+                            {invited.map((playerId) => (
+                              <Badge key={playerId} variant="secondary" className="text-xs">
+                                {playerNames[playerId] || "Loading..."}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Action Buttons */}
+                      <div className="flex gap-2 pt-2">
+                        {isUserInGame(game) ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => handleLeaveGame(game.id)}
+                          >
+                            <UserMinus className="h-4 w-4 mr-2" />
+                            {waitlistPosition ? "Leave Waitlist" : "Leave"}
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => handleJoinGame(game.id)}
+                            disabled={!user || isCancelled}
+                          >
+                            <UserPlus className="h-4 w-4 mr-2" />
+                            {isCancelled ? "Cancelled" : isGameFull(game) ? "Join Waitlist" : "Join"}
+                          </Button>
+                        )}
+                        {canManageGame(game) && !isCancelled && game.players.length >= 2 && (
+                          <Button variant="outline" size="sm" className="flex-1" onClick={() => setTeamsTarget(game)}>
+                            <Shuffle className="h-4 w-4 mr-2" />
+                            {game.teams.length > 0 ? "Edit Teams" : "Make Teams"}
+                          </Button>
+                        )}
+                      </div>
+
+                      {canManageGame(game) && started && !isCancelled && (
+                        <Button variant="outline" size="sm" className="w-full" onClick={() => setResultTarget(game)}>
+                          <ClipboardList className="h-4 w-4 mr-2" />
+                          {game.result ? "Edit Result" : "Record Result"}
+                        </Button>
+                      )}
+
+                      {canManageGame(game) && game.seriesId && (
+                        <div className="flex gap-2">
+                          {isCancelled ? (
+                            <Button variant="ghost" size="sm" className="flex-1" onClick={() => handleRestoreGame(game)}>
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Restore Game
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="sm" className="flex-1" onClick={() => handleCancelGame(game)}>
+                              <Ban className="h-4 w-4 mr-2" />
+                              Cancel Game
+                            </Button>
+                          )}
+                          {gameSeries && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="flex-1 text-destructive"
+                              onClick={() => handleCancelSeries(gameSeries.id)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Cancel Series
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="standings">
+          <Standings games={games} playerNames={playerNames} userId={user?.uid} />
+        </TabsContent>
+      </Tabs>
+
+      <GameFormDialog
+        open={editTarget !== null}
+        onOpenChange={(open) => !open && setEditTarget(null)}
+        title={editTarget?.scope === "series" ? "Edit Series" : "Edit Game"}
+        description={
+          editTarget?.scope === "series"
+            ? "Changes apply to upcoming games in the series, except ones edited on their own"
+            : "Changes apply to this game only"
+        }
+        submitLabel="Save Changes"
+        initialValues={editInitialValues}
+        minDate={editTarget?.scope === "series" ? undefined : getTodayDate()}
+        showRecurrence={editTarget?.scope === "series"}
+        requireRepeat
+        knownPlayers={knownPlayers}
+        venueOptions={venueOptions}
+        onSaveVenue={user ? handleSaveVenue : undefined}
+        onSubmit={handleEditGame}
+      >
+        {editSeries && editTarget && (
+          <div className="space-y-2">
+            <Label htmlFor="editScope">Apply changes to</Label>
+            <select
+              id="editScope"
+              value={editTarget.scope}
+              onChange={(e) => setEditTarget({ ...editTarget, scope: e.target.value as EditScope })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="occurrence">This game only</option>
+              <option value="series">The whole series</option>
+            </select>
+          </div>
+        )}
+      </GameFormDialog>
+
+      <TeamsDialog
+        open={teamsTarget !== null}
+        onOpenChange={(open) => !open && setTeamsTarget(null)}
+        players={teamsTarget?.players ?? []}
+        playerNames={playerNames}
+        initialRatings={teamsInitialRatings}
+        initialConstraints={teamsInitialConstraints}
+        savedTeamCount={teamsTarget?.teams.length ?? 0}
+        onSave={handleSaveTeams}
+        onClear={teamsTarget && teamsTarget.teams.length > 0 ? handleClearTeams : undefined}
+      />
+
+      <ResultDialog
+        open={resultTarget !== null}
+        onOpenChange={(open) => !open && setResultTarget(null)}
+        players={resultTarget?.players ?? []}
+        playerNames={playerNames}
+        initialResult={resultInitialValue}
+        onSave={handleSaveResult}
+      />
 
       <AuthDialog open={authDialogOpen} onOpenChange={setAuthDialogOpen} />
     </motion.div>
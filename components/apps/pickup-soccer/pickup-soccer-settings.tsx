@@ -8,100 +8,35 @@ import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { parseAppSettings } from "@/lib/apps/app-settings"
 import { toast } from "sonner"
-import { Trash2, Download, Upload, RotateCcw } from "lucide-react"
-
-interface PickupSoccerSettings {
-  defaultMaxPlayers: number
-  defaultLocation: string
-  emailNotifications: boolean
-  reminderHours: number
-  showMyGamesOnly: boolean
-  autoJoin: boolean
-}
-
-const DEFAULT_SETTINGS: PickupSoccerSettings = {
-  defaultMaxPlayers: 10,
-  defaultLocation: "",
-  emailNotifications: true,
-  reminderHours: 24,
-  showMyGamesOnly: false,
-  autoJoin: false,
-}
+import { Trash2, Download, Upload, RotateCcw, MapPin } from "lucide-react"
+import {
+  DEFAULT_PICKUP_SOCCER_SETTINGS,
+  PICKUP_SOCCER_SETTINGS,
+  type PickupSoccerSettingsValues,
+} from "./settings-schema"
+import type { Venue } from "./location"
+import { useVenues } from "./use-venues"
 
 export function PickupSoccerSettings() {
   const { user, loading: authLoading } = useAuth()
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
+  const { settings: savedSettings, loading, save } = useAppSettings(PICKUP_SOCCER_SETTINGS)
   const [saving, setSaving] = React.useState(false)
-  const [settings, setSettings] = React.useState<PickupSoccerSettings>(DEFAULT_SETTINGS)
+  const [settings, setSettings] = React.useState<PickupSoccerSettingsValues>(DEFAULT_PICKUP_SOCCER_SETTINGS)
+  const { venues, deleteVenue } = useVenues()
 
+  // Keep the form in sync with the stored settings, including saves made elsewhere
   React.useEffect(() => {
-    if (user && !authLoading) {
-      loadSettings()
-    } else if (!authLoading && !user) {
-      setLoading(false)
-    }
-  }, [user, authLoading])
-
-  const loadSettings = async () => {
-    if (!user) return
-
-    try {
-      setLoading(true)
-      const settingsRef = doc(db, "users", user.uid, "pickupSoccerSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      if (settingsDoc.exists()) {
-        const data = settingsDoc.data()
-        setSettings({
-          defaultMaxPlayers: data.defaultMaxPlayers ?? DEFAULT_SETTINGS.defaultMaxPlayers,
-          defaultLocation: data.defaultLocation ?? DEFAULT_SETTINGS.defaultLocation,
-          emailNotifications: data.emailNotifications ?? DEFAULT_SETTINGS.emailNotifications,
-          reminderHours: data.reminderHours ?? DEFAULT_SETTINGS.reminderHours,
-          showMyGamesOnly: data.showMyGamesOnly ?? DEFAULT_SETTINGS.showMyGamesOnly,
-          autoJoin: data.autoJoin ?? DEFAULT_SETTINGS.autoJoin,
-        })
-      } else {
-        setSettings(DEFAULT_SETTINGS)
-      }
-    } catch (error: any) {
-      console.error("Failed to load settings:", error)
-      if (error.code !== "permission-denied") {
-        toast.error("Failed to load settings")
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
+    setSettings(savedSettings)
+  }, [savedSettings])
 
   const saveSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     try {
       setSaving(true)
-      const settingsRef = doc(db, "users", user.uid, "pickupSoccerSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      const settingsData = {
-        ...settings,
-        updatedAt: serverTimestamp(),
-      }
-
-      if (settingsDoc.exists()) {
-        await updateDoc(settingsRef, settingsData)
-      } else {
-        await setDoc(settingsRef, {
-          ...settingsData,
-          createdAt: serverTimestamp(),
-        })
-      }
-
+      await save(settings)
       toast.success("Settings saved successfully!")
     } catch (error: any) {
       console.error("Failed to save settings:", error)
@@ -116,25 +51,14 @@ export function PickupSoccerSettings() {
   }
 
   const resetSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     if (!confirm("Are you sure you want to reset all settings to default values?")) {
       return
     }
 
     try {
       setSaving(true)
-      setSettings(DEFAULT_SETTINGS)
-      const settingsRef = doc(db, "users", user.uid, "pickupSoccerSettings", "default")
-      await setDoc(settingsRef, {
-        ...DEFAULT_SETTINGS,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      })
-
+      setSettings(DEFAULT_PICKUP_SOCCER_SETTINGS)
+      await save(DEFAULT_PICKUP_SOCCER_SETTINGS)
       toast.success("Settings reset successfully!")
     } catch (error: any) {
       console.error("Failed to reset settings:", error)
@@ -144,6 +68,20 @@ export function PickupSoccerSettings() {
     }
   }
 
+  const handleDeleteVenue = async (venue: Venue) => {
+    if (!confirm(`Delete the saved venue "${venue.name}"? Games already at this venue keep their location.`)) {
+      return
+    }
+
+    try {
+      await deleteVenue(venue.id)
+      toast.success("Venue deleted")
+    } catch (error) {
+      console.error("Failed to delete venue:", error)
+      toast.error("Failed to delete venue")
+    }
+  }
+
   const exportSettings = () => {
     const dataStr = JSON.stringify(settings, null, 2)
     const dataBlob = new Blob([dataStr], { type: "application/json" })
@@ -157,11 +95,6 @@ export function PickupSoccerSettings() {
   }
 
   const importSettings = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     const file = event.target.files?.[0]
     if (!file) return
 
@@ -169,7 +102,7 @@ export function PickupSoccerSettings() {
     reader.onload = (e) => {
       try {
         const imported = JSON.parse(e.target?.result as string)
-        setSettings({ ...DEFAULT_SETTINGS, ...imported })
+        setSettings(parseAppSettings(PICKUP_SOCCER_SETTINGS, imported))
         toast.success("Settings imported successfully! Click Save to apply.")
       } catch (error) {
         toast.error("Failed to import settings. Invalid file format.")
@@ -189,18 +122,6 @@ export function PickupSoccerSettings() {
     )
   }
 
-  if (!user) {
-    return (
-      <Card>
-        <CardContent className="py-12 text-center space-y-4">
-          <p className="text-muted-foreground">Please sign in to view and manage your settings</p>
-          <Button onClick={() => setAuthDialogOpen(true)}>Sign In</Button>
-          <AuthDialog open={authDialogOpen} onOpenChange={setAuthDialogOpen} />
-        </CardContent>
-      </Card>
-    )
-  }
-
   return (
     <div className="space-y-6">
       <div>
@@ -208,6 +129,19 @@ export function PickupSoccerSettings() {
         <p className="text-muted-foreground">
           Customize your pickup soccer experience
         </p>
+        {!user && (
+          <p className="text-sm text-muted-foreground mt-2">
+            You’re saving settings on this device.{" "}
+            <button
+              type="button"
+              className="text-primary underline underline-offset-4"
+              onClick={() => setAuthDialogOpen(true)}
+            >
+              Sign in
+            </button>{" "}
+            to sync them across devices.
+          </p>
+        )}
       </div>
 
       <Tabs defaultValue="general" className="space-y-4">
@@ -256,6 +190,26 @@ export function PickupSoccerSettings() {
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="defaultVenueId">Default Venue</Label>
+                <select
+                  id="defaultVenueId"
+                  value={settings.defaultVenueId}
+                  onChange={(e) => setSettings({ ...settings, defaultVenueId: e.target.value })}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value="">None (use the default location)</option>
+                  {venues.map((venue) => (
+                    <option key={venue.id} value={venue.id}>
+                      {venue.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Saved venue new games start at, already pinned on the map
+                </p>
+              </div>
+
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label htmlFor="showMyGamesOnly">Show My Games Only</Label>
@@ -299,6 +253,40 @@ export function PickupSoccerSettings() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Saved Venues</CardTitle>
+              <CardDescription>
+                Fields you play at often. Save one from the location map when creating or editing a game.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {venues.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No saved venues yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {venues.map((venue) => (
+                    <div key={venue.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <MapPin className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="text-sm truncate">{venue.name}</span>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        title="Delete venue"
+                        onClick={() => handleDeleteVenue(venue)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="notifications" className="space-y-4">
@@ -0,0 +1,41 @@
+// Recurring games. A series stores its rule; occurrences are ordinary `games` documents with
+// deterministic IDs (`{seriesId}_{date}`), created a few weeks ahead so they can be joined, edited
+// or cancelled one by one. The date arithmetic lives in lib/game-series.ts so the
+// materializeSeries Cloud Function can share it.
+
+import { buildOccurrenceFields, type RecurrenceRule } from "@/lib/game-series"
+import type { Game, GameSeries } from "./types"
+
+export {
+  MATERIALIZE_DAYS,
+  addDays,
+  getOccurrenceDates,
+  getOccurrenceId,
+  getWeekday,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/game-series"
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+/** Today's date in the browser's time zone */
+export function getTodayDate(): string {
+  const now = new Date()
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()].map((part) => String(part).padStart(2, "0")).join("-")
+}
+
+/** e.g. "Every Thursday", "Every other Thursday", "Every Tue & Thu" */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const days = [...rule.weekdays].sort((a, b) => a - b)
+  const names =
+    days.length === 1 ? WEEKDAY_NAMES[days[0]] : days.map((day) => WEEKDAY_NAMES[day].slice(0, 3)).join(" & ")
+  return rule.frequency === "biweekly" ? `Every other ${names}` : `Every ${names}`
+}
+
+// Fields of a new occurrence, without timestamps
+export function buildOccurrence(
+  series: GameSeries,
+  date: string
+): Omit<Game, "id" | "createdByName" | "createdAt" | "updatedAt"> {
+  return buildOccurrenceFields(series, date)
+}
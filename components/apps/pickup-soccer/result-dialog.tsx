@@ -0,0 +1,184 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { MAX_TEAMS, TEAM_NAMES } from "./teams"
+import type { GameResult, PlayerGameStats } from "./stats"
+
+const SELECT_CLASS =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+interface ResultDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  players: string[]
+  playerNames: Record<string, string>
+  /** The saved result, or a starting point built from the lineup */
+  initialResult: GameResult
+  onSave: (result: GameResult) => Promise<void>
+}
+
+function toCount(value: string): number {
+  return Math.max(0, parseInt(value) || 0)
+}
+
+export function ResultDialog({ open, onOpenChange, players, playerNames, initialResult, onSave }: ResultDialogProps) {
+  const [sideNames, setSideNames] = React.useState<string[]>([])
+  const [sideOf, setSideOf] = React.useState<Record<string, number>>({})
+  const [scores, setScores] = React.useState<number[]>([])
+  const [playerStats, setPlayerStats] = React.useState<Record<string, PlayerGameStats>>({})
+  const [saving, setSaving] = React.useState(false)
+
+  // Start from the given result whenever the dialog opens
+  React.useEffect(() => {
+    if (!open) return
+    setSideNames(initialResult.sides.map((side) => side.name))
+    setSideOf(
+      Object.fromEntries(
+        players.map((uid, index) => {
+          const side = initialResult.sides.findIndex((team) => team.players.includes(uid))
+          return [uid, side === -1 ? index % initialResult.sides.length : side]
+        })
+      )
+    )
+    setScores(initialResult.scores)
+    setPlayerStats(initialResult.playerStats)
+  }, [open, initialResult, players])
+
+  const nameOf = (uid: string) => playerNames[uid] || "Unknown Player"
+
+  const changeSideCount = (count: number) => {
+    setSideNames(Array.from({ length: count }, (_, index) => sideNames[index] ?? TEAM_NAMES[index]))
+    setScores(Array.from({ length: count }, (_, index) => scores[index] ?? 0))
+    // Players on a side that no longer exists move to the first one
+    setSideOf(Object.fromEntries(Object.entries(sideOf).map(([uid, side]) => [uid, side < count ? side : 0])))
+  }
+
+  const updatePlayerStats = (uid: string, field: keyof PlayerGameStats, value: string) => {
+    setPlayerStats((current) => ({
+      ...current,
+      [uid]: { ...(current[uid] ?? { goals: 0, assists: 0 }), [field]: toCount(value) },
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setSaving(true)
+      await onSave({
+        sides: sideNames.map((name, index) => ({
+          name,
+          players: players.filter((uid) => sideOf[uid] === index),
+        })),
+        scores,
+        playerStats: Object.fromEntries(
+          players.map((uid) => [uid, { goals: playerStats[uid]?.goals ?? 0, assists: playerStats[uid]?.assists ?? 0 }])
+        ),
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Result</DialogTitle>
+          <DialogDescription>Enter the final score and who scored. Results count towards everyone&apos;s stats.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="sideCount">Teams</Label>
+            <select
+              id="sideCount"
+              value={sideNames.length}
+              onChange={(e) => changeSideCount(Number(e.target.value))}
+              className={SELECT_CLASS}
+            >
+              {Array.from({ length: MAX_TEAMS - 1 }, (_, index) => index + 2).map((count) => (
+                <option key={count} value={count}>
+                  {count} teams
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Final score</Label>
+            <div className="grid grid-cols-2 gap-4">
+              {sideNames.map((name, index) => (
+                <div key={index} className="space-y-1">
+                  <Label htmlFor={`score-${index}`} className="text-xs text-muted-foreground">
+                    {name}
+                  </Label>
+                  <Input
+                    id={`score-${index}`}
+                    type="number"
+                    min="0"
+                    value={scores[index] ?? 0}
+                    onChange={(e) =>
+                      setScores(scores.map((score, i) => (i === index ? toCount(e.target.value) : score)))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_7rem_4rem_4rem] gap-2 text-xs text-muted-foreground">
+              <span>Player</span>
+              <span>Team</span>
+              <span>Goals</span>
+              <span>Assists</span>
+            </div>
+            {players.map((uid) => (
+              <div key={uid} className="grid grid-cols-[1fr_7rem_4rem_4rem] items-center gap-2">
+                <span className="text-sm truncate">{nameOf(uid)}</span>
+                <select
+                  aria-label={`Team of ${nameOf(uid)}`}
+                  value={sideOf[uid] ?? 0}
+                  onChange={(e) => setSideOf({ ...sideOf, [uid]: Number(e.target.value) })}
+                  className={SELECT_CLASS}
+                >
+                  {sideNames.map((name, index) => (
+                    <option key={index} value={index}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  aria-label={`Goals by ${nameOf(uid)}`}
+                  value={playerStats[uid]?.goals ?? 0}
+                  onChange={(e) => updatePlayerStats(uid, "goals", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  aria-label={`Assists by ${nameOf(uid)}`}
+                  value={playerStats[uid]?.assists ?? 0}
+                  onChange={(e) => updatePlayerStats(uid, "assists", e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              Save Result
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
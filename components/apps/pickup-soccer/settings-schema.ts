@@ -0,0 +1,34 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const pickupSoccerSettingsSchema = z.object({
+  defaultMaxPlayers: z.number().int().min(2).max(22),
+  defaultLocation: z.string(),
+  /** Saved venue new games start at; takes the place of defaultLocation when set */
+  defaultVenueId: z.string(),
+  emailNotifications: z.boolean(),
+  reminderHours: z.number().min(0).max(168),
+  showMyGamesOnly: z.boolean(),
+  autoJoin: z.boolean(),
+})
+
+export type PickupSoccerSettingsValues = z.infer<typeof pickupSoccerSettingsSchema>
+
+export const DEFAULT_PICKUP_SOCCER_SETTINGS: PickupSoccerSettingsValues = {
+  defaultMaxPlayers: 10,
+  defaultLocation: "",
+  defaultVenueId: "",
+  emailNotifications: true,
+  reminderHours: 24,
+  showMyGamesOnly: false,
+  autoJoin: false,
+}
+
+export const PICKUP_SOCCER_SETTINGS = defineAppSettings({
+  appId: "pickup-soccer",
+  collection: "pickupSoccerSettings",
+  storageKey: "pickup-soccer-settings",
+  schema: pickupSoccerSettingsSchema,
+  defaults: DEFAULT_PICKUP_SOCCER_SETTINGS,
+  version: 1,
+})
@@ -0,0 +1,144 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Trophy, User } from "lucide-react"
+import { getTodayDate } from "./recurrence"
+import { aggregateStats, getPoints, getSeasons, getWinRate, rankStandings } from "./stats"
+import type { Game } from "./types"
+
+interface StandingsProps {
+  games: Game[]
+  playerNames: Record<string, string>
+  /** Signed-in user, whose career stats are shown */
+  userId?: string
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+export function Standings({ games, playerNames, userId }: StandingsProps) {
+  const seasons = React.useMemo(() => getSeasons(games), [games])
+  const [season, setSeason] = React.useState("")
+  const activeSeason = seasons.includes(season) ? season : seasons[0] ?? ""
+  const today = getTodayDate()
+
+  const career = React.useMemo(
+    () => (userId ? aggregateStats(games, today).find((stats) => stats.uid === userId) : undefined),
+    [games, today, userId]
+  )
+  const standings = React.useMemo(
+    () => (activeSeason ? rankStandings(aggregateStats(games, today, activeSeason)) : []),
+    [games, today, activeSeason]
+  )
+
+  const careerTiles = career
+    ? [
+        { label: "Games played", value: career.played },
+        { label: "Win rate", value: formatPercent(getWinRate(career)) },
+        { label: "Goals", value: career.goals },
+        { label: "Assists", value: career.assists },
+        { label: "MVP awards", value: career.mvps },
+        { label: "Week streak", value: career.streak },
+      ]
+    : []
+
+  return (
+    <div className="space-y-4">
+      {userId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <User className="h-5 w-5" />
+              Your Stats
+            </CardTitle>
+            <CardDescription>All games with a recorded result. The streak counts weeks in a row you&apos;ve played.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {careerTiles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No results yet. Stats appear once an organiser records a game you played.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {careerTiles.map((tile) => (
+                  <div key={tile.label} className="rounded-lg border p-3">
+                    <div className="text-2xl font-bold">{tile.value}</div>
+                    <div className="text-xs text-muted-foreground">{tile.label}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5" />
+                Season Standings
+              </CardTitle>
+              <CardDescription>3 points for a win, 1 for a draw. Ties go to goals scored.</CardDescription>
+            </div>
+            {seasons.length > 0 && (
+              <select
+                value={activeSeason}
+                onChange={(e) => setSeason(e.target.value)}
+                aria-label="Season"
+                className="flex h-10 w-32 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                {seasons.map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {standings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No results recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-3 py-1 text-left font-medium">#</th>
+                    <th className="px-3 py-1 text-left font-medium">Player</th>
+                    <th className="px-3 py-1 text-right font-medium" title="Played">P</th>
+                    <th className="px-3 py-1 text-right font-medium" title="Won">W</th>
+                    <th className="px-3 py-1 text-right font-medium" title="Drawn">D</th>
+                    <th className="px-3 py-1 text-right font-medium" title="Lost">L</th>
+                    <th className="px-3 py-1 text-right font-medium" title="Goals">G</th>
+                    <th className="px-3 py-1 text-right font-medium" title="Assists">A</th>
+                    <th className="px-3 py-1 text-right font-medium" title="MVP awards">MVP</th>
+                    <th className="px-3 py-1 text-right font-medium">Pts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {standings.map((stats, index) => (
+                    <tr key={stats.uid} className={stats.uid === userId ? "font-semibold" : undefined}>
+                      <td className="px-3 py-1">{index + 1}</td>
+                      <td className="px-3 py-1">{playerNames[stats.uid] || "Unknown Player"}</td>
+                      <td className="px-3 py-1 text-right">{stats.played}</td>
+                      <td className="px-3 py-1 text-right">{stats.wins}</td>
+                      <td className="px-3 py-1 text-right">{stats.draws}</td>
+                      <td className="px-3 py-1 text-right">{stats.losses}</td>
+                      <td className="px-3 py-1 text-right">{stats.goals}</td>
+                      <td className="px-3 py-1 text-right">{stats.assists}</td>
+                      <td className="px-3 py-1 text-right">{stats.mvps}</td>
+                      <td className="px-3 py-1 text-right font-medium">{getPoints(stats)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
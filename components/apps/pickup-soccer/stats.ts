@@ -0,0 +1,190 @@
+// Results and stats. The organiser records a result once a game has been played: which side each
+// player was on, the score per side and everyone's goals and assists. Players then vote for an MVP.
+// Career stats and season standings are worked out from the results of all loaded games; a season
+// is a calendar year.
+
+import { toTeams, type Team } from "./teams"
+import type { Game } from "./types"
+
+export interface PlayerGameStats {
+  goals: number
+  assists: number
+}
+
+export interface GameResult {
+  /** Who played for whom; usually the saved lineup */
+  sides: Team[]
+  /** Goals per side, in the same order as `sides` */
+  scores: number[]
+  playerStats: Record<string, PlayerGameStats>
+}
+
+export type Outcome = "win" | "draw" | "loss"
+
+export interface PlayerStats {
+  uid: string
+  played: number
+  wins: number
+  draws: number
+  losses: number
+  goals: number
+  assists: number
+  mvps: number
+  /** Weeks in a row with at least one game, up to this week or last */
+  streak: number
+}
+
+// League points for the standings
+const POINTS: Record<Outcome, number> = { win: 3, draw: 1, loss: 0 }
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && value > 0 ? Math.floor(value) : 0
+}
+
+/** Reads a result from a game document; null if none has been recorded */
+export function toGameResult(data: unknown): GameResult | null {
+  if (!data || typeof data !== "object") return null
+  const value = data as { sides?: unknown; scores?: unknown; playerStats?: unknown }
+  const sides = toTeams(value.sides)
+  if (sides.length < 2) return null
+  const scores = sides.map((_, index) => toCount(Array.isArray(value.scores) ? value.scores[index] : 0))
+  const playerStats: Record<string, PlayerGameStats> = {}
+  if (value.playerStats && typeof value.playerStats === "object") {
+    Object.entries(value.playerStats).forEach(([uid, stats]) => {
+      playerStats[uid] = { goals: toCount(stats?.goals), assists: toCount(stats?.assists) }
+    })
+  }
+  return { sides, scores, playerStats }
+}
+
+export function toMvpVotes(data: unknown): Record<string, string> {
+  if (!data || typeof data !== "object") return {}
+  return Object.fromEntries(Object.entries(data).filter(([, vote]) => typeof vote === "string"))
+}
+
+/** True once the game's kick-off time has passed, when results and votes can be entered */
+export function hasGameStarted(game: Pick<Game, "date" | "time">, now: Date = new Date()): boolean {
+  if (!game.date) return false
+  return new Date(`${game.date}T${game.time || "00:00"}`) <= now
+}
+
+/** The player's result, or null if they weren't on a side */
+export function getOutcome(result: GameResult, uid: string): Outcome | null {
+  const side = result.sides.findIndex((team) => team.players.includes(uid))
+  if (side === -1) return null
+  const best = Math.max(...result.scores)
+  if (result.scores[side] < best) return "loss"
+  return result.scores.filter((score) => score === best).length > 1 ? "draw" : "win"
+}
+
+/** Players with the most votes; several if tied, none if nobody voted */
+export function getMvps(votes: Record<string, string>): string[] {
+  const counts = new Map<string, number>()
+  Object.values(votes).forEach((uid) => counts.set(uid, (counts.get(uid) ?? 0) + 1))
+  const most = Math.max(0, ...Array.from(counts.values()))
+  return Array.from(counts.entries())
+    .filter(([, count]) => most > 0 && count === most)
+    .map(([uid]) => uid)
+}
+
+/** e.g. "Bibs 5 – 3 Shirts", or one "Name score" per side for more than two */
+export function formatScore(result: GameResult): string {
+  if (result.sides.length === 2) {
+    return `${result.sides[0].name} ${result.scores[0]} – ${result.scores[1]} ${result.sides[1].name}`
+  }
+  return result.sides.map((side, index) => `${side.name} ${result.scores[index]}`).join(", ")
+}
+
+// Monday of the date's week, so streaks count calendar weeks
+function getWeekStart(date: string): number {
+  const [year, month, day] = date.split("-").map(Number)
+  const utc = Date.UTC(year, month - 1, day)
+  const weekday = (new Date(utc).getUTCDay() + 6) % 7
+  return utc - weekday * 86400000
+}
+
+const WEEK_MS = 7 * 86400000
+
+function getStreak(dates: string[], today: string): number {
+  const weeks = new Set(dates.map(getWeekStart))
+  // A streak is still alive if the player hasn't played yet this week
+  let week = getWeekStart(today)
+  if (!weeks.has(week)) week -= WEEK_MS
+  let streak = 0
+  while (weeks.has(week)) {
+    streak++
+    week -= WEEK_MS
+  }
+  return streak
+}
+
+export function getSeason(game: Pick<Game, "date">): string {
+  return game.date.slice(0, 4)
+}
+
+/** Seasons that have at least one result, newest first */
+export function getSeasons(games: Game[]): string[] {
+  const seasons = new Set(games.filter((game) => game.result).map(getSeason))
+  return Array.from(seasons).sort().reverse()
+}
+
+/**
+ * Totals per player over all games with a result, or only those in `season`. Streaks count played
+ * games up to `today`, including ones without a result.
+ */
+export function aggregateStats(games: Game[], today: string, season?: string): PlayerStats[] {
+  const stats = new Map<string, PlayerStats>()
+  const playedDates = new Map<string, string[]>()
+  const entry = (uid: string) => {
+    let current = stats.get(uid)
+    if (!current) {
+      current = { uid, played: 0, wins: 0, draws: 0, losses: 0, goals: 0, assists: 0, mvps: 0, streak: 0 }
+      stats.set(uid, current)
+    }
+    return current
+  }
+
+  games.forEach((game) => {
+    if (game.status === "cancelled" || (season && getSeason(game) !== season)) return
+    if (game.date <= today) {
+      game.players.forEach((uid) => playedDates.set(uid, [...(playedDates.get(uid) ?? []), game.date]))
+    }
+
+    const result = game.result
+    if (!result) return
+    result.sides.forEach((side) =>
+      side.players.forEach((uid) => {
+        const current = entry(uid)
+        const outcome = getOutcome(result, uid)
+        current.played++
+        if (outcome === "win") current.wins++
+        if (outcome === "draw") current.draws++
+        if (outcome === "loss") current.losses++
+        current.goals += result.playerStats[uid]?.goals ?? 0
+        current.assists += result.playerStats[uid]?.assists ?? 0
+      })
+    )
+    getMvps(game.mvpVotes).forEach((uid) => entry(uid).mvps++)
+  })
+
+  playedDates.forEach((dates, uid) => {
+    const streak = getStreak(dates, today)
+    if (streak > 0 || stats.has(uid)) entry(uid).streak = streak
+  })
+  return Array.from(stats.values())
+}
+
+export function getWinRate(stats: PlayerStats): number {
+  return stats.played === 0 ? 0 : stats.wins / stats.played
+}
+
+export function getPoints(stats: PlayerStats): number {
+  return stats.wins * POINTS.win + stats.draws * POINTS.draw + stats.losses * POINTS.loss
+}
+
+/** Standings order: points, then goals, then fewest games played */
+export function rankStandings(stats: PlayerStats[]): PlayerStats[] {
+  return stats
+    .filter((player) => player.played > 0)
+    .sort((a, b) => getPoints(b) - getPoints(a) || b.goals - a.goals || a.played - b.played)
+}
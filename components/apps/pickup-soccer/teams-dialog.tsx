@@ -0,0 +1,302 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Plus, X } from "lucide-react"
+import {
+  DEFAULT_RATING,
+  MAX_SKILL,
+  MAX_TEAMS,
+  MIN_SKILL,
+  POSITIONS,
+  TeamBalanceError,
+  balanceTeams,
+  getTeamSkill,
+  isSamePair,
+  type PlayerRating,
+  type Position,
+  type Team,
+  type TeamConstraints,
+} from "./teams"
+
+const SELECT_CLASS =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+const SKILLS = Array.from({ length: MAX_SKILL - MIN_SKILL + 1 }, (_, index) => MIN_SKILL + index)
+
+type PairKind = keyof TeamConstraints
+
+interface TeamsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  players: string[]
+  playerNames: Record<string, string>
+  initialRatings: Record<string, PlayerRating>
+  initialConstraints: TeamConstraints
+  /** Number of teams in the saved lineup, or 0 if there isn't one */
+  savedTeamCount: number
+  onSave: (teams: Team[], ratings: Record<string, PlayerRating>, constraints: TeamConstraints) => Promise<void>
+  /** Removes the saved lineup; only offered when there is one */
+  onClear?: () => Promise<void>
+}
+
+export function TeamsDialog({
+  open,
+  onOpenChange,
+  players,
+  playerNames,
+  initialRatings,
+  initialConstraints,
+  savedTeamCount,
+  onSave,
+  onClear,
+}: TeamsDialogProps) {
+  const [ratings, setRatings] = React.useState<Record<string, PlayerRating>>(initialRatings)
+  const [constraints, setConstraints] = React.useState<TeamConstraints>(initialConstraints)
+  const [teamCount, setTeamCount] = React.useState(2)
+  const [pair, setPair] = React.useState<{ a: string; b: string; kind: PairKind }>({ a: "", b: "", kind: "together" })
+  const [saving, setSaving] = React.useState(false)
+
+  // Start from the given values whenever the dialog opens
+  React.useEffect(() => {
+    if (!open) return
+    setRatings(initialRatings)
+    setConstraints(initialConstraints)
+    setTeamCount(Math.max(2, Math.min(savedTeamCount || 2, Math.floor(players.length / 2))))
+    setPair({ a: "", b: "", kind: "together" })
+  }, [open, initialRatings, initialConstraints, savedTeamCount, players.length])
+
+  const nameOf = (uid: string) => playerNames[uid] || "Unknown Player"
+  const maxTeams = Math.min(MAX_TEAMS, Math.floor(players.length / 2))
+
+  // The lineup is recalculated on every change, so what's shown is what gets saved
+  const lineup = React.useMemo(() => {
+    try {
+      return { teams: balanceTeams(players, ratings, teamCount, constraints), error: null }
+    } catch (error) {
+      if (error instanceof TeamBalanceError) return { teams: [], error: error.message }
+      throw error
+    }
+  }, [players, ratings, teamCount, constraints])
+
+  const updateRating = (uid: string, changes: Partial<PlayerRating>) => {
+    setRatings((current) => ({ ...current, [uid]: { ...(current[uid] ?? DEFAULT_RATING), ...changes } }))
+  }
+
+  const addPair = () => {
+    if (!pair.a || !pair.b || pair.a === pair.b) return
+    setConstraints((current) => ({
+      // A pair is either kept together or apart, never both
+      together: current.together.filter((existing) => !isSamePair(existing, pair.a, pair.b)),
+      apart: current.apart.filter((existing) => !isSamePair(existing, pair.a, pair.b)),
+      [pair.kind]: [
+        ...current[pair.kind].filter((existing) => !isSamePair(existing, pair.a, pair.b)),
+        { a: pair.a, b: pair.b },
+      ],
+    }))
+    setPair({ ...pair, a: "", b: "" })
+  }
+
+  const removePair = (kind: PairKind, index: number) => {
+    setConstraints((current) => ({ ...current, [kind]: current[kind].filter((_, i) => i !== index) }))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      await onSave(lineup.teams, ratings, constraints)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleClear = async () => {
+    if (!onClear) return
+    try {
+      setSaving(true)
+      await onClear()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Pairs naming players who have since left are kept but not shown
+  const visiblePairs = (kind: PairKind) =>
+    constraints[kind]
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => players.includes(item.a) && players.includes(item.b))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Make Teams</DialogTitle>
+          <DialogDescription>
+            Rate each player and the teams are balanced by skill, then by position. Everyone sees the saved lineup.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="teamCount">Number of teams</Label>
+            <select
+              id="teamCount"
+              value={teamCount}
+              onChange={(e) => setTeamCount(Number(e.target.value))}
+              className={SELECT_CLASS}
+            >
+              {Array.from({ length: Math.max(1, maxTeams - 1) }, (_, index) => index + 2).map((count) => (
+                <option key={count} value={count}>
+                  {count} teams
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Ratings</Label>
+            <div className="space-y-2">
+              {players.map((uid) => {
+                const rating = ratings[uid] ?? DEFAULT_RATING
+                return (
+                  <div key={uid} className="grid grid-cols-[1fr_5rem_8rem] items-center gap-2">
+                    <span className="text-sm truncate">{nameOf(uid)}</span>
+                    <select
+                      aria-label={`Skill of ${nameOf(uid)}`}
+                      value={rating.skill}
+                      onChange={(e) => updateRating(uid, { skill: Number(e.target.value) })}
+                      className={SELECT_CLASS}
+                    >
+                      {SKILLS.map((skill) => (
+                        <option key={skill} value={skill}>
+                          {skill}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label={`Position of ${nameOf(uid)}`}
+                      value={rating.position}
+                      onChange={(e) => updateRating(uid, { position: e.target.value as Position })}
+                      className={SELECT_CLASS}
+                    >
+                      {POSITIONS.map((position) => (
+                        <option key={position.value} value={position.value}>
+                          {position.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pairs</Label>
+            <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+              <select
+                aria-label="First player"
+                value={pair.a}
+                onChange={(e) => setPair({ ...pair, a: e.target.value })}
+                className={SELECT_CLASS}
+              >
+                <option value="">Player…</option>
+                {players.map((uid) => (
+                  <option key={uid} value={uid}>
+                    {nameOf(uid)}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Pair rule"
+                value={pair.kind}
+                onChange={(e) => setPair({ ...pair, kind: e.target.value as PairKind })}
+                className={SELECT_CLASS}
+              >
+                <option value="together">keep together with</option>
+                <option value="apart">keep apart from</option>
+              </select>
+              <select
+                aria-label="Second player"
+                value={pair.b}
+                onChange={(e) => setPair({ ...pair, b: e.target.value })}
+                className={SELECT_CLASS}
+              >
+                <option value="">Player…</option>
+                {players
+                  .filter((uid) => uid !== pair.a)
+                  .map((uid) => (
+                    <option key={uid} value={uid}>
+                      {nameOf(uid)}
+                    </option>
+                  ))}
+              </select>
+              <Button type="button" variant="outline" size="icon" onClick={addPair} disabled={!pair.a || !pair.b}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {(["together", "apart"] as const).map((kind) =>
+                visiblePairs(kind).map(({ item, index }) => (
+                  <Badge key={`${kind}-${item.a}-${item.b}`} variant="secondary" className="gap-1">
+                    {nameOf(item.a)} {kind === "together" ? "with" : "not with"} {nameOf(item.b)}
+                    <button
+                      type="button"
+                      aria-label="Remove pair"
+                      onClick={() => removePair(kind, index)}
+                      className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lineup</Label>
+            {lineup.error ? (
+              <p className="text-sm text-destructive">{lineup.error}</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {lineup.teams.map((team) => (
+                  <div key={team.name} className="rounded-md border p-3">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium">{team.name}</span>
+                      <Badge variant="outline">Skill {getTeamSkill(team, ratings)}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {team.players.map((uid) => (
+                        <Badge key={uid} variant="secondary" className="text-xs">
+                          {nameOf(uid)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            {onClear && (
+              <Button type="button" variant="ghost" className="mr-auto" onClick={handleClear} disabled={saving}>
+                Clear Lineup
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving || lineup.teams.length === 0}>
+              Save Lineup
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
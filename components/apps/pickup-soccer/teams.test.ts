@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest"
+import {
+  EMPTY_CONSTRAINTS,
+  TeamBalanceError,
+  balanceTeams,
+  getTeamSkill,
+  type PlayerRating,
+  type Position,
+  type Team,
+} from "./teams"
+
+function setup(skills: number[], positions: Position[] = []) {
+  const players = skills.map((_, index) => `p${index}`)
+  const ratings: Record<string, PlayerRating> = Object.fromEntries(
+    skills.map((skill, index) => [`p${index}`, { skill, position: positions[index] ?? "any" }])
+  )
+  return { players, ratings }
+}
+
+function skillGap(teams: Team[], ratings: Record<string, PlayerRating>) {
+  const skills = teams.map((team) => getTeamSkill(team, ratings))
+  return Math.max(...skills) - Math.min(...skills)
+}
+
+const teamOf = (teams: Team[], uid: string) => teams.findIndex((team) => team.players.includes(uid))
+
+describe("balanceTeams", () => {
+  it("finds the most even split", () => {
+    const { players, ratings } = setup([5, 3, 3, 3, 5, 2, 3])
+    const teams = balanceTeams(players, ratings, 2, EMPTY_CONSTRAINTS)
+    expect(skillGap(teams, ratings)).toBe(0)
+    expect(teams.map((team) => team.players.length).sort()).toEqual([3, 4])
+  })
+
+  it("keeps team sizes within one of each other", () => {
+    const { players, ratings } = setup([5, 5, 5, 5, 1, 1, 1, 1, 1, 1, 1])
+    const teams = balanceTeams(players, ratings, 3, EMPTY_CONSTRAINTS)
+    expect(teams.map((team) => team.players.length).sort()).toEqual([3, 4, 4])
+    expect(teams.flatMap((team) => team.players).sort()).toEqual([...players].sort())
+  })
+
+  it("splits players when a valid split needs a less greedy placement", () => {
+    const { players, ratings } = setup([4, 3, 5, 1, 5, 4])
+    const teams = balanceTeams(players, ratings, 2, {
+      together: [{ a: "p0", b: "p2" }],
+      apart: [
+        { a: "p0", b: "p1" },
+        { a: "p2", b: "p3" },
+      ],
+    })
+    expect(teamOf(teams, "p0")).toBe(teamOf(teams, "p2"))
+    expect(teamOf(teams, "p0")).not.toBe(teamOf(teams, "p1"))
+    expect(teamOf(teams, "p2")).not.toBe(teamOf(teams, "p3"))
+    // p0 and p2 can only be joined by p4 or p5; p5 leaves the smaller gap
+    expect(skillGap(teams, ratings)).toBe(4)
+  })
+
+  it("spreads positions across sides of equal skill", () => {
+    const { players, ratings } = setup([3, 3, 3, 3], ["goalkeeper", "goalkeeper", "forward", "forward"])
+    const teams = balanceTeams(players, ratings, 2, EMPTY_CONSTRAINTS)
+    expect(teamOf(teams, "p0")).not.toBe(teamOf(teams, "p1"))
+    expect(teamOf(teams, "p2")).not.toBe(teamOf(teams, "p3"))
+  })
+
+  it("throws when the constraints can't be met", () => {
+    const { players, ratings } = setup([3, 3, 3, 3])
+    expect(() =>
+      balanceTeams(players, ratings, 2, { together: [{ a: "p0", b: "p1" }], apart: [{ a: "p1", b: "p0" }] })
+    ).toThrow(TeamBalanceError)
+    expect(() =>
+      balanceTeams(players, ratings, 2, {
+        together: [
+          { a: "p0", b: "p1" },
+          { a: "p1", b: "p2" },
+        ],
+        apart: [],
+      })
+    ).toThrow("A keep-together group is bigger than a team")
+    expect(() =>
+      balanceTeams(players, ratings, 2, {
+        together: [],
+        apart: [
+          { a: "p0", b: "p1" },
+          { a: "p1", b: "p2" },
+          { a: "p0", b: "p2" },
+        ],
+      })
+    ).toThrow("More than 2 players are all set to be kept apart from each other")
+    // No three are all apart, but a ring of five can't go on two sides
+    const ring = [0, 1, 2, 3, 4].map((index) => ({ a: `p${index}`, b: `p${(index + 1) % 5}` }))
+    expect(() => balanceTeams([...players, "p4", "p5"], ratings, 2, { together: [], apart: ring })).toThrow(
+      "Couldn't find a split that keeps every keep-apart pair apart"
+    )
+  })
+
+  it("gives up quickly on impossible constraints in a full game", () => {
+    const { players, ratings } = setup(Array.from({ length: 21 }, (_, index) => (index % 5) + 1))
+    const pairs = (uids: string[]) => uids.flatMap((a, index) => uids.slice(index + 1).map((b) => ({ a, b })))
+    const ring = [0, 1, 2, 3, 4].map((index) => ({ a: `p${index}`, b: `p${(index + 1) % 5}` }))
+
+    const started = Date.now()
+    expect(() =>
+      balanceTeams(players, ratings, 3, { together: [], apart: pairs(["p0", "p1", "p2", "p3"]) })
+    ).toThrow(TeamBalanceError)
+    expect(() => balanceTeams(players, ratings, 2, { together: [], apart: ring })).toThrow(TeamBalanceError)
+    expect(Date.now() - started).toBeLessThan(2000)
+  })
+
+  it("handles a full game quickly", () => {
+    const skills = [5, 4, 4, 3, 3, 3, 2, 2, 1, 5, 4, 3, 3, 2, 1, 1, 4, 5, 2, 3, 4, 3]
+    const positions: Position[] = ["goalkeeper", "goalkeeper", "goalkeeper", "defender", "forward", "midfielder"]
+    const { players, ratings } = setup(
+      skills,
+      skills.map((_, index) => positions[index % positions.length])
+    )
+    const started = Date.now()
+    const teams = balanceTeams(players, ratings, 4, {
+      together: [{ a: "p0", b: "p9" }],
+      apart: [{ a: "p1", b: "p2" }],
+    })
+    expect(Date.now() - started).toBeLessThan(2000)
+    expect(skillGap(teams, ratings)).toBeLessThanOrEqual(1)
+  })
+})
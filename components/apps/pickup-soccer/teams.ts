@@ -0,0 +1,282 @@
+// Team balancing. The organiser rates each player's skill and position, then the players are split
+// into sides whose sizes differ by at most one. Sides are compared by total skill first and by how
+// evenly positions are spread second, so two sides of equal skill don't both end up without a
+// keeper. "Keep together" pairs are placed as one unit and "keep apart" pairs never share a side.
+
+export type Position = "any" | "goalkeeper" | "defender" | "midfielder" | "forward"
+
+export const POSITIONS: { value: Position; label: string }[] = [
+  { value: "any", label: "Any" },
+  { value: "goalkeeper", label: "Goalkeeper" },
+  { value: "defender", label: "Defender" },
+  { value: "midfielder", label: "Midfielder" },
+  { value: "forward", label: "Forward" },
+]
+
+export const MIN_SKILL = 1
+export const MAX_SKILL = 5
+
+export interface PlayerRating {
+  /** MIN_SKILL to MAX_SKILL */
+  skill: number
+  position: Position
+}
+
+export const DEFAULT_RATING: PlayerRating = { skill: 3, position: "any" }
+
+// Firestore can't store nested arrays, so pairs and teams are maps
+export interface PlayerPair {
+  a: string
+  b: string
+}
+
+export interface TeamConstraints {
+  together: PlayerPair[]
+  apart: PlayerPair[]
+}
+
+export const EMPTY_CONSTRAINTS: TeamConstraints = { together: [], apart: [] }
+
+export interface Team {
+  name: string
+  players: string[]
+}
+
+export const TEAM_NAMES = ["Bibs", "Shirts", "Team 3", "Team 4"]
+export const MAX_TEAMS = TEAM_NAMES.length
+
+/** Thrown when the players can't be split under the given constraints; the message is safe to show */
+export class TeamBalanceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TeamBalanceError"
+  }
+}
+
+/** Reads a rating from a game document, falling back to the defaults for anything invalid */
+export function toPlayerRating(data: unknown): PlayerRating {
+  const value = (data ?? {}) as { skill?: unknown; position?: unknown }
+  const skill = typeof value.skill === "number" ? Math.round(value.skill) : DEFAULT_RATING.skill
+  const position = POSITIONS.some((option) => option.value === value.position)
+    ? (value.position as Position)
+    : DEFAULT_RATING.position
+  return { skill: Math.min(MAX_SKILL, Math.max(MIN_SKILL, skill)), position }
+}
+
+export function toRatings(data: unknown): Record<string, PlayerRating> {
+  if (!data || typeof data !== "object") return {}
+  return Object.fromEntries(Object.entries(data).map(([uid, rating]) => [uid, toPlayerRating(rating)]))
+}
+
+function toPairs(data: unknown): PlayerPair[] {
+  if (!Array.isArray(data)) return []
+  return data.filter(
+    (pair): pair is PlayerPair => typeof pair?.a === "string" && typeof pair?.b === "string" && pair.a !== pair.b
+  )
+}
+
+export function toTeamConstraints(data: unknown): TeamConstraints {
+  const value = (data ?? {}) as { together?: unknown; apart?: unknown }
+  return { together: toPairs(value.together), apart: toPairs(value.apart) }
+}
+
+export function toTeams(data: unknown): Team[] {
+  if (!Array.isArray(data)) return []
+  return data
+    .filter((team) => typeof team?.name === "string" && Array.isArray(team?.players))
+    .map((team) => ({ name: team.name, players: team.players.filter((uid: unknown) => typeof uid === "string") }))
+}
+
+export function isSamePair(pair: PlayerPair, a: string, b: string): boolean {
+  return (pair.a === a && pair.b === b) || (pair.a === b && pair.b === a)
+}
+
+/** True when the saved teams no longer match the game's players, e.g. after someone left */
+export function isLineupStale(teams: Team[], players: string[]): boolean {
+  const assigned = teams.flatMap((team) => team.players)
+  return assigned.length !== players.length || assigned.some((uid) => !players.includes(uid))
+}
+
+export function getTeamSkill(team: Team, ratings: Record<string, PlayerRating>): number {
+  return team.players.reduce((total, uid) => total + (ratings[uid] ?? DEFAULT_RATING).skill, 0)
+}
+
+// Positions spread across sides; "any" players fit anywhere
+const SPREAD_POSITIONS = POSITIONS.map(({ value }) => value).filter((value) => value !== "any")
+
+// Players who must stay together, moved around as one
+interface Unit {
+  players: string[]
+  skill: number
+  /** How many of the players play each of SPREAD_POSITIONS */
+  positions: number[]
+}
+
+// Joins "keep together" pairs into units; pairs naming someone who isn't playing are ignored
+function buildUnits(players: string[], ratings: Record<string, PlayerRating>, together: PlayerPair[]): Unit[] {
+  const parent = new Map(players.map((uid) => [uid, uid]))
+  const find = (uid: string): string => {
+    const next = parent.get(uid)!
+    return next === uid ? uid : find(next)
+  }
+  together.forEach((pair) => {
+    if (parent.has(pair.a) && parent.has(pair.b)) parent.set(find(pair.a), find(pair.b))
+  })
+
+  const groups = new Map<string, string[]>()
+  players.forEach((uid) => {
+    const root = find(uid)
+    groups.set(root, [...(groups.get(root) ?? []), uid])
+  })
+  return Array.from(groups.values()).map((group) => ({
+    players: group,
+    skill: group.reduce((total, uid) => total + (ratings[uid] ?? DEFAULT_RATING).skill, 0),
+    positions: SPREAD_POSITIONS.map(
+      (position) => group.filter((uid) => (ratings[uid] ?? DEFAULT_RATING).position === position).length
+    ),
+  }))
+}
+
+function hasConflict(players: string[], unit: Unit, apart: PlayerPair[]): boolean {
+  return apart.some((pair) =>
+    unit.players.some((uid) => players.some((other) => isSamePair(pair, uid, other)))
+  )
+}
+
+function spread(values: number[]): number {
+  return Math.max(...values) - Math.min(...values)
+}
+
+/** Lower is better: [skill spread, position spread], from each side's skill and position counts */
+function scoreSides(skills: number[], positions: number[][]): [number, number] {
+  const positionSpread = SPREAD_POSITIONS.reduce(
+    (total, _, position) => total + spread(positions.map((counts) => counts[position])),
+    0
+  )
+  return [spread(skills), positionSpread]
+}
+
+function isBetter(score: [number, number], best: [number, number]): boolean {
+  return score[0] < best[0] || (score[0] === best[0] && score[1] < best[1])
+}
+
+// Partial line-ups tried in all; enough to cover every split of a usual pickup game. Past it the
+// best line-up found so far is used, or the constraints are treated as impossible if there's none.
+const SEARCH_LIMIT = 50_000
+
+/**
+ * Splits `players` into `teamCount` sides as evenly as possible. Units are assigned strongest
+ * first in a branch-and-bound search: each is tried on every side with room, weakest side first,
+ * and branches that can't beat the best line-up so far are cut. Throws a TeamBalanceError if no
+ * line-up meets the constraints, or none turns up within SEARCH_LIMIT.
+ */
+export function balanceTeams(
+  players: string[],
+  ratings: Record<string, PlayerRating>,
+  teamCount: number,
+  constraints: TeamConstraints
+): Team[] {
+  if (teamCount < 2 || teamCount > MAX_TEAMS) throw new TeamBalanceError(`Pick between 2 and ${MAX_TEAMS} teams`)
+  if (players.length < teamCount) throw new TeamBalanceError(`Need at least ${teamCount} players for ${teamCount} teams`)
+
+  const apart = constraints.apart.filter((pair) => players.includes(pair.a) && players.includes(pair.b))
+  const units = buildUnits(players, ratings, constraints.together).sort(
+    (a, b) => b.players.length - a.players.length || b.skill - a.skill
+  )
+  const split = units.find((unit) => hasConflict(unit.players, unit, apart))
+  if (split) throw new TeamBalanceError("Some players are set to be kept both together and apart")
+
+  // Sides take either `smaller` or `smaller + 1` players, and only `larger` of them take the extra one
+  const smaller = Math.floor(players.length / teamCount)
+  const larger = players.length % teamCount
+  const largest = larger > 0 ? smaller + 1 : smaller
+  if (units.some((unit) => unit.players.length > largest)) {
+    throw new TeamBalanceError("A keep-together group is bigger than a team")
+  }
+
+  const conflicts = units.map((unit) => units.map((other) => other !== unit && hasConflict(other.players, unit, apart)))
+  // Units that all have to be kept apart from each other each need their own side. Finding more of
+  // them than there are sides is quick, whereas the search would try every line-up before giving up.
+  const hasApartGroup = (size: number, candidates: number[]): boolean =>
+    size === 0 ||
+    candidates.some((unit, position) =>
+      hasApartGroup(size - 1, candidates.slice(position + 1).filter((other) => conflicts[unit][other]))
+    )
+  if (hasApartGroup(teamCount + 1, units.map((_, index) => index))) {
+    throw new TeamBalanceError(`More than ${teamCount} players are all set to be kept apart from each other`)
+  }
+
+  // Skill of the units from each index on, for bounding
+  const remaining: number[] = new Array(units.length + 1).fill(0)
+  for (let index = units.length - 1; index >= 0; index--) remaining[index] = remaining[index + 1] + units[index].skill
+  const average = remaining[0] / teamCount
+
+  // No line-up can do better than this, so the search stops as soon as it finds one
+  const idealScore: [number, number] = [
+    remaining[0] % teamCount === 0 ? 0 : 1,
+    SPREAD_POSITIONS.filter((_, position) => units.reduce((total, unit) => total + unit.positions[position], 0) % teamCount)
+      .length,
+  ]
+
+  const sides: number[][] = Array.from({ length: teamCount }, () => [])
+  const sizes: number[] = sides.map(() => 0)
+  const skills: number[] = sides.map(() => 0)
+  const positions: number[][] = sides.map(() => SPREAD_POSITIONS.map(() => 0))
+  let best = null as { sides: number[][]; score: [number, number] } | null
+  let explored = 0
+
+  // Lowest skill gap any line-up completing this one can reach
+  const gapBound = (index: number) => {
+    const highest = Math.max(average, ...skills)
+    const lowest = Math.min(average, Math.min(...skills) + remaining[index])
+    return Math.ceil(highest - lowest - 1e-9)
+  }
+
+  // Assigns units[index] onwards; returns true to stop searching
+  const assign = (index: number): boolean => {
+    if (++explored > SEARCH_LIMIT) return true
+    if (index === units.length) {
+      const score = scoreSides(skills, positions)
+      if (!best || isBetter(score, best.score)) best = { sides: sides.map((side) => [...side]), score }
+      return !isBetter(idealScore, best.score)
+    }
+    if (best && gapBound(index) > best.score[0]) return false
+
+    const unit = units[index]
+    const oversized = sizes.filter((size) => size > smaller).length
+    const order = sides.map((_, side) => side).sort((a, b) => skills[a] - skills[b] || sizes[a] - sizes[b])
+    let triedEmpty = false
+    for (const side of order) {
+      const size = sizes[side] + unit.players.length
+      if (size > largest) continue
+      // Going over `smaller` uses up one of the extra places unless this side already has it
+      if (size > smaller && sizes[side] <= smaller && oversized >= larger) continue
+      // Empty sides are interchangeable, so starting one is only tried once
+      if (sizes[side] === 0) {
+        if (triedEmpty) continue
+        triedEmpty = true
+      }
+      if (sides[side].some((other) => conflicts[index][other])) continue
+
+      const move = (direction: 1 | -1) => {
+        sizes[side] += direction * unit.players.length
+        skills[side] += direction * unit.skill
+        unit.positions.forEach((count, position) => (positions[side][position] += direction * count))
+      }
+      sides[side].push(index)
+      move(1)
+      const stop = assign(index + 1)
+      sides[side].pop()
+      move(-1)
+      if (stop) return true
+    }
+    return false
+  }
+
+  assign(0)
+  if (!best) throw new TeamBalanceError("Couldn't find a split that keeps every keep-apart pair apart")
+  return best.sides.map((side, index) => ({
+    name: TEAM_NAMES[index],
+    players: side.flatMap((unitIndex) => units[unitIndex].players),
+  }))
+}
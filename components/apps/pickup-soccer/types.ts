@@ -0,0 +1,71 @@
+import type { Timestamp } from "firebase/firestore"
+import type { GeoPoint } from "@/lib/geo"
+import type { RecurrenceRule } from "./recurrence"
+import type { GameResult } from "./stats"
+import type { PlayerRating, Team, TeamConstraints } from "./teams"
+
+export type GameStatus = "scheduled" | "cancelled"
+
+// What happens to a series' regulars when an occurrence is created
+export type RegularsMode = "join" | "invite"
+
+export interface Game {
+  id: string
+  title: string
+  description: string
+  date: string
+  time: string
+  location: string
+  /** Picked on the map; null for games from before the picker or not pinned */
+  point: GeoPoint | null
+  maxPlayers: number
+  /** At most maxPlayers */
+  players: string[]
+  /** Players waiting for a spot, in order (see waitlist.ts) */
+  waitlist: string[]
+  /** Regulars invited to an occurrence who haven't joined */
+  invited: string[]
+  status: GameStatus
+  /** Set on occurrences of a GameSeries */
+  seriesId?: string
+  /** Edited on its own, so series-wide edits leave it alone */
+  detached?: boolean
+  /** The organiser's ratings of this game's players, used to make teams */
+  ratings: Record<string, PlayerRating>
+  teamConstraints: TeamConstraints
+  /** Saved lineup, empty until the organiser makes teams (see teams.ts) */
+  teams: Team[]
+  /** Recorded by the organiser after the game (see stats.ts) */
+  result: GameResult | null
+  /** Voter's UID to the UID they voted MVP */
+  mvpVotes: Record<string, string>
+  createdBy: string
+  createdByName: string
+  createdAt: Timestamp
+  updatedAt: Timestamp
+}
+
+export interface GameSeries {
+  id: string
+  title: string
+  description: string
+  time: string
+  location: string
+  point: GeoPoint | null
+  maxPlayers: number
+  rule: RecurrenceRule
+  /** First possible occurrence, YYYY-MM-DD */
+  startDate: string
+  /** Last possible occurrence, YYYY-MM-DD, or empty for no end */
+  endDate: string
+  regulars: string[]
+  regularsMode: RegularsMode
+  createdBy: string
+  createdAt: Timestamp
+  updatedAt: Timestamp
+}
+
+export interface PlayerInfo {
+  uid: string
+  name: string
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import * as React from "react"
+import { addDoc, collection, deleteDoc, doc, onSnapshot, orderBy, query, serverTimestamp } from "firebase/firestore"
+import { toast } from "sonner"
+import { useAuth } from "@/components/auth/auth-provider"
+import { db } from "@/lib/firebase/config"
+import { venueSchema, type Venue, type VenueFields } from "./location"
+
+export const VENUES_COLLECTION = "pickupSoccerVenues"
+
+/**
+ * The signed-in user's saved venues from /users/{uid}/pickupSoccerVenues, by name, kept live with
+ * onSnapshot. Documents that don't match the venue schema are skipped.
+ */
+export function useVenues() {
+  const { user, loading: authLoading } = useAuth()
+  const [venues, setVenues] = React.useState<Venue[]>([])
+
+  React.useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      setVenues([])
+      return
+    }
+
+    const venuesQuery = query(collection(db, "users", user.uid, VENUES_COLLECTION), orderBy("name", "asc"))
+    const unsub = onSnapshot(
+      venuesQuery,
+      (snapshot) => {
+        const loaded: Venue[] = []
+        snapshot.forEach((venueDoc) => {
+          const parsed = venueSchema.safeParse(venueDoc.data())
+          if (!parsed.success) {
+            console.error(`Skipping invalid venue ${venueDoc.id}:`, parsed.error)
+            return
+          }
+          loaded.push({ ...parsed.data, id: venueDoc.id })
+        })
+        setVenues(loaded)
+      },
+      (error) => {
+        console.error("Failed to load venues:", error)
+        if (error.code !== "permission-denied") {
+          toast.error("Failed to load saved venues")
+        }
+      }
+    )
+
+    return () => unsub()
+  }, [user, authLoading])
+
+  /** Saves a venue; resolves to its ID */
+  const saveVenue = React.useCallback(
+    async (venue: VenueFields) => {
+      if (!user) throw new Error("You must be signed in to save venues")
+      const created = await addDoc(collection(db, "users", user.uid, VENUES_COLLECTION), {
+        ...venueSchema.parse(venue),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+      return created.id
+    },
+    [user]
+  )
+
+  const deleteVenue = React.useCallback(
+    async (venueId: string) => {
+      if (!user) return
+      await deleteDoc(doc(db, "users", user.uid, VENUES_COLLECTION, venueId))
+    },
+    [user]
+  )
+
+  return { venues, saveVenue, deleteVenue }
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import * as React from "react"
+import maplibregl from "maplibre-gl"
+import "maplibre-gl/dist/maplibre-gl.css"
+import { useTheme } from "next-themes"
+import { createMapStyle, type BaseMapStyle } from "@/lib/map-style"
+import type { GeoPoint } from "@/lib/geo"
+import { DEFAULT_MAP_CENTER } from "./location"
+
+export interface MapMarker {
+  id: string
+  point: GeoPoint
+  /** Shown in a popup when the marker is clicked */
+  label: string
+}
+
+interface VenueMapProps {
+  markers?: MapMarker[]
+  /** The picked point, shown as a pin that can be dragged while `onPick` is set */
+  pin?: GeoPoint | null
+  /** Called with the clicked or dragged-to point; without it the map is view-only */
+  onPick?: (point: GeoPoint) => void
+  onMarkerClick?: (id: string) => void
+}
+
+const PIN_COLOR = "#16a34a"
+const MARKER_COLOR = "#2563eb"
+
+// Loaded with React.lazy, like the STL Monitor map, so maplibre-gl is only fetched when a map is shown
+export default function VenueMap({ markers = [], pin = null, onPick, onMarkerClick }: VenueMapProps) {
+  const { resolvedTheme } = useTheme()
+  const mapStyle: BaseMapStyle = resolvedTheme === "dark" ? "dark" : "light"
+  const mapContainer = React.useRef<HTMLDivElement>(null)
+  const map = React.useRef<maplibregl.Map | null>(null)
+  const pinMarker = React.useRef<maplibregl.Marker | null>(null)
+  const appliedStyle = React.useRef<BaseMapStyle>(mapStyle)
+  const fitted = React.useRef(false)
+  // Latest callbacks, so the map's own event handlers don't need re-binding
+  const onPickRef = React.useRef(onPick)
+  const onMarkerClickRef = React.useRef(onMarkerClick)
+
+  React.useEffect(() => {
+    onPickRef.current = onPick
+    onMarkerClickRef.current = onMarkerClick
+  }, [onPick, onMarkerClick])
+
+  // Initialize map
+  React.useEffect(() => {
+    if (!mapContainer.current || map.current) return
+
+    const instance = new maplibregl.Map({
+      container: mapContainer.current,
+      style: createMapStyle(appliedStyle.current),
+      center: [DEFAULT_MAP_CENTER.lng, DEFAULT_MAP_CENTER.lat],
+      zoom: 11,
+    })
+    map.current = instance
+    instance.addControl(new maplibregl.NavigationControl(), "top-left")
+
+    // Trigger resize after map loads; dialogs animate in, so the container starts out small
+    instance.on("load", () => {
+      setTimeout(() => instance.resize(), 100)
+    })
+
+    instance.on("click", (e) => {
+      onPickRef.current?.({ lat: e.lngLat.lat, lng: e.lngLat.lng })
+    })
+
+    return () => {
+      instance.remove()
+      map.current = null
+      pinMarker.current = null
+    }
+  }, [])
+
+  // Follow the site theme; markers are DOM elements, so they survive the style change
+  React.useEffect(() => {
+    if (!map.current || appliedStyle.current === mapStyle) return
+    appliedStyle.current = mapStyle
+    map.current.setStyle(createMapStyle(mapStyle))
+  }, [mapStyle])
+
+  // Place or move the pin, and bring it into view
+  React.useEffect(() => {
+    const instance = map.current
+    if (!instance) return
+
+    if (!pin) {
+      pinMarker.current?.remove()
+      pinMarker.current = null
+      return
+    }
+
+    if (!pinMarker.current) {
+      const marker = new maplibregl.Marker({ color: PIN_COLOR, draggable: Boolean(onPickRef.current) })
+      marker.on("dragend", () => {
+        const { lat, lng } = marker.getLngLat()
+        onPickRef.current?.({ lat, lng })
+      })
+      pinMarker.current = marker.setLngLat([pin.lng, pin.lat]).addTo(instance)
+    } else {
+      pinMarker.current.setLngLat([pin.lng, pin.lat])
+    }
+    instance.easeTo({ center: [pin.lng, pin.lat], zoom: Math.max(instance.getZoom(), 14) })
+  }, [pin])
+
+  // Game markers. The map fits itself to the first set; later updates leave the view alone.
+  React.useEffect(() => {
+    const instance = map.current
+    if (!instance) return
+
+    const added = markers.map((item) => {
+      const marker = new maplibregl.Marker({ color: MARKER_COLOR })
+        .setLngLat([item.point.lng, item.point.lat])
+        .setPopup(new maplibregl.Popup({ offset: 24 }).setText(item.label))
+        .addTo(instance)
+      marker.getElement().addEventListener("click", () => onMarkerClickRef.current?.(item.id))
+      return marker
+    })
+
+    if (!fitted.current && markers.length > 0) {
+      fitted.current = true
+      const bounds = new maplibregl.LngLatBounds()
+      markers.forEach((item) => bounds.extend([item.point.lng, item.point.lat]))
+      instance.fitBounds(bounds, { padding: 48, maxZoom: 14, duration: 0 })
+    }
+
+    return () => added.forEach((marker) => marker.remove())
+  }, [markers])
+
+  return <div ref={mapContainer} className="absolute inset-0" />
+}
@@ -0,0 +1,66 @@
+// Waitlists. A game's `players` never grows past `maxPlayers`; anyone joining after that goes on the
+// `waitlist`, first come first served, and moves up when a spot opens. These helpers compute the
+// new lists; callers write them inside a Firestore transaction so two people can't take the same
+// spot. The join/leave clause for games in firestore.rules allows exactly these changes.
+
+export interface Roster {
+  players: string[]
+  waitlist: string[]
+}
+
+export type JoinResult = "joined" | "waitlisted"
+
+/** Reads the lists from a game document, treating missing fields as empty */
+export function toRoster(data: { players?: unknown; waitlist?: unknown }): Roster {
+  return {
+    players: Array.isArray(data.players) ? data.players : [],
+    waitlist: Array.isArray(data.waitlist) ? data.waitlist : [],
+  }
+}
+
+/** Adds `uid` as a player if there's room, otherwise to the end of the waitlist; null if already in */
+export function joinRoster(roster: Roster, uid: string, maxPlayers: number): { roster: Roster; result: JoinResult } | null {
+  if (roster.players.includes(uid) || roster.waitlist.includes(uid)) return null
+  if (roster.players.length < maxPlayers) {
+    return { roster: { ...roster, players: [...roster.players, uid] }, result: "joined" }
+  }
+  return { roster: { ...roster, waitlist: [...roster.waitlist, uid] }, result: "waitlisted" }
+}
+
+/**
+ * Removes `uid` from the players or the waitlist. A player leaving frees a spot for the first
+ * waitlisted player, who is returned as `promoted`; null if nothing changed.
+ */
+export function leaveRoster(
+  roster: Roster,
+  uid: string,
+  maxPlayers: number
+): { roster: Roster; promoted: string | null } | null {
+  if (roster.waitlist.includes(uid)) {
+    return { roster: { ...roster, waitlist: roster.waitlist.filter((id) => id !== uid) }, promoted: null }
+  }
+  if (!roster.players.includes(uid)) return null
+
+  const players = roster.players.filter((id) => id !== uid)
+  const [next, ...waitlist] = roster.waitlist
+  if (!next || players.length >= maxPlayers) {
+    return { roster: { ...roster, players }, promoted: null }
+  }
+  return { roster: { players: [...players, next], waitlist }, promoted: next }
+}
+
+/** Promotes as many waitlisted players as fit, e.g. after the organiser raises `maxPlayers` */
+export function fillFromWaitlist(roster: Roster, maxPlayers: number): { roster: Roster; promoted: string[] } {
+  const openSpots = Math.max(0, maxPlayers - roster.players.length)
+  const promoted = roster.waitlist.slice(0, openSpots)
+  return {
+    roster: { players: [...roster.players, ...promoted], waitlist: roster.waitlist.slice(promoted.length) },
+    promoted,
+  }
+}
+
+/** 1-based position of `uid` on the waitlist, or null */
+export function getWaitlistPosition(roster: Roster, uid: string): number | null {
+  const index = roster.waitlist.indexOf(uid)
+  return index === -1 ? null : index + 1
+}
@@ -0,0 +1,23 @@
+import { Gift } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { SECRET_SANTA_SETTINGS } from "./settings-schema"
+import { SecretSantaMain } from "./secret-santa-main"
+import { SecretSantaSettings } from "./secret-santa-settings"
+
+export const secretSantaManifest = defineAppManifest({
+  appId: "secret-santa",
+  name: "Secret Santa",
+  description: "Organize and manage Secret Santa gift exchanges",
+  category: "Social",
+  tags: ["gifts", "santa", "exchange", "holiday", "social", "calendar"],
+  status: "live",
+  icon: Gift,
+  accent: "from-red-500 to-pink-500",
+  Main: SecretSantaMain,
+  Settings: SecretSantaSettings,
+  settings: SECRET_SANTA_SETTINGS,
+  collections: [
+    { name: "secretSantaSettings", scope: "user", docParam: "settingsId", description: "Secret Santa settings subcollection" },
+    { name: "secretSantaExchanges", scope: "shared", docParam: "exchangeId", description: "Secret Santa Exchanges collection" },
+  ],
+})
@@ -23,28 +23,39 @@ import {
   Eye,
   EyeOff,
   Edit2,
-  Move
+  Move,
+  CalendarPlus
 } from "lucide-react"
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { useUserNames } from "@/components/apps/use-user-names"
 import { db } from "@/lib/firebase/config"
+import { buildExchangeEvent } from "@/lib/calendar-events"
+import { downloadIcsEvents, toIcsFileName } from "@/lib/ics-download"
 import { 
   collection, 
   query, 
   where, 
   orderBy, 
-  getDocs, 
   getDoc,
   addDoc, 
   updateDoc, 
   deleteDoc, 
   doc, 
   serverTimestamp,
-  Timestamp
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  onSnapshot,
+  Timestamp,
+  type DocumentData,
+  type Query
 } from "firebase/firestore"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SECRET_SANTA_SETTINGS } from "./settings-schema"
 
 interface CustomField {
   id: string
@@ -76,15 +87,34 @@ interface ParticipantInfo {
   name: string
 }
 
+function toExchange(id: string, data: DocumentData): Exchange {
+  return {
+    id,
+    name: data.name || "",
+    description: data.description || "",
+    budget: data.budget || "",
+    exchangeDate: data.exchangeDate || "",
+    participants: Array.isArray(data.participants) ? data.participants : [],
+    assignments: data.assignments || {},
+    drawn: data.drawn || false,
+    customFields: data.customFields || [],
+    participantResponses: data.participantResponses || {},
+    createdBy: data.createdBy || "",
+    createdByName: data.createdByName || "",
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  }
+}
+
 export function SecretSantaMain() {
   const { user } = useAuth()
+  const { settings } = useAppSettings(SECRET_SANTA_SETTINGS)
   const [exchanges, setExchanges] = React.useState<Exchange[]>([])
   const [loading, setLoading] = React.useState(true)
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
   const [createDialogOpen, setCreateDialogOpen] = React.useState(false)
   const [joinDialogOpen, setJoinDialogOpen] = React.useState<string | null>(null)
   const [searchQuery, setSearchQuery] = React.useState("")
-  const [participantNames, setParticipantNames] = React.useState<Record<string, string>>({})
   const [revealedAssignments, setRevealedAssignments] = React.useState<Record<string, boolean>>({})
   const [viewResponsesOpen, setViewResponsesOpen] = React.useState<string | null>(null)
 
@@ -100,132 +130,48 @@ export function SecretSantaMain() {
   // Join form responses
   const [joinResponses, setJoinResponses] = React.useState<Record<string, string>>({})
 
-  // Load exchanges from Firestore
+  // Live exchanges, so participants see each other join and leave without reloading
   React.useEffect(() => {
-    loadExchanges()
-  }, [])
-
-  const loadExchanges = async () => {
-    try {
-      setLoading(true)
-      const exchangesRef = collection(db, "secretSantaExchanges")
-      
-      let snapshot
-      try {
-        const q = query(exchangesRef, orderBy("exchangeDate", "asc"))
-        snapshot = await getDocs(q)
-      } catch (indexError: any) {
-        if (indexError?.code === "failed-precondition") {
-          console.warn("Index not found, fetching all exchanges")
-          snapshot = await getDocs(exchangesRef)
-        } else {
-          snapshot = await getDocs(exchangesRef)
-        }
-      }
-      
-      const exchangesData: Exchange[] = []
-      const participantUids = new Set<string>()
-
-      snapshot.forEach((doc) => {
-        const data = doc.data()
-        exchangesData.push({
-          id: doc.id,
-          name: data.name || "",
-          description: data.description || "",
-          budget: data.budget || "",
-          exchangeDate: data.exchangeDate || "",
-          participants: Array.isArray(data.participants) ? data.participants : [],
-          assignments: data.assignments || {},
-          drawn: data.drawn || false,
-          customFields: data.customFields || [],
-          participantResponses: data.participantResponses || {},
-          createdBy: data.createdBy || "",
-          createdByName: data.createdByName || "",
-          createdAt: data.createdAt,
-          updatedAt: data.updatedAt,
-        } as Exchange)
-
-        // Collect all participant UIDs to fetch names
-        if (Array.isArray(data.participants)) {
-          data.participants.forEach((uid: string) => {
-            if (uid) participantUids.add(uid)
-          })
-        }
-        if (data.createdBy) {
-          participantUids.add(data.createdBy)
-        }
-      })
-
-      // Sort exchanges by date client-side if query didn't order them
-      exchangesData.sort((a, b) => {
-        if (a.exchangeDate !== b.exchangeDate) {
-          return a.exchangeDate.localeCompare(b.exchangeDate)
-        }
-        return 0
-      })
-
-      setExchanges(exchangesData)
-
-      // Load participant names
-      if (participantUids.size > 0) {
-        await loadParticipantNames(Array.from(participantUids))
-      }
-    } catch (error: any) {
-      console.error("Failed to load exchanges:", error)
-      if (error?.code === "permission-denied") {
-        toast.error("Permission denied. Please check Firestore rules.")
-      } else {
-        toast.error("Failed to load exchanges. Please try again.")
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const loadParticipantNames = async (uids: string[]) => {
-    const names: Record<string, string> = {}
-    
-    await Promise.all(
-      uids.map(async (uid) => {
-        try {
-          const userDocRef = doc(db, "users", uid)
-          const userDoc = await getDoc(userDocRef)
-          if (userDoc.exists()) {
-            const userData = userDoc.data()
-            names[uid] = userData.displayName || userData.username || "Unknown Participant"
+    const exchangesRef = collection(db, "secretSantaExchanges")
+    let unsubscribe = () => {}
+
+    const subscribe = (exchangesQuery: Query) => {
+      unsubscribe = onSnapshot(
+        exchangesQuery,
+        (snapshot) => {
+          setExchanges(
+            snapshot.docs
+              .map((exchangeDoc) => toExchange(exchangeDoc.id, exchangeDoc.data()))
+              .sort((a, b) => a.exchangeDate.localeCompare(b.exchangeDate))
+          )
+          setLoading(false)
+        },
+        (error) => {
+          if (error.code === "failed-precondition" && exchangesQuery !== exchangesRef) {
+            console.warn("Index not found, listening to all exchanges")
+            subscribe(exchangesRef)
+            return
+          }
+          console.error("Failed to load exchanges:", error)
+          if (error.code === "permission-denied") {
+            toast.error("Permission denied. Please check Firestore rules.")
           } else {
-            names[uid] = "Unknown Participant"
+            toast.error("Failed to load exchanges. Please try again.")
           }
-        } catch (error) {
-          console.error(`Failed to load name for ${uid}:`, error)
-          names[uid] = "Unknown Participant"
+          setLoading(false)
         }
-      })
-    )
-
-    setParticipantNames(names)
-  }
-
-  const getUserDisplayName = async (uid: string): Promise<string> => {
-    if (participantNames[uid]) {
-      return participantNames[uid]
+      )
     }
 
-    try {
-      const userDocRef = doc(db, "users", uid)
-      const userDoc = await getDoc(userDocRef)
-      if (userDoc.exists()) {
-        const userData = userDoc.data()
-        const name = userData.displayName || userData.username || "Unknown Participant"
-        setParticipantNames((prev) => ({ ...prev, [uid]: name }))
-        return name
-      }
-    } catch (error) {
-      console.error(`Failed to load name for ${uid}:`, error)
-    }
+    subscribe(query(exchangesRef, orderBy("exchangeDate", "asc")))
+    return () => unsubscribe()
+  }, [])
 
-    return "Unknown Participant"
-  }
+  const participantUids = React.useMemo(
+    () => exchanges.flatMap((exchange) => [...exchange.participants, exchange.createdBy]),
+    [exchanges]
+  )
+  const participantNames = useUserNames(participantUids, "Unknown Participant")
 
   const handleCreateExchange = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -236,6 +182,7 @@ export function SecretSantaMain() {
     }
 
     // Check if user has display name set
+    let createdByName = ""
     try {
       const userDocRef = doc(db, "users", user.uid)
       const userDoc = await getDoc(userDocRef)
@@ -248,6 +195,7 @@ export function SecretSantaMain() {
         toast.error("Please set your display name in Account Settings before creating an exchange")
         return
       }
+      createdByName = userData.displayName || userData.username
     } catch (error) {
       toast.error("Failed to verify user profile")
       return
@@ -265,7 +213,7 @@ export function SecretSantaMain() {
         customFields: formData.customFields,
         participantResponses: {},
         createdBy: user.uid,
-        createdByName: participantNames[user.uid] || await getUserDisplayName(user.uid),
+        createdByName,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       }
@@ -281,8 +229,6 @@ export function SecretSantaMain() {
         exchangeDate: "",
         customFields: [],
       })
-      
-      loadExchanges()
     } catch (error: any) {
       console.error("Failed to create exchange:", error)
       if (error.code === "permission-denied") {
@@ -367,19 +313,17 @@ export function SecretSantaMain() {
         }
       }
 
+      // arrayUnion and a field path touch only this user's entries, so people joining at the same
+      // time don't overwrite each other; the snapshot shows the change before the write completes
       const exchangeRef = doc(db, "secretSantaExchanges", exchangeId)
       const updateData: any = {
-        participants: [...exchange.participants, user.uid],
+        participants: arrayUnion(user.uid),
         updatedAt: serverTimestamp(),
       }
 
       // Add participant responses if there are custom fields
       if (exchange.customFields && exchange.customFields.length > 0 && Object.keys(joinResponses).length > 0) {
-        const currentResponses = exchange.participantResponses || {}
-        updateData.participantResponses = {
-          ...currentResponses,
-          [user.uid]: joinResponses,
-        }
+        updateData[`participantResponses.${user.uid}`] = joinResponses
       }
 
       await updateDoc(exchangeRef, updateData)
@@ -387,7 +331,6 @@ export function SecretSantaMain() {
       toast.success("Joined exchange successfully!")
       setJoinDialogOpen(null)
       setJoinResponses({})
-      loadExchanges()
     } catch (error: any) {
       console.error("Failed to join exchange:", error)
       if (error.code === "permission-denied") {
@@ -420,21 +363,18 @@ export function SecretSantaMain() {
 
       const exchangeRef = doc(db, "secretSantaExchanges", exchangeId)
       const updateData: any = {
-        participants: exchange.participants.filter((uid) => uid !== user.uid),
+        participants: arrayRemove(user.uid),
         updatedAt: serverTimestamp(),
       }
 
       // Remove participant responses if they exist
       if (exchange.participantResponses && exchange.participantResponses[user.uid]) {
-        const updatedResponses = { ...exchange.participantResponses }
-        delete updatedResponses[user.uid]
-        updateData.participantResponses = updatedResponses
+        updateData[`participantResponses.${user.uid}`] = deleteField()
       }
 
       await updateDoc(exchangeRef, updateData)
 
       toast.success("Left exchange successfully")
-      loadExchanges()
     } catch (error: any) {
       console.error("Failed to leave exchange:", error)
       toast.error("Failed to leave exchange")
@@ -488,7 +428,6 @@ export function SecretSantaMain() {
       })
 
       toast.success("Names drawn successfully! Participants can now view their assignments.")
-      loadExchanges()
     } catch (error: any) {
       console.error("Failed to draw names:", error)
       toast.error("Failed to draw names")
@@ -511,7 +450,6 @@ export function SecretSantaMain() {
     try {
       await deleteDoc(doc(db, "secretSantaExchanges", exchangeId))
       toast.success("Exchange deleted successfully")
-      loadExchanges()
     } catch (error: any) {
       console.error("Failed to delete exchange:", error)
       toast.error("Failed to delete exchange")
@@ -554,6 +492,16 @@ export function SecretSantaMain() {
     return exchange.assignments[user.uid] || null
   }
 
+  const handleDownloadExchange = (exchange: Exchange) => {
+    const event = buildExchangeEvent(exchange, settings.reminderDays)
+    if (!event) {
+      toast.error("This exchange doesn't have a date yet")
+      return
+    }
+    downloadIcsEvents([event], toIcsFileName(exchange.name))
+    toast.success("Calendar event downloaded")
+  }
+
   const formatDate = (dateString: string) => {
     if (!dateString) return "Date TBD"
     try {
@@ -812,16 +760,27 @@ export function SecretSantaMain() {
                 <CardHeader>
                   <div className="flex items-start justify-between mb-2">
                     <CardTitle className="text-lg flex-1">{exchange.name}</CardTitle>
-                    {canManageExchange(exchange) && (
+                    <div className="flex">
                       <Button
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8"
-                        onClick={() => handleDeleteExchange(exchange.id)}
+                        title="Add to calendar"
+                        onClick={() => handleDownloadExchange(exchange)}
                       >
-                        <Trash2 className="h-4 w-4 text-destructive" />
+                        <CalendarPlus className="h-4 w-4" />
                       </Button>
-                    )}
+                      {canManageExchange(exchange) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleDeleteExchange(exchange.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
                   {exchange.description && (
                     <CardDescription className="line-clamp-2">
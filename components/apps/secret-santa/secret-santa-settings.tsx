@@ -8,97 +8,32 @@ import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { parseAppSettings } from "@/lib/apps/app-settings"
 import { toast } from "sonner"
 import { Trash2, Download, Upload, RotateCcw } from "lucide-react"
-
-interface SecretSantaSettings {
-  defaultBudget: string
-  emailNotifications: boolean
-  reminderDays: number
-  showMyExchangesOnly: boolean
-  autoJoin: boolean
-}
-
-const DEFAULT_SETTINGS: SecretSantaSettings = {
-  defaultBudget: "",
-  emailNotifications: true,
-  reminderDays: 7,
-  showMyExchangesOnly: false,
-  autoJoin: false,
-}
+import {
+  DEFAULT_SECRET_SANTA_SETTINGS,
+  SECRET_SANTA_SETTINGS,
+  type SecretSantaSettingsValues,
+} from "./settings-schema"
 
 export function SecretSantaSettings() {
   const { user, loading: authLoading } = useAuth()
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
+  const { settings: savedSettings, loading, save } = useAppSettings(SECRET_SANTA_SETTINGS)
   const [saving, setSaving] = React.useState(false)
-  const [settings, setSettings] = React.useState<SecretSantaSettings>(DEFAULT_SETTINGS)
+  const [settings, setSettings] = React.useState<SecretSantaSettingsValues>(DEFAULT_SECRET_SANTA_SETTINGS)
 
+  // Keep the form in sync with the stored settings, including saves made elsewhere
   React.useEffect(() => {
-    if (user && !authLoading) {
-      loadSettings()
-    } else if (!authLoading && !user) {
-      setLoading(false)
-    }
-  }, [user, authLoading])
-
-  const loadSettings = async () => {
-    if (!user) return
-
-    try {
-      setLoading(true)
-      const settingsRef = doc(db, "users", user.uid, "secretSantaSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      if (settingsDoc.exists()) {
-        const data = settingsDoc.data()
-        setSettings({
-          defaultBudget: data.defaultBudget ?? DEFAULT_SETTINGS.defaultBudget,
-          emailNotifications: data.emailNotifications ?? DEFAULT_SETTINGS.emailNotifications,
-          reminderDays: data.reminderDays ?? DEFAULT_SETTINGS.reminderDays,
-          showMyExchangesOnly: data.showMyExchangesOnly ?? DEFAULT_SETTINGS.showMyExchangesOnly,
-          autoJoin: data.autoJoin ?? DEFAULT_SETTINGS.autoJoin,
-        })
-      } else {
-        setSettings(DEFAULT_SETTINGS)
-      }
-    } catch (error: any) {
-      console.error("Failed to load settings:", error)
-      if (error.code !== "permission-denied") {
-        toast.error("Failed to load settings")
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
+    setSettings(savedSettings)
+  }, [savedSettings])
 
   const saveSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     try {
       setSaving(true)
-      const settingsRef = doc(db, "users", user.uid, "secretSantaSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      const settingsData = {
-        ...settings,
-        updatedAt: serverTimestamp(),
-      }
-
-      if (settingsDoc.exists()) {
-        await updateDoc(settingsRef, settingsData)
-      } else {
-        await setDoc(settingsRef, {
-          ...settingsData,
-          createdAt: serverTimestamp(),
-        })
-      }
-
+      await save(settings)
       toast.success("Settings saved successfully!")
     } catch (error: any) {
       console.error("Failed to save settings:", error)
@@ -113,25 +48,14 @@ export function SecretSantaSettings() {
   }
 
   const resetSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     if (!confirm("Are you sure you want to reset all settings to default values?")) {
       return
     }
 
     try {
       setSaving(true)
-      setSettings(DEFAULT_SETTINGS)
-      const settingsRef = doc(db, "users", user.uid, "secretSantaSettings", "default")
-      await setDoc(settingsRef, {
-        ...DEFAULT_SETTINGS,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      })
-
+      setSettings(DEFAULT_SECRET_SANTA_SETTINGS)
+      await save(DEFAULT_SECRET_SANTA_SETTINGS)
       toast.success("Settings reset successfully!")
     } catch (error: any) {
       console.error("Failed to reset settings:", error)
@@ -154,11 +78,6 @@ export function SecretSantaSettings() {
   }
 
   const importSettings = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     const file = event.target.files?.[0]
     if (!file) return
 
@@ -166,7 +85,7 @@ export function SecretSantaSettings() {
     reader.onload = (e) => {
       try {
         const imported = JSON.parse(e.target?.result as string)
-        setSettings({ ...DEFAULT_SETTINGS, ...imported })
+        setSettings(parseAppSettings(SECRET_SANTA_SETTINGS, imported))
         toast.success("Settings imported successfully! Click Save to apply.")
       } catch (error) {
         toast.error("Failed to import settings. Invalid file format.")
@@ -186,18 +105,6 @@ export function SecretSantaSettings() {
     )
   }
 
-  if (!user) {
-    return (
-      <Card>
-        <CardContent className="py-12 text-center space-y-4">
-          <p className="text-muted-foreground">Please sign in to view and manage your settings</p>
-          <Button onClick={() => setAuthDialogOpen(true)}>Sign In</Button>
-          <AuthDialog open={authDialogOpen} onOpenChange={setAuthDialogOpen} />
-        </CardContent>
-      </Card>
-    )
-  }
-
   return (
     <div className="space-y-6">
       <div>
@@ -205,6 +112,19 @@ export function SecretSantaSettings() {
         <p className="text-muted-foreground">
           Customize your Secret Santa experience
         </p>
+        {!user && (
+          <p className="text-sm text-muted-foreground mt-2">
+            You’re saving settings on this device.{" "}
+            <button
+              type="button"
+              className="text-primary underline underline-offset-4"
+              onClick={() => setAuthDialogOpen(true)}
+            >
+              Sign in
+            </button>{" "}
+            to sync them across devices.
+          </p>
+        )}
       </div>
 
       <Tabs defaultValue="general" className="space-y-4">
@@ -0,0 +1,29 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const secretSantaSettingsSchema = z.object({
+  defaultBudget: z.string(),
+  emailNotifications: z.boolean(),
+  reminderDays: z.number().int().min(0).max(30),
+  showMyExchangesOnly: z.boolean(),
+  autoJoin: z.boolean(),
+})
+
+export type SecretSantaSettingsValues = z.infer<typeof secretSantaSettingsSchema>
+
+export const DEFAULT_SECRET_SANTA_SETTINGS: SecretSantaSettingsValues = {
+  defaultBudget: "",
+  emailNotifications: true,
+  reminderDays: 7,
+  showMyExchangesOnly: false,
+  autoJoin: false,
+}
+
+export const SECRET_SANTA_SETTINGS = defineAppSettings({
+  appId: "secret-santa",
+  collection: "secretSantaSettings",
+  storageKey: "secret-santa-settings",
+  schema: secretSantaSettingsSchema,
+  defaults: DEFAULT_SECRET_SANTA_SETTINGS,
+  version: 1,
+})
@@ -0,0 +1,26 @@
+import { LayoutGrid } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { StickrProvider } from "./stickr-provider"
+import { StickrMain } from "./stickr-main"
+import { StickrSettings } from "./stickr-settings"
+
+// Stickr keeps its settings and lists in one document managed by StickrProvider
+// (see lib/stickr/stickr-state.ts), so it has no standalone settings schema here.
+export const stickrManifest = defineAppManifest({
+  appId: "stickr",
+  name: "Stickr",
+  description:
+    "Track Panini FIFA World Cup™ sticker duplicates and needs, then share a clean trade card for social media",
+  category: "Social",
+  tags: ["panini", "fifa", "world cup", "stickers", "trading", "collectibles", "album"],
+  status: "live",
+  icon: LayoutGrid,
+  accent: "from-green-600 to-teal-500",
+  featured: true,
+  Main: StickrMain,
+  Settings: StickrSettings,
+  Provider: StickrProvider,
+  collections: [
+    { name: "stickrSettings", scope: "user", docParam: "settingsId", description: "Stickr (Panini sticker tracker) settings" },
+  ],
+})
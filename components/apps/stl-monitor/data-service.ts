@@ -15,6 +15,7 @@ import {
   EAST_STL_BOUNDS,
   STL_BOUNDS
 } from "./types"
+import { calculateDistance } from "@/lib/geo"
 
 // ============================================================================
 // GEOGRAPHIC HELPERS - GEOGRAPHICAL FENCES
@@ -84,19 +85,6 @@ export function isValidSTLLocation(point: GeoPoint, maxDistanceMiles: number = 5
   return true
 }
 
-// Calculate distance between two points in miles
-export function calculateDistance(p1: GeoPoint, p2: GeoPoint): number {
-  const R = 3959 // Earth's radius in miles
-  const dLat = (p2.lat - p1.lat) * Math.PI / 180
-  const dLng = (p2.lng - p1.lng) * Math.PI / 180
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(p1.lat * Math.PI / 180) * Math.cos(p2.lat * Math.PI / 180) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  return R * c
-}
-
 // ============================================================================
 // ST. LOUIS GEOCODING - Location keyword lookup
 // ============================================================================
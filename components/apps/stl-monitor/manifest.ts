@@ -0,0 +1,24 @@
+import { Radio } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { STL_MONITOR_SETTINGS } from "./settings-schema"
+import { STLMonitorMain } from "./stl-monitor-main"
+import { STLMonitorSettings } from "./stl-monitor-settings"
+
+export const stlMonitorManifest = defineAppManifest({
+  appId: "stl-monitor",
+  name: "STL Monitor",
+  description: "Real-time incident monitoring dashboard for Greater St. Louis",
+  category: "Utilities",
+  tags: ["stl", "st louis", "monitor", "traffic", "incidents", "weather", "map", "live"],
+  status: "live",
+  icon: Radio,
+  accent: "from-red-600 to-rose-500",
+  featured: true,
+  Main: STLMonitorMain,
+  Settings: STLMonitorSettings,
+  settings: STL_MONITOR_SETTINGS,
+  collections: [
+    { name: "stlMonitorSettings", scope: "user", docParam: "settingsId", description: "STL Monitor settings subcollection" },
+    { name: "stlMonitorSavedLocations", scope: "user", docParam: "locationId", description: "STL Monitor saved locations subcollection" },
+  ],
+})
@@ -3,9 +3,10 @@
 import * as React from "react"
 import maplibregl from "maplibre-gl"
 import "maplibre-gl/dist/maplibre-gl.css"
-import { useTheme } from "next-themes"
+import { createMapStyle } from "@/lib/map-style"
 import {
   Incident,
+  STLMonitorSettings,
   STL_BOUNDS,
   CATEGORY_COLORS,
   CATEGORY_ICONS,
@@ -16,40 +17,48 @@ interface MapComponentProps {
   onIncidentClick: (incident: Incident) => void
   selectedIncident: Incident | null
   replayMode: boolean
+  mapStyle: STLMonitorSettings["mapStyle"]
+  /** Incidents are grouped into cluster markers while the map is zoomed out below this level */
+  clusterAtZoom: number
 }
 
-// Get tile URLs based on theme
-function getTileUrls(isDark: boolean) {
-  const style = isDark ? "dark_all" : "light_all"
-  return [
-    `https://a.basemaps.cartocdn.com/${style}/{z}/{x}/{y}.png`,
-    `https://b.basemaps.cartocdn.com/${style}/{z}/{x}/{y}.png`,
-    `https://c.basemaps.cartocdn.com/${style}/{z}/{x}/{y}.png`,
-  ]
+type MapStyle = STLMonitorSettings["mapStyle"]
+
+// Pixel size of the grid used to group incidents into clusters
+const CLUSTER_CELL_SIZE = 60
+
+interface MarkerGroup {
+  key: string
+  incidents: Incident[]
+}
+
+// Position in Web Mercator world pixels at the given zoom, so the grid doesn't move when the map pans
+function toWorldPixels(lng: number, lat: number, zoom: number): [number, number] {
+  const scale = 256 * Math.pow(2, zoom)
+  const sinLat = Math.sin((lat * Math.PI) / 180)
+  const x = ((lng + 180) / 360) * scale
+  const y = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+  return [x, y]
 }
 
-// Create map style object
-function createMapStyle(isDark: boolean): maplibregl.StyleSpecification {
-  return {
-    version: 8,
-    sources: {
-      "osm-tiles": {
-        type: "raster",
-        tiles: getTileUrls(isDark),
-        tileSize: 256,
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
-      },
-    },
-    layers: [
-      {
-        id: "osm-tiles",
-        type: "raster",
-        source: "osm-tiles",
-        minzoom: 0,
-        maxzoom: 19,
-      },
-    ],
+// Groups incidents that fall in the same grid cell; single incidents keep their own id as the key
+function groupIncidents(incidents: Incident[], zoom: number, clusterAtZoom: number): MarkerGroup[] {
+  if (zoom >= clusterAtZoom) {
+    return incidents.map((incident) => ({ key: incident.id, incidents: [incident] }))
   }
+
+  const cells = new Map<string, Incident[]>()
+  incidents.forEach((incident) => {
+    const [x, y] = toWorldPixels(incident.location.lng, incident.location.lat, zoom)
+    const cell = `${Math.floor(x / CLUSTER_CELL_SIZE)}:${Math.floor(y / CLUSTER_CELL_SIZE)}`
+    cells.set(cell, [...(cells.get(cell) || []), incident])
+  })
+
+  return Array.from(cells.entries()).map(([cell, members]) =>
+    members.length === 1
+      ? { key: members[0].id, incidents: members }
+      : { key: `cluster:${zoom}:${cell}:${members.length}`, incidents: members }
+  )
 }
 
 export default function MapComponent({
@@ -57,21 +66,18 @@ export default function MapComponent({
   onIncidentClick,
   selectedIncident,
   replayMode,
+  mapStyle,
+  clusterAtZoom,
 }: MapComponentProps) {
   const mapContainer = React.useRef<HTMLDivElement>(null)
   const map = React.useRef<maplibregl.Map | null>(null)
   const markers = React.useRef<Map<string, maplibregl.Marker>>(new Map())
   const animationFrames = React.useRef<Map<string, number>>(new Map())
   const previousView = React.useRef<{ center: [number, number]; zoom: number } | null>(null)
-  const { resolvedTheme } = useTheme()
-  const [mounted, setMounted] = React.useState(false)
-
-  // Track if component is mounted (for SSR)
-  React.useEffect(() => {
-    setMounted(true)
-  }, [])
+  const appliedStyle = React.useRef<MapStyle>(mapStyle)
+  const [zoomLevel, setZoomLevel] = React.useState(Math.floor(STL_BOUNDS.zoom))
 
-  const isDark = !mounted || resolvedTheme === "dark"
+  const isDark = mapStyle !== "light"
 
   // Initialize map
   React.useEffect(() => {
@@ -79,7 +85,7 @@ export default function MapComponent({
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: createMapStyle(isDark),
+      style: createMapStyle(mapStyle),
       center: [STL_BOUNDS.center.lng, STL_BOUNDS.center.lat],
       zoom: STL_BOUNDS.zoom,
       minZoom: 9,
@@ -101,6 +107,11 @@ export default function MapComponent({
       }, 100)
     })
 
+    // Clusters are recomputed per whole zoom level
+    map.current.on("zoomend", () => {
+      if (map.current) setZoomLevel(Math.floor(map.current.getZoom()))
+    })
+
     // Handle window resize
     const handleResize = () => {
       map.current?.resize()
@@ -162,11 +173,12 @@ export default function MapComponent({
     }
   }, [])
 
-  // Update map style when theme changes
+  // Update map style when the map style setting changes
   React.useEffect(() => {
-    if (!map.current || !mounted) return
+    if (!map.current || appliedStyle.current === mapStyle) return
+    appliedStyle.current = mapStyle
     
-    // Update the tile source when theme changes
+    // Update the tile source when the style changes
     const source = map.current.getSource("osm-tiles") as maplibregl.RasterTileSource
     if (source) {
       // MapLibre doesn't support updating tiles directly, so we need to set the whole style
@@ -175,7 +187,7 @@ export default function MapComponent({
       const bearing = map.current.getBearing()
       const pitch = map.current.getPitch()
       
-      map.current.setStyle(createMapStyle(isDark))
+      map.current.setStyle(createMapStyle(mapStyle))
       
       // Restore view after style change
       map.current.once("style.load", () => {
@@ -215,18 +227,19 @@ export default function MapComponent({
         }
       })
     }
-  }, [isDark, mounted])
+  }, [mapStyle, isDark])
 
-  // Update markers when incidents change
+  // Update markers when incidents or clustering change
   React.useEffect(() => {
     if (!map.current) return
 
+    const groups = groupIncidents(incidents, zoomLevel, clusterAtZoom)
     const currentMarkerIds = new Set(markers.current.keys())
-    const newIncidentIds = new Set(incidents.map((inc) => inc.id))
+    const newMarkerIds = new Set(groups.map((group) => group.key))
 
-    // Remove markers that are no longer in incidents
+    // Remove markers that are no longer shown
     currentMarkerIds.forEach((id) => {
-      if (!newIncidentIds.has(id)) {
+      if (!newMarkerIds.has(id)) {
         const marker = markers.current.get(id)
         if (marker) {
           marker.remove()
@@ -240,8 +253,16 @@ export default function MapComponent({
       }
     })
 
-    // Add or update markers for incidents
-    incidents.forEach((incident) => {
+    // Add or update markers for incidents and clusters
+    groups.forEach((group) => {
+      if (group.incidents.length > 1) {
+        if (!markers.current.has(group.key)) {
+          markers.current.set(group.key, createClusterMarker(group.incidents))
+        }
+        return
+      }
+
+      const incident = group.incidents[0]
       if (markers.current.has(incident.id)) {
         // Update existing marker position if needed
         const marker = markers.current.get(incident.id)!
@@ -277,7 +298,7 @@ export default function MapComponent({
         }
       }
     })
-  }, [incidents, onIncidentClick, replayMode])
+  }, [incidents, onIncidentClick, replayMode, zoomLevel, clusterAtZoom])
 
   // Center on selected incident or restore previous view
   React.useEffect(() => {
@@ -392,6 +413,44 @@ export default function MapComponent({
     return wrapper
   }
 
+  // Cluster bubble at the centroid of its incidents, colored by the most severe one; clicking zooms in
+  function createClusterMarker(clusterIncidents: Incident[]): maplibregl.Marker {
+    const lng = clusterIncidents.reduce((sum, inc) => sum + inc.location.lng, 0) / clusterIncidents.length
+    const lat = clusterIncidents.reduce((sum, inc) => sum + inc.location.lat, 0) / clusterIncidents.length
+    const worst = clusterIncidents.reduce((max, inc) => (inc.severity > max.severity ? inc : max))
+    const color = CATEGORY_COLORS[worst.category]
+    const size = Math.min(56, 32 + clusterIncidents.length * 2)
+
+    const el = document.createElement("div")
+    el.className = "marker-wrapper cluster"
+    el.style.cssText = `
+      width: ${size}px;
+      height: ${size}px;
+      border-radius: 50%;
+      background-color: ${color};
+      border: 3px solid white;
+      box-shadow: 0 2px 8px ${color}80;
+      color: white;
+      font-weight: 700;
+      font-size: 14px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      cursor: pointer;
+    `
+    el.textContent = String(clusterIncidents.length)
+    el.title = `${clusterIncidents.length} incidents`
+
+    el.addEventListener("click", (e) => {
+      e.stopPropagation()
+      map.current?.flyTo({ center: [lng, lat], zoom: clusterAtZoom, duration: 800 })
+    })
+
+    return new maplibregl.Marker({ element: el, anchor: "center" })
+      .setLngLat([lng, lat])
+      .addTo(map.current!)
+  }
+
   function getSizeFromSeverity(severity: number): number {
     // Map severity 0-100 to size 28-40
     return Math.floor(28 + (severity / 100) * 12)
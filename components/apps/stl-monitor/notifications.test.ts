@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { getIncidentsToNotify } from "./notifications"
+import { DEFAULT_SETTINGS, type Incident, type IncidentCategory } from "./types"
+
+function incident(id: string, category: IncidentCategory, severity: number): Incident {
+  return {
+    id,
+    title: id,
+    category,
+    severity,
+    confidence: "high",
+    status: "active",
+    location: { lat: 38.627, lng: -90.1994 },
+    source: "MoDOT",
+    createdAt: new Date("2026-01-01T12:00:00Z"),
+    updatedAt: new Date("2026-01-01T12:00:00Z"),
+  }
+}
+
+const incidents = [
+  incident("old-crash", "traffic", 90),
+  incident("crash", "traffic", 80),
+  incident("storm", "weather", 95),
+  incident("pothole", "traffic", 40),
+  incident("delay", "transit", 85),
+]
+const previousIds = new Set(["old-crash"])
+
+describe("getIncidentsToNotify", () => {
+  it("notifies about nothing while notifications are off", () => {
+    expect(getIncidentsToNotify(incidents, previousIds, DEFAULT_SETTINGS.notifications)).toEqual([])
+  })
+
+  it("picks new incidents above the threshold in the chosen categories, most severe first", () => {
+    const notifications = { ...DEFAULT_SETTINGS.notifications, enabled: true }
+    expect(getIncidentsToNotify(incidents, previousIds, notifications).map(inc => inc.id)).toEqual([
+      "storm",
+      "crash",
+    ])
+  })
+
+  it("follows changes to the threshold and categories", () => {
+    const notifications = { enabled: true, severityThreshold: 30, categories: ["traffic", "transit"] as IncidentCategory[] }
+    expect(getIncidentsToNotify(incidents, previousIds, notifications).map(inc => inc.id)).toEqual([
+      "delay",
+      "crash",
+      "pothole",
+    ])
+  })
+})
@@ -0,0 +1,22 @@
+import type { Incident, STLMonitorSettings } from "./types"
+
+// At most this many incidents get their own notification per refresh; the rest are summarized
+export const MAX_INCIDENT_NOTIFICATIONS = 3
+
+/**
+ * Incidents that weren't in `previousIds` and pass the notification settings, most severe first.
+ * Empty when notifications are turned off.
+ */
+export function getIncidentsToNotify(
+  incidents: Incident[],
+  previousIds: Set<string>,
+  notifications: STLMonitorSettings["notifications"]
+): Incident[] {
+  const { enabled, severityThreshold, categories } = notifications
+  if (!enabled) return []
+
+  return incidents
+    .filter(inc => !previousIds.has(inc.id))
+    .filter(inc => inc.severity >= severityThreshold && categories.includes(inc.category))
+    .sort((a, b) => b.severity - a.severity)
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { getDefaultFilters } from "./settings-schema"
+import { DEFAULT_SETTINGS } from "./types"
+
+describe("getDefaultFilters", () => {
+  it("starts from the default categories, severity range and time window in settings", () => {
+    const filters = getDefaultFilters({
+      ...DEFAULT_SETTINGS,
+      defaultCategories: { traffic: true, weather: false, transit: false, news: true, crime: true },
+      defaultSeverityRange: [25, 75],
+      defaultTimeWindow: "6h",
+    })
+    expect(filters).toEqual({
+      categories: { traffic: true, weather: false, transit: false, news: true, crime: true },
+      severityMin: 25,
+      severityMax: 75,
+      timeWindow: "6h",
+    })
+  })
+
+  it("copies the categories so filtering doesn't modify the settings", () => {
+    const filters = getDefaultFilters(DEFAULT_SETTINGS)
+    filters.categories.crime = true
+    expect(DEFAULT_SETTINGS.defaultCategories.crime).toBe(false)
+  })
+})
@@ -0,0 +1,42 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+import { DEFAULT_SETTINGS, type FilterState, type IncidentCategory, type STLMonitorSettings } from "./types"
+
+const incidentCategorySchema = z.enum(["traffic", "weather", "transit", "news", "crime"])
+const severitySchema = z.number().min(0).max(100)
+
+export const stlMonitorSettingsSchema = z.object({
+  defaultCategories: z.record(incidentCategorySchema, z.boolean()) as z.ZodType<Record<IncidentCategory, boolean>>,
+  defaultSeverityRange: z.tuple([severitySchema, severitySchema]),
+  defaultTimeWindow: z.enum(["15m", "1h", "6h", "24h"]),
+  autoRefresh: z.boolean(),
+  refreshInterval: z.number().min(10).max(300),
+  mapStyle: z.enum(["dark", "light", "satellite"]),
+  clusterAtZoom: z.number().min(8).max(16),
+  notifications: z.object({
+    enabled: z.boolean(),
+    severityThreshold: severitySchema,
+    categories: z.array(incidentCategorySchema),
+  }),
+}) satisfies z.ZodType<STLMonitorSettings, z.ZodTypeDef, unknown>
+
+export const STL_MONITOR_SETTINGS = defineAppSettings<STLMonitorSettings>({
+  appId: "stl-monitor",
+  collection: "stlMonitorSettings",
+  storageKey: "stl-monitor-settings",
+  schema: stlMonitorSettingsSchema,
+  defaults: DEFAULT_SETTINGS,
+  version: 1,
+})
+
+/** The filters the map and lists start from on each visit, from the defaults chosen in settings */
+export function getDefaultFilters(
+  settings: STLMonitorSettings
+): Pick<FilterState, "categories" | "severityMin" | "severityMax" | "timeWindow"> {
+  return {
+    categories: { ...settings.defaultCategories },
+    severityMin: settings.defaultSeverityRange[0],
+    severityMax: settings.defaultSeverityRange[1],
+    timeWindow: settings.defaultTimeWindow,
+  }
+}
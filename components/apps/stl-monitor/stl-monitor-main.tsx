@@ -32,6 +32,7 @@ import {
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
+import { useAppSettings } from "@/components/apps/use-app-settings"
 import {
   Incident,
   FilterState,
@@ -41,6 +42,8 @@ import {
   DEFAULT_FILTER_STATE,
   STL_BOUNDS,
 } from "./types"
+import { STL_MONITOR_SETTINGS, getDefaultFilters } from "./settings-schema"
+import { MAX_INCIDENT_NOTIFICATIONS, getIncidentsToNotify } from "./notifications"
 import {
   fetchMoDOTIncidents,
   fetchIDOTIncidents,
@@ -70,6 +73,15 @@ const LOADING_MESSAGES = [
   "Finding traffic jams...",
 ]
 
+function notifyIncident(incident: Incident) {
+  const title = `${CATEGORY_ICONS[incident.category]} ${incident.title}`
+  const description = `Severity ${incident.severity} · ${incident.source}`
+  toast.warning(title, { description })
+  if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+    new Notification(title, { body: description })
+  }
+}
+
 export function STLMonitorMain() {
   const { user, loading: authLoading } = useAuth()
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
@@ -92,16 +104,47 @@ export function STLMonitorMain() {
   const [isPlaying, setIsPlaying] = React.useState(false)
   const replayIntervalRef = React.useRef<NodeJS.Timeout | null>(null)
 
+  // Settings
+  const { settings, loading: settingsLoading } = useAppSettings(STL_MONITOR_SETTINGS)
+  const knownIncidentIds = React.useRef<Set<string> | null>(null)
+  const defaultFiltersApplied = React.useRef(false)
+
+  // Start from the default filters in settings once they have loaded. Only once, so saving
+  // settings later doesn't reset the filters picked during this visit.
+  React.useEffect(() => {
+    if (settingsLoading || defaultFiltersApplied.current) return
+    defaultFiltersApplied.current = true
+    setFilters(prev => ({ ...prev, ...getDefaultFilters(settings) }))
+  }, [settings, settingsLoading])
+
   // Load initial data
   React.useEffect(() => {
     loadAllData()
+  }, [])
+
+  // Auto-refresh on the interval from settings
+  React.useEffect(() => {
+    if (!settings.autoRefresh || filters.replayMode) return
     const interval = setInterval(() => {
-      if (!filters.replayMode) {
-        loadAllData(true)
-      }
-    }, 30000) // Refresh every 30 seconds
+      loadAllData(true)
+    }, settings.refreshInterval * 1000)
     return () => clearInterval(interval)
-  }, [filters.replayMode])
+  }, [filters.replayMode, settings.autoRefresh, settings.refreshInterval])
+
+  // Notify about incidents that appeared since the last refresh
+  React.useEffect(() => {
+    if (incidents.length === 0) return
+    const previousIds = knownIncidentIds.current
+    knownIncidentIds.current = new Set(incidents.map(inc => inc.id))
+    // The first load only establishes the baseline
+    if (!previousIds) return
+
+    const newIncidents = getIncidentsToNotify(incidents, previousIds, settings.notifications)
+    newIncidents.slice(0, MAX_INCIDENT_NOTIFICATIONS).forEach(notifyIncident)
+    if (newIncidents.length > MAX_INCIDENT_NOTIFICATIONS) {
+      toast.warning(`${newIncidents.length - MAX_INCIDENT_NOTIFICATIONS} more new incidents`)
+    }
+  }, [incidents, settings.notifications])
 
   // Replay mode timer
   React.useEffect(() => {
@@ -446,6 +489,8 @@ export function STLMonitorMain() {
                 onIncidentClick={setSelectedIncident}
                 selectedIncident={selectedIncident}
                 replayMode={filters.replayMode}
+                mapStyle={settings.mapStyle}
+                clusterAtZoom={settings.clusterAtZoom}
               />
             </React.Suspense>
 
@@ -9,8 +9,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { useAuth } from "@/components/auth/auth-provider"
 import { AuthDialog } from "@/components/auth/auth-dialog"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { parseAppSettings } from "@/lib/apps/app-settings"
 import { toast } from "sonner"
 import { Trash2, Download, Upload, RotateCcw, Bell, Map, Eye, Clock } from "lucide-react"
 import {
@@ -20,80 +20,24 @@ import {
   CATEGORY_COLORS,
   CATEGORY_ICONS,
 } from "./types"
+import { STL_MONITOR_SETTINGS } from "./settings-schema"
 
 export function STLMonitorSettings() {
   const { user, loading: authLoading } = useAuth()
   const [authDialogOpen, setAuthDialogOpen] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
+  const { settings: savedSettings, loading, save } = useAppSettings(STL_MONITOR_SETTINGS)
   const [saving, setSaving] = React.useState(false)
   const [settings, setSettings] = React.useState<STLMonitorSettingsType>(DEFAULT_SETTINGS)
 
+  // Keep the form in sync with the stored settings, including saves made elsewhere
   React.useEffect(() => {
-    if (user && !authLoading) {
-      loadSettings()
-    } else if (!authLoading && !user) {
-      setLoading(false)
-    }
-  }, [user, authLoading])
-
-  const loadSettings = async () => {
-    if (!user) return
-
-    try {
-      setLoading(true)
-      const settingsRef = doc(db, "users", user.uid, "stlMonitorSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      if (settingsDoc.exists()) {
-        const data = settingsDoc.data()
-        setSettings({
-          defaultCategories: data.defaultCategories ?? DEFAULT_SETTINGS.defaultCategories,
-          defaultSeverityRange: data.defaultSeverityRange ?? DEFAULT_SETTINGS.defaultSeverityRange,
-          defaultTimeWindow: data.defaultTimeWindow ?? DEFAULT_SETTINGS.defaultTimeWindow,
-          autoRefresh: data.autoRefresh ?? DEFAULT_SETTINGS.autoRefresh,
-          refreshInterval: data.refreshInterval ?? DEFAULT_SETTINGS.refreshInterval,
-          mapStyle: data.mapStyle ?? DEFAULT_SETTINGS.mapStyle,
-          clusterAtZoom: data.clusterAtZoom ?? DEFAULT_SETTINGS.clusterAtZoom,
-          notifications: data.notifications ?? DEFAULT_SETTINGS.notifications,
-        })
-      } else {
-        setSettings(DEFAULT_SETTINGS)
-      }
-    } catch (error: any) {
-      console.error("Failed to load settings:", error)
-      if (error.code !== "permission-denied") {
-        toast.error("Failed to load settings")
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
+    setSettings(savedSettings)
+  }, [savedSettings])
 
   const saveSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     try {
       setSaving(true)
-      const settingsRef = doc(db, "users", user.uid, "stlMonitorSettings", "default")
-      const settingsDoc = await getDoc(settingsRef)
-
-      const settingsData = {
-        ...settings,
-        updatedAt: serverTimestamp(),
-      }
-
-      if (settingsDoc.exists()) {
-        await updateDoc(settingsRef, settingsData)
-      } else {
-        await setDoc(settingsRef, {
-          ...settingsData,
-          createdAt: serverTimestamp(),
-        })
-      }
-
+      await save(settings)
       toast.success("Settings saved successfully!")
     } catch (error: any) {
       console.error("Failed to save settings:", error)
@@ -108,11 +52,6 @@ export function STLMonitorSettings() {
   }
 
   const resetSettings = async () => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     if (!confirm("Are you sure you want to reset all settings to default values?")) {
       return
     }
@@ -120,13 +59,7 @@ export function STLMonitorSettings() {
     try {
       setSaving(true)
       setSettings(DEFAULT_SETTINGS)
-      const settingsRef = doc(db, "users", user.uid, "stlMonitorSettings", "default")
-      await setDoc(settingsRef, {
-        ...DEFAULT_SETTINGS,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      })
-
+      await save(DEFAULT_SETTINGS)
       toast.success("Settings reset successfully!")
     } catch (error: any) {
       console.error("Failed to reset settings:", error)
@@ -149,11 +82,6 @@ export function STLMonitorSettings() {
   }
 
   const importSettings = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (!user) {
-      setAuthDialogOpen(true)
-      return
-    }
-
     const file = event.target.files?.[0]
     if (!file) return
 
@@ -161,7 +89,7 @@ export function STLMonitorSettings() {
     reader.onload = (e) => {
       try {
         const imported = JSON.parse(e.target?.result as string)
-        setSettings({ ...DEFAULT_SETTINGS, ...imported })
+        setSettings(parseAppSettings(STL_MONITOR_SETTINGS, imported))
         toast.success("Settings imported successfully! Click Save to apply.")
       } catch (error) {
         toast.error("Failed to import settings. Invalid file format.")
@@ -193,6 +121,19 @@ export function STLMonitorSettings() {
     }))
   }
 
+  const toggleNotifications = (enabled: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      notifications: { ...prev.notifications, enabled }
+    }))
+    // Ask once for browser notifications; in-app alerts work either way
+    if (enabled && typeof Notification !== "undefined" && Notification.permission === "default") {
+      Notification.requestPermission().catch((error) => {
+        console.error("Failed to request notification permission:", error)
+      })
+    }
+  }
+
   if (authLoading || loading) {
     return (
       <Card>
@@ -203,18 +144,6 @@ export function STLMonitorSettings() {
     )
   }
 
-  if (!user) {
-    return (
-      <Card>
-        <CardContent className="py-12 text-center space-y-4">
-          <p className="text-muted-foreground">Please sign in to view and manage your settings</p>
-          <Button onClick={() => setAuthDialogOpen(true)}>Sign In</Button>
-          <AuthDialog open={authDialogOpen} onOpenChange={setAuthDialogOpen} />
-        </CardContent>
-      </Card>
-    )
-  }
-
   return (
     <div className="space-y-6">
       <div>
@@ -222,6 +151,19 @@ export function STLMonitorSettings() {
         <p className="text-muted-foreground">
           Customize your monitoring experience
         </p>
+        {!user && (
+          <p className="text-sm text-muted-foreground mt-2">
+            You’re saving settings on this device.{" "}
+            <button
+              type="button"
+              className="text-primary underline underline-offset-4"
+              onClick={() => setAuthDialogOpen(true)}
+            >
+              Sign in
+            </button>{" "}
+            to sync them across devices.
+          </p>
+        )}
       </div>
 
       <Tabs defaultValue="display" className="space-y-4">
@@ -436,7 +378,7 @@ export function STLMonitorSettings() {
                 <Bell className="h-4 w-4" />
                 Notification Settings
               </CardTitle>
-              <CardDescription>Configure alert notifications (coming soon)</CardDescription>
+              <CardDescription>Get alerted when new high-severity incidents come in</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex items-center justify-between">
@@ -451,16 +393,10 @@ export function STLMonitorSettings() {
                     type="checkbox"
                     id="notificationsEnabled"
                     checked={settings.notifications.enabled}
-                    onChange={(e) =>
-                      setSettings({
-                        ...settings,
-                        notifications: { ...settings.notifications, enabled: e.target.checked }
-                      })
-                    }
+                    onChange={(e) => toggleNotifications(e.target.checked)}
                     className="sr-only peer"
-                    disabled
                   />
-                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary opacity-50"></div>
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
                 </label>
               </div>
 
@@ -510,9 +446,9 @@ export function STLMonitorSettings() {
                 </div>
               </div>
 
-              <Badge variant="secondary" className="w-full justify-center">
-                Push notifications coming soon
-              </Badge>
+              <p className="text-xs text-muted-foreground">
+                Alerts appear while STL Monitor is open. Allow browser notifications to also get them when the tab is in the background.
+              </p>
             </CardContent>
           </Card>
         </TabsContent>
@@ -1,5 +1,7 @@
 // STL Monitor Type Definitions
 
+import type { GeoPoint } from "@/lib/geo"
+
 export type IncidentCategory = 
   | "traffic" 
   | "weather" 
@@ -20,10 +22,7 @@ export type DataSource =
   | "STL County" 
   | "Local News"
 
-export interface GeoPoint {
-  lat: number
-  lng: number
-}
+export type { GeoPoint }
 
 export interface GeoPolygon {
   type: "Polygon"
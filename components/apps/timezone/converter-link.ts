@@ -0,0 +1,52 @@
+// Permalinks for the converter, e.g. /a/timezone/?t=2026-10-20T20:00Z&z=America/Chicago,Europe/Berlin.
+// `t` is the instant in UTC to the minute, so the link means the same moment wherever it's opened;
+// without it the link shares the zones and shows the current time. `z` lists the zones in order.
+
+import { isValidTimeZone } from "./zoned-time"
+
+export interface ConverterLink {
+  /** Null when the link follows the current time */
+  instant: Date | null
+  zones: string[]
+}
+
+// Keeps a pasted link from filling the page with hundreds of cards
+const MAX_LINK_ZONES = 24
+
+/** "2026-10-20T20:00Z" */
+function formatInstant(instant: Date): string {
+  return instant.toISOString().slice(0, 16) + "Z"
+}
+
+/** Query string for a link, without the leading "?" */
+export function buildConverterLinkQuery(link: ConverterLink): string {
+  const params = new URLSearchParams()
+  if (link.instant) params.set("t", formatInstant(link.instant))
+  params.set("z", link.zones.join(","))
+  // "/", "," and ":" are fine in a query string and keep the link readable
+  return params.toString().replace(/%2F/g, "/").replace(/%2C/g, ",").replace(/%3A/g, ":")
+}
+
+/**
+ * Reads a converter link from query parameters. Unknown zones are dropped rather than failing the
+ * whole link; returns null when the parameters don't describe a link at all.
+ */
+export function parseConverterLinkParams(params: URLSearchParams): ConverterLink | null {
+  const time = params.get("t")
+  const zoneList = params.get("z")
+  if (!time && !zoneList) return null
+
+  let instant: Date | null = null
+  if (time) {
+    // Also accept epoch seconds for links built by hand or by scripts
+    const parsed = /^\d+$/.test(time) ? new Date(Number(time) * 1000) : new Date(time)
+    if (!Number.isNaN(parsed.getTime())) instant = new Date(Math.floor(parsed.getTime() / 60000) * 60000)
+  }
+
+  const zones = Array.from(
+    new Set((zoneList ?? "").split(",").map((zone) => zone.trim()).filter((zone) => zone && isValidTimeZone(zone)))
+  ).slice(0, MAX_LINK_ZONES)
+
+  if (!instant && zones.length === 0) return null
+  return { instant, zones }
+}
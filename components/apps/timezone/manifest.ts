@@ -0,0 +1,22 @@
+import { Globe } from "lucide-react"
+import { defineAppManifest } from "@/lib/apps/manifest"
+import { TIMEZONE_SETTINGS } from "./settings-schema"
+import { TimeZoneConverter } from "./timezone-converter"
+import { TimeZoneSettings } from "./timezone-settings"
+
+export const timeZoneManifest = defineAppManifest({
+  appId: "timezone",
+  name: "Time Zone Converter",
+  description: "Compare multiple time zones and convert times across the world",
+  category: "Utilities",
+  tags: ["timezone", "time", "converter", "world", "clock", "meeting", "planner", "permalink"],
+  status: "live",
+  icon: Globe,
+  accent: "from-orange-500 to-red-500",
+  Main: TimeZoneConverter,
+  Settings: TimeZoneSettings,
+  settings: TIMEZONE_SETTINGS,
+  collections: [
+    { name: "timezoneSettings", scope: "user", docParam: "settingsId", description: "Time Zone Converter settings subcollection" },
+  ],
+})
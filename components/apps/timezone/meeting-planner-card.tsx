@@ -0,0 +1,288 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { CalendarPlus, Copy, Users } from "lucide-react"
+import { toast } from "sonner"
+import { buildIcsCalendar } from "@/lib/ics"
+import {
+  DEFAULT_WORKING_HOURS,
+  SLOTS_PER_DAY,
+  SLOT_MINUTES,
+  findOverlapWindows,
+  formatDurationMinutes,
+  formatMeetingSummary,
+  formatTimeInZone,
+  getSlotStart,
+  getWorkingSlots,
+  minutesToTimeInput,
+  timeInputToMinutes,
+  toSlotRanges,
+  type MeetingZone,
+  type SlotRange,
+  type WorkingHours,
+} from "./meeting-planner"
+import { getMinutesInZone, getTodayInZone, zonedTimeToUtc } from "./zoned-time"
+
+// Clicking an overlap window selects at most this many slots from its start
+const DEFAULT_MEETING_SLOTS = 60 / SLOT_MINUTES
+
+interface MeetingPlannerCardProps {
+  zones: MeetingZone[]
+  hour12?: boolean
+}
+
+function toPercent(slot: number): string {
+  return `${(slot / SLOTS_PER_DAY) * 100}%`
+}
+
+function formatHourLabel(hour: number, hour12: boolean): string {
+  if (!hour12) return String(hour).padStart(2, "0")
+  const suffix = hour < 12 ? "a" : "p"
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`
+}
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function MeetingPlannerCard({ zones, hour12 = true }: MeetingPlannerCardProps) {
+  const referenceZone = zones[0]
+  const [date, setDate] = React.useState(() => getTodayInZone(referenceZone.id))
+  const [title, setTitle] = React.useState("Meeting")
+  const [workingHours, setWorkingHours] = React.useState<Record<string, WorkingHours>>({})
+  const [selection, setSelection] = React.useState<SlotRange | null>(null)
+  const dragAnchorRef = React.useRef<number | null>(null)
+
+  // The timeline covers the chosen date from midnight in the first zone
+  const dayStart = React.useMemo(
+    () => (date ? zonedTimeToUtc(date, 0, referenceZone.id) : null),
+    [date, referenceZone.id]
+  )
+
+  const rows = React.useMemo(() => {
+    if (!dayStart) return []
+    return zones.map((zone) => {
+      const hours = workingHours[zone.id] ?? DEFAULT_WORKING_HOURS
+      const localMinutes = Array.from({ length: SLOTS_PER_DAY }, (_, slot) =>
+        getMinutesInZone(zone.id, getSlotStart(dayStart, slot))
+      )
+      return {
+        zone,
+        hours,
+        slots: getWorkingSlots(dayStart, zone.id, hours),
+        // Local hour labels every three hours
+        ticks: localMinutes.flatMap((minutes, slot) =>
+          minutes % 60 === 0 && (minutes / 60) % 3 === 0 ? [{ slot, hour: minutes / 60 }] : []
+        ),
+      }
+    })
+  }, [dayStart, zones, workingHours])
+
+  const overlaps = React.useMemo(() => findOverlapWindows(rows.map((row) => row.slots)), [rows])
+
+  const meeting =
+    dayStart && selection
+      ? { start: getSlotStart(dayStart, selection.start), end: getSlotStart(dayStart, selection.end) }
+      : null
+  const summary = meeting ? formatMeetingSummary(title, meeting.start, meeting.end, zones, hour12) : ""
+
+  const updateWorkingHours = (zoneId: string, field: keyof WorkingHours, value: string) => {
+    const minutes = timeInputToMinutes(value)
+    if (minutes === null) return
+    setWorkingHours((current) => ({
+      ...current,
+      [zoneId]: { ...(current[zoneId] ?? DEFAULT_WORKING_HOURS), [field]: minutes },
+    }))
+  }
+
+  const slotFromPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const slot = Math.floor(((event.clientX - rect.left) / rect.width) * SLOTS_PER_DAY)
+    return Math.min(SLOTS_PER_DAY - 1, Math.max(0, slot))
+  }
+
+  // Dragging on any row selects the same slots across every row
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const slot = slotFromPointer(event)
+    dragAnchorRef.current = slot
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setSelection({ start: slot, end: slot + 1 })
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const anchor = dragAnchorRef.current
+    if (anchor === null) return
+    const slot = slotFromPointer(event)
+    setSelection({ start: Math.min(anchor, slot), end: Math.max(anchor, slot) + 1 })
+  }
+
+  const handlePointerUp = () => {
+    dragAnchorRef.current = null
+  }
+
+  const selectOverlap = (range: SlotRange) => {
+    setSelection({ start: range.start, end: Math.min(range.end, range.start + DEFAULT_MEETING_SLOTS) })
+  }
+
+  const copySummary = () => {
+    navigator.clipboard.writeText(summary)
+    toast.success("Meeting summary copied to clipboard")
+  }
+
+  const downloadIcs = () => {
+    if (!meeting) return
+    const ics = buildIcsCalendar([
+      {
+        uid: `${crypto.randomUUID()}@amer.lol`,
+        start: meeting.start,
+        end: meeting.end,
+        summary: title || "Meeting",
+        description: summary,
+      },
+    ])
+    downloadFile(ics, `${(title || "meeting").replace(/[^\w-]+/g, "-").toLowerCase()}.ics`, "text/calendar")
+    toast.success("Calendar event downloaded")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Meeting Planner
+        </CardTitle>
+        <CardDescription>
+          Green marks each zone&apos;s working hours. Drag across the timeline to pick a slot for everyone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="meetingDate">Date in {referenceZone.city}</Label>
+            <Input id="meetingDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="meetingTitle">Title</Label>
+            <Input id="meetingTitle" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {rows.map((row) => (
+            <div key={row.zone.id} className="grid gap-2 md:grid-cols-[13rem_1fr] md:items-center">
+              <div className="space-y-1">
+                <div className="text-sm font-medium">{row.zone.city}</div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="time"
+                    step={SLOT_MINUTES * 60}
+                    value={minutesToTimeInput(row.hours.start)}
+                    onChange={(e) => updateWorkingHours(row.zone.id, "start", e.target.value)}
+                    className="h-8 w-[6.5rem] px-2 text-xs"
+                    aria-label={`Working hours start in ${row.zone.city}`}
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    step={SLOT_MINUTES * 60}
+                    value={minutesToTimeInput(row.hours.end)}
+                    onChange={(e) => updateWorkingHours(row.zone.id, "end", e.target.value)}
+                    className="h-8 w-[6.5rem] px-2 text-xs"
+                    aria-label={`Working hours end in ${row.zone.city}`}
+                  />
+                </div>
+              </div>
+              <div
+                className="relative h-10 cursor-crosshair touch-none select-none overflow-hidden rounded-md bg-muted"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                {toSlotRanges(row.slots).map((range) => (
+                  <div
+                    key={range.start}
+                    className="absolute inset-y-0 bg-emerald-500/25"
+                    style={{ left: toPercent(range.start), width: toPercent(range.end - range.start) }}
+                  />
+                ))}
+                {overlaps.map((range) => (
+                  <div
+                    key={`overlap-${range.start}`}
+                    className="absolute inset-y-0 bg-emerald-500/40"
+                    style={{ left: toPercent(range.start), width: toPercent(range.end - range.start) }}
+                  />
+                ))}
+                {row.ticks.map((tick) => (
+                  <div
+                    key={tick.slot}
+                    className="absolute inset-y-0 border-l border-foreground/10 pl-0.5 text-[10px] leading-none text-muted-foreground"
+                    style={{ left: toPercent(tick.slot) }}
+                  >
+                    <span className="mt-0.5 block">{formatHourLabel(tick.hour, hour12)}</span>
+                  </div>
+                ))}
+                {selection && (
+                  <div
+                    className="absolute inset-y-0 rounded-sm border-2 border-primary bg-primary/15"
+                    style={{ left: toPercent(selection.start), width: toPercent(selection.end - selection.start) }}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Times when everyone is working</Label>
+          {overlaps.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No overlap on this day. Try widening someone&apos;s working hours, or drag to pick the least bad slot.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {dayStart &&
+                overlaps.map((range) => (
+                  <Button key={range.start} variant="outline" size="sm" onClick={() => selectOverlap(range)}>
+                    {formatTimeInZone(getSlotStart(dayStart, range.start), referenceZone.id, hour12)} –{" "}
+                    {formatTimeInZone(getSlotStart(dayStart, range.end), referenceZone.id, hour12)} {referenceZone.city}
+                    <Badge variant="secondary" className="ml-2">
+                      {formatDurationMinutes((range.end - range.start) * SLOT_MINUTES)}
+                    </Badge>
+                  </Button>
+                ))}
+            </div>
+          )}
+        </div>
+
+        {meeting && (
+          <div className="space-y-2">
+            <Label>Selected slot</Label>
+            <pre className="whitespace-pre-wrap rounded-md bg-muted p-3 font-mono text-sm">{summary}</pre>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={copySummary}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Summary
+              </Button>
+              <Button variant="outline" size="sm" onClick={downloadIcs}>
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Download .ics
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,118 @@
+// Meeting planner logic: lays one day out as fixed-size slots, works out which slots fall inside
+// each zone's working hours, and finds the windows where every zone is working at once.
+
+import { getMinutesInZone, getZoneAbbreviation } from "./zoned-time"
+
+/** Timeline resolution; 15 minutes keeps half- and quarter-hour zones (India, Nepal) aligned */
+export const SLOT_MINUTES = 15
+export const SLOTS_PER_DAY = (24 * 60) / SLOT_MINUTES
+
+export interface WorkingHours {
+  /** Minutes after local midnight */
+  start: number
+  /** Minutes after local midnight; earlier than `start` for shifts that cross midnight */
+  end: number
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9 * 60, end: 17 * 60 }
+
+export function isWithinWorkingHours(minutes: number, hours: WorkingHours): boolean {
+  if (hours.start === hours.end) return false
+  return hours.start < hours.end
+    ? minutes >= hours.start && minutes < hours.end
+    : minutes >= hours.start || minutes < hours.end
+}
+
+export function getSlotStart(dayStart: Date, slot: number): Date {
+  return new Date(dayStart.getTime() + slot * SLOT_MINUTES * 60000)
+}
+
+/** For each slot of the day starting at `dayStart`, whether it falls in the zone's working hours */
+export function getWorkingSlots(dayStart: Date, timeZone: string, hours: WorkingHours): boolean[] {
+  return Array.from({ length: SLOTS_PER_DAY }, (_, slot) =>
+    isWithinWorkingHours(getMinutesInZone(timeZone, getSlotStart(dayStart, slot)), hours)
+  )
+}
+
+export interface SlotRange {
+  /** First slot, inclusive */
+  start: number
+  /** Last slot, exclusive */
+  end: number
+}
+
+/** Consecutive runs of true values */
+export function toSlotRanges(slots: boolean[]): SlotRange[] {
+  const ranges: SlotRange[] = []
+  slots.forEach((value, slot) => {
+    if (!value) return
+    const last = ranges[ranges.length - 1]
+    if (last && last.end === slot) {
+      last.end = slot + 1
+    } else {
+      ranges.push({ start: slot, end: slot + 1 })
+    }
+  })
+  return ranges
+}
+
+/** Windows in which every zone is within its working hours */
+export function findOverlapWindows(workingSlots: boolean[][]): SlotRange[] {
+  if (workingSlots.length === 0) return []
+  return toSlotRanges(
+    Array.from({ length: SLOTS_PER_DAY }, (_, slot) => workingSlots.every((zoneSlots) => zoneSlots[slot]))
+  )
+}
+
+/** "HH:mm", the value format of <input type="time"> */
+export function minutesToTimeInput(minutes: number): string {
+  return `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+}
+
+export function timeInputToMinutes(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+export function formatTimeInZone(date: Date, timeZone: string, hour12: boolean): string {
+  return new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", minute: "2-digit", hour12 }).format(date)
+}
+
+/** e.g. "45m", "1h", "1h 30m" */
+export function formatDurationMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  if (hours === 0) return `${minutes}m`
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`
+}
+
+export interface MeetingZone {
+  id: string
+  city: string
+}
+
+/**
+ * Plain-text summary of a meeting for pasting into chat or email: the title and duration, then the
+ * local date and time range in each zone.
+ */
+export function formatMeetingSummary(
+  title: string,
+  start: Date,
+  end: Date,
+  zones: MeetingZone[],
+  hour12: boolean
+): string {
+  const duration = formatDurationMinutes(Math.round((end.getTime() - start.getTime()) / 60000))
+  const lines = zones.map((zone) => {
+    const day = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone.id,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    }).format(start)
+    const zoneName = getZoneAbbreviation(zone.id, start)
+    const range = `${formatTimeInZone(start, zone.id, hour12)} – ${formatTimeInZone(end, zone.id, hour12)}`
+    return `${zone.city}: ${day}, ${range} ${zoneName}`.trim()
+  })
+  return [`${title || "Meeting"} (${duration})`, ...lines].join("\n")
+}
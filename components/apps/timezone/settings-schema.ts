@@ -0,0 +1,54 @@
+import { z } from "zod"
+import { defineAppSettings } from "@/lib/apps/app-settings"
+
+export const zoneEntrySchema = z.object({
+  /** IANA zone id */
+  id: z.string(),
+  /** Shown instead of the city, e.g. "Mom" or "Berlin office" */
+  label: z.string().optional(),
+})
+
+export const zoneSetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  zones: z.array(zoneEntrySchema),
+})
+
+export type ZoneEntry = z.infer<typeof zoneEntrySchema>
+export type ZoneSet = z.infer<typeof zoneSetSchema>
+
+export const timeZoneSettingsSchema = z.object({
+  defaultTimeZones: z.array(z.string()),
+  // Custom labels for defaultTimeZones, keyed by zone id
+  zoneLabels: z.record(z.string(), z.string()),
+  // Named lists such as "Team EU" or "Family"
+  zoneSets: z.array(zoneSetSchema),
+  // Set shown in the converter; empty for defaultTimeZones
+  activeZoneSetId: z.string(),
+  timeFormat: z.enum(["12", "24"]),
+  showSeconds: z.boolean(),
+  showDayNight: z.boolean(),
+  autoRefresh: z.boolean(),
+})
+
+export type TimeZoneSettingsValues = z.infer<typeof timeZoneSettingsSchema>
+
+export const DEFAULT_TIMEZONE_SETTINGS: TimeZoneSettingsValues = {
+  defaultTimeZones: ["America/New_York", "Europe/London", "Asia/Tokyo"],
+  zoneLabels: {},
+  zoneSets: [],
+  activeZoneSetId: "",
+  timeFormat: "12",
+  showSeconds: true,
+  showDayNight: true,
+  autoRefresh: true,
+}
+
+export const TIMEZONE_SETTINGS = defineAppSettings({
+  appId: "timezone",
+  collection: "timezoneSettings",
+  storageKey: "timezone-converter-settings",
+  schema: timeZoneSettingsSchema,
+  defaults: DEFAULT_TIMEZONE_SETTINGS,
+  version: 1,
+})
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { TimeQueryError, parseTimeQuery, resolveZoneName } from "./time-query"
+
+const HOME = "America/New_York"
+
+// Wednesday 14 October 2026, midday in New York
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date("2026-10-14T16:00:00Z"))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("parseTimeQuery", () => {
+  it("reads a time, day and place", () => {
+    expect(parseTimeQuery("3pm Tuesday in Chicago", HOME)).toEqual({
+      sourceZone: "America/Chicago",
+      date: "2026-10-20",
+      minutes: 15 * 60,
+      targets: [],
+    })
+  })
+
+  it("reads target zones after \"to\"", () => {
+    expect(parseTimeQuery("9:30 PST to Berlin, Tokyo", HOME)).toEqual({
+      sourceZone: "America/Los_Angeles",
+      date: "2026-10-14",
+      minutes: 9 * 60 + 30,
+      targets: ["Europe/Berlin", "Asia/Tokyo"],
+    })
+    expect(parseTimeQuery("tomorrow noon London to Tokyo and Sydney", HOME)).toMatchObject({
+      sourceZone: "Europe/London",
+      date: "2026-10-15",
+      minutes: 12 * 60,
+      targets: ["Asia/Tokyo", "Australia/Sydney"],
+    })
+  })
+
+  it("leaves the zone and time open for \"now\"", () => {
+    expect(parseTimeQuery("now", HOME)).toEqual({ sourceZone: null, date: "2026-10-14", minutes: null, targets: [] })
+  })
+
+  it("handles midnight and noon in 12-hour time", () => {
+    expect(parseTimeQuery("12am", HOME).minutes).toBe(0)
+    expect(parseTimeQuery("12pm", HOME).minutes).toBe(12 * 60)
+    expect(parseTimeQuery("midnight", HOME).minutes).toBe(0)
+    expect(parseTimeQuery("11:59 p.m.", HOME).minutes).toBe(23 * 60 + 59)
+  })
+
+  it("treats today's weekday as today unless it says next", () => {
+    expect(parseTimeQuery("wednesday 5pm", HOME).date).toBe("2026-10-14")
+    expect(parseTimeQuery("next wednesday 5pm", HOME).date).toBe("2026-10-21")
+  })
+
+  it("reads dates in several formats, rolling past dates into next year", () => {
+    expect(parseTimeQuery("Oct 20 9am NYC", HOME)).toMatchObject({ sourceZone: HOME, date: "2026-10-20", minutes: 9 * 60 })
+    expect(parseTimeQuery("20th October 9am", HOME).date).toBe("2026-10-20")
+    expect(parseTimeQuery("10/20 9am", HOME).date).toBe("2026-10-20")
+    expect(parseTimeQuery("2026-12-31 23:00", HOME).date).toBe("2026-12-31")
+    expect(parseTimeQuery("Mar 1 9am", HOME).date).toBe("2027-03-01")
+  })
+
+  it("works out today in the source zone", () => {
+    vi.setSystemTime(new Date("2026-10-14T23:30:00Z"))
+    expect(parseTimeQuery("9am Tokyo", HOME).date).toBe("2026-10-15")
+    expect(parseTimeQuery("9am", HOME).date).toBe("2026-10-14")
+  })
+
+  it("doesn't read weekdays or months inside place names", () => {
+    expect(parseTimeQuery("3pm Montreal", HOME)).toMatchObject({ sourceZone: "America/Toronto", date: "2026-10-14" })
+  })
+
+  it("explains what it couldn't understand", () => {
+    expect(() => parseTimeQuery("  ", HOME)).toThrow(TimeQueryError)
+    expect(() => parseTimeQuery("tuesday in Chicago", HOME)).toThrow("Couldn't find a time")
+    expect(() => parseTimeQuery("13pm", HOME)).toThrow('"13pm" isn\'t a valid time')
+    expect(() => parseTimeQuery("25:00", HOME)).toThrow("isn't a valid time")
+    expect(() => parseTimeQuery("3pm in Atlantis", HOME)).toThrow('Unknown time zone or city "atlantis"')
+    expect(() => parseTimeQuery("3pm to Berlin, Atlantis", HOME)).toThrow('Unknown time zone or city "atlantis"')
+    expect(() => parseTimeQuery("2026-02-30 3pm", HOME)).toThrow("That date doesn't exist")
+  })
+})
+
+describe("resolveZoneName", () => {
+  it("accepts abbreviations, cities, aliases and IANA ids", () => {
+    expect(resolveZoneName("CEST")).toBe("Europe/Paris")
+    expect(resolveZoneName("New York")).toBe("America/New_York")
+    expect(resolveZoneName("São Paulo")).toBe("America/Sao_Paulo")
+    expect(resolveZoneName("Europe/Berlin")).toBe("Europe/Berlin")
+    expect(resolveZoneName("nowhere")).toBeNull()
+    expect(resolveZoneName("  ")).toBeNull()
+  })
+})
@@ -0,0 +1,263 @@
+// Natural-language time queries such as "3pm Tuesday in Chicago" or "9:30 PST to Berlin, Tokyo".
+// Everything before "to" describes the time and the zone it's in; everything after lists zones
+// to convert to. Zone abbreviations stand for the region's zone, so "PST" in July means Pacific
+// time with DST, not a fixed UTC-8.
+
+import { getTodayInZone } from "./zoned-time"
+
+/** Thrown when a query can't be understood; the message says which part and is safe to show */
+export class TimeQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TimeQueryError"
+  }
+}
+
+export interface ParsedTimeQuery {
+  /** IANA zone the time is given in, or null if the query didn't name one */
+  sourceZone: string | null
+  /** YYYY-MM-DD */
+  date: string
+  /** Minutes after midnight, or null for "now" */
+  minutes: number | null
+  /** IANA zones to convert to */
+  targets: string[]
+}
+
+const ZONE_ABBREVIATIONS: Record<string, string> = {
+  utc: "UTC",
+  gmt: "UTC",
+  z: "UTC",
+  pt: "America/Los_Angeles",
+  pst: "America/Los_Angeles",
+  pdt: "America/Los_Angeles",
+  mt: "America/Denver",
+  mst: "America/Denver",
+  mdt: "America/Denver",
+  ct: "America/Chicago",
+  cst: "America/Chicago",
+  cdt: "America/Chicago",
+  et: "America/New_York",
+  est: "America/New_York",
+  edt: "America/New_York",
+  akst: "America/Anchorage",
+  hst: "Pacific/Honolulu",
+  bst: "Europe/London",
+  wet: "Europe/Lisbon",
+  cet: "Europe/Paris",
+  cest: "Europe/Paris",
+  eet: "Europe/Athens",
+  msk: "Europe/Moscow",
+  ist: "Asia/Kolkata",
+  sgt: "Asia/Singapore",
+  hkt: "Asia/Hong_Kong",
+  jst: "Asia/Tokyo",
+  kst: "Asia/Seoul",
+  awst: "Australia/Perth",
+  aest: "Australia/Sydney",
+  aedt: "Australia/Sydney",
+  nzst: "Pacific/Auckland",
+  nzdt: "Pacific/Auckland",
+}
+
+// Well-known places that aren't the city an IANA zone is named after
+const PLACE_ALIASES: Record<string, string> = {
+  "nyc": "America/New_York",
+  "washington": "America/New_York",
+  "boston": "America/New_York",
+  "miami": "America/New_York",
+  "atlanta": "America/New_York",
+  "la": "America/Los_Angeles",
+  "san francisco": "America/Los_Angeles",
+  "sf": "America/Los_Angeles",
+  "seattle": "America/Los_Angeles",
+  "dallas": "America/Chicago",
+  "houston": "America/Chicago",
+  "austin": "America/Chicago",
+  "montreal": "America/Toronto",
+  "sao paulo": "America/Sao_Paulo",
+  "munich": "Europe/Berlin",
+  "frankfurt": "Europe/Berlin",
+  "hamburg": "Europe/Berlin",
+  "barcelona": "Europe/Madrid",
+  "milan": "Europe/Rome",
+  "geneva": "Europe/Zurich",
+  "manchester": "Europe/London",
+  "edinburgh": "Europe/London",
+  "mumbai": "Asia/Kolkata",
+  "delhi": "Asia/Kolkata",
+  "new delhi": "Asia/Kolkata",
+  "bangalore": "Asia/Kolkata",
+  "bengaluru": "Asia/Kolkata",
+  "beijing": "Asia/Shanghai",
+  "shenzhen": "Asia/Shanghai",
+  "osaka": "Asia/Tokyo",
+  "melbourne": "Australia/Melbourne",
+  "canberra": "Australia/Sydney",
+  "wellington": "Pacific/Auckland",
+}
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+// Whole words only, so "mon" doesn't match "Montreal"
+const WEEKDAY_NAMES = "sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs?|rsday)?|fri(?:day)?|sat(?:urday)?"
+const MONTH_NAMES =
+  "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?"
+
+let zonesByCity: Map<string, string> | null = null
+
+function normalizePlace(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/[_.]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/** IANA zones keyed by their city ("new york") and full id ("america/new york") */
+function getZonesByCity(): Map<string, string> {
+  if (!zonesByCity) {
+    zonesByCity = new Map()
+    for (const id of Intl.supportedValuesOf("timeZone")) {
+      zonesByCity.set(normalizePlace(id), id)
+      const city = normalizePlace(id.split("/").pop() ?? id)
+      if (!zonesByCity.has(city)) zonesByCity.set(city, id)
+    }
+  }
+  return zonesByCity
+}
+
+/** Resolves a city, abbreviation or IANA id to an IANA zone, or null if it isn't recognised */
+export function resolveZoneName(text: string): string | null {
+  const place = normalizePlace(text)
+  if (!place) return null
+  return ZONE_ABBREVIATIONS[place] ?? PLACE_ALIASES[place] ?? getZonesByCity().get(place) ?? null
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10)
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+// A month and day without a year means the next time that date comes round
+function nextOccurrence(month: number, day: number, today: string): string | null {
+  const year = Number(today.slice(0, 4))
+  const thisYear = toIsoDate(year, month, day)
+  if (!thisYear) return null
+  return thisYear >= today ? thisYear : toIsoDate(year + 1, month, day)
+}
+
+interface Extracted<T> {
+  value: T
+  rest: string
+}
+
+function extract<T>(text: string, pattern: RegExp, read: (match: RegExpMatchArray) => T): Extracted<T> | null {
+  const match = text.match(pattern)
+  if (!match || match.index === undefined) return null
+  return { value: read(match), rest: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}` }
+}
+
+// The date's meaning can depend on "today" in the source zone, which isn't known until the rest
+// of the query has been read, so dates are extracted as resolvers
+type DateResolver = (today: string) => string | null
+
+function extractDate(text: string): Extracted<DateResolver> | null {
+  const iso = extract(text, /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, (m) => () =>
+    toIsoDate(Number(m[1]), Number(m[2]), Number(m[3]))
+  )
+  const relative = extract(text, /\b(today|tonight|tomorrow|yesterday)\b/, (m) => (today: string) =>
+    m[1] === "tomorrow" ? addDays(today, 1) : m[1] === "yesterday" ? addDays(today, -1) : today
+  )
+  const weekday = extract(text, new RegExp(`\\b(next\\s+)?(${WEEKDAY_NAMES})\\b`), (m) => (today: string) => {
+    const target = WEEKDAYS.indexOf(m[2].slice(0, 3))
+    const [year, month, day] = today.split("-").map(Number)
+    const current = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+    // "Tuesday" is today if it's Tuesday, "next Tuesday" is never today
+    let days = (target - current + 7) % 7
+    if (m[1] && days === 0) days = 7
+    return addDays(today, days)
+  })
+  const monthFirst = extract(text, new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`), (m) =>
+    (today: string) => nextOccurrence(MONTHS.indexOf(m[1].slice(0, 3)) + 1, Number(m[2]), today)
+  )
+  const dayFirst = extract(text, new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})\\b`), (m) =>
+    (today: string) => nextOccurrence(MONTHS.indexOf(m[2].slice(0, 3)) + 1, Number(m[1]), today)
+  )
+  // US style month/day
+  const numeric = extract(text, /\b(\d{1,2})\/(\d{1,2})\b/, (m) => (today: string) =>
+    nextOccurrence(Number(m[1]), Number(m[2]), today)
+  )
+  return iso ?? relative ?? weekday ?? monthFirst ?? dayFirst ?? numeric
+}
+
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.|a|p)?(?=\s|$)/g
+
+function extractTime(text: string): Extracted<number | null> | null {
+  const keyword = extract(text, /\b(now|noon|midday|midnight)\b/, (m) =>
+    m[1] === "now" ? null : m[1] === "midnight" ? 0 : 12 * 60
+  )
+  if (keyword) return keyword
+
+  // Bare numbers ("20" in "Oct 20") aren't times; a time needs minutes or am/pm
+  const match = Array.from(text.matchAll(TIME_PATTERN)).find((m) => m[2] || m[3])
+  if (!match || match.index === undefined) return null
+  let hours = Number(match[1])
+  const minutes = Number(match[2] ?? 0)
+  const meridiem = match[3]?.[0]
+  if (meridiem) {
+    if (hours < 1 || hours > 12) throw new TimeQueryError(`"${match[0].trim()}" isn't a valid time`)
+    hours = (hours % 12) + (meridiem === "p" ? 12 : 0)
+  }
+  if (hours > 23 || minutes > 59) throw new TimeQueryError(`"${match[0].trim()}" isn't a valid time`)
+  return {
+    value: hours * 60 + minutes,
+    rest: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`,
+  }
+}
+
+function parseTargets(text: string): string[] {
+  return text
+    .split(/\s*(?:,|&|\band\b)\s*/)
+    .filter((part) => part.trim())
+    .map((part) => {
+      const zone = resolveZoneName(part)
+      if (!zone) throw new TimeQueryError(`Unknown time zone or city "${part.trim()}"`)
+      return zone
+    })
+}
+
+/**
+ * Parses a query like "3pm Tuesday in Chicago", "9:30 PST to Berlin" or "tomorrow noon London to
+ * Tokyo and Sydney". Dates are relative to today in the source zone, or in `defaultZone` if the
+ * query doesn't name one. Throws a TimeQueryError when part of the query isn't understood.
+ */
+export function parseTimeQuery(query: string, defaultZone: string): ParsedTimeQuery {
+  const text = query.toLowerCase().replace(/\s+/g, " ").trim()
+  if (!text) throw new TimeQueryError("Type a time, such as \"3pm Tuesday in Chicago\"")
+
+  const [sourceText, targetText = ""] = text.split(/\s+(?:to|into|->|→)\s+/, 2)
+  const targets = parseTargets(targetText)
+
+  // Pull out the time and date; whatever is left names the source zone
+  const time = extractTime(sourceText)
+  if (!time) throw new TimeQueryError("Couldn't find a time. Try \"3pm\", \"15:30\" or \"noon\"")
+  const date = extractDate(time.rest)
+  const zoneText = (date?.rest ?? time.rest).replace(/\b(in|at|on|this)\b/g, " ").replace(/\s+/g, " ").trim()
+  const sourceZone = zoneText ? resolveZoneName(zoneText) : null
+  if (zoneText && !sourceZone) throw new TimeQueryError(`Unknown time zone or city "${zoneText}"`)
+
+  const today = getTodayInZone(sourceZone ?? defaultZone)
+  const resolvedDate = date ? date.value(today) : today
+  if (!resolvedDate) throw new TimeQueryError("That date doesn't exist")
+
+  return { sourceZone, date: resolvedDate, minutes: time.value, targets }
+}
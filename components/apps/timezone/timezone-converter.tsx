@@ -14,104 +14,218 @@ import {
   Clock,
   Sun,
   Moon,
-  Calendar
+  Calendar,
+  AlertTriangle,
+  ArrowRight,
+  Link2,
+  Wand2,
+  GripVertical,
+  Pencil,
+  Save,
+  Trash2
 } from "lucide-react"
 import { toast } from "sonner"
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { TIMEZONE_SETTINGS, type TimeZoneSettingsValues, type ZoneEntry } from "./settings-schema"
+import { MeetingPlannerCard } from "./meeting-planner-card"
+import { formatDurationMinutes, minutesToTimeInput } from "./meeting-planner"
+import { parseTimeQuery, TimeQueryError } from "./time-query"
+import { buildConverterLinkQuery, parseConverterLinkParams } from "./converter-link"
+import {
+  findOffsetTransitions,
+  formatOffset,
+  getDateInZone,
+  getLocalTimeZone,
+  getMinutesInZone,
+  getZoneAbbreviation,
+  getZoneOffsetMinutes,
+  isDaylightSavingTime,
+  resolveWallClock,
+  type OffsetTransition,
+} from "./zoned-time"
 
+// Offsets and abbreviations change with daylight saving time, so they're looked up per instant
+// (see zoned-time.ts) rather than stored here
 interface TimeZone {
   id: string
   name: string
   city: string
-  offset: number
-  abbreviation: string
+  /** Custom name from the user's zone list, shown instead of the city */
+  label?: string
 }
 
 // Popular time zones
 const POPULAR_TIMEZONES: TimeZone[] = [
-  { id: "America/New_York", name: "Eastern Time", city: "New York", offset: -5, abbreviation: "EST" },
-  { id: "America/Chicago", name: "Central Time", city: "Chicago", offset: -6, abbreviation: "CST" },
-  { id: "America/Denver", name: "Mountain Time", city: "Denver", offset: -7, abbreviation: "MST" },
-  { id: "America/Los_Angeles", name: "Pacific Time", city: "Los Angeles", offset: -8, abbreviation: "PST" },
-  { id: "Europe/London", name: "Greenwich Mean Time", city: "London", offset: 0, abbreviation: "GMT" },
-  { id: "Europe/Paris", name: "Central European Time", city: "Paris", offset: 1, abbreviation: "CET" },
-  { id: "Asia/Tokyo", name: "Japan Standard Time", city: "Tokyo", offset: 9, abbreviation: "JST" },
-  { id: "Asia/Shanghai", name: "China Standard Time", city: "Shanghai", offset: 8, abbreviation: "CST" },
-  { id: "Asia/Dubai", name: "Gulf Standard Time", city: "Dubai", offset: 4, abbreviation: "GST" },
-  { id: "Australia/Sydney", name: "Australian Eastern Time", city: "Sydney", offset: 10, abbreviation: "AEST" },
-  { id: "America/Sao_Paulo", name: "Brasilia Time", city: "São Paulo", offset: -3, abbreviation: "BRT" },
-  { id: "Asia/Kolkata", name: "India Standard Time", city: "Mumbai", offset: 5.5, abbreviation: "IST" },
+  { id: "America/New_York", name: "Eastern Time", city: "New York" },
+  { id: "America/Chicago", name: "Central Time", city: "Chicago" },
+  { id: "America/Denver", name: "Mountain Time", city: "Denver" },
+  { id: "America/Los_Angeles", name: "Pacific Time", city: "Los Angeles" },
+  { id: "Europe/London", name: "UK Time", city: "London" },
+  { id: "Europe/Paris", name: "Central European Time", city: "Paris" },
+  { id: "Asia/Tokyo", name: "Japan Standard Time", city: "Tokyo" },
+  { id: "Asia/Shanghai", name: "China Standard Time", city: "Shanghai" },
+  { id: "Asia/Dubai", name: "Gulf Standard Time", city: "Dubai" },
+  { id: "Australia/Sydney", name: "Australian Eastern Time", city: "Sydney" },
+  { id: "America/Sao_Paulo", name: "Brasilia Time", city: "São Paulo" },
+  { id: "Asia/Kolkata", name: "India Standard Time", city: "Mumbai" },
 ]
 
-const ALL_TIMEZONES = Intl.supportedValuesOf("timeZone").map((tz) => {
-  const now = new Date()
-  const formatter = new Intl.DateTimeFormat("en-US", {
-    timeZone: tz,
-    timeZoneName: "short",
-  })
-  const parts = formatter.formatToParts(now)
-  const tzName = parts.find((p) => p.type === "timeZoneName")?.value || ""
-  
-  // Get offset
-  const utcDate = new Date(now.toLocaleString("en-US", { timeZone: "UTC" }))
-  const tzDate = new Date(now.toLocaleString("en-US", { timeZone: tz }))
-  const offset = (tzDate.getTime() - utcDate.getTime()) / (1000 * 60 * 60)
-  
+const ALL_TIMEZONES: TimeZone[] = Intl.supportedValuesOf("timeZone").map((tz) => ({
+  id: tz,
+  name: tz,
   // Extract city name
-  const city = tz.split("/").pop()?.replace(/_/g, " ") || tz
-  
-  return {
-    id: tz,
-    name: tz,
-    city: city,
-    offset: offset,
-    abbreviation: tzName,
-  }
-})
+  city: tz.split("/").pop()?.replace(/_/g, " ") || tz,
+}))
+
+// Zones from typed queries and shared links can be any IANA id, not just the listed ones
+function findTimeZone(id: string): TimeZone {
+  return (
+    POPULAR_TIMEZONES.find((tz) => tz.id === id) ??
+    ALL_TIMEZONES.find((tz) => tz.id === id) ?? { id, name: id, city: id.split("/").pop()?.replace(/_/g, " ") || id }
+  )
+}
+
+// Value of the source zone select that follows the browser's zone
+const LOCAL_ZONE = "local"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Firestore rejects undefined fields, so entries only carry a label when there is one
+function toZoneEntry(id: string, label?: string): ZoneEntry {
+  return label ? { id, label } : { id }
+}
+
+function formatTransition(transition: OffsetTransition, timeZone: string, hour12: boolean): string {
+  const when = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12,
+  }).format(transition.at)
+  const change = transition.offsetAfter - transition.offsetBefore
+  const direction = change > 0 ? "forward" : "back"
+  const abbreviation = getZoneAbbreviation(timeZone, transition.at)
+  return `${when}: clocks go ${direction} ${formatDurationMinutes(Math.abs(change))} to ${abbreviation}`
+}
 
 export function TimeZoneConverter() {
-  const [selectedTimeZones, setSelectedTimeZones] = React.useState<TimeZone[]>([
-    POPULAR_TIMEZONES[0], // New York
-    POPULAR_TIMEZONES[4], // London
-    POPULAR_TIMEZONES[6], // Tokyo
-  ])
+  const { settings, save } = useAppSettings(TIMEZONE_SETTINGS)
+  // Zones from a shared link are shown without replacing the user's own list
+  const [sharedZones, setSharedZones] = React.useState<ZoneEntry[] | null>(null)
   const [currentTime, setCurrentTime] = React.useState(new Date())
   const [selectedDate, setSelectedDate] = React.useState<string>("")
   const [selectedTime, setSelectedTime] = React.useState<string>("")
   const [searchQuery, setSearchQuery] = React.useState("")
   const [showSearch, setShowSearch] = React.useState(false)
+  // Zone the picked date and time are read in
+  const [sourceZone, setSourceZone] = React.useState(LOCAL_ZONE)
+  // For times that happen twice when clocks fall back
+  const [useLaterOccurrence, setUseLaterOccurrence] = React.useState(false)
+  const [timeQuery, setTimeQuery] = React.useState("")
+  const sharedLinkLoadedRef = React.useRef(false)
+  const [newSetName, setNewSetName] = React.useState("")
+  const [showNewSet, setShowNewSet] = React.useState(false)
+  const [editingLabelId, setEditingLabelId] = React.useState<string | null>(null)
+  const [labelDraft, setLabelDraft] = React.useState("")
+  // Escape closes the label editor; the blur that follows mustn't save the draft
+  const labelCancelledRef = React.useRef(false)
+  const draggedZoneIdRef = React.useRef<string | null>(null)
+  const [dragOverZoneId, setDragOverZoneId] = React.useState<string | null>(null)
+
+  const hour12 = settings.timeFormat === "12"
+  const activeZoneSet = settings.zoneSets.find((set) => set.id === settings.activeZoneSetId)
 
-  // Update current time every second
+  // The list being edited: the active zone set, or the default zones when none is picked
+  const savedZones = React.useMemo<ZoneEntry[]>(
+    () =>
+      activeZoneSet?.zones ??
+      settings.defaultTimeZones.map((id) => toZoneEntry(id, settings.zoneLabels[id])),
+    [activeZoneSet, settings.defaultTimeZones, settings.zoneLabels]
+  )
+  const zoneEntries = sharedZones ?? savedZones
+
+  const selectedTimeZones = React.useMemo<TimeZone[]>(
+    () => zoneEntries.map((entry) => ({ ...findTimeZone(entry.id), label: entry.label })),
+    [zoneEntries]
+  )
+
+  const meetingZones = React.useMemo(
+    () => selectedTimeZones.map((tz) => ({ id: tz.id, city: tz.label || tz.city })),
+    [selectedTimeZones]
+  )
+
+  // Update current time every second, or every minute with auto refresh off
   React.useEffect(() => {
     const timer = setInterval(() => {
       setCurrentTime(new Date())
-    }, 1000)
+    }, settings.autoRefresh ? 1000 : 60000)
     return () => clearInterval(timer)
-  }, [])
+  }, [settings.autoRefresh])
 
-  // Get time in a specific timezone
-  const getTimeInZone = (timeZone: TimeZone, date?: Date) => {
-    let dateToUse: Date
-    if (selectedDate && selectedTime) {
-      // Create date from selected date and time in local timezone
-      const [hours, minutes] = selectedTime.split(":").map(Number)
-      dateToUse = new Date(selectedDate)
-      dateToUse.setHours(hours, minutes, 0, 0)
-    } else {
-      dateToUse = date || currentTime
+  // Open a shared link (?t=...&z=...), showing its instant in the visitor's own time zone
+  React.useEffect(() => {
+    if (sharedLinkLoadedRef.current) return
+    sharedLinkLoadedRef.current = true
+    const link = parseConverterLinkParams(new URLSearchParams(window.location.search))
+    if (!link) return
+
+    if (link.zones.length > 0) setSharedZones(link.zones.map((id) => toZoneEntry(id)))
+    if (link.instant) {
+      const localZone = getLocalTimeZone()
+      const date = getDateInZone(localZone, link.instant)
+      const minutes = getMinutesInZone(localZone, link.instant)
+      setSourceZone(LOCAL_ZONE)
+      setSelectedDate(date)
+      setSelectedTime(minutesToTimeInput(minutes))
+      // The link may point at the second pass through an hour repeated when clocks fall back
+      const resolved = resolveWallClock(date, minutes, localZone)
+      setUseLaterOccurrence(resolved.laterInstant?.getTime() === link.instant.getTime())
     }
+    toast.success("Loaded shared time zone comparison")
+  }, [])
 
+  const sourceTimeZone = sourceZone === LOCAL_ZONE ? getLocalTimeZone() : sourceZone
+  const sourceCity =
+    sourceZone === LOCAL_ZONE
+      ? "your time zone"
+      : ALL_TIMEZONES.find((tz) => tz.id === sourceZone)?.city ?? sourceZone
+
+  // The picked date and time as wall-clock time in the source zone, or null for "now"
+  const resolvedTime = React.useMemo(() => {
+    if (!selectedDate || !selectedTime) return null
+    const [hours, minutes] = selectedTime.split(":").map(Number)
+    return resolveWallClock(selectedDate, hours * 60 + minutes, sourceTimeZone)
+  }, [selectedDate, selectedTime, sourceTimeZone])
+
+  const referenceDate = resolvedTime
+    ? (useLaterOccurrence && resolvedTime.laterInstant) || resolvedTime.instant
+    : currentTime
+
+  // Recomputed once a day rather than every tick; passed transitions are filtered out below
+  const referenceDay = Math.floor(referenceDate.getTime() / DAY_MS)
+  const upcomingTransitions = React.useMemo(() => {
+    const from = new Date(referenceDay * DAY_MS)
+    return Object.fromEntries(selectedTimeZones.map((tz) => [tz.id, findOffsetTransitions(tz.id, from, 3)]))
+  }, [selectedTimeZones, referenceDay])
+
+  // Get time in a specific timezone
+  const getTimeInZone = (timeZone: TimeZone) => {
     try {
       return new Intl.DateTimeFormat("en-US", {
         timeZone: timeZone.id,
         hour: "2-digit",
         minute: "2-digit",
-        second: "2-digit",
-        hour12: true,
+        second: settings.showSeconds ? "2-digit" : undefined,
+        // h23 rather than hour12: false, which shows midnight as 24:00
+        hourCycle: hour12 ? "h12" : "h23",
         weekday: "short",
         month: "short",
         day: "numeric",
         year: "numeric",
-      }).format(dateToUse)
+      }).format(referenceDate)
     } catch {
       return "Invalid timezone"
     }
@@ -119,56 +233,129 @@ export function TimeZoneConverter() {
 
   // Get hour for day/night indicator
   const getHourInZone = (timeZone: TimeZone) => {
-    let dateToUse: Date
-    if (selectedDate && selectedTime) {
-      const [hours, minutes] = selectedTime.split(":").map(Number)
-      dateToUse = new Date(selectedDate)
-      dateToUse.setHours(hours, minutes, 0, 0)
-    } else {
-      dateToUse = currentTime
-    }
-
     try {
-      return parseInt(
-        new Intl.DateTimeFormat("en-US", {
-          timeZone: timeZone.id,
-          hour: "2-digit",
-          hour12: false,
-        }).format(dateToUse)
-      )
+      return Math.floor(getMinutesInZone(timeZone.id, referenceDate) / 60)
     } catch {
       return 12
     }
   }
 
+  const getOffsetLabel = (timeZone: TimeZone) => formatOffset(getZoneOffsetMinutes(timeZone.id, referenceDate))
+
   const isDayTime = (hour: number) => {
     return hour >= 6 && hour < 18
   }
 
+  const saveSettings = async (next: TimeZoneSettingsValues) => {
+    try {
+      await save(next)
+    } catch (error) {
+      console.error("Failed to save time zones:", error)
+      toast.error("Failed to save time zones")
+    }
+  }
+
+  // Saves the zone list to the active set (or the default zones); a shared link's list stays local
+  const updateZones = async (zones: ZoneEntry[]) => {
+    if (sharedZones) {
+      setSharedZones(zones)
+      return
+    }
+    if (activeZoneSet) {
+      await saveSettings({
+        ...settings,
+        zoneSets: settings.zoneSets.map((set) => (set.id === activeZoneSet.id ? { ...set, zones } : set)),
+      })
+    } else {
+      await saveSettings({
+        ...settings,
+        defaultTimeZones: zones.map((zone) => zone.id),
+        zoneLabels: Object.fromEntries(zones.flatMap((zone) => (zone.label ? [[zone.id, zone.label]] : []))),
+      })
+    }
+  }
+
   const addTimeZone = (timeZone: TimeZone) => {
-    if (selectedTimeZones.some((tz) => tz.id === timeZone.id)) {
+    if (zoneEntries.some((zone) => zone.id === timeZone.id)) {
       toast.error("Time zone already added")
       return
     }
-    setSelectedTimeZones([...selectedTimeZones, timeZone])
+    updateZones([...zoneEntries, toZoneEntry(timeZone.id)])
     setShowSearch(false)
     setSearchQuery("")
     toast.success(`Added ${timeZone.city}`)
   }
 
   const removeTimeZone = (id: string) => {
-    if (selectedTimeZones.length <= 1) {
+    if (zoneEntries.length <= 1) {
       toast.error("At least one time zone must be displayed")
       return
     }
-    setSelectedTimeZones(selectedTimeZones.filter((tz) => tz.id !== id))
+    updateZones(zoneEntries.filter((zone) => zone.id !== id))
     toast.success("Time zone removed")
   }
 
+  const moveZone = (fromId: string, toId: string) => {
+    if (fromId === toId) return
+    const moved = zoneEntries.find((zone) => zone.id === fromId)
+    if (!moved) return
+    const rest = zoneEntries.filter((zone) => zone.id !== fromId)
+    const index = rest.findIndex((zone) => zone.id === toId)
+    // Dropping onto a later card puts the zone after it, onto an earlier one before it
+    const insertAt = index + (zoneEntries.findIndex((zone) => zone.id === fromId) <= index ? 1 : 0)
+    updateZones([...rest.slice(0, insertAt), moved, ...rest.slice(insertAt)])
+  }
+
+  const startEditingLabel = (timeZone: TimeZone) => {
+    labelCancelledRef.current = false
+    setEditingLabelId(timeZone.id)
+    setLabelDraft(timeZone.label ?? "")
+  }
+
+  const saveLabel = () => {
+    if (!editingLabelId || labelCancelledRef.current) return
+    const label = labelDraft.trim()
+    setEditingLabelId(null)
+    if (label === (zoneEntries.find((zone) => zone.id === editingLabelId)?.label ?? "")) return
+    updateZones(zoneEntries.map((zone) => (zone.id === editingLabelId ? toZoneEntry(zone.id, label) : zone)))
+  }
+
+  const selectZoneSet = (id: string) => {
+    setSharedZones(null)
+    saveSettings({ ...settings, activeZoneSetId: id })
+  }
+
+  const createZoneSet = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const name = newSetName.trim()
+    if (!name) return
+    if (settings.zoneSets.some((set) => set.name.toLowerCase() === name.toLowerCase())) {
+      toast.error(`A zone set called "${name}" already exists`)
+      return
+    }
+    const zoneSet = { id: crypto.randomUUID(), name, zones: zoneEntries }
+    await saveSettings({ ...settings, zoneSets: [...settings.zoneSets, zoneSet], activeZoneSetId: zoneSet.id })
+    setSharedZones(null)
+    setNewSetName("")
+    setShowNewSet(false)
+    toast.success(`Saved zone set "${name}"`)
+  }
+
+  const deleteZoneSet = async () => {
+    if (!activeZoneSet) return
+    if (!confirm(`Delete the "${activeZoneSet.name}" zone set?`)) return
+    await saveSettings({
+      ...settings,
+      zoneSets: settings.zoneSets.filter((set) => set.id !== activeZoneSet.id),
+      activeZoneSetId: "",
+    })
+    toast.success("Zone set deleted")
+  }
+
   const copyTime = (timeZone: TimeZone) => {
     const time = getTimeInZone(timeZone)
     navigator.clipboard.writeText(time)
-    toast.success(`Copied time for ${timeZone.city}`)
+    toast.success(`Copied time for ${timeZone.label || timeZone.city}`)
   }
 
   const filteredTimeZones = React.useMemo(() => {
@@ -183,9 +370,49 @@ export function TimeZoneConverter() {
     ).slice(0, 20) // Limit results
   }, [searchQuery])
 
+  const applyTimeQuery = (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      const parsed = parseTimeQuery(timeQuery, getLocalTimeZone())
+      const newZones = Array.from(new Set([parsed.sourceZone, ...parsed.targets]))
+        .filter((id): id is string => !!id && !zoneEntries.some((zone) => zone.id === id))
+        .map(findTimeZone)
+      if (newZones.length > 0) updateZones([...zoneEntries, ...newZones.map((tz) => toZoneEntry(tz.id))])
+
+      setSourceZone(parsed.sourceZone ?? LOCAL_ZONE)
+      setUseLaterOccurrence(false)
+      if (parsed.minutes === null) {
+        setSelectedDate("")
+        setSelectedTime("")
+      } else {
+        setSelectedDate(parsed.date)
+        setSelectedTime(minutesToTimeInput(parsed.minutes))
+      }
+      const city = parsed.sourceZone ? findTimeZone(parsed.sourceZone).city : "your time zone"
+      toast.success(
+        parsed.minutes === null
+          ? `Showing the current time${newZones.length > 0 ? ` with ${newZones.map((tz) => tz.city).join(", ")}` : ""}`
+          : `Showing ${parsed.date} ${minutesToTimeInput(parsed.minutes)} in ${city}`
+      )
+    } catch (error) {
+      if (!(error instanceof TimeQueryError)) console.error("Error parsing time query:", error)
+      toast.error(error instanceof TimeQueryError ? error.message : "Couldn't understand that time")
+    }
+  }
+
+  const copyLink = () => {
+    const query = buildConverterLinkQuery({
+      instant: resolvedTime ? referenceDate : null,
+      zones: selectedTimeZones.map((tz) => tz.id),
+    })
+    navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}?${query}`)
+    toast.success(resolvedTime ? "Link to this time copied" : "Link to these time zones copied")
+  }
+
   const clearCustomTime = () => {
     setSelectedDate("")
     setSelectedTime("")
+    setUseLaterOccurrence(false)
     toast.info("Using current time")
   }
 
@@ -211,10 +438,25 @@ export function TimeZoneConverter() {
             Select Date & Time
           </CardTitle>
           <CardDescription>
-            Choose a specific date and time to convert, or leave empty to use current time
+            Choose a specific date and time in any time zone to convert, or leave empty to use current time
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <form onSubmit={applyTimeQuery} className="space-y-2">
+            <Label htmlFor="timeQuery">Type a time</Label>
+            <div className="flex gap-2">
+              <Input
+                id="timeQuery"
+                placeholder='e.g. "3pm Tuesday in Chicago" or "9:30 PST to Berlin"'
+                value={timeQuery}
+                onChange={(e) => setTimeQuery(e.target.value)}
+              />
+              <Button type="submit" variant="outline" disabled={!timeQuery.trim()}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Convert
+              </Button>
+            </div>
+          </form>
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="flex-1 space-y-2">
               <Label htmlFor="date">Date</Label>
@@ -234,6 +476,25 @@ export function TimeZoneConverter() {
                 onChange={(e) => setSelectedTime(e.target.value)}
               />
             </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="sourceZone">In time zone</Label>
+              <select
+                id="sourceZone"
+                value={sourceZone}
+                onChange={(e) => {
+                  setSourceZone(e.target.value)
+                  setUseLaterOccurrence(false)
+                }}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              >
+                <option value={LOCAL_ZONE}>Your time zone ({getLocalTimeZone()})</option>
+                {selectedTimeZones.map((tz) => (
+                  <option key={tz.id} value={tz.id}>
+                    {tz.label || tz.city} ({tz.id})
+                  </option>
+                ))}
+              </select>
+            </div>
             {(selectedDate || selectedTime) && (
               <div className="flex items-end">
                 <Button variant="outline" onClick={clearCustomTime}>
@@ -243,18 +504,108 @@ export function TimeZoneConverter() {
               </div>
             )}
           </div>
+          {resolvedTime && resolvedTime.status !== "exact" && (
+            <div className="flex items-start gap-3 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+              <div className="flex-1 space-y-2">
+                {resolvedTime.status === "gap" ? (
+                  <p>
+                    {selectedTime} doesn&apos;t exist in {sourceCity} on this date: clocks spring forward{" "}
+                    {formatDurationMinutes(resolvedTime.transitionMinutes)}. Showing the time{" "}
+                    {formatDurationMinutes(resolvedTime.transitionMinutes)} later instead.
+                  </p>
+                ) : (
+                  <p>
+                    {selectedTime} happens twice in {sourceCity} on this date as clocks fall back{" "}
+                    {formatDurationMinutes(resolvedTime.transitionMinutes)}. Showing the{" "}
+                    {useLaterOccurrence ? "second" : "first"} occurrence (
+                    {getZoneAbbreviation(sourceTimeZone, referenceDate)}).
+                  </p>
+                )}
+                {resolvedTime.status === "overlap" && (
+                  <Button variant="outline" size="sm" onClick={() => setUseLaterOccurrence(!useLaterOccurrence)}>
+                    Use {useLaterOccurrence ? "first" : "second"} occurrence
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Add Time Zone */}
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Time Zones</h3>
-        <Button onClick={() => setShowSearch(!showSearch)} variant="outline">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Time Zone
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={copyLink} variant="outline" disabled={selectedTimeZones.length === 0}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Copy Link
+          </Button>
+          <Button onClick={() => setShowSearch(!showSearch)} variant="outline">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Time Zone
+          </Button>
+        </div>
+      </div>
+
+      {/* Zone Sets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor="zoneSet" className="text-sm text-muted-foreground">
+          Zone set
+        </Label>
+        <select
+          id="zoneSet"
+          value={sharedZones ? "" : activeZoneSet?.id ?? ""}
+          onChange={(e) => selectZoneSet(e.target.value)}
+          className="flex h-10 w-48 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          <option value="">My time zones</option>
+          {settings.zoneSets.map((set) => (
+            <option key={set.id} value={set.id}>
+              {set.name}
+            </option>
+          ))}
+        </select>
+        {showNewSet ? (
+          <form onSubmit={createZoneSet} className="flex gap-2">
+            <Input
+              placeholder='e.g. "Team EU" or "Family"'
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+              maxLength={40}
+              className="w-48"
+              autoFocus
+            />
+            <Button type="submit" variant="outline" disabled={!newSetName.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => setShowNewSet(false)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </form>
+        ) : (
+          <Button variant="outline" onClick={() => setShowNewSet(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Save as Set
+          </Button>
+        )}
+        {activeZoneSet && !sharedZones && (
+          <Button variant="ghost" size="icon" onClick={deleteZoneSet} title={`Delete "${activeZoneSet.name}"`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
       </div>
 
+      {sharedZones && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border bg-muted/50 p-3 text-sm">
+          <span>Showing time zones from a shared link. Changes here aren&apos;t saved unless you save them as a set.</span>
+          <Button variant="outline" size="sm" onClick={() => setSharedZones(null)}>
+            Back to my zones
+          </Button>
+        </div>
+      )}
+
       {showSearch && (
         <Card>
           <CardHeader>
@@ -285,7 +636,7 @@ export function TimeZoneConverter() {
                         <div className="text-sm text-muted-foreground">{tz.id}</div>
                       </div>
                       <div className="text-sm text-muted-foreground">
-                        UTC{tz.offset >= 0 ? "+" : ""}{tz.offset}
+                        {getOffsetLabel(tz)}
                       </div>
                     </div>
                   </Button>
@@ -302,15 +653,77 @@ export function TimeZoneConverter() {
           const hour = getHourInZone(tz)
           const isDay = isDayTime(hour)
           const timeString = getTimeInZone(tz)
+          // "Tue, Oct 20, 2026, 09:00:00 AM": the time follows the last comma
+          const timeSeparator = timeString.lastIndexOf(", ")
+          const transitions = (upcomingTransitions[tz.id] ?? []).filter(
+            (transition) => transition.at > referenceDate
+          )
 
           return (
-            <Card key={tz.id} className="relative">
+            <Card
+              key={tz.id}
+              className={`relative ${dragOverZoneId === tz.id ? "ring-2 ring-primary" : ""}`}
+              draggable={editingLabelId !== tz.id}
+              onDragStart={(e) => {
+                draggedZoneIdRef.current = tz.id
+                e.dataTransfer.effectAllowed = "move"
+              }}
+              onDragOver={(e) => {
+                if (!draggedZoneIdRef.current) return
+                e.preventDefault()
+                setDragOverZoneId(tz.id)
+              }}
+              onDragLeave={() => setDragOverZoneId((current) => (current === tz.id ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault()
+                if (draggedZoneIdRef.current) moveZone(draggedZoneIdRef.current, tz.id)
+                draggedZoneIdRef.current = null
+                setDragOverZoneId(null)
+              }}
+              onDragEnd={() => {
+                draggedZoneIdRef.current = null
+                setDragOverZoneId(null)
+              }}
+            >
               <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <CardTitle className="text-lg">{tz.city}</CardTitle>
-                    <CardDescription>{tz.name}</CardDescription>
+                <div className="flex items-start justify-between gap-2">
+                  <GripVertical
+                    className="h-5 w-5 mt-0.5 shrink-0 cursor-grab text-muted-foreground"
+                    aria-label="Drag to reorder"
+                  />
+                  <div className="flex-1 min-w-0">
+                    {editingLabelId === tz.id ? (
+                      <Input
+                        value={labelDraft}
+                        onChange={(e) => setLabelDraft(e.target.value)}
+                        onBlur={saveLabel}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur()
+                          if (e.key === "Escape") {
+                            labelCancelledRef.current = true
+                            setEditingLabelId(null)
+                          }
+                        }}
+                        placeholder={tz.city}
+                        maxLength={40}
+                        className="h-8"
+                        aria-label={`Label for ${tz.city}`}
+                        autoFocus
+                      />
+                    ) : (
+                      <CardTitle className="text-lg truncate">{tz.label || tz.city}</CardTitle>
+                    )}
+                    <CardDescription>{tz.label ? `${tz.city} · ${tz.name}` : tz.name}</CardDescription>
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => startEditingLabel(tz)}
+                    title="Rename"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -324,30 +737,49 @@ export function TimeZoneConverter() {
               <CardContent>
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      {isDay ? (
-                        <Sun className="h-5 w-5 text-yellow-500" />
-                      ) : (
-                        <Moon className="h-5 w-5 text-blue-500" />
+                    {settings.showDayNight ? (
+                      <div className="flex items-center gap-2">
+                        {isDay ? (
+                          <Sun className="h-5 w-5 text-yellow-500" />
+                        ) : (
+                          <Moon className="h-5 w-5 text-blue-500" />
+                        )}
+                        <span className="text-sm font-medium">
+                          {isDay ? "Day" : "Night"}
+                        </span>
+                      </div>
+                    ) : (
+                      <div />
+                    )}
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      {isDaylightSavingTime(tz.id, referenceDate) && (
+                        <span className="rounded border px-1.5 text-xs">DST</span>
                       )}
-                      <span className="text-sm font-medium">
-                        {isDay ? "Day" : "Night"}
-                      </span>
-                    </div>
-                    <div className="text-sm text-muted-foreground">
-                      UTC{tz.offset >= 0 ? "+" : ""}{tz.offset}
+                      {getZoneAbbreviation(tz.id, referenceDate)} · {getOffsetLabel(tz)}
                     </div>
                   </div>
 
                   <div className="space-y-1">
                     <div className="text-2xl font-bold font-mono">
-                      {timeString.split(",")[0]}
+                      {timeString.slice(timeSeparator + 2)}
                     </div>
                     <div className="text-sm text-muted-foreground">
-                      {timeString.split(",").slice(1).join(",")}
+                      {timeString.slice(0, timeSeparator)}
                     </div>
                   </div>
 
+                  {transitions.length > 0 && (
+                    <div className="space-y-1 text-xs text-muted-foreground">
+                      <div className="font-medium">Upcoming DST changes</div>
+                      {transitions.slice(0, 2).map((transition) => (
+                        <div key={transition.at.getTime()} className="flex items-start gap-1">
+                          <ArrowRight className="h-3 w-3 mt-0.5 shrink-0" />
+                          {formatTransition(transition, tz.id, hour12)}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <Button
                     variant="outline"
                     size="sm"
@@ -364,6 +796,8 @@ export function TimeZoneConverter() {
         })}
       </div>
 
+      {selectedTimeZones.length > 0 && <MeetingPlannerCard zones={meetingZones} hour12={hour12} />}
+
       {selectedTimeZones.length === 0 && (
         <Card>
           <CardContent className="py-12 text-center">
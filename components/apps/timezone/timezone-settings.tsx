@@ -9,97 +9,50 @@ import { Input } from "@/components/ui/input"
 import { Trash2, Download, Upload, RotateCcw } from "lucide-react"
 import { toast } from "sonner"
 import { useAuth } from "@/components/auth/auth-provider"
-import { db } from "@/lib/firebase/config"
-import { doc, getDoc, setDoc, deleteDoc, serverTimestamp } from "firebase/firestore"
-
-const STORAGE_KEY = "timezone-converter-settings"
-
-interface TimeZoneSettings {
-  defaultTimeZones: string[]
-  timeFormat: "12" | "24"
-  showSeconds: boolean
-  showDayNight: boolean
-  autoRefresh: boolean
-}
-
-const DEFAULT_SETTINGS: TimeZoneSettings = {
-  defaultTimeZones: ["America/New_York", "Europe/London", "Asia/Tokyo"],
-  timeFormat: "12",
-  showSeconds: true,
-  showDayNight: true,
-  autoRefresh: true,
-}
+import { useAppSettings } from "@/components/apps/use-app-settings"
+import { parseAppSettings } from "@/lib/apps/app-settings"
+import {
+  DEFAULT_TIMEZONE_SETTINGS,
+  TIMEZONE_SETTINGS,
+  type TimeZoneSettingsValues,
+} from "./settings-schema"
 
 export function TimeZoneSettings() {
   const { user } = useAuth()
-  const [settings, setSettings] = React.useState<TimeZoneSettings>(DEFAULT_SETTINGS)
+  const { settings: savedSettings, loading, save, clear } = useAppSettings(TIMEZONE_SETTINGS)
+  const [settings, setSettings] = React.useState<TimeZoneSettingsValues>(DEFAULT_TIMEZONE_SETTINGS)
   const [hasChanges, setHasChanges] = React.useState(false)
-  const [loading, setLoading] = React.useState(true)
+  // Zone lists are edited from the converter; only an imported file replaces them from here
+  const [importedZones, setImportedZones] = React.useState(false)
 
+  // Follow the stored settings until the user starts editing
   React.useEffect(() => {
-    if (!user) {
-      setLoading(false)
-      return
-    }
-
-    const loadSettings = async () => {
-      try {
-        const settingsRef = doc(db, "users", user.uid, "timezoneSettings", "default")
-        const settingsSnap = await getDoc(settingsRef)
-        
-        if (settingsSnap.exists()) {
-          setSettings({ ...DEFAULT_SETTINGS, ...settingsSnap.data() })
-        } else {
-          // Load from localStorage as fallback on first login
-          const localSaved = localStorage.getItem(STORAGE_KEY)
-          if (localSaved) {
-            try {
-              const parsed = JSON.parse(localSaved)
-              setSettings({ ...DEFAULT_SETTINGS, ...parsed })
-              // Migrate to Firestore
-              await setDoc(settingsRef, {
-                ...DEFAULT_SETTINGS,
-                ...parsed,
-                createdAt: serverTimestamp(),
-                updatedAt: serverTimestamp(),
-              })
-            } catch (error) {
-              console.error("Failed to parse localStorage settings:", error)
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Failed to load settings:", error)
-        toast.error("Failed to load settings")
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    loadSettings()
-  }, [user])
+    if (!hasChanges) setSettings(savedSettings)
+  }, [savedSettings, hasChanges])
 
-  const updateSetting = <K extends keyof TimeZoneSettings>(
+  const updateSetting = <K extends keyof TimeZoneSettingsValues>(
     key: K,
-    value: TimeZoneSettings[K]
+    value: TimeZoneSettingsValues[K]
   ) => {
     setSettings((prev) => ({ ...prev, [key]: value }))
     setHasChanges(true)
   }
 
   const saveSettings = async () => {
-    if (!user) {
-      toast.error("You must be signed in to save settings")
-      return
-    }
-
     try {
-      const settingsRef = doc(db, "users", user.uid, "timezoneSettings", "default")
-      await setDoc(settingsRef, {
-        ...settings,
-        updatedAt: serverTimestamp(),
-      })
+      await save(
+        importedZones
+          ? settings
+          : {
+              ...settings,
+              defaultTimeZones: savedSettings.defaultTimeZones,
+              zoneLabels: savedSettings.zoneLabels,
+              zoneSets: savedSettings.zoneSets,
+              activeZoneSetId: savedSettings.activeZoneSetId,
+            }
+      )
       setHasChanges(false)
+      setImportedZones(false)
       toast.success("Settings saved successfully")
     } catch (error) {
       console.error("Failed to save settings:", error)
@@ -108,22 +61,17 @@ export function TimeZoneSettings() {
   }
 
   const resetSettings = () => {
-    setSettings(DEFAULT_SETTINGS)
+    setSettings(DEFAULT_TIMEZONE_SETTINGS)
     setHasChanges(true)
+    setImportedZones(false)
     toast.info("Settings reset to defaults")
   }
 
   const clearAllData = async () => {
-    if (!user) {
-      toast.error("You must be signed in to clear data")
-      return
-    }
-
     if (confirm("Are you sure you want to clear all data? This cannot be undone.")) {
       try {
-        const settingsRef = doc(db, "users", user.uid, "timezoneSettings", "default")
-        await deleteDoc(settingsRef)
-        setSettings(DEFAULT_SETTINGS)
+        await clear()
+        setSettings(DEFAULT_TIMEZONE_SETTINGS)
         setHasChanges(false)
         toast.success("All data cleared")
       } catch (error) {
@@ -153,8 +101,9 @@ export function TimeZoneSettings() {
     reader.onload = (e) => {
       try {
         const imported = JSON.parse(e.target?.result as string)
-        setSettings({ ...DEFAULT_SETTINGS, ...imported })
+        setSettings(parseAppSettings(TIMEZONE_SETTINGS, imported))
         setHasChanges(true)
+        setImportedZones(true)
         toast.success("Settings imported successfully")
       } catch (error) {
         toast.error("Failed to import settings. Invalid file format.")
@@ -165,19 +114,6 @@ export function TimeZoneSettings() {
     event.target.value = ""
   }
 
-  if (!user) {
-    return (
-      <div className="p-12 text-center rounded-lg border border-dashed">
-        <p className="text-muted-foreground mb-4">
-          Please sign in to access settings
-        </p>
-        <Button asChild>
-          <a href="/hub">Sign In</a>
-        </Button>
-      </div>
-    )
-  }
-
   if (loading) {
     return (
       <div className="p-12 text-center rounded-lg border border-dashed">
@@ -193,6 +129,16 @@ export function TimeZoneSettings() {
       transition={{ duration: 0.5 }}
       className="space-y-6"
     >
+      {!user && (
+        <p className="text-sm text-muted-foreground">
+          You’re saving settings on this device.{" "}
+          <a href="/hub" className="text-primary underline underline-offset-4">
+            Sign in
+          </a>{" "}
+          to sync them across devices.
+        </p>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Display Settings</CardTitle>
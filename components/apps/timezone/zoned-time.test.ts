@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest"
+import { findOffsetTransitions, resolveWallClock } from "./zoned-time"
+
+const MINUTE = 60_000
+
+describe("resolveWallClock", () => {
+  it("resolves ordinary times exactly", () => {
+    expect(resolveWallClock("2026-07-01", 9 * 60, "America/New_York")).toEqual({
+      status: "exact",
+      instant: new Date("2026-07-01T13:00:00Z"),
+      transitionMinutes: 0,
+    })
+    expect(resolveWallClock("2026-01-15", 9 * 60 + 30, "Asia/Kolkata").instant).toEqual(
+      new Date("2026-01-15T04:00:00Z")
+    )
+  })
+
+  it("moves times skipped when clocks spring forward past the jump", () => {
+    // New York skips 02:00-03:00 on 8 March 2026
+    const skipped = resolveWallClock("2026-03-08", 2 * 60 + 30, "America/New_York")
+    expect(skipped.status).toBe("gap")
+    expect(skipped.transitionMinutes).toBe(60)
+    // 02:30 read with EST (UTC-5) is 03:30 EDT
+    expect(skipped.instant).toEqual(new Date("2026-03-08T07:30:00Z"))
+
+    // The minutes either side of the gap are unaffected
+    expect(resolveWallClock("2026-03-08", 2 * 60 - 1, "America/New_York")).toMatchObject({
+      status: "exact",
+      instant: new Date("2026-03-08T06:59:00Z"),
+    })
+    expect(resolveWallClock("2026-03-08", 3 * 60, "America/New_York")).toMatchObject({
+      status: "exact",
+      instant: new Date("2026-03-08T07:00:00Z"),
+    })
+  })
+
+  it("handles half-hour gaps", () => {
+    // Lord Howe Island moves from UTC+10:30 to UTC+11 at 02:00 on 4 October 2026
+    const skipped = resolveWallClock("2026-10-04", 2 * 60 + 15, "Australia/Lord_Howe")
+    expect(skipped.status).toBe("gap")
+    expect(skipped.transitionMinutes).toBe(30)
+    expect(skipped.instant).toEqual(new Date("2026-10-03T15:45:00Z"))
+  })
+
+  it("handles a whole skipped day", () => {
+    // Samoa crossed the date line by skipping 30 December 2011
+    const skipped = resolveWallClock("2011-12-30", 12 * 60, "Pacific/Apia")
+    expect(skipped.status).toBe("gap")
+    expect(skipped.transitionMinutes).toBe(24 * 60)
+    expect(skipped.instant).toEqual(new Date("2011-12-30T22:00:00Z"))
+  })
+
+  it("returns both instants of times repeated when clocks fall back", () => {
+    // New York repeats 01:00-02:00 on 1 November 2026, first as EDT then as EST
+    const repeated = resolveWallClock("2026-11-01", 60 + 30, "America/New_York")
+    expect(repeated).toEqual({
+      status: "overlap",
+      instant: new Date("2026-11-01T05:30:00Z"),
+      laterInstant: new Date("2026-11-01T06:30:00Z"),
+      transitionMinutes: 60,
+    })
+
+    // London repeats 01:00-02:00 on 25 October 2026
+    const london = resolveWallClock("2026-10-25", 60, "Europe/London")
+    expect(london.status).toBe("overlap")
+    expect(london.instant).toEqual(new Date("2026-10-25T00:00:00Z"))
+    expect(london.laterInstant).toEqual(new Date("2026-10-25T01:00:00Z"))
+
+    expect(resolveWallClock("2026-10-25", 2 * 60, "Europe/London")).toMatchObject({
+      status: "exact",
+      instant: new Date("2026-10-25T02:00:00Z"),
+    })
+  })
+
+  it("handles half-hour overlaps", () => {
+    // Lord Howe Island repeats 01:30-02:00 on 5 April 2026
+    const repeated = resolveWallClock("2026-04-05", 60 + 45, "Australia/Lord_Howe")
+    expect(repeated.status).toBe("overlap")
+    expect(repeated.transitionMinutes).toBe(30)
+    expect(repeated.instant).toEqual(new Date("2026-04-04T14:45:00Z"))
+    expect(repeated.laterInstant).toEqual(new Date("2026-04-04T15:15:00Z"))
+  })
+})
+
+describe("findOffsetTransitions", () => {
+  it("finds New York's transitions to the minute", () => {
+    expect(findOffsetTransitions("America/New_York", new Date("2026-01-01T00:00:00Z"))).toEqual([
+      { at: new Date("2026-03-08T07:00:00Z"), offsetBefore: -300, offsetAfter: -240 },
+      { at: new Date("2026-11-01T06:00:00Z"), offsetBefore: -240, offsetAfter: -300 },
+    ])
+  })
+
+  it("finds London's transitions to the minute", () => {
+    expect(findOffsetTransitions("Europe/London", new Date("2026-01-01T00:00:00Z"))).toEqual([
+      { at: new Date("2026-03-29T01:00:00Z"), offsetBefore: 0, offsetAfter: 60 },
+      { at: new Date("2026-10-25T01:00:00Z"), offsetBefore: 60, offsetAfter: 0 },
+    ])
+  })
+
+  it("finds half-hour transitions", () => {
+    expect(findOffsetTransitions("Australia/Lord_Howe", new Date("2026-01-01T00:00:00Z"))).toEqual([
+      { at: new Date("2026-04-04T15:00:00Z"), offsetBefore: 660, offsetAfter: 630 },
+      { at: new Date("2026-10-03T15:30:00Z"), offsetBefore: 630, offsetAfter: 660 },
+    ])
+  })
+
+  it("finds a date line change", () => {
+    expect(findOffsetTransitions("Pacific/Apia", new Date("2011-12-01T00:00:00Z"), 1)).toEqual([
+      { at: new Date("2011-12-30T10:00:00Z"), offsetBefore: -600, offsetAfter: 840 },
+    ])
+  })
+
+  it("starts from a transition instant without reporting it", () => {
+    const [next] = findOffsetTransitions("America/New_York", new Date("2026-03-08T07:00:00Z"), 1)
+    expect(next.at).toEqual(new Date("2026-11-01T06:00:00Z"))
+  })
+
+  it("returns nothing for zones without daylight saving time", () => {
+    expect(findOffsetTransitions("Asia/Tokyo", new Date("2026-01-01T00:00:00Z"))).toEqual([])
+    // Samoa dropped daylight saving time in 2021
+    expect(findOffsetTransitions("Pacific/Apia", new Date("2026-01-01T00:00:00Z"))).toEqual([])
+  })
+
+  it("narrows transitions down from any starting second", () => {
+    const [transition] = findOffsetTransitions("Europe/London", new Date("2026-03-01T12:34:56.789Z"), 1)
+    expect(transition.at.getTime() % MINUTE).toBe(0)
+    expect(transition.at).toEqual(new Date("2026-03-29T01:00:00Z"))
+  })
+})
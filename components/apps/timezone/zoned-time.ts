@@ -0,0 +1,196 @@
+// Time zone arithmetic on top of Intl. Offsets are looked up per instant rather than stored per
+// zone, so daylight saving time is always accounted for, and wall-clock times are resolved in an
+// explicit zone instead of the browser's.
+
+const MINUTE = 60_000
+const DAY = 24 * 60 * MINUTE
+
+// Creating a DateTimeFormat is slow and timelines need hundreds of offsets, so reuse them
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getOffsetFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = offsetFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+    offsetFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/** The browser's own zone, e.g. "Europe/Berlin" */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/** Offset of `timeZone` from UTC at `date`, in minutes (e.g. -240 for New York in summer) */
+export function getZoneOffsetMinutes(timeZone: string, date: Date): number {
+  const parts = getOffsetFormatter(timeZone).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value)
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"))
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / MINUTE)
+}
+
+/** Minutes after local midnight in `timeZone` */
+export function getMinutesInZone(timeZone: string, date: Date): number {
+  const local = new Date(date.getTime() + getZoneOffsetMinutes(timeZone, date) * MINUTE)
+  return local.getUTCHours() * 60 + local.getUTCMinutes()
+}
+
+/** Date of `date` as YYYY-MM-DD in `timeZone` */
+export function getDateInZone(timeZone: string, date: Date): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+    date
+  )
+}
+
+/** Today's date as YYYY-MM-DD in `timeZone` */
+export function getTodayInZone(timeZone: string): string {
+  return getDateInZone(timeZone, new Date())
+}
+
+/** Whether the browser knows `timeZone` as an IANA zone */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** "UTC", "UTC-4", "UTC+5:30" */
+export function formatOffset(minutes: number): string {
+  if (minutes === 0) return "UTC"
+  const sign = minutes < 0 ? "-" : "+"
+  const hours = Math.floor(Math.abs(minutes) / 60)
+  const rest = Math.abs(minutes) % 60
+  return `UTC${sign}${hours}${rest ? `:${String(rest).padStart(2, "0")}` : ""}`
+}
+
+/** Short name at `date`, e.g. "EDT" or "GMT+1" where the locale has no abbreviation */
+export function getZoneAbbreviation(timeZone: string, date: Date, style: "short" | "long" = "short"): string {
+  return (
+    new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: style })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value ?? timeZone
+  )
+}
+
+/** Whether `timeZone` observes daylight saving time at `date` (its offset is above its yearly minimum) */
+export function isDaylightSavingTime(timeZone: string, date: Date): boolean {
+  const year = date.getUTCFullYear()
+  const standard = Math.min(
+    getZoneOffsetMinutes(timeZone, new Date(Date.UTC(year, 0, 1))),
+    getZoneOffsetMinutes(timeZone, new Date(Date.UTC(year, 6, 1)))
+  )
+  return getZoneOffsetMinutes(timeZone, date) > standard
+}
+
+/**
+ * How a wall-clock time maps onto real instants:
+ * - "exact": it happens once
+ * - "gap": it's skipped when clocks spring forward; `instant` is the same distance after the jump
+ * - "overlap": it happens twice when clocks fall back; `instant` is the first occurrence and
+ *   `laterInstant` the second
+ */
+export type WallClockStatus = "exact" | "gap" | "overlap"
+
+export interface ResolvedWallClock {
+  status: WallClockStatus
+  instant: Date
+  /** Only for overlaps */
+  laterInstant?: Date
+  /** Length of the gap or overlap in minutes, 0 for exact times */
+  transitionMinutes: number
+}
+
+/**
+ * Resolves a wall-clock `date` (YYYY-MM-DD) and `minutes` after midnight in `timeZone` to an
+ * instant. Gaps and overlaps are resolved like Temporal's "compatible" disambiguation.
+ */
+export function resolveWallClock(date: string, minutes: number, timeZone: string): ResolvedWallClock {
+  const [year, month, day] = date.split("-").map(Number)
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * MINUTE
+
+  // The offsets in force a day either side cover any single transition near this time
+  const offsetBefore = getZoneOffsetMinutes(timeZone, new Date(wallClock - DAY))
+  const offsetAfter = getZoneOffsetMinutes(timeZone, new Date(wallClock + DAY))
+  const candidates = Array.from(new Set([offsetBefore, offsetAfter]))
+    .map((offset) => wallClock - offset * MINUTE)
+    .filter((instant) => wallClock - getZoneOffsetMinutes(timeZone, new Date(instant)) * MINUTE === instant)
+    .sort((a, b) => a - b)
+
+  if (candidates.length === 1) {
+    return { status: "exact", instant: new Date(candidates[0]), transitionMinutes: 0 }
+  }
+  const transitionMinutes = Math.abs(offsetAfter - offsetBefore)
+  if (candidates.length === 2) {
+    return {
+      status: "overlap",
+      instant: new Date(candidates[0]),
+      laterInstant: new Date(candidates[1]),
+      transitionMinutes,
+    }
+  }
+  // Skipped time: read it with the offset from before the jump, which lands after the jump
+  return { status: "gap", instant: new Date(wallClock - offsetBefore * MINUTE), transitionMinutes }
+}
+
+/** Instant of a wall-clock time in `timeZone`, taking the first occurrence in an overlap */
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  return resolveWallClock(date, minutes, timeZone).instant
+}
+
+export interface OffsetTransition {
+  /** First instant with the new offset */
+  at: Date
+  offsetBefore: number
+  offsetAfter: number
+}
+
+/**
+ * The next `count` offset changes in `timeZone` after `from`, searching up to `horizonDays` ahead.
+ * Offsets are sampled daily, then each change is narrowed down to the minute.
+ */
+export function findOffsetTransitions(
+  timeZone: string,
+  from: Date,
+  count = 2,
+  horizonDays = 400
+): OffsetTransition[] {
+  const transitions: OffsetTransition[] = []
+  // Whole minutes, so the search below always halves to a minute boundary
+  const start = Math.floor(from.getTime() / MINUTE) * MINUTE
+  let previousTime = start
+  let previousOffset = getZoneOffsetMinutes(timeZone, new Date(start))
+
+  for (let dayIndex = 1; dayIndex <= horizonDays && transitions.length < count; dayIndex++) {
+    const time = start + dayIndex * DAY
+    const offset = getZoneOffsetMinutes(timeZone, new Date(time))
+    if (offset !== previousOffset) {
+      let low = previousTime
+      let high = time
+      while (high - low > MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE
+        if (getZoneOffsetMinutes(timeZone, new Date(middle)) === previousOffset) {
+          low = middle
+        } else {
+          high = middle
+        }
+      }
+      transitions.push({ at: new Date(high), offsetBefore: previousOffset, offsetAfter: offset })
+    }
+    previousTime = time
+    previousOffset = offset
+  }
+  return transitions
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import * as React from "react"
+import { deleteDoc, doc, onSnapshot, serverTimestamp, setDoc } from "firebase/firestore"
+import { toast } from "sonner"
+import { useAuth } from "@/components/auth/auth-provider"
+import { db } from "@/lib/firebase/config"
+import {
+  SETTINGS_DOC_ID,
+  getStoredSchemaVersion,
+  parseAppSettings,
+  serializeAppSettings,
+  type AppSettingsDefinition,
+} from "@/lib/apps/app-settings"
+
+// Fired on window when a signed-out user's settings change, so every hook instance
+// on the page (e.g. the Overview and Settings tabs) picks up the new value
+const LOCAL_SETTINGS_EVENT = "app-settings-local-change"
+
+function readLocal<TSettings>(definition: AppSettingsDefinition<TSettings>): TSettings | null {
+  if (typeof window === "undefined") return null
+  try {
+    const raw = localStorage.getItem(definition.storageKey)
+    if (!raw) return null
+    return parseAppSettings(definition, JSON.parse(raw))
+  } catch {
+    return null
+  }
+}
+
+function writeLocal<TSettings>(definition: AppSettingsDefinition<TSettings>, settings: TSettings) {
+  try {
+    localStorage.setItem(definition.storageKey, JSON.stringify(serializeAppSettings(definition, settings)))
+  } catch {
+    /* ignore */
+  }
+  window.dispatchEvent(new CustomEvent(LOCAL_SETTINGS_EVENT, { detail: definition.storageKey }))
+}
+
+function removeLocal<TSettings>(definition: AppSettingsDefinition<TSettings>) {
+  try {
+    localStorage.removeItem(definition.storageKey)
+  } catch {
+    /* ignore */
+  }
+  window.dispatchEvent(new CustomEvent(LOCAL_SETTINGS_EVENT, { detail: definition.storageKey }))
+}
+
+export interface AppSettingsState<TSettings> {
+  /** Validated settings; the defaults until the first load completes */
+  settings: TSettings
+  loading: boolean
+  /** Validates and persists settings. Rejects with a ZodError if they don't match the schema. */
+  save: (next: TSettings) => Promise<void>
+  /** Deletes the stored settings so the defaults apply again */
+  clear: () => Promise<void>
+}
+
+/**
+ * Live, validated settings for an app.
+ * Signed-in users are subscribed to /users/{uid}/{collection}/default with onSnapshot, so a save
+ * from the Settings tab shows up in the Overview tab immediately. Signed-out users get a
+ * localStorage copy, which is moved to Firestore the first time they sign in. Signed-in saves
+ * never touch localStorage.
+ */
+export function useAppSettings<TSettings>(definition: AppSettingsDefinition<TSettings>): AppSettingsState<TSettings> {
+  const { user, loading: authLoading } = useAuth()
+  const [settings, setSettings] = React.useState<TSettings>(definition.defaults)
+  const [loading, setLoading] = React.useState(true)
+  // Saves replace the whole document, so the creation time is carried over from the last snapshot
+  const createdAt = React.useRef<unknown>(null)
+
+  React.useEffect(() => {
+    if (authLoading) return
+
+    if (!user) {
+      const sync = () => setSettings(readLocal(definition) ?? definition.defaults)
+      const onLocalChange = (event: Event) => {
+        if ((event as CustomEvent<string>).detail === definition.storageKey) sync()
+      }
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === definition.storageKey) sync()
+      }
+
+      sync()
+      setLoading(false)
+      window.addEventListener(LOCAL_SETTINGS_EVENT, onLocalChange)
+      window.addEventListener("storage", onStorage)
+      return () => {
+        window.removeEventListener(LOCAL_SETTINGS_EVENT, onLocalChange)
+        window.removeEventListener("storage", onStorage)
+      }
+    }
+
+    const settingsRef = doc(db, "users", user.uid, definition.collection, SETTINGS_DOC_ID)
+    const unsub = onSnapshot(
+      settingsRef,
+      (snap) => {
+        if (snap.exists()) {
+          const data = snap.data()
+          const parsed = parseAppSettings(definition, data)
+          createdAt.current = data.createdAt ?? null
+          setSettings(parsed)
+
+          // Write migrated documents back so the upgrade only runs once
+          if (getStoredSchemaVersion(data) < definition.version && !snap.metadata.hasPendingWrites) {
+            setDoc(settingsRef, {
+              ...serializeAppSettings(definition, parsed),
+              createdAt: data.createdAt ?? serverTimestamp(),
+              updatedAt: serverTimestamp(),
+            }).catch((error) => console.error("Failed to migrate settings:", error))
+          }
+        } else {
+          createdAt.current = null
+          // No remote doc yet: carry over anything saved while signed out, then drop the local copy
+          // so it can't be carried into another account signing in on this browser
+          const local = readLocal(definition)
+          setSettings(local ?? definition.defaults)
+          if (local) {
+            setDoc(settingsRef, {
+              ...serializeAppSettings(definition, local),
+              createdAt: serverTimestamp(),
+              updatedAt: serverTimestamp(),
+            })
+              .then(() => removeLocal(definition))
+              .catch((error) => console.error("Failed to migrate local settings:", error))
+          }
+        }
+        setLoading(false)
+      },
+      (error) => {
+        console.error("Failed to load settings:", error)
+        if (error.code !== "permission-denied") {
+          toast.error("Failed to load settings")
+        }
+        setSettings(readLocal(definition) ?? definition.defaults)
+        setLoading(false)
+      }
+    )
+
+    return () => unsub()
+  }, [user, authLoading, definition])
+
+  const save = React.useCallback(
+    async (next: TSettings) => {
+      // Signed-in settings only live in Firestore, so they never leak to whoever uses this browser next
+      if (!user) {
+        writeLocal(definition, next)
+        return
+      }
+
+      const data = serializeAppSettings(definition, next)
+
+      // Not merged: keys removed from a record field (e.g. a deleted label) must be removed remotely too
+      await setDoc(doc(db, "users", user.uid, definition.collection, SETTINGS_DOC_ID), {
+        ...data,
+        createdAt: createdAt.current ?? serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+    },
+    [user, definition]
+  )
+
+  const clear = React.useCallback(async () => {
+    if (!user) {
+      removeLocal(definition)
+      return
+    }
+
+    await deleteDoc(doc(db, "users", user.uid, definition.collection, SETTINGS_DOC_ID))
+  }, [user, definition])
+
+  return { settings, loading, save, clear }
+}
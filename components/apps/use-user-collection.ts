@@ -0,0 +1,116 @@
+"use client"
+
+import * as React from "react"
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  type DocumentData,
+} from "firebase/firestore"
+import { toast } from "sonner"
+import type { z } from "zod"
+import { useAuth } from "@/components/auth/auth-provider"
+import { db } from "@/lib/firebase/config"
+
+/** Where a list of saved items lives and how its documents are read; define once at module level */
+export interface UserCollectionDefinition<TSchema extends z.ZodTypeAny, TItem> {
+  /** Subcollection under /users/{uid} */
+  collection: string
+  /** Plural name for messages, e.g. "recipes" */
+  label: string
+  schema: TSchema
+  /** Builds an item from a document that matched `schema` */
+  toItem: (id: string, value: z.infer<TSchema>, data: DocumentData) => TItem
+}
+
+/** When a saved item was last written */
+export function readUpdatedAt(data: DocumentData): Date | null {
+  // Pending server timestamps are null until the write is acknowledged
+  return data.updatedAt?.toDate?.() ?? null
+}
+
+/**
+ * The signed-in user's items from /users/{uid}/{collection}, newest first, kept live with
+ * onSnapshot. Documents that don't match the schema are skipped. Signed-out users get an empty list
+ * and can't save.
+ */
+export function useUserCollection<TSchema extends z.ZodTypeAny, TItem>(
+  definition: UserCollectionDefinition<TSchema, TItem>
+) {
+  const { user, loading: authLoading } = useAuth()
+  const [items, setItems] = React.useState<TItem[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      setItems([])
+      setLoading(false)
+      return
+    }
+
+    const itemsQuery = query(collection(db, "users", user.uid, definition.collection), orderBy("updatedAt", "desc"))
+    const unsub = onSnapshot(
+      itemsQuery,
+      (snapshot) => {
+        const loaded: TItem[] = []
+        snapshot.forEach((itemDoc) => {
+          const data = itemDoc.data()
+          const parsed = definition.schema.safeParse(data)
+          if (!parsed.success) {
+            console.error(`Skipping invalid ${definition.collection} document ${itemDoc.id}:`, parsed.error)
+            return
+          }
+          loaded.push(definition.toItem(itemDoc.id, parsed.data, data))
+        })
+        setItems(loaded)
+        setLoading(false)
+      },
+      (error) => {
+        console.error(`Failed to load ${definition.label}:`, error)
+        if (error.code !== "permission-denied") {
+          toast.error(`Failed to load saved ${definition.label}`)
+        }
+        setLoading(false)
+      }
+    )
+
+    return () => unsub()
+  }, [user, authLoading, definition])
+
+  /** Creates an item, or overwrites the one with `itemId`; resolves to the item ID */
+  const save = React.useCallback(
+    async (fields: DocumentData, itemId?: string) => {
+      if (!user) throw new Error(`You must be signed in to save ${definition.label}`)
+
+      const itemsRef = collection(db, "users", user.uid, definition.collection)
+      if (itemId) {
+        await setDoc(doc(itemsRef, itemId), { ...fields, updatedAt: serverTimestamp() }, { merge: true })
+        return itemId
+      }
+      const created = await addDoc(itemsRef, {
+        ...fields,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+      return created.id
+    },
+    [user, definition]
+  )
+
+  const remove = React.useCallback(
+    async (itemId: string) => {
+      if (!user) return
+      await deleteDoc(doc(db, "users", user.uid, definition.collection, itemId))
+    },
+    [user, definition]
+  )
+
+  return { items, loading, save, remove }
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import * as React from "react"
+import { getCachedUserNames, resolveUserNames, subscribeToUserNames } from "@/lib/user-profiles"
+
+/**
+ * Display names for the given users, keyed by UID. Users who haven't published a name get
+ * `fallback`; users still being looked up are left out until their name arrives.
+ */
+export function useUserNames(uids: string[], fallback: string): Record<string, string> {
+  // A stable key, so a new array with the same users doesn't start another lookup
+  const key = Array.from(new Set(uids.filter(Boolean))).sort().join(",")
+  const [names, setNames] = React.useState<Record<string, string | null>>({})
+
+  React.useEffect(() => {
+    const list = key ? key.split(",") : []
+    let cancelled = false
+    const refresh = () => setNames(getCachedUserNames(list))
+
+    refresh()
+    resolveUserNames(list).then((resolved) => {
+      if (!cancelled) setNames(resolved)
+    })
+    const unsubscribe = subscribeToUserNames(refresh)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [key])
+
+  return React.useMemo(
+    () => Object.fromEntries(Object.entries(names).map(([uid, name]) => [uid, name || fallback])),
+    [names, fallback]
+  )
+}
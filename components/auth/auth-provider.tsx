@@ -3,6 +3,7 @@
 import * as React from "react"
 import { User, onAuthStateChanged, signOut as firebaseSignOut } from "firebase/auth"
 import { auth } from "@/lib/firebase/config"
+import { syncUserProfile } from "@/lib/user-profiles"
 
 interface AuthContextType {
   user: User | null
@@ -24,6 +25,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setUser(user)
       setLoading(false)
+      if (user) {
+        syncUserProfile(user).catch((error) => console.error("Failed to publish profile:", error))
+      }
     })
 
     return () => unsubscribe()
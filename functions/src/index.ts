@@ -0,0 +1,181 @@
+// Cloud Functions for the parts of the site a static export can't serve. Hosting rewrites
+// /calendar/** here (see firebase.json); run `npm run serve` in this folder to try it against the
+// emulators at http://localhost:5000/calendar/{feedId}.ics. materializeSeries runs on a schedule
+// to keep recurring games created when their organisers don't open the app.
+
+import { initializeApp } from "firebase-admin/app"
+import { FieldValue, getFirestore, type DocumentSnapshot } from "firebase-admin/firestore"
+import { onRequest } from "firebase-functions/v2/https"
+import { onSchedule } from "firebase-functions/v2/scheduler"
+import {
+  DEFAULT_EXCHANGE_REMINDER_DAYS,
+  DEFAULT_GAME_REMINDER_HOURS,
+  buildPersonalCalendar,
+  type ExchangeEventSource,
+  type GameEventSource,
+} from "../../lib/calendar-events"
+import {
+  MATERIALIZE_DAYS,
+  addDays,
+  buildOccurrenceFields,
+  getOccurrenceDates,
+  getOccurrenceId,
+  type OccurrenceSource,
+  type RecurrenceRule,
+} from "../../lib/game-series"
+
+initializeApp()
+
+// Matches the app settings documents, /users/{uid}/{collection}/default
+const SETTINGS_DOC_ID = "default"
+
+function readNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && value >= 0 ? value : fallback
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value : ""
+}
+
+function readStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : []
+}
+
+// Mirrors toGameSeries in the app, for the fields occurrences are built from
+function toOccurrenceSource(series: DocumentSnapshot): OccurrenceSource {
+  const point = series.get("point")
+  return {
+    id: series.id,
+    title: readString(series.get("title")),
+    description: readString(series.get("description")),
+    time: readString(series.get("time")),
+    location: readString(series.get("location")),
+    point: typeof point?.lat === "number" && typeof point?.lng === "number" ? { lat: point.lat, lng: point.lng } : null,
+    maxPlayers: series.get("maxPlayers") || 10,
+    regulars: readStrings(series.get("regulars")),
+    regularsMode: series.get("regularsMode") === "invite" ? "invite" : "join",
+    createdBy: readString(series.get("createdBy")),
+  }
+}
+
+function toRecurrenceRule(series: DocumentSnapshot): RecurrenceRule {
+  const frequency = series.get("rule.frequency")
+  const weekdays = series.get("rule.weekdays")
+  return {
+    frequency: frequency === "biweekly" || frequency === "custom" ? frequency : "weekly",
+    weekdays: Array.isArray(weekdays) ? weekdays : [],
+  }
+}
+
+/**
+ * GET /calendar/{feedId}.ics: a user's games and gift exchanges as a subscribable calendar. The
+ * feed ID is the only credential, so it's random and the user can replace it from their account
+ * page; it's looked up in calendarFeeds to find whose calendar to build.
+ */
+export const calendarFeed = onRequest(async (request, response) => {
+  const match = request.path.match(/\/calendar\/([A-Za-z0-9]+)\.ics$/)
+  if (request.method !== "GET" || !match) {
+    response.status(404).send("Not found")
+    return
+  }
+
+  try {
+    const db = getFirestore()
+    const feed = await db.collection("calendarFeeds").doc(match[1]).get()
+    const uid = feed.get("uid")
+    if (!feed.exists || typeof uid !== "string") {
+      response.status(404).send("Not found")
+      return
+    }
+
+    const [games, exchanges, soccerSettings, santaSettings] = await Promise.all([
+      db.collection("games").where("players", "array-contains", uid).get(),
+      db.collection("secretSantaExchanges").where("participants", "array-contains", uid).get(),
+      db.doc(`users/${uid}/pickupSoccerSettings/${SETTINGS_DOC_ID}`).get(),
+      db.doc(`users/${uid}/secretSantaSettings/${SETTINGS_DOC_ID}`).get(),
+    ])
+
+    // Cancelled games drop out of subscribers' calendars on the next refresh
+    const gameSources: GameEventSource[] = games.docs
+      .filter((game) => game.get("status") !== "cancelled")
+      .map((game) => ({
+        id: game.id,
+        title: readString(game.get("title")),
+        description: readString(game.get("description")),
+        date: readString(game.get("date")),
+        time: readString(game.get("time")),
+        location: readString(game.get("location")),
+      }))
+    const exchangeSources: ExchangeEventSource[] = exchanges.docs.map((exchange) => ({
+      id: exchange.id,
+      name: readString(exchange.get("name")),
+      description: readString(exchange.get("description")),
+      budget: readString(exchange.get("budget")),
+      exchangeDate: readString(exchange.get("exchangeDate")),
+    }))
+
+    const ics = buildPersonalCalendar(gameSources, exchangeSources, {
+      gameReminderHours: readNumber(soccerSettings.get("reminderHours"), DEFAULT_GAME_REMINDER_HOURS),
+      exchangeReminderDays: readNumber(santaSettings.get("reminderDays"), DEFAULT_EXCHANGE_REMINDER_DAYS),
+    })
+
+    response.set("Content-Type", "text/calendar; charset=utf-8")
+    response.set("Cache-Control", "private, max-age=900")
+    response.send(ics)
+  } catch (error) {
+    console.error("Failed to build calendar feed:", error)
+    response.status(500).send("Failed to build calendar")
+  }
+})
+
+/**
+ * Every night, creates each series' missing games for the next few weeks, the same ones the
+ * organiser's client creates while the app is open. Games that already exist are left alone, so
+ * cancelled or separately edited occurrences stay as they are.
+ */
+export const materializeSeries = onSchedule({ schedule: "every day 03:00", timeZone: "UTC" }, async () => {
+  const db = getFirestore()
+  // At 03:00 UTC it's still the same day or earlier everywhere, so starting from tomorrow never
+  // creates a game in the past; today's games were created on earlier runs
+  const today = new Date().toISOString().slice(0, 10)
+  const from = addDays(today, 1)
+  const to = addDays(today, MATERIALIZE_DAYS)
+
+  const seriesList = await db.collection("gameSeries").get()
+  let created = 0
+  for (const series of seriesList.docs) {
+    try {
+      const source = toOccurrenceSource(series)
+      const dates = getOccurrenceDates(
+        toRecurrenceRule(series),
+        readString(series.get("startDate")),
+        readString(series.get("endDate")),
+        from,
+        to
+      )
+      if (dates.length === 0) continue
+
+      const refs = dates.map((date) => db.collection("games").doc(getOccurrenceId(series.id, date)))
+      const existing = await db.getAll(...refs)
+      const batch = db.batch()
+      let missing = 0
+      existing.forEach((game, index) => {
+        if (game.exists) return
+        // create() rather than set(), so a game the organiser's client made in the meantime is kept
+        batch.create(refs[index], {
+          ...buildOccurrenceFields(source, dates[index]),
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        })
+        missing++
+      })
+      if (missing === 0) continue
+      await batch.commit()
+      created += missing
+    } catch (error) {
+      // The next run tries this series again
+      console.error(`Failed to create occurrences of series ${series.id}:`, error)
+    }
+  }
+  console.log(`Created ${created} series occurrences`)
+})
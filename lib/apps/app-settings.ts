@@ -0,0 +1,101 @@
+import type { z } from "zod"
+
+// Every app keeps its settings in a single document: /users/{userId}/{collection}/default
+export const SETTINGS_DOC_ID = "default"
+
+// Upgrades a stored settings document from the previous schema version
+export type AppSettingsMigration = (data: Record<string, unknown>) => Record<string, unknown>
+
+export interface AppSettingsDefinition<TSettings> {
+  appId: string
+  /** Subcollection under /users/{userId} holding the settings document */
+  collection: string
+  /** localStorage key used while signed out and migrated to Firestore on first sign-in */
+  storageKey: string
+  schema: z.ZodType<TSettings, z.ZodTypeDef, unknown>
+  defaults: TSettings
+  /** Current schema version, written to the document as `schemaVersion` */
+  version: number
+  /** migrations[n] upgrades a version n - 1 document to version n */
+  migrations?: Record<number, AppSettingsMigration>
+}
+
+// Documents written before versioning existed have no schemaVersion and are treated as version 1
+const LEGACY_SCHEMA_VERSION = 1
+
+// Bookkeeping fields that live on the document but are not part of any app's settings
+const METADATA_KEYS = ["schemaVersion", "createdAt", "updatedAt"]
+
+// Identity helper so the settings type is inferred from the schema
+export function defineAppSettings<TSettings>(
+  definition: AppSettingsDefinition<TSettings>
+): AppSettingsDefinition<TSettings> {
+  return definition
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+export function getStoredSchemaVersion(raw: unknown): number {
+  if (isRecord(raw) && typeof raw.schemaVersion === "number") {
+    return raw.schemaVersion
+  }
+  return LEGACY_SCHEMA_VERSION
+}
+
+function migrate<TSettings>(
+  definition: AppSettingsDefinition<TSettings>,
+  raw: Record<string, unknown>
+): Record<string, unknown> {
+  let data = raw
+  for (let version = getStoredSchemaVersion(raw) + 1; version <= definition.version; version++) {
+    const migration = definition.migrations?.[version]
+    if (migration) {
+      data = migration(data)
+    }
+  }
+  return data
+}
+
+/**
+ * Turns whatever is stored (Firestore document, localStorage, imported JSON) into valid settings.
+ * Older documents are migrated first, missing fields come from the defaults, and fields that fail
+ * validation fall back to their default individually so one bad value doesn't reset everything.
+ */
+export function parseAppSettings<TSettings>(
+  definition: AppSettingsDefinition<TSettings>,
+  raw: unknown
+): TSettings {
+  if (!isRecord(raw)) return definition.defaults
+
+  const migrated = migrate(definition, raw)
+  const data: Record<string, unknown> = { ...(definition.defaults as Record<string, unknown>) }
+  Object.entries(migrated).forEach(([key, value]) => {
+    if (!METADATA_KEYS.includes(key) && value !== undefined && value !== null) {
+      data[key] = value
+    }
+  })
+
+  const result = definition.schema.safeParse(data)
+  if (result.success) return result.data
+
+  const invalidKeys = new Set(result.error.issues.map((issue) => String(issue.path[0])))
+  invalidKeys.forEach((key) => {
+    data[key] = (definition.defaults as Record<string, unknown>)[key]
+  })
+
+  const retry = definition.schema.safeParse(data)
+  return retry.success ? retry.data : definition.defaults
+}
+
+// Shape written to Firestore and localStorage
+export function serializeAppSettings<TSettings>(
+  definition: AppSettingsDefinition<TSettings>,
+  settings: TSettings
+): Record<string, unknown> {
+  return {
+    ...(definition.schema.parse(settings) as Record<string, unknown>),
+    schemaVersion: definition.version,
+  }
+}
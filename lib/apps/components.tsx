@@ -1,89 +1,21 @@
 import * as React from "react"
 import { AppShellLayout } from "@/components/apps/app-shell-layout"
 import type { AppEntry } from "./registry"
+import { APP_MANIFESTS } from "./manifests"
 
-// Import components directly for static export compatibility
-// Using regular imports instead of lazy loading to avoid chunk loading issues
-import { EncryptionTools } from "@/components/apps/encryption/encryption-tools"
-import { EncryptionSettings } from "@/components/apps/encryption/encryption-settings"
-import { DiffChecker } from "@/components/apps/diffchecker/diff-checker"
-import { DiffCheckerSettings } from "@/components/apps/diffchecker/diff-checker-settings"
-import { TimeZoneConverter } from "@/components/apps/timezone/timezone-converter"
-import { TimeZoneSettings } from "@/components/apps/timezone/timezone-settings"
-import { PickupSoccerMain } from "@/components/apps/pickup-soccer/pickup-soccer-main"
-import { PickupSoccerSettings } from "@/components/apps/pickup-soccer/pickup-soccer-settings"
-import { SecretSantaMain } from "@/components/apps/secret-santa/secret-santa-main"
-import { SecretSantaSettings } from "@/components/apps/secret-santa/secret-santa-settings"
-import { FootballManagerTeamPickerMain } from "@/components/apps/football-manager-team-picker/football-manager-team-picker-main"
-import { FootballManagerTeamPickerSettings } from "@/components/apps/football-manager-team-picker/football-manager-team-picker-settings"
-import { ColorPaletteCrafterMain } from "@/components/apps/color-palette-crafter/color-palette-crafter-main"
-import { ColorPaletteCrafterSettings } from "@/components/apps/color-palette-crafter/color-palette-crafter-settings"
-import { AmerGauntletMain } from "@/components/apps/amer-gauntlet/amer-gauntlet-main"
-import { AmerGauntletSettings } from "@/components/apps/amer-gauntlet/amer-gauntlet-settings"
-import { STLMonitorMain } from "@/components/apps/stl-monitor/stl-monitor-main"
-import { STLMonitorSettings } from "@/components/apps/stl-monitor/stl-monitor-settings"
-import { LMGTFYMain } from "@/components/apps/lmgtfy/lmgtfy-main"
-import { LMGTFYSettings } from "@/components/apps/lmgtfy/lmgtfy-settings"
-import { StickrProvider } from "@/components/apps/stickr/stickr-provider"
-import { StickrMain } from "@/components/apps/stickr/stickr-main"
-import { StickrSettings } from "@/components/apps/stickr/stickr-settings"
-
+// Components are imported directly by each manifest for static export compatibility
+// (regular imports instead of lazy loading to avoid chunk loading issues)
 interface AppComponents {
   Main: React.ComponentType
   Settings?: React.ComponentType
+  Provider?: React.ComponentType<{ children: React.ReactNode }>
 }
 
-// Registry mapping appId to components
-// To add a new app:
-// 1. Add the app to APP_REGISTRY in registry.ts
-// 2. Import the components above using React.lazy
-// 3. Add an entry here mapping appId to { Main, Settings? }
-const APP_COMPONENTS: Record<string, AppComponents> = {
-  encryption: {
-    Main: EncryptionTools,
-    Settings: EncryptionSettings,
-  },
-  diffchecker: {
-    Main: DiffChecker,
-    Settings: DiffCheckerSettings,
-  },
-  timezone: {
-    Main: TimeZoneConverter,
-    Settings: TimeZoneSettings,
-  },
-  "pickup-soccer": {
-    Main: PickupSoccerMain,
-    Settings: PickupSoccerSettings,
-  },
-  "secret-santa": {
-    Main: SecretSantaMain,
-    Settings: SecretSantaSettings,
-  },
-  "football-manager-team-picker": {
-    Main: FootballManagerTeamPickerMain,
-    Settings: FootballManagerTeamPickerSettings,
-  },
-  "color-palette-crafter": {
-    Main: ColorPaletteCrafterMain,
-    Settings: ColorPaletteCrafterSettings,
-  },
-  "amer-gauntlet": {
-    Main: AmerGauntletMain,
-    Settings: AmerGauntletSettings,
-  },
-  "stl-monitor": {
-    Main: STLMonitorMain,
-    Settings: STLMonitorSettings,
-  },
-  "lmgtfy": {
-    Main: LMGTFYMain,
-    Settings: LMGTFYSettings,
-  },
-  stickr: {
-    Main: StickrMain,
-    Settings: StickrSettings,
-  },
-}
+// Registry mapping appId to components, derived from the app manifests.
+// To add a new app, see lib/apps/manifests.ts.
+const APP_COMPONENTS: Record<string, AppComponents> = Object.fromEntries(
+  APP_MANIFESTS.map(({ appId, Main, Settings, Provider }) => [appId, { Main, Settings, Provider }])
+)
 
 export function getAppComponents(appId: string): AppComponents | null {
   return APP_COMPONENTS[appId] || null
@@ -95,7 +27,7 @@ export function hasAppComponents(appId: string): boolean {
 
 // Helper to render app (no Suspense needed with direct imports)
 export function renderApp(app: AppEntry, components: AppComponents): React.ReactNode {
-  const { Main, Settings } = components
+  const { Main, Settings, Provider } = components
 
   const shell = (
     <AppShellLayout app={app} settingsContent={Settings ? <Settings /> : undefined}>
@@ -103,8 +35,8 @@ export function renderApp(app: AppEntry, components: AppComponents): React.React
     </AppShellLayout>
   )
 
-  if (app.appId === "stickr") {
-    return <StickrProvider>{shell}</StickrProvider>
+  if (Provider) {
+    return <Provider>{shell}</Provider>
   }
 
   return shell
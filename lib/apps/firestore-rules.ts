@@ -0,0 +1,50 @@
+import type { AppManifest } from "./manifest"
+
+export const GENERATED_RULES_BEGIN = "// BEGIN GENERATED: app user collections (lib/apps/firestore-rules.ts)"
+export const GENERATED_RULES_END = "// END GENERATED: app user collections"
+
+const INDENT = "      "
+
+// Builds the owner-only match blocks for every "user" collection declared by the manifests.
+// The output is pasted between the GENERATED markers inside `match /users/{userId}` in firestore.rules.
+export function generateUserRulesFragment(manifests: AppManifest[]): string {
+  const blocks = manifests.flatMap(manifest =>
+    manifest.collections
+      .filter(collection => collection.scope === "user")
+      .map(collection =>
+        [
+          `// ${collection.description}`,
+          `// Document structure: /users/{userId}/${collection.name}/{${collection.docParam}}`,
+          `match /${collection.name}/{${collection.docParam}} {`,
+          `  allow read, write: if request.auth != null && request.auth.uid == userId;`,
+          `}`,
+        ]
+          .map(line => INDENT + line)
+          .join("\n")
+      )
+  )
+
+  return blocks.join(`\n${INDENT}\n`)
+}
+
+// Returns the text between the GENERATED markers, or null if the markers are missing
+export function extractGeneratedRules(rulesSource: string): string | null {
+  const start = rulesSource.indexOf(GENERATED_RULES_BEGIN)
+  const end = rulesSource.indexOf(GENERATED_RULES_END)
+  if (start === -1 || end === -1 || end < start) return null
+
+  const afterBegin = rulesSource.indexOf("\n", start) + 1
+  const beforeEnd = rulesSource.lastIndexOf("\n", end)
+  return rulesSource.slice(afterBegin, beforeEnd)
+}
+
+// Returns the names of root-level collections that have a `match /{name}/{...}` block
+export function findSharedCollectionMatches(rulesSource: string): Set<string> {
+  const names = new Set<string>()
+  const pattern = /^ {4}match \/([A-Za-z0-9_]+)\/\{/gm
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(rulesSource)) !== null) {
+    names.add(match[1])
+  }
+  return names
+}
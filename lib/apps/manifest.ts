@@ -0,0 +1,49 @@
+import type * as React from "react"
+import type { LucideIcon } from "lucide-react"
+import type { AppSettingsDefinition } from "./app-settings"
+
+export type AppCategory = "Utilities" | "Games" | "Experiments" | "Social" | "Visual"
+export type AppStatus = "live" | "beta" | "comingSoon"
+
+/**
+ * A Firestore collection an app reads or writes.
+ * - "user" collections live under /users/{userId}/{name}/{docParam} and are owner-only;
+ *   their rules are generated from the manifest (see lib/apps/firestore-rules.ts).
+ * - "shared" collections live at the database root and keep hand-written rules in firestore.rules.
+ */
+export interface AppFirestoreCollection {
+  name: string
+  scope: "user" | "shared"
+  /** Wildcard used for the document ID in the rules match, e.g. "settingsId" */
+  docParam: string
+  /** First comment line above the generated rules block */
+  description: string
+}
+
+/**
+ * Single source of truth for an app. APP_REGISTRY, APP_COMPONENTS and the generated
+ * firestore.rules fragment are all derived from the list in lib/apps/manifests.ts.
+ */
+export interface AppManifest<TSettings = unknown> {
+  appId: string
+  name: string
+  description: string
+  category: AppCategory
+  tags: string[]
+  status: AppStatus
+  icon: LucideIcon
+  accent: string
+  featured?: boolean
+  Main: React.ComponentType
+  Settings?: React.ComponentType
+  /** Wraps both the Overview and Settings tabs, for apps that share state between them */
+  Provider?: React.ComponentType<{ children: React.ReactNode }>
+  /** Schema, defaults and storage for the app's settings document (see useAppSettings) */
+  settings?: AppSettingsDefinition<TSettings>
+  collections: AppFirestoreCollection[]
+}
+
+// Identity helper so each manifest gets its settings type inferred from the schema
+export function defineAppManifest<TSettings>(manifest: AppManifest<TSettings>): AppManifest<TSettings> {
+  return manifest
+}
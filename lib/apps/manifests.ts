@@ -0,0 +1,32 @@
+import type { AppManifest } from "./manifest"
+import { encryptionManifest } from "@/components/apps/encryption/manifest"
+import { diffCheckerManifest } from "@/components/apps/diffchecker/manifest"
+import { timeZoneManifest } from "@/components/apps/timezone/manifest"
+import { pickupSoccerManifest } from "@/components/apps/pickup-soccer/manifest"
+import { secretSantaManifest } from "@/components/apps/secret-santa/manifest"
+import { footballManagerTeamPickerManifest } from "@/components/apps/football-manager-team-picker/manifest"
+import { colorPaletteCrafterManifest } from "@/components/apps/color-palette-crafter/manifest"
+import { amerGauntletManifest } from "@/components/apps/amer-gauntlet/manifest"
+import { stlMonitorManifest } from "@/components/apps/stl-monitor/manifest"
+import { lmgtfyManifest } from "@/components/apps/lmgtfy/manifest"
+import { stickrManifest } from "@/components/apps/stickr/manifest"
+
+// Every app on the hub, in display order.
+// To add a new app, create components/apps/{appId}/manifest.ts and append it here.
+export const APP_MANIFESTS: AppManifest[] = [
+  encryptionManifest,
+  diffCheckerManifest,
+  timeZoneManifest,
+  pickupSoccerManifest,
+  secretSantaManifest,
+  footballManagerTeamPickerManifest,
+  colorPaletteCrafterManifest,
+  amerGauntletManifest,
+  stlMonitorManifest,
+  lmgtfyManifest,
+  stickrManifest,
+]
+
+export function getAppManifest(appId: string): AppManifest | undefined {
+  return APP_MANIFESTS.find(manifest => manifest.appId === appId)
+}
@@ -1,21 +1,13 @@
-import { 
-  Lock,
-  GitCompare,
-  Globe,
-  Users,
-  Gift,
-  Trophy,
-  Palette,
-  Shield,
-  BarChart3,
-  Radio,
-  Search,
-  LayoutGrid,
-  type LucideIcon
-} from "lucide-react"
-
-export type AppCategory = "Utilities" | "Games" | "Experiments" | "Social" | "Visual"
-export type AppStatus = "live" | "beta" | "comingSoon"
+import type { AppCategory, AppManifest, AppStatus } from "./manifest"
+import { APP_MANIFESTS } from "./manifests"
+import {
+  extractGeneratedRules,
+  findSharedCollectionMatches,
+  generateUserRulesFragment,
+} from "./firestore-rules"
+import type { LucideIcon } from "lucide-react"
+
+export type { AppCategory, AppStatus } from "./manifest"
 
 export interface AppEntry {
   appId: string
@@ -29,122 +21,13 @@ export interface AppEntry {
   featured?: boolean
 }
 
-export const APP_REGISTRY: AppEntry[] = [
-  {
-    appId: "encryption",
-    name: "Encryption Platform",
-    description: "Encode, decode ciphers and encryption utilities",
-    category: "Utilities",
-    tags: ["encryption", "security", "cipher", "encode", "decode"],
-    status: "live",
-    icon: Lock,
-    accent: "from-blue-500 to-cyan-500",
-  },
-  {
-    appId: "diffchecker",
-    name: "Diff Checker",
-    description: "Compare text files and find differences between two versions",
-    category: "Utilities",
-    tags: ["diff", "compare", "text", "file", "difference"],
-    status: "live",
-    icon: GitCompare,
-    accent: "from-purple-500 to-pink-500",
-  },
-  {
-    appId: "timezone",
-    name: "Time Zone Converter",
-    description: "Compare multiple time zones and convert times across the world",
-    category: "Utilities",
-    tags: ["timezone", "time", "converter", "world", "clock"],
-    status: "live",
-    icon: Globe,
-    accent: "from-orange-500 to-red-500",
-  },
-  {
-    appId: "pickup-soccer",
-    name: "Pickup Soccer",
-    description: "Schedule, join, create, and manage pickup soccer games",
-    category: "Social",
-    tags: ["soccer", "football", "sports", "pickup", "games", "scheduling"],
-    status: "live",
-    icon: Users,
-    accent: "from-green-500 to-emerald-500",
-  },
-  {
-    appId: "secret-santa",
-    name: "Secret Santa",
-    description: "Organize and manage Secret Santa gift exchanges",
-    category: "Social",
-    tags: ["gifts", "santa", "exchange", "holiday", "social"],
-    status: "live",
-    icon: Gift,
-    accent: "from-red-500 to-pink-500",
-  },
-  {
-    appId: "football-manager-team-picker",
-    name: "Football Manager Team Picker",
-    description: "Pick a random Football Manager team or multiple teams for you and your friends",
-    category: "Games",
-    tags: ["football", "fantasy", "team", "manager", "sports", "picker", "random"],
-    status: "live",
-    icon: Trophy,
-    accent: "from-yellow-500 to-orange-500",
-  },
-  {
-    appId: "color-palette-crafter",
-    name: "Color Crafter",
-    description: "Discover, create, and share beautiful color palettes",
-    category: "Visual",
-    tags: ["color", "palette", "design", "craft", "visual", "art"],
-    status: "live",
-    icon: Palette,
-    accent: "from-indigo-500 to-purple-500",
-  },
-  {
-    appId: "amer-gauntlet",
-    name: "Amer Gauntlet",
-    description: "Daily word puzzle challenge with leaderboards and streaks",
-    category: "Games",
-    tags: ["gauntlet", "challenge", "game", "puzzle", "word", "daily", "leaderboard"],
-    status: "live",
-    icon: Shield,
-    accent: "from-red-500 to-orange-500",
-  },
-  {
-    appId: "stl-monitor",
-    name: "STL Monitor",
-    description: "Real-time incident monitoring dashboard for Greater St. Louis",
-    category: "Utilities",
-    tags: ["stl", "st louis", "monitor", "traffic", "incidents", "weather", "map", "live"],
-    status: "live",
-    icon: Radio,
-    accent: "from-red-600 to-rose-500",
-    featured: true,
-  },
-  {
-    appId: "lmgtfy",
-    name: "Let Me Google That",
-    description: "Generate shareable links that play an animation before redirecting to Google search",
-    category: "Utilities",
-    tags: ["google", "search", "share", "funny", "lmgtfy", "link", "redirect"],
-    status: "live",
-    icon: Search,
-    accent: "from-blue-500 to-cyan-500",
-    featured: true,
-  },
-  {
-    appId: "stickr",
-    name: "Stickr",
-    description:
-      "Track Panini FIFA World Cup™ sticker duplicates and needs, then share a clean trade card for social media",
-    category: "Social",
-    tags: ["panini", "fifa", "world cup", "stickers", "trading", "collectibles", "album"],
-    status: "live",
-    icon: LayoutGrid,
-    accent: "from-green-600 to-teal-500",
-    featured: true,
-  },
-]
+function toAppEntry(manifest: AppManifest): AppEntry {
+  const { appId, name, description, category, tags, status, icon, accent, featured } = manifest
+  return { appId, name, description, category, tags, status, icon, accent, featured }
+}
+
+// Derived from the app manifests (see lib/apps/manifests.ts)
+export const APP_REGISTRY: AppEntry[] = APP_MANIFESTS.map(toAppEntry)
 
 export function getAppById(appId: string): AppEntry | undefined {
   return APP_REGISTRY.find(app => app.appId === appId)
@@ -171,12 +54,17 @@ export function searchApps(query: string): AppEntry[] {
   )
 }
 
-// Helper to validate app registry integrity
-export function validateAppRegistry(): { valid: boolean; errors: string[] } {
+// Helper to validate app registry integrity.
+// Pass the contents of firestore.rules to also check the rules against the manifests;
+// generateStaticParams does this so a mismatch fails the build.
+export function validateAppRegistry(
+  options: { firestoreRules?: string } = {}
+): { valid: boolean; errors: string[] } {
   const errors: string[] = []
   const appIds = new Set<string>()
+  const collectionOwners = new Map<string, string>()
 
-  APP_REGISTRY.forEach((app, index) => {
+  APP_MANIFESTS.forEach((app, index) => {
     // Check for duplicate appIds
     if (appIds.has(app.appId)) {
       errors.push(`Duplicate appId "${app.appId}" found at index ${index}`)
@@ -190,10 +78,56 @@ export function validateAppRegistry(): { valid: boolean; errors: string[] } {
     if (!app.name || app.name.trim() === "") {
       errors.push(`App "${app.appId}" has empty name`)
     }
+    if (!app.Main) {
+      errors.push(`App "${app.appId}" has no Main component`)
+    }
+
+    // Each collection belongs to exactly one app
+    app.collections.forEach(collection => {
+      const owner = collectionOwners.get(collection.name)
+      if (owner) {
+        errors.push(`Collection "${collection.name}" is declared by both "${owner}" and "${app.appId}"`)
+      }
+      collectionOwners.set(collection.name, app.appId)
+    })
+
+    // The settings document must live in one of the app's own user collections
+    if (app.settings) {
+      if (app.settings.appId !== app.appId) {
+        errors.push(`App "${app.appId}" uses the settings definition of "${app.settings.appId}"`)
+      }
+      const settingsCollection = app.collections.find(c => c.name === app.settings?.collection)
+      if (!settingsCollection || settingsCollection.scope !== "user") {
+        errors.push(
+          `App "${app.appId}" stores settings in "${app.settings.collection}" but does not declare it as a user collection`
+        )
+      }
+    }
   })
 
+  if (options.firestoreRules !== undefined) {
+    const expected = generateUserRulesFragment(APP_MANIFESTS)
+    const actual = extractGeneratedRules(options.firestoreRules)
+    if (actual === null) {
+      errors.push("firestore.rules is missing the GENERATED app user collections markers")
+    } else if (actual !== expected) {
+      errors.push(
+        `firestore.rules is out of date with the app manifests. Replace the GENERATED block with:\n${expected}`
+      )
+    }
+
+    const sharedMatches = findSharedCollectionMatches(options.firestoreRules)
+    APP_MANIFESTS.forEach(app => {
+      app.collections
+        .filter(collection => collection.scope === "shared" && !sharedMatches.has(collection.name))
+        .forEach(collection => {
+          errors.push(`App "${app.appId}" uses shared collection "${collection.name}" but firestore.rules has no match for it`)
+        })
+    })
+  }
+
   return {
     valid: errors.length === 0,
     errors,
   }
-}
\ No newline at end of file
+}
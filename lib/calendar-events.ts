@@ -0,0 +1,97 @@
+// Calendar events for Pickup Soccer games and Secret Santa exchanges, shared by the in-app .ics
+// downloads and the calendarFeed Cloud Function so both produce the same events. Like ics.ts, this
+// is compiled into functions/ and may only import relative, browser-free modules.
+
+import { buildIcsCalendar, type IcsEvent } from "./ics"
+
+export const SITE_URL = "https://amer.lol"
+
+// Games have no end time, so calendars show a typical pickup game's length
+export const GAME_DURATION_MINUTES = 90
+
+// Used when a user hasn't saved settings; the same as the apps' own defaults
+export const DEFAULT_GAME_REMINDER_HOURS = 24
+export const DEFAULT_EXCHANGE_REMINDER_DAYS = 7
+
+export interface GameEventSource {
+  id: string
+  title: string
+  description: string
+  /** YYYY-MM-DD */
+  date: string
+  /** HH:mm, local to wherever the game is played */
+  time: string
+  location: string
+}
+
+export interface ExchangeEventSource {
+  id: string
+  name: string
+  description: string
+  budget: string
+  /** YYYY-MM-DD */
+  exchangeDate: string
+}
+
+export interface CalendarReminders {
+  gameReminderHours: number
+  exchangeReminderDays: number
+}
+
+// Wall-clock date and time in the UTC fields of a Date, for "floating" and "date" timing
+function toWallClock(date: string, time = "00:00"): Date | null {
+  const [year, month, day] = date.split("-").map(Number)
+  const [hours, minutes] = time.split(":").map(Number)
+  const result = new Date(Date.UTC(year, month - 1, day, hours || 0, minutes || 0))
+  return isNaN(result.getTime()) ? null : result
+}
+
+/**
+ * Games carry no time zone and the app shows their time as entered, so events use floating times:
+ * 7pm stays 7pm whichever zone the calendar is in. Null if the game has no valid date.
+ */
+export function buildGameEvent(game: GameEventSource, reminderHours: number): IcsEvent | null {
+  const start = game.date ? toWallClock(game.date, game.time) : null
+  if (!start) return null
+  return {
+    uid: `game-${game.id}@amer.lol`,
+    start,
+    end: new Date(start.getTime() + GAME_DURATION_MINUTES * 60000),
+    timing: "floating",
+    summary: game.title || "Pickup Soccer",
+    description: game.description || undefined,
+    location: game.location || undefined,
+    url: `${SITE_URL}/a/pickup-soccer`,
+    reminderMinutes: reminderHours * 60,
+  }
+}
+
+/** Exchanges are all-day events; the reminder fires at the start of the day, `reminderDays` before */
+export function buildExchangeEvent(exchange: ExchangeEventSource, reminderDays: number): IcsEvent | null {
+  const start = exchange.exchangeDate ? toWallClock(exchange.exchangeDate) : null
+  if (!start) return null
+  const details = [exchange.description, exchange.budget && `Budget: ${exchange.budget}`].filter(Boolean)
+  return {
+    uid: `exchange-${exchange.id}@amer.lol`,
+    start,
+    end: new Date(start.getTime() + 24 * 60 * 60000),
+    timing: "date",
+    summary: `Secret Santa: ${exchange.name || "Gift exchange"}`,
+    description: details.length > 0 ? details.join("\n") : undefined,
+    url: `${SITE_URL}/a/secret-santa`,
+    reminderMinutes: reminderDays * 24 * 60,
+  }
+}
+
+/** The subscribable calendar: every game the user plays in and every exchange they're part of */
+export function buildPersonalCalendar(
+  games: GameEventSource[],
+  exchanges: ExchangeEventSource[],
+  reminders: CalendarReminders
+): string {
+  const events = [
+    ...games.map((game) => buildGameEvent(game, reminders.gameReminderHours)),
+    ...exchanges.map((exchange) => buildExchangeEvent(exchange, reminders.exchangeReminderDays)),
+  ].filter((event): event is IcsEvent => event !== null)
+  return buildIcsCalendar(events, { name: "amer.lol", refreshMinutes: 60 })
+}
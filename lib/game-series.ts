@@ -0,0 +1,105 @@
+// Recurring Pickup Soccer games, shared by the app and the materializeSeries Cloud Function so both
+// create the same occurrences. A series stores its rule; occurrences are ordinary `games` documents
+// with deterministic IDs (`{seriesId}_{date}`). Dates are YYYY-MM-DD strings and all arithmetic is
+// on whole days. Like calendar-events.ts, this is compiled into functions/ and may only import
+// relative, browser-free modules.
+
+import type { GeoPoint } from "./geo"
+
+export type RecurrenceFrequency = "weekly" | "biweekly" | "custom"
+
+export interface RecurrenceRule {
+  /** "weekly" and "custom" repeat every week, "biweekly" every other week from the start date */
+  frequency: RecurrenceFrequency
+  /** Days of the week, 0 = Sunday */
+  weekdays: number[]
+}
+
+/** How far ahead occurrences are created */
+export const MATERIALIZE_DAYS = 28
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split("-").map(Number)
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS)
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10)
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(toDayNumber(date) + days)
+}
+
+export function getWeekday(date: string): number {
+  // Day 0 of the epoch was a Thursday
+  return (toDayNumber(date) + 4) % 7
+}
+
+export function getOccurrenceId(seriesId: string, date: string): string {
+  return `${seriesId}_${date}`
+}
+
+/** Occurrence dates between `from` and `to` (inclusive) for a series starting on `startDate` */
+export function getOccurrenceDates(
+  rule: RecurrenceRule,
+  startDate: string,
+  endDate: string,
+  from: string,
+  to: string
+): string[] {
+  const first = Math.max(toDayNumber(startDate), toDayNumber(from))
+  const last = endDate ? Math.min(toDayNumber(endDate), toDayNumber(to)) : toDayNumber(to)
+  // Biweekly counts weeks from the Sunday on or before the start date
+  const anchorWeek = Math.floor((toDayNumber(startDate) + 4) / 7)
+
+  const dates: string[] = []
+  for (let day = first; day <= last; day++) {
+    if (!rule.weekdays.includes((day + 4) % 7)) continue
+    if (rule.frequency === "biweekly" && (Math.floor((day + 4) / 7) - anchorWeek) % 2 !== 0) continue
+    dates.push(fromDayNumber(day))
+  }
+  return dates
+}
+
+/** The series fields an occurrence is built from */
+export interface OccurrenceSource {
+  id: string
+  title: string
+  description: string
+  time: string
+  location: string
+  point: GeoPoint | null
+  maxPlayers: number
+  regulars: string[]
+  regularsMode: "join" | "invite"
+  createdBy: string
+}
+
+// Fields of a new occurrence, without timestamps. Signed-up regulars beyond the player limit go on the waitlist.
+export function buildOccurrenceFields(series: OccurrenceSource, date: string) {
+  const signUp = series.regularsMode === "join"
+  return {
+    title: series.title,
+    description: series.description,
+    date,
+    time: series.time,
+    location: series.location,
+    point: series.point,
+    maxPlayers: series.maxPlayers,
+    players: signUp ? series.regulars.slice(0, series.maxPlayers) : [],
+    waitlist: signUp ? series.regulars.slice(series.maxPlayers) : [],
+    invited: signUp ? [] : series.regulars,
+    status: "scheduled" as const,
+    seriesId: series.id,
+    detached: false,
+    ratings: {},
+    teamConstraints: { together: [], apart: [] },
+    teams: [],
+    result: null,
+    mvpVotes: {},
+    createdBy: series.createdBy,
+  }
+}
@@ -0,0 +1,28 @@
+// Points on the map and distances between them, shared by apps that place things on a map
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+// Calculate distance between two points in miles
+export function calculateDistance(p1: GeoPoint, p2: GeoPoint): number {
+  const R = 3959 // Earth's radius in miles
+  const dLat = (p2.lat - p1.lat) * Math.PI / 180
+  const dLng = (p2.lng - p1.lng) * Math.PI / 180
+  const a = 
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(p1.lat * Math.PI / 180) * Math.cos(p2.lat * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return R * c
+}
+
+/** Reads a stored { lat, lng } map, or null if it isn't a valid point */
+export function toGeoPoint(value: unknown): GeoPoint | null {
+  if (typeof value !== "object" || value === null) return null
+  const { lat, lng } = value as Record<string, unknown>
+  if (typeof lat !== "number" || typeof lng !== "number") return null
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+  return { lat, lng }
+}
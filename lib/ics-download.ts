@@ -0,0 +1,18 @@
+import { buildIcsCalendar, type IcsEvent } from "./ics"
+
+// Browser-only companion to ics.ts, which stays free of DOM APIs for the Cloud Functions
+
+/** e.g. "Thursday Night Game" -> "thursday-night-game.ics" */
+export function toIcsFileName(title: string): string {
+  return `${title.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "").toLowerCase() || "event"}.ics`
+}
+
+export function downloadIcsEvents(events: IcsEvent[], fileName: string) {
+  const blob = new Blob([buildIcsCalendar(events)], { type: "text/calendar" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
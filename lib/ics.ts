@@ -0,0 +1,104 @@
+// Minimal iCalendar (RFC 5545) writer for one-off events. Times are written in UTC by default, so
+// calendar apps show them in the viewer's own zone without needing VTIMEZONE definitions. This file
+// is also compiled into the Cloud Functions (see functions/), so it must not use browser APIs.
+
+/**
+ * How an event's start and end are written:
+ * - "utc": the exact instants
+ * - "floating": the wall-clock time held in the dates' UTC fields, shown as-is in every zone
+ * - "date": all-day, from the start date up to but not including the end date
+ */
+export type IcsTiming = "utc" | "floating" | "date"
+
+export interface IcsEvent {
+  /** Globally unique and stable, so re-importing updates the event instead of duplicating it */
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  /** Defaults to "utc" */
+  timing?: IcsTiming
+  /** Show a reminder this many minutes before the start */
+  reminderMinutes?: number
+}
+
+export interface IcsCalendarOptions {
+  /** Shown by some apps as the calendar's name when subscribing */
+  name?: string
+  /** How often subscribers should check for changes */
+  refreshMinutes?: number
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function formatIcsTime(property: string, date: Date, timing: IcsTiming): string {
+  const utc = formatIcsDate(date)
+  if (timing === "date") return `${property};VALUE=DATE:${utc.slice(0, 8)}`
+  return `${property}:${timing === "floating" ? utc.slice(0, -1) : utc}`
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ""
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ""
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+export function buildIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions = {}): string {
+  const stamp = formatIcsDate(new Date())
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//amer.lol//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name ? [`X-WR-CALNAME:${escapeIcsText(options.name)}`] : []),
+    ...(options.refreshMinutes
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`]
+      : []),
+  ]
+  events.forEach((event) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      formatIcsTime("DTSTART", event.start, event.timing ?? "utc"),
+      formatIcsTime("DTEND", event.end, event.timing ?? "utc"),
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    if (event.reminderMinutes !== undefined) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeIcsText(event.summary)}`,
+        `TRIGGER:-PT${Math.max(0, Math.round(event.reminderMinutes))}M`,
+        "END:VALARM"
+      )
+    }
+    lines.push("END:VEVENT")
+  })
+  lines.push("END:VCALENDAR")
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n"
+}
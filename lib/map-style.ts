@@ -0,0 +1,46 @@
+// Raster base maps for maplibre-gl: CARTO light and dark, and Esri imagery for satellite. Shared by
+// the STL Monitor and Pickup Soccer maps.
+
+import type { StyleSpecification } from "maplibre-gl"
+
+export type BaseMapStyle = "dark" | "light" | "satellite"
+
+const CARTO_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+const ESRI_ATTRIBUTION = 'Tiles &copy; <a href="https://www.esri.com">Esri</a>, Maxar, Earthstar Geographics'
+
+// Get tile URLs for the chosen map style
+function getTileUrls(mapStyle: BaseMapStyle) {
+  if (mapStyle === "satellite") {
+    return ["https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"]
+  }
+  const style = mapStyle === "dark" ? "dark_all" : "light_all"
+  return [
+    `https://a.basemaps.cartocdn.com/${style}/{z}/{x}/{y}.png`,
+    `https://b.basemaps.cartocdn.com/${style}/{z}/{x}/{y}.png`,
+    `https://c.basemaps.cartocdn.com/${style}/{z}/{x}/{y}.png`,
+  ]
+}
+
+// Create map style object
+export function createMapStyle(mapStyle: BaseMapStyle): StyleSpecification {
+  return {
+    version: 8,
+    sources: {
+      "osm-tiles": {
+        type: "raster",
+        tiles: getTileUrls(mapStyle),
+        tileSize: 256,
+        attribution: mapStyle === "satellite" ? ESRI_ATTRIBUTION : CARTO_ATTRIBUTION,
+      },
+    },
+    layers: [
+      {
+        id: "osm-tiles",
+        type: "raster",
+        source: "osm-tiles",
+        minzoom: 0,
+        maxzoom: 19,
+      },
+    ],
+  }
+}
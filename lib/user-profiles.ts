@@ -0,0 +1,95 @@
+// Display names of other users, shared by every app that lists people (game rosters, gift
+// exchanges). `users/{uid}` is private to its owner, so each user also publishes their name to the
+// world-readable `userProfiles/{uid}`, and lookups read that in batches. Names are cached for the
+// session; a rename shows up for others after a reload.
+
+import type { User } from "firebase/auth"
+import {
+  collection,
+  doc,
+  documentId,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  type DocumentData,
+} from "firebase/firestore"
+import { db } from "@/lib/firebase/config"
+
+// Firestore's "in" filter takes at most 30 values
+const BATCH_SIZE = 30
+
+// null: looked up, but the user hasn't published a name
+const names = new Map<string, string | null>()
+const requests = new Map<string, Promise<void>>()
+const listeners = new Set<() => void>()
+
+function readName(data: DocumentData | undefined): string | null {
+  return data?.displayName || data?.username || null
+}
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+async function fetchBatch(uids: string[]) {
+  const snapshot = await getDocs(query(collection(db, "userProfiles"), where(documentId(), "in", uids)))
+  uids.forEach((uid) => names.set(uid, null))
+  snapshot.forEach((profile) => names.set(profile.id, readName(profile.data())))
+}
+
+/** Names already in the cache; unlike resolveUserNames this never reads Firestore */
+export function getCachedUserNames(uids: string[]): Record<string, string | null> {
+  return Object.fromEntries(uids.filter((uid) => names.has(uid)).map((uid) => [uid, names.get(uid) ?? null]))
+}
+
+/**
+ * Looks up the names of the given users, reading only the ones that aren't cached or already
+ * being read. Users whose lookup failed are left out, so the next call tries them again.
+ */
+export async function resolveUserNames(uids: string[]): Promise<Record<string, string | null>> {
+  const missing = Array.from(new Set(uids)).filter((uid) => uid && !names.has(uid) && !requests.has(uid))
+
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = missing.slice(i, i + BATCH_SIZE)
+    const request = fetchBatch(batch)
+      .catch((error) => console.error("Failed to load user names:", error))
+      .finally(() => batch.forEach((uid) => requests.delete(uid)))
+    batch.forEach((uid) => requests.set(uid, request))
+  }
+
+  await Promise.all(uids.map((uid) => requests.get(uid)))
+  return getCachedUserNames(uids)
+}
+
+/** Calls `listener` whenever a cached name changes, e.g. after the user renames themselves */
+export function subscribeToUserNames(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Publishes the user's name for others to see; call after they change it in Account Settings */
+export async function publishUserProfile(uid: string, displayName: string) {
+  await setDoc(doc(db, "userProfiles", uid), { displayName, updatedAt: serverTimestamp() })
+  names.set(uid, displayName || null)
+  notify()
+}
+
+/**
+ * Copies the signed-in user's name from their private document to their public profile if the two
+ * differ. Run on sign-in, so accounts from before public profiles existed show up by name.
+ */
+export async function syncUserProfile(user: User) {
+  const [userDoc, profileDoc] = await Promise.all([
+    getDoc(doc(db, "users", user.uid)),
+    getDoc(doc(db, "userProfiles", user.uid)),
+  ])
+  const name = readName(userDoc.data()) || user.displayName || ""
+  if (name && name !== readName(profileDoc.data())) {
+    await publishUserProfile(user.uid, name)
+  }
+}